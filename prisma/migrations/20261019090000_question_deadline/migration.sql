@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "question_deadline_at" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "GamePhase" AS ENUM ('WAITING', 'CATEGORY_SELECTION', 'QUESTION', 'QUESTION_SELECTED', 'STEAL_MODE_ACTIVE', 'STEAL_MODE_ON_TIMEOUT', 'ROUND_COMPLETED', 'COMPLETED');
+
+-- Normalise legacy free-form phases
+UPDATE "games" SET "game_phase" = CASE
+    WHEN LOWER("game_phase") = 'waiting' THEN 'WAITING'
+    WHEN LOWER("game_phase") = 'category_selection' THEN 'CATEGORY_SELECTION'
+    WHEN LOWER("game_phase") = 'question' THEN 'QUESTION'
+    WHEN UPPER("game_phase") IN ('QUESTION_SELECTED', 'STEAL_MODE_ACTIVE', 'STEAL_MODE_ON_TIMEOUT', 'ROUND_COMPLETED') THEN UPPER("game_phase")
+    WHEN LOWER("game_phase") IN ('completed', 'game_over') THEN 'COMPLETED'
+    WHEN LOWER("status") = 'completed' THEN 'COMPLETED'
+    ELSE 'WAITING'
+END;
+
+-- AlterTable
+ALTER TABLE "games" ALTER COLUMN "game_phase" DROP DEFAULT,
+ALTER COLUMN "game_phase" TYPE "GamePhase" USING ("game_phase"::"GamePhase"),
+ALTER COLUMN "game_phase" SET DEFAULT 'WAITING';
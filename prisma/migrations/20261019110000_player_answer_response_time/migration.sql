@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "player_answers" ADD COLUMN     "response_time_ms" INTEGER;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "LifelineType" AS ENUM ('FIFTY_FIFTY', 'EXTRA_TIME', 'DOUBLE_POINTS', 'FREE_SKIP');
+
+-- AlterTable
+ALTER TABLE "subscription_type" ADD COLUMN     "double_points_lifelines" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "extra_time_lifelines" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "fifty_fifty_lifelines" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "free_skip_lifelines" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "lifeline_uses" (
+    "id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "game_player_id" TEXT NOT NULL,
+    "question_id" TEXT,
+    "type" "LifelineType" NOT NULL,
+    "details" JSONB,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lifeline_uses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lifeline_uses_game_id_game_player_id_idx" ON "lifeline_uses"("game_id", "game_player_id");
+
+-- AddForeignKey
+ALTER TABLE "lifeline_uses" ADD CONSTRAINT "lifeline_uses_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lifeline_uses" ADD CONSTRAINT "lifeline_uses_game_player_id_fkey" FOREIGN KEY ("game_player_id") REFERENCES "game_players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lifeline_uses" ADD CONSTRAINT "lifeline_uses_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
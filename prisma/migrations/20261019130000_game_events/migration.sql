@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "GameEventType" AS ENUM ('PLAYER_JOINED', 'PLAYER_LEFT', 'GAME_STARTED', 'CATEGORY_SELECTED', 'QUESTION_REVEALED', 'ANSWER_SUBMITTED', 'QUESTION_SKIPPED', 'QUESTION_TIMED_OUT', 'STEAL_OPENED', 'TURN_ADVANCED', 'PHASE_CHANGED', 'LIFELINE_USED', 'GAME_COMPLETED');
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "event_sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "game_events" (
+    "id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" "GameEventType" NOT NULL,
+    "game_player_id" TEXT,
+    "question_id" TEXT,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "payload" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_events_game_id_sequence_key" ON "game_events"("game_id", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "game_events" ADD CONSTRAINT "game_events_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_events" ADD CONSTRAINT "game_events_game_player_id_fkey" FOREIGN KEY ("game_player_id") REFERENCES "game_players"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rooms" ADD COLUMN     "allow_spectators" BOOLEAN NOT NULL DEFAULT true;
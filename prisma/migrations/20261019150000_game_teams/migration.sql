@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "is_team_game" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "game_players" ADD COLUMN     "team_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "game_teams" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "team_order" INTEGER NOT NULL,
+    "captain_id" TEXT,
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "correct_answers" INTEGER NOT NULL DEFAULT 0,
+    "wrong_answers" INTEGER NOT NULL DEFAULT 0,
+    "steals" INTEGER NOT NULL DEFAULT 0,
+    "turns_taken" INTEGER NOT NULL DEFAULT 0,
+    "final_rank" INTEGER,
+
+    CONSTRAINT "game_teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_teams_game_id_team_order_key" ON "game_teams"("game_id", "team_order");
+
+-- AddForeignKey
+ALTER TABLE "game_players" ADD CONSTRAINT "game_players_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "game_teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_teams" ADD CONSTRAINT "game_teams_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_teams" ADD CONSTRAINT "game_teams_captain_id_fkey" FOREIGN KEY ("captain_id") REFERENCES "game_players"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,103 @@
+-- CreateEnum
+CREATE TYPE "TournamentFormat" AS ENUM ('SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'ROUND_ROBIN');
+
+-- CreateEnum
+CREATE TYPE "TournamentStatus" AS ENUM ('REGISTRATION', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "TournamentBracket" AS ENUM ('WINNERS', 'LOSERS', 'GRAND_FINAL', 'ROUND_ROBIN');
+
+-- CreateEnum
+CREATE TYPE "TournamentMatchStatus" AS ENUM ('PENDING', 'READY', 'COMPLETED', 'BYE');
+
+-- CreateTable
+CREATE TABLE "tournaments" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "format" "TournamentFormat" NOT NULL DEFAULT 'SINGLE_ELIMINATION',
+    "status" "TournamentStatus" NOT NULL DEFAULT 'REGISTRATION',
+    "language_id" TEXT NOT NULL,
+    "host_id" TEXT NOT NULL,
+    "max_participants" INTEGER NOT NULL DEFAULT 16,
+    "starts_at" TIMESTAMP(3),
+    "winner_id" TEXT,
+
+    CONSTRAINT "tournaments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_participants" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tournament_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL DEFAULT 0,
+    "seed" INTEGER,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "draws" INTEGER NOT NULL DEFAULT 0,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "score_for" INTEGER NOT NULL DEFAULT 0,
+    "score_against" INTEGER NOT NULL DEFAULT 0,
+    "eliminated_round" INTEGER,
+    "final_rank" INTEGER,
+
+    CONSTRAINT "tournament_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_matches" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "tournament_id" TEXT NOT NULL,
+    "bracket" "TournamentBracket" NOT NULL,
+    "round" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "status" "TournamentMatchStatus" NOT NULL DEFAULT 'PENDING',
+    "player1_id" TEXT,
+    "player2_id" TEXT,
+    "winner_id" TEXT,
+    "loser_id" TEXT,
+    "player1_score" INTEGER,
+    "player2_score" INTEGER,
+    "game_id" TEXT,
+    "next_match_id" TEXT,
+    "next_match_slot" INTEGER,
+    "loser_next_match_id" TEXT,
+    "loser_next_match_slot" INTEGER,
+    "is_override" BOOLEAN NOT NULL DEFAULT false,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "tournament_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_participants_tournament_id_user_id_key" ON "tournament_participants"("tournament_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_matches_game_id_key" ON "tournament_matches"("game_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_matches_tournament_id_bracket_round_position_key" ON "tournament_matches"("tournament_id", "bracket", "round", "position");
+
+-- AddForeignKey
+ALTER TABLE "tournaments" ADD CONSTRAINT "tournaments_language_id_fkey" FOREIGN KEY ("language_id") REFERENCES "languages"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournaments" ADD CONSTRAINT "tournaments_host_id_fkey" FOREIGN KEY ("host_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_participants" ADD CONSTRAINT "tournament_participants_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_participants" ADD CONSTRAINT "tournament_participants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_matches" ADD CONSTRAINT "tournament_matches_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_matches" ADD CONSTRAINT "tournament_matches_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- AlterEnum
+ALTER TYPE "GameMode" ADD VALUE 'DAILY_CHALLENGE';
+
+-- CreateTable
+CREATE TABLE "daily_challenges" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "date" DATE NOT NULL,
+    "language_id" TEXT NOT NULL,
+
+    CONSTRAINT "daily_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "daily_challenge_questions" (
+    "id" TEXT NOT NULL,
+    "challenge_id" TEXT NOT NULL,
+    "question_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "daily_challenge_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "daily_challenge_attempts" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "challenge_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "correct_answers" INTEGER NOT NULL DEFAULT 0,
+    "wrong_answers" INTEGER NOT NULL DEFAULT 0,
+    "total_response_time_ms" INTEGER NOT NULL DEFAULT 0,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "daily_challenge_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "daily_streaks" (
+    "id" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "current_streak" INTEGER NOT NULL DEFAULT 0,
+    "longest_streak" INTEGER NOT NULL DEFAULT 0,
+    "last_played_date" DATE,
+
+    CONSTRAINT "daily_streaks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_challenges_date_language_id_key" ON "daily_challenges"("date", "language_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_challenge_questions_challenge_id_position_key" ON "daily_challenge_questions"("challenge_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_challenge_questions_challenge_id_question_id_key" ON "daily_challenge_questions"("challenge_id", "question_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_challenge_attempts_game_id_key" ON "daily_challenge_attempts"("game_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_challenge_attempts_challenge_id_user_id_key" ON "daily_challenge_attempts"("challenge_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_streaks_user_id_key" ON "daily_streaks"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "daily_challenges" ADD CONSTRAINT "daily_challenges_language_id_fkey" FOREIGN KEY ("language_id") REFERENCES "languages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_challenge_questions" ADD CONSTRAINT "daily_challenge_questions_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "daily_challenges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_challenge_questions" ADD CONSTRAINT "daily_challenge_questions_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_challenge_attempts" ADD CONSTRAINT "daily_challenge_attempts_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "daily_challenges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_challenge_attempts" ADD CONSTRAINT "daily_challenge_attempts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_challenge_attempts" ADD CONSTRAINT "daily_challenge_attempts_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_streaks" ADD CONSTRAINT "daily_streaks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
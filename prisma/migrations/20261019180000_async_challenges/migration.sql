@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "AsyncChallengeStatus" AS ENUM ('PENDING', 'ACTIVE', 'COMPLETED', 'DECLINED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "async_challenges" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "challenger_id" TEXT NOT NULL,
+    "opponent_id" TEXT NOT NULL,
+    "status" "AsyncChallengeStatus" NOT NULL DEFAULT 'PENDING',
+    "turn_hours" INTEGER NOT NULL,
+    "turn_deadline_at" TIMESTAMP(3),
+    "missed_turns" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "async_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "async_challenges_game_id_key" ON "async_challenges"("game_id");
+
+-- CreateIndex
+CREATE INDEX "async_challenges_challenger_id_status_idx" ON "async_challenges"("challenger_id", "status");
+
+-- CreateIndex
+CREATE INDEX "async_challenges_opponent_id_status_idx" ON "async_challenges"("opponent_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "async_challenges" ADD CONSTRAINT "async_challenges_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "async_challenges" ADD CONSTRAINT "async_challenges_challenger_id_fkey" FOREIGN KEY ("challenger_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "async_challenges" ADD CONSTRAINT "async_challenges_opponent_id_fkey" FOREIGN KEY ("opponent_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "game_players" ADD COLUMN     "is_bot" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "player_ratings" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "mode" "GameMode" NOT NULL,
+    "category_id" TEXT,
+    "rating" DOUBLE PRECISION NOT NULL DEFAULT 1500,
+    "deviation" DOUBLE PRECISION NOT NULL DEFAULT 350,
+    "games_played" INTEGER NOT NULL DEFAULT 0,
+    "last_played_at" TIMESTAMP(3),
+
+    CONSTRAINT "player_ratings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rating_history" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rating_id" TEXT NOT NULL,
+    "game_id" TEXT,
+    "rating" DOUBLE PRECISION NOT NULL,
+    "deviation" DOUBLE PRECISION NOT NULL,
+    "change" DOUBLE PRECISION NOT NULL,
+    "rank" INTEGER,
+
+    CONSTRAINT "rating_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_ratings_mode_category_id_rating_idx" ON "player_ratings"("mode", "category_id", "rating");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_ratings_user_id_mode_category_id_key" ON "player_ratings"("user_id", "mode", "category_id");
+
+-- CreateIndex
+CREATE INDEX "rating_history_rating_id_created_at_idx" ON "rating_history"("rating_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "player_ratings" ADD CONSTRAINT "player_ratings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_ratings" ADD CONSTRAINT "player_ratings_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rating_history" ADD CONSTRAINT "rating_history_rating_id_fkey" FOREIGN KEY ("rating_id") REFERENCES "player_ratings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rating_history" ADD CONSTRAINT "rating_history_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "adaptive_difficulty" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "game_settings" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "total_questions" INTEGER,
+    "questions_per_player" INTEGER,
+    "question_time" INTEGER,
+    "steal_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "steal_time" INTEGER,
+    "points_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "category_repeat_limit" INTEGER,
+    "skip_penalty" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "game_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_settings_game_id_key" ON "game_settings"("game_id");
+
+-- AddForeignKey
+ALTER TABLE "game_settings" ADD CONSTRAINT "game_settings_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "game_selections" ADD COLUMN     "question_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "game_selections_game_id_is_used_idx" ON "game_selections"("game_id", "is_used");
+
+-- AddForeignKey
+ALTER TABLE "game_selections" ADD CONSTRAINT "game_selections_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "AbandonReason" AS ENUM ('INACTIVITY', 'HOST_ABANDONED');
+
+-- AlterEnum
+ALTER TYPE "GamePhase" ADD VALUE 'PAUSED';
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "GameEventType" ADD VALUE 'GAME_PAUSED';
+ALTER TYPE "GameEventType" ADD VALUE 'GAME_RESUMED';
+ALTER TYPE "GameEventType" ADD VALUE 'GAME_ABANDONED';
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "abandon_reason" "AbandonReason",
+ADD COLUMN     "abandoned_at" TIMESTAMP(3),
+ADD COLUMN     "paused_at" TIMESTAMP(3),
+ADD COLUMN     "paused_phase" "GamePhase",
+ADD COLUMN     "paused_remaining_ms" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "games_status_updated_at_idx" ON "games"("status", "updated_at");
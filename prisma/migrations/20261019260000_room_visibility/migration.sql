@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "RoomVisibility" AS ENUM ('PUBLIC', 'PRIVATE', 'PASSWORD');
+
+-- AlterEnum
+ALTER TYPE "RoomStatus" ADD VALUE 'EXPIRED';
+
+-- AlterEnum
+ALTER TYPE "AbandonReason" ADD VALUE 'ROOM_EXPIRED';
+
+-- AlterTable
+ALTER TABLE "rooms" ADD COLUMN     "is_locked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "password" TEXT,
+ADD COLUMN     "visibility" "RoomVisibility" NOT NULL DEFAULT 'PRIVATE';
+
+-- CreateIndex
+CREATE INDEX "rooms_visibility_status_idx" ON "rooms"("visibility", "status");
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "QuestionKind" AS ENUM ('OPTIONS', 'TRUE_FALSE', 'TEXT');
+
+-- CreateEnum
+CREATE TYPE "ToleranceType" AS ENUM ('ABSOLUTE', 'PERCENT');
+
+-- AlterTable
+ALTER TABLE "question_types" ADD COLUMN     "kind" "QuestionKind" NOT NULL DEFAULT 'OPTIONS';
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "article_sensitive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "case_sensitive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "match_threshold" INTEGER,
+ADD COLUMN     "numeric_tolerance" DOUBLE PRECISION,
+ADD COLUMN     "tolerance_type" "ToleranceType" NOT NULL DEFAULT 'ABSOLUTE';
+
+-- AlterTable
+ALTER TABLE "answers" ADD COLUMN     "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "player_answers" ADD COLUMN     "answer_text" TEXT,
+ADD COLUMN     "similarity" INTEGER;
+
+-- Types the apps already treat as typed or true/false answers
+UPDATE "question_types" SET "kind" = 'TEXT' WHERE "name" = 'Text';
+UPDATE "question_types" SET "kind" = 'TRUE_FALSE' WHERE "name" = 'Bools';
@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "QuestionKind" ADD VALUE 'MULTI_SELECT';
+ALTER TYPE "QuestionKind" ADD VALUE 'ORDERING';
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "true_false_answer" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "answers" ADD COLUMN     "position" INTEGER;
+
+-- AlterTable
+ALTER TABLE "player_answers" ADD COLUMN     "credit" DOUBLE PRECISION,
+ADD COLUMN     "submission" JSONB;
+
+-- True/false questions keep their answer on the question, taken from the
+-- correct True/False answer row they were imported with
+UPDATE "questions" AS q
+SET "true_false_answer" = LOWER(TRIM(a."text")) = 'true'
+FROM "answers" AS a, "question_types" AS t
+WHERE a."question_id" = q."id"
+  AND a."is_correct" = true
+  AND t."id" = q."question_type_id"
+  AND t."kind" = 'TRUE_FALSE';
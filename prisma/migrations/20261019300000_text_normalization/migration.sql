@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN     "normalized_text" TEXT;
+
+-- CreateIndex
+CREATE INDEX "questions_language_id_normalized_text_idx" ON "questions"("language_id", "normalized_text");
+
+-- Existing questions get their normalised text the way the app builds it:
+-- Eastern Arabic digits made western and, for Arabic, tashkeel and tatweel
+-- dropped and alef/hamza variants, alef maqsura and taa marbuta folded.
+-- Accents of English questions are folded once the question is saved again.
+UPDATE "questions" AS q
+SET "normalized_text" = LOWER(TRIM(REGEXP_REPLACE(
+  TRANSLATE(
+    CASE
+      WHEN l."code" ~* '^ar([-_]|$)' THEN REGEXP_REPLACE(
+        TRANSLATE(q."text", 'آأإٱؤئىةـ', 'ااااوييه'),
+        '[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]',
+        '',
+        'g'
+      )
+      ELSE q."text"
+    END,
+    '٠١٢٣٤٥٦٧٨٩۰۱۲۳۴۵۶۷۸۹٫٬',
+    '01234567890123456789.,'
+  ),
+  '\s+',
+  ' ',
+  'g'
+)))
+FROM "languages" AS l
+WHERE l."id" = q."language_id";
@@ -0,0 +1,85 @@
+import { matchTextAnswer } from './stringSimilarity.helper';
+
+describe('matchTextAnswer', () => {
+  it('should accept close spellings and any alias', () => {
+    expect(matchTextAnswer('Shakespear', ['William Shakespeare'])).toEqual(
+      expect.objectContaining({ is_match: false }),
+    );
+
+    const result = matchTextAnswer('Shakespear', [
+      'William Shakespeare',
+      'Shakespeare',
+    ]);
+    expect(result.is_match).toBe(true);
+    expect(result.matched).toBe('Shakespeare');
+    expect(result.similarity).toBeGreaterThanOrEqual(80);
+  });
+
+  it('should report how close a wrong answer came', () => {
+    const result = matchTextAnswer('Paris', ['London']);
+
+    expect(result.is_match).toBe(false);
+    expect(result.matched).toBeNull();
+    expect(result.similarity).toBeLessThan(50);
+  });
+
+  it('should use the question threshold', () => {
+    expect(
+      matchTextAnswer('Shakespear', ['Shakespeare'], { threshold: 100 })
+        .is_match,
+    ).toBe(false);
+  });
+
+  it('should ignore case and articles unless asked not to', () => {
+    expect(matchTextAnswer('the beatles', ['Beatles']).similarity).toBe(100);
+    expect(
+      matchTextAnswer('the beatles', ['Beatles'], {
+        case_sensitive: true,
+        article_sensitive: true,
+        threshold: 100,
+      }).is_match,
+    ).toBe(false);
+  });
+
+  it('should compare numbers within the tolerance', () => {
+    expect(matchTextAnswer('1,000', ['1000']).is_match).toBe(true);
+    expect(matchTextAnswer('1005', ['1000']).is_match).toBe(false);
+    expect(
+      matchTextAnswer('1005', ['1000'], { numeric_tolerance: 5 }).is_match,
+    ).toBe(true);
+    expect(
+      matchTextAnswer('1050', ['1000'], {
+        numeric_tolerance: 5,
+        tolerance_type: 'PERCENT',
+      }).is_match,
+    ).toBe(true);
+    expect(
+      matchTextAnswer('1051', ['1000'], {
+        numeric_tolerance: 5,
+        tolerance_type: 'PERCENT',
+      }),
+    ).toEqual({ is_match: false, similarity: 95, matched: null });
+  });
+
+  it('should take any number inside a range', () => {
+    expect(matchTextAnswer('1992', ['1990-1995']).is_match).toBe(true);
+    expect(matchTextAnswer('1996', ['1990-1995']).is_match).toBe(false);
+    expect(matchTextAnswer('soon', ['1990-1995']).similarity).toBe(0);
+  });
+
+  it('should normalise answers in the language of the game', () => {
+    expect(
+      matchTextAnswer('القاهرة', ['القَاهِرَه'], { language: 'ar' }),
+    ).toEqual({ is_match: true, similarity: 100, matched: 'القَاهِرَه' });
+    expect(
+      matchTextAnswer('احمد شوقي', ['أحمد شوقى'], { language: 'ar' })
+        .similarity,
+    ).toBe(100);
+    expect(
+      matchTextAnswer('١٩٩٢', ['1990-1995'], { language: 'ar' }).is_match,
+    ).toBe(true);
+    expect(
+      matchTextAnswer('Pele', ['Pelé'], { language: 'en' }).similarity,
+    ).toBe(100);
+  });
+});
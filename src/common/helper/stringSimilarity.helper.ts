@@ -1,36 +1,124 @@
 import * as fuzzball from 'fuzzball';
+import { normalizeText, toWesternDigits } from './textNormalization.helper';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 80;
 
 /**
- * Checks if a user's text answer is correct, handling semantic similarity and numeric ranges.
- * @param userAnswer The text provided by the user.
- * @param correctAnswerText The correct answer string from the database.
- * @returns True if the answer is considered correct, otherwise false.
+ * How strictly a typed answer is compared with the accepted ones
  */
-export const checkTextAnswer = (
-  userAnswer: string,
-  correctAnswerText: string,
-): boolean => {
-  const cleanedUserAnswer = userAnswer.trim().toLowerCase();
-  const cleanedCorrectAnswer = correctAnswerText.trim().toLowerCase();
-
-  const rangeRegex = /^(\d+)-(\d+)$/;
-  const rangeMatch = cleanedCorrectAnswer.match(rangeRegex);
-
-  if (rangeMatch) {
-    const userNumber = parseFloat(cleanedUserAnswer);
-    if (isNaN(userNumber)) {
-      return false;
+export type TextMatchOptions = {
+  threshold?: number | null; // Similarity (0-100) needed to count as a match
+  numeric_tolerance?: number | null;
+  tolerance_type?: 'ABSOLUTE' | 'PERCENT';
+  case_sensitive?: boolean;
+  article_sensitive?: boolean;
+  language?: string | null; // Language.code of the game, picks the normalisation
+};
+
+export type TextMatch = {
+  is_match: boolean;
+  similarity: number; // 0-100, how close the answer came to the best accepted one
+  matched: string | null; // Accepted answer that matched
+};
+
+const ARTICLES = /\b(a|an|the)\b/gi;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+const RANGE = /^(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)$/;
+
+const toNumber = (value: string): number | null => {
+  const cleaned = toWesternDigits(value).replace(/,/g, '').trim();
+  return NUMBER.test(cleaned) ? parseFloat(cleaned) : null;
+};
+
+// closeness of two numbers, relative to the size of the expected one
+const numericSimilarity = (distance: number, expected: number): number =>
+  Math.max(
+    0,
+    Math.round(100 - (distance / Math.max(Math.abs(expected), 1)) * 100),
+  );
+
+const normalize = (value: string, options: TextMatchOptions): string => {
+  let text = normalizeText(value, options.language, {
+    keep_case: options.case_sensitive,
+  });
+  if (!options.article_sensitive) {
+    text = text.replace(ARTICLES, ' ');
+  }
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+const compare = (
+  attempt: string,
+  accepted: string,
+  options: TextMatchOptions,
+): { is_match: boolean; similarity: number } => {
+  const attemptNumber = toNumber(attempt);
+
+  // a range such as "1990-1995" takes any number inside it
+  const range = toWesternDigits(accepted).trim().match(RANGE);
+  if (range) {
+    if (attemptNumber === null) {
+      return { is_match: false, similarity: 0 };
     }
-    const min = parseInt(rangeMatch[1], 10);
-    const max = parseInt(rangeMatch[2], 10);
-    const lowerBound = Math.min(min, max);
-    const upperBound = Math.max(min, max);
-    return userNumber >= lowerBound && userNumber <= upperBound;
+    const low = Math.min(parseFloat(range[1]), parseFloat(range[2]));
+    const high = Math.max(parseFloat(range[1]), parseFloat(range[2]));
+    const distance = Math.max(low - attemptNumber, attemptNumber - high, 0);
+    return {
+      is_match: distance === 0,
+      similarity: numericSimilarity(distance, high),
+    };
+  }
+
+  const acceptedNumber = toNumber(accepted);
+  if (acceptedNumber !== null && attemptNumber !== null) {
+    const tolerance = options.numeric_tolerance ?? 0;
+    const allowed =
+      options.tolerance_type === 'PERCENT'
+        ? (Math.abs(acceptedNumber) * tolerance) / 100
+        : tolerance;
+    const distance = Math.abs(attemptNumber - acceptedNumber);
+    return {
+      is_match: distance <= allowed,
+      similarity: numericSimilarity(distance, acceptedNumber),
+    };
   }
 
-  const similarity = fuzzball.ratio(cleanedUserAnswer, cleanedCorrectAnswer);
+  const similarity = fuzzball.ratio(
+    normalize(attempt, options),
+    normalize(accepted, options),
+    // the default processing lowercases both sides
+    { full_process: !options.case_sensitive },
+  );
+  return {
+    is_match: similarity >= (options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD),
+    similarity,
+  };
+};
 
-  const SIMILARITY_THRESHOLD = 80;
+/**
+ * Compares a typed answer with every accepted spelling and returns the
+ * best result. Numbers are compared within the numeric tolerance, ranges
+ * like "10-20" take any number inside them and text is fuzzy matched.
+ */
+export const matchTextAnswer = (
+  attempt: string,
+  accepted: string[],
+  options: TextMatchOptions = {},
+): TextMatch => {
+  let best: TextMatch = { is_match: false, similarity: 0, matched: null };
+
+  for (const candidate of accepted) {
+    if (!candidate?.trim()) {
+      continue;
+    }
+    const result = compare(attempt, candidate, options);
+    if (
+      (result.is_match && !best.is_match) ||
+      (result.is_match === best.is_match && result.similarity > best.similarity)
+    ) {
+      best = { ...result, matched: result.is_match ? candidate : null };
+    }
+  }
 
-  return similarity >= SIMILARITY_THRESHOLD;
+  return best;
 };
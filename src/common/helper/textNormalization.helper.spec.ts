@@ -0,0 +1,50 @@
+import { languageKey, normalizeText } from './textNormalization.helper';
+
+describe('normalizeText', () => {
+  describe('Arabic', () => {
+    it('should strip tashkeel and tatweel', () => {
+      expect(normalizeText('مُحَمَّد', 'ar')).toBe('محمد');
+      expect(normalizeText('جمـــيل', 'ar')).toBe('جميل');
+    });
+
+    it('should fold alef and hamza variants', () => {
+      expect(normalizeText('أحمد', 'ar')).toBe('احمد');
+      expect(normalizeText('إسلام', 'ar')).toBe('اسلام');
+      expect(normalizeText('آمال', 'ar')).toBe('امال');
+      expect(normalizeText('مؤمن', 'ar')).toBe('مومن');
+      expect(normalizeText('مسائل', 'ar')).toBe('مسايل');
+    });
+
+    it('should fold taa marbuta and alef maqsura', () => {
+      expect(normalizeText('مدرسة', 'ar')).toBe(normalizeText('مدرسه', 'ar'));
+      expect(normalizeText('مصطفى', 'ar')).toBe('مصطفي');
+    });
+
+    it('should make Eastern Arabic numerals western', () => {
+      expect(normalizeText('١٩٤٨', 'ar')).toBe('1948');
+      expect(normalizeText('۲۰۲۴', 'ar')).toBe('2024');
+      expect(normalizeText('٣٫٥', 'ar')).toBe('3.5');
+    });
+
+    it('should take regional language codes', () => {
+      expect(normalizeText('القاهرة', 'ar-EG')).toBe('القاهره');
+      expect(languageKey('AR_sa')).toBe('ar');
+    });
+  });
+
+  describe('English', () => {
+    it('should lowercase, fold accents and collapse spaces', () => {
+      expect(normalizeText('  Café   Society ', 'en')).toBe('cafe society');
+      expect(normalizeText('Café', 'en', { keep_case: true })).toBe('Cafe');
+    });
+
+    it('should leave Arabic letters to the Arabic pipeline', () => {
+      expect(normalizeText('أحمد', 'en')).toBe('أحمد');
+    });
+  });
+
+  it('should only apply the common steps for other languages', () => {
+    expect(normalizeText(' Crème ٢ ', 'fr')).toBe('crème 2');
+    expect(normalizeText('Crème', null)).toBe('crème');
+  });
+});
@@ -0,0 +1,87 @@
+// Arabic-Indic and Persian (extended Arabic-Indic) digits
+const EASTERN_DIGITS = /[\u0660-\u0669\u06f0-\u06f9]/g;
+// Tashkeel, Quranic annotation marks and the superscript alef
+const ARABIC_DIACRITICS =
+  /[\u0610-\u061a\u064b-\u065f\u0670\u06d6-\u06dc\u06df-\u06e8\u06ea-\u06ed]/g;
+const TATWEEL = /\u0640/g;
+const LATIN_ACCENTS = /[\u0300-\u036f]/g;
+
+// alef and hamza variants, alef maqsura and taa marbuta
+const ARABIC_LETTER_FOLDS: Record<string, string> = {
+  آ: 'ا',
+  أ: 'ا',
+  إ: 'ا',
+  ٱ: 'ا',
+  ؤ: 'و',
+  ئ: 'ي',
+  ى: 'ي',
+  ة: 'ه',
+};
+const ARABIC_LETTERS = new RegExp(
+  `[${Object.keys(ARABIC_LETTER_FOLDS).join('')}]`,
+  'g',
+);
+
+export type NormalizeStep = (text: string) => string;
+
+export type NormalizeOptions = {
+  keep_case?: boolean;
+};
+
+/**
+ * Eastern Arabic digits and separators as their western counterparts
+ */
+export const toWesternDigits: NormalizeStep = (text) =>
+  text
+    .replace(EASTERN_DIGITS, (digit) => {
+      const code = digit.charCodeAt(0);
+      return String(code - (code >= 0x06f0 ? 0x06f0 : 0x0660));
+    })
+    .replace(/\u066b/g, '.') // Arabic decimal separator
+    .replace(/\u066c/g, ','); // Arabic thousands separator
+
+const stripArabicDiacritics: NormalizeStep = (text) =>
+  text.replace(ARABIC_DIACRITICS, '');
+
+const stripTatweel: NormalizeStep = (text) => text.replace(TATWEEL, '');
+
+const foldArabicLetters: NormalizeStep = (text) =>
+  text.replace(ARABIC_LETTERS, (letter) => ARABIC_LETTER_FOLDS[letter]);
+
+const stripLatinAccents: NormalizeStep = (text) =>
+  text.normalize('NFD').replace(LATIN_ACCENTS, '').normalize('NFC');
+
+// steps per Language.code, run after the digits are made western
+const PIPELINES: Record<string, NormalizeStep[]> = {
+  en: [stripLatinAccents],
+  ar: [stripArabicDiacritics, stripTatweel, foldArabicLetters],
+};
+
+export const NORMALIZED_LANGUAGES = Object.keys(PIPELINES);
+
+/**
+ * Base language of a Language.code, "ar" for "ar-SA"
+ */
+export const languageKey = (code?: string | null): string =>
+  (code ?? '').trim().toLowerCase().split(/[-_]/)[0];
+
+/**
+ * Text as it is compared in the given language: digits made western,
+ * the language's own folding applied, lowercased unless asked not to
+ * and with single spaces. Languages without a pipeline only get the
+ * common steps.
+ */
+export const normalizeText = (
+  value: string,
+  language?: string | null,
+  options: NormalizeOptions = {},
+): string => {
+  let text = toWesternDigits((value ?? '').normalize('NFC'));
+  for (const step of PIPELINES[languageKey(language)] ?? []) {
+    text = step(text);
+  }
+  if (!options.keep_case) {
+    text = text.toLowerCase();
+  }
+  return text.replace(/\s+/g, ' ').trim();
+};
@@ -1,3 +1,10 @@
+// number from the environment, undefined when unset or not a number so
+// that 0 is kept and only a missing value falls back to the default
+const envNumber = (value?: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
 export default () => ({
   app: {
     name: process.env.APP_NAME,
@@ -63,6 +70,60 @@ export default () => ({
     },
   },
 
+  game: {
+    scoring: {
+      // flat, linear_decay or tiered
+      policy: process.env.GAME_SCORING_POLICY || 'flat',
+      steal_multiplier: envNumber(process.env.GAME_STEAL_MULTIPLIER) ?? 0.5,
+      // lowest share of the points a slow correct answer still earns
+      min_points_ratio: envNumber(process.env.GAME_MIN_POINTS_RATIO) ?? 0.5,
+    },
+    daily_challenge: {
+      // questions in each day's challenge
+      questions: parseInt(process.env.DAILY_CHALLENGE_QUESTIONS) || 10,
+    },
+    async_challenge: {
+      // hours each side has to play a turn before it is forfeited
+      turn_hours: parseInt(process.env.ASYNC_CHALLENGE_TURN_HOURS) || 24,
+      // questions each player gets in a challenge
+      rounds: parseInt(process.env.ASYNC_CHALLENGE_ROUNDS) || 5,
+    },
+    matchmaking: {
+      // rating gap accepted right away, widened for every second of waiting
+      skill_window: parseInt(process.env.MATCHMAKING_SKILL_WINDOW) || 100,
+      skill_window_growth:
+        parseFloat(process.env.MATCHMAKING_SKILL_WINDOW_GROWTH) || 5,
+      // seconds of waiting before a smaller lobby, then bots, are accepted
+      smaller_lobby_after:
+        parseInt(process.env.MATCHMAKING_SMALLER_LOBBY_AFTER) || 30,
+      bot_fill_after: parseInt(process.env.MATCHMAKING_BOT_FILL_AFTER) || 60,
+    },
+    adaptive_difficulty: {
+      // share of questions an adaptive game aims to have answered correctly
+      target_success: parseFloat(process.env.ADAPTIVE_TARGET_SUCCESS) || 0.7,
+    },
+    abandon: {
+      // minutes without any move before a game is abandoned
+      inactive_minutes: parseInt(process.env.ABANDON_INACTIVE_MINUTES) || 30,
+      // paused and not yet started games wait longer for the host
+      idle_minutes: parseInt(process.env.ABANDON_IDLE_MINUTES) || 720,
+      // how often stale games are looked for
+      sweep_minutes: parseInt(process.env.ABANDON_SWEEP_MINUTES) || 5,
+    },
+    room_expiry: {
+      // minutes a room may wait for its game to start
+      waiting_minutes: parseInt(process.env.ROOM_WAITING_MINUTES) || 60,
+    },
+    answer_tokens: {
+      // signs the answer tokens handed to players
+      secret: process.env.ANSWER_TOKEN_SECRET || process.env.JWT_SECRET,
+    },
+    host_migration: {
+      // seconds a disconnected host has to come back before handing over
+      grace_seconds: parseInt(process.env.HOST_GRACE_SECONDS) || 60,
+    },
+  },
+
   payment: {
     stripe: {
       secret_key: process.env.STRIPE_SECRET_KEY,
@@ -122,4 +122,21 @@ export class GameController {
       };
     }
   }
+
+  @ApiOperation({
+    summary: 'Audit game scores',
+    description:
+      'Recompute the final scores from the game event log and flag players whose stored score does not match',
+  })
+  @Get(':id/score-audit')
+  async auditScores(@Param('id') id: string) {
+    try {
+      return await this.gameService.auditScores(id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message, // Return error message if the audit fails
+      };
+    }
+  }
 }
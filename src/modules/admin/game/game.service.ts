@@ -1,11 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { GameEventService } from 'src/modules/application/game-event/game-event.service';
 import { CreateGameDto } from './dto/create-game.dto';
 import { UpdateGameDto } from './dto/update-game.dto';
 
 @Injectable()
 export class GameService {
-  constructor(private readonly prisma: PrismaService) { }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameEvents: GameEventService,
+  ) {}
 
   // Create a new game
   async create(createGameDto: CreateGameDto) {
@@ -474,4 +478,9 @@ export class GameService {
       };
     }
   }
-}
\ No newline at end of file
+
+  // Recompute the final scores of a game from its event log and flag mismatches
+  async auditScores(id: string) {
+    return this.gameEvents.auditScores(id);
+  }
+}
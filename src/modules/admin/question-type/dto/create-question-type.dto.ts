@@ -1,4 +1,5 @@
-import { IsString, IsNotEmpty, IsUUID, IsOptional } from 'class-validator';
+import { QuestionKind } from '@prisma/client';
+import { IsString, IsNotEmpty, IsUUID, IsOptional, IsEnum } from 'class-validator';
 
 export class CreateQuestionTypeDto {
     @IsString()
@@ -8,6 +9,10 @@ export class CreateQuestionTypeDto {
     @IsString()
     language_id: string;  // Foreign key to the Language model (UUID)
 
+    @IsOptional()
+    @IsEnum(QuestionKind)
+    kind?: QuestionKind;  // How the question is answered: picking an option, true/false or typing
+
     @IsOptional()
     created_at?: Date;  // Optional field for created_at (automatically set by Prisma)
     @IsOptional()
@@ -15,6 +15,7 @@ export class QuestionTypeService {
         select: {
           id: true,
           name: true,
+          kind: true,
           created_at: true,
           updated_at: true,
           language: {
@@ -70,6 +71,7 @@ export class QuestionTypeService {
         select: {
           id: true,
           name: true,
+          kind: true,
           created_at: true,
           updated_at: true,
           language: {
@@ -117,6 +119,7 @@ export class QuestionTypeService {
         select: {
           id: true,
           name: true,
+          kind: true,
           created_at: true,
           updated_at: true,
           language: {
@@ -150,6 +153,7 @@ export class QuestionTypeService {
         select: {
           id: true,
           name: true,
+          kind: true,
           language_id: true,
           created_at: true,
           updated_at: true,
@@ -177,6 +181,7 @@ export class QuestionTypeService {
         select: {
           id: true,
           name: true,
+          kind: true,
           language_id: true,
         },
       });
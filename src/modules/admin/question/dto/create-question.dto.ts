@@ -1,5 +1,6 @@
 import { Transform } from 'class-transformer';
-import { IsString, IsNotEmpty, IsBoolean, IsOptional, IsInt, IsArray } from 'class-validator'
+import { ToleranceType } from '@prisma/client';
+import { IsString, IsNotEmpty, IsBoolean, IsOptional, IsInt, IsArray, IsNumber, IsEnum, Min, Max } from 'class-validator'
 
 export class CreateAnswerDto {
     @IsString()
@@ -15,6 +16,16 @@ export class CreateAnswerDto {
     @IsOptional()
     @IsString()
     file_url?: string;  // Optional file URL for the answer (e.g., image or document)
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    aliases?: string[];  // Other spellings accepted for a typed answer
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    position?: number;  // Place in the correct order of an ordering question, the list order when left out
 }
 
 export class CreateQuestionDto {
@@ -65,6 +76,38 @@ export class CreateQuestionDto {
     @Transform(({ value }) => Number(value))
     repeat_count: number;  // Maximum number of times the question can be repeated in the player's turn
 
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(100)
+    @Transform(({ value }) => value === '' || value === null ? null : Number(value))
+    match_threshold?: number;  // Similarity (0-100) a typed answer needs, the default when left out
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Transform(({ value }) => value === '' || value === null ? null : Number(value))
+    numeric_tolerance?: number;  // How far a typed number may be off
+
+    @IsOptional()
+    @IsEnum(ToleranceType)
+    tolerance_type?: ToleranceType;  // Whether the tolerance is an absolute amount or a percentage
+
+    @IsOptional()
+    @IsBoolean()
+    @Transform(({ value }) => typeof value === 'string' ? value === 'true' : value)
+    case_sensitive?: boolean;  // Typed answers must match the case
+
+    @IsOptional()
+    @IsBoolean()
+    @Transform(({ value }) => typeof value === 'string' ? value === 'true' : value)
+    article_sensitive?: boolean;  // Typed answers must keep articles like "the"
+
+    @IsOptional()
+    @IsBoolean()
+    @Transform(({ value }) => typeof value === 'string' ? value === 'true' : value)
+    true_false_answer?: boolean;  // Correct answer of a true/false question, which takes no answers
+
     @IsOptional()
     created_at?: Date;  // Automatically set by Prisma, optional
 
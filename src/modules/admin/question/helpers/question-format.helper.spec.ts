@@ -0,0 +1,80 @@
+import { QuestionKind } from '@prisma/client';
+import { QuestionFormatHelper } from './question-format.helper';
+
+describe('QuestionFormatHelper', () => {
+  const answers = [
+    { text: 'Mercury', is_correct: true },
+    { text: 'Venus', is_correct: false },
+    { text: 'Earth', is_correct: false },
+  ];
+
+  it('should need exactly one correct option', () => {
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.OPTIONS, { answers }),
+    ).toBeNull();
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.OPTIONS, {
+        answers: answers.map((answer) => ({ ...answer, is_correct: true })),
+      }),
+    ).toContain('exactly 1 correct');
+  });
+
+  it('should let multi-select questions have several correct answers', () => {
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.MULTI_SELECT, {
+        answers: answers.map((answer, i) => ({ ...answer, is_correct: i < 2 })),
+      }),
+    ).toBeNull();
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.MULTI_SELECT, {
+        answers: answers.map((answer) => ({ ...answer, is_correct: false })),
+      }),
+    ).not.toBeNull();
+  });
+
+  it('should keep true/false answers on the question', () => {
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.TRUE_FALSE, {
+        true_false_answer: false,
+      }),
+    ).toBeNull();
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.TRUE_FALSE, {}),
+    ).not.toBeNull();
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.TRUE_FALSE, {
+        true_false_answer: true,
+        answers,
+      }),
+    ).toContain('no answers');
+  });
+
+  it('should need every ordering position once', () => {
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.ORDERING, { answers }),
+    ).toBeNull();
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.ORDERING, {
+        answers: answers.map((answer, i) => ({ ...answer, position: 3 - i })),
+      }),
+    ).toBeNull();
+    expect(
+      QuestionFormatHelper.validate(QuestionKind.ORDERING, {
+        answers: answers.map((answer) => ({ ...answer, position: 1 })),
+      }),
+    ).toContain('positions 1 to 3');
+  });
+
+  it('should number ordering answers by their place in the list', () => {
+    expect(
+      QuestionFormatHelper.withPositions(QuestionKind.ORDERING, answers).map(
+        (answer) => answer.position,
+      ),
+    ).toEqual([1, 2, 3]);
+    expect(
+      QuestionFormatHelper.withPositions(QuestionKind.OPTIONS, [
+        { ...answers[0], position: 2 },
+      ])[0].position,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { QuestionKind } from '@prisma/client';
+
+export type FormatAnswer = {
+  text?: string | null;
+  is_correct?: boolean;
+  position?: number | null;
+};
+
+export type QuestionFormat = {
+  answers?: FormatAnswer[] | null;
+  true_false_answer?: boolean | null;
+};
+
+export class QuestionFormatHelper {
+  /**
+   * What is wrong with a question for the format of its type, null when
+   * it can be played that way
+   */
+  static validate(kind: QuestionKind, question: QuestionFormat): string | null {
+    const answers = question.answers ?? [];
+    const correct = answers.filter((answer) => answer.is_correct);
+
+    switch (kind) {
+      case QuestionKind.TRUE_FALSE:
+        if (typeof question.true_false_answer !== 'boolean') {
+          return 'True/false questions need true_false_answer';
+        }
+        if (answers.length > 0) {
+          return 'True/false questions take no answers';
+        }
+        return null;
+
+      case QuestionKind.TEXT:
+        if (!correct.some((answer) => answer.text?.trim())) {
+          return 'Text questions need a correct answer with text';
+        }
+        return null;
+
+      case QuestionKind.MULTI_SELECT:
+        if (answers.length < 2) {
+          return 'Multi-select questions need at least 2 answers';
+        }
+        if (correct.length === 0) {
+          return 'Multi-select questions need at least 1 correct answer';
+        }
+        return null;
+
+      case QuestionKind.ORDERING: {
+        if (answers.length < 2) {
+          return 'Ordering questions need at least 2 answers';
+        }
+        const positions = QuestionFormatHelper.withPositions(kind, answers)
+          .map((answer) => answer.position)
+          .sort((a, b) => a - b);
+        if (positions.some((position, index) => position !== index + 1)) {
+          return `Ordering answers need the positions 1 to ${answers.length}, once each`;
+        }
+        return null;
+      }
+
+      default:
+        if (answers.length < 2) {
+          return 'Questions with options need at least 2 answers';
+        }
+        if (correct.length !== 1) {
+          return 'Questions with options need exactly 1 correct answer';
+        }
+        return null;
+    }
+  }
+
+  /**
+   * Answers as they are stored for a question of the kind: ordering
+   * answers without positions take their place in the list, other kinds
+   * keep no position
+   */
+  static withPositions<A extends FormatAnswer>(
+    kind: QuestionKind,
+    answers: A[],
+  ): (A & { position: number | null })[] {
+    if (kind !== QuestionKind.ORDERING) {
+      return answers.map((answer) => ({ ...answer, position: null }));
+    }
+    const positioned = answers.some((answer) => answer.position != null);
+    return answers.map((answer, index) => ({
+      ...answer,
+      position: positioned ? (answer.position ?? null) : index + 1,
+    }));
+  }
+}
@@ -1,9 +1,11 @@
-import { Injectable } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, QuestionKind, ToleranceType } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { CreateQuestionDto } from './dto/create-question.dto';
+import { QuestionFormatHelper } from './helpers/question-format.helper';
 import { SojebStorage } from 'src/common/lib/Disk/SojebStorage';
 import { StringHelper } from 'src/common/helper/string.helper';
+import { NORMALIZED_LANGUAGES, normalizeText } from 'src/common/helper/textNormalization.helper';
 import appConfig from 'src/config/app.config';
 import { UpdateQuestionDto } from './dto/update-question.dto';
 
@@ -16,6 +18,25 @@ export class QuestionService {
     try {
       const { answers, ...questionData } = createQuestionDto;
 
+      // Check the answers fit the format of the question type
+      const kind = await this.questionKind(questionData.question_type_id);
+      const formatError = QuestionFormatHelper.validate(kind, {
+        answers,
+        true_false_answer: questionData.true_false_answer,
+      });
+      if (formatError) {
+        throw new BadRequestException(formatError);
+      }
+      if (kind !== QuestionKind.TRUE_FALSE) {
+        questionData.true_false_answer = null;
+      }
+
+      // Reject a question that only differs from another in case, spacing or diacritics
+      const normalizedText = await this.normalizeQuestionText(questionData.text, questionData.language_id);
+      if (await this.isDuplicateQuestion(normalizedText, questionData.language_id)) {
+        throw new BadRequestException('A question with the same text already exists');
+      }
+
       // Handle file upload for the question
       if (questionFile) {
         const questionFileName = StringHelper.generateRandomFileName(questionFile.originalname);
@@ -27,6 +48,7 @@ export class QuestionService {
       const question = await this.prisma.question.create({
         data: {
           ...questionData,
+          normalized_text: normalizedText,
         },
         select: {
           id: true,
@@ -37,17 +59,23 @@ export class QuestionService {
           firebase: true,
           points: true,
           repeat_count: true,
+          match_threshold: true,
+          numeric_tolerance: true,
+          tolerance_type: true,
+          case_sensitive: true,
+          article_sensitive: true,
+          true_false_answer: true,
           created_at: true,
           updated_at: true,
           category: { select: { id: true, name: true } },
           language: { select: { id: true, name: true } },
           difficulty: { select: { id: true, name: true } },
-          question_type: { select: { id: true, name: true } },
+          question_type: { select: { id: true, name: true, kind: true } },
         },
       });
       // Handle file uploads for the answers using map
       if (answers && answers.length > 0) {
-        const answersData = answers.map((answer, index) => {
+        const answersData = QuestionFormatHelper.withPositions(kind, answers).map((answer, index) => {
           if (answerFiles[index]) {
             const answerFileName = StringHelper.generateRandomFileName(answerFiles[index].originalname);
             SojebStorage.put(appConfig().storageUrl.answer + answerFileName, answerFiles[index].buffer);
@@ -103,9 +131,19 @@ export class QuestionService {
       const searchFilter = {};
 
       if (q) {
+        // The normalised text also finds questions written with other diacritics,
+        // letter variants or digits, normalised as the language filtered on or as
+        // every language with its own normalisation
+        const language = filter?.language_id
+          ? await this.prisma.language.findUnique({ where: { id: filter.language_id }, select: { code: true } })
+          : null;
+        const languages = language ? [language.code] : [null, ...NORMALIZED_LANGUAGES];
+        const normalizedQueries = [...new Set(languages.map((code) => normalizeText(q, code)))].filter(Boolean);
+
         searchFilter['OR'] = [
           { text: { contains: q, mode: 'insensitive' } },
           { answers: { some: { text: { contains: q, mode: 'insensitive' } } } },
+          ...normalizedQueries.map((normalized) => ({ normalized_text: { contains: normalized } })),
         ];
       }
 
@@ -151,13 +189,19 @@ export class QuestionService {
           firebase: true,
           points: true,
           repeat_count: true,
+          match_threshold: true,
+          numeric_tolerance: true,
+          tolerance_type: true,
+          case_sensitive: true,
+          article_sensitive: true,
+          true_false_answer: true,
           created_at: true,
           updated_at: true,
           category: { select: { id: true, name: true } },
           language: { select: { id: true, name: true } },
           difficulty: { select: { id: true, name: true } },
-          question_type: { select: { id: true, name: true } },
-          answers: { select: { id: true, text: true, is_correct: true, file_url: true } },
+          question_type: { select: { id: true, name: true, kind: true } },
+          answers: { select: { id: true, text: true, is_correct: true, file_url: true, aliases: true, position: true } },
         },
       });
 
@@ -223,6 +267,12 @@ export class QuestionService {
           firebase: true,
           points: true,
           repeat_count: true,
+          match_threshold: true,
+          numeric_tolerance: true,
+          tolerance_type: true,
+          case_sensitive: true,
+          article_sensitive: true,
+          true_false_answer: true,
           created_at: true,
           updated_at: true,
           category: {
@@ -247,6 +297,7 @@ export class QuestionService {
             select: {
               id: true,
               name: true,
+              kind: true,
             },
           },
           answers: {
@@ -255,6 +306,8 @@ export class QuestionService {
               text: true,
               is_correct: true,
               file_url: true,
+              aliases: true,
+              position: true,
             },
           },
         },
@@ -300,6 +353,39 @@ export class QuestionService {
     try {
       const { answers, ...questionData } = updateQuestionDto;
 
+      // Check the question still fits the format of its type once updated
+      const current = await this.prisma.question.findUnique({
+        where: { id },
+        select: {
+          text: true,
+          language_id: true,
+          question_type_id: true,
+          true_false_answer: true,
+          answers: { select: { text: true, is_correct: true, position: true } },
+        },
+      });
+      if (!current) {
+        throw new NotFoundException('Question not found');
+      }
+      const kind = await this.questionKind(questionData.question_type_id ?? current.question_type_id);
+      const formatError = QuestionFormatHelper.validate(kind, {
+        answers: answers ?? current.answers,
+        true_false_answer: questionData.true_false_answer ?? current.true_false_answer,
+      });
+      if (formatError) {
+        throw new BadRequestException(formatError);
+      }
+      if (kind !== QuestionKind.TRUE_FALSE) {
+        questionData.true_false_answer = null;
+      }
+
+      // Reject the update when another question of the language has the same text
+      const languageId = questionData.language_id ?? current.language_id;
+      const normalizedText = await this.normalizeQuestionText(questionData.text ?? current.text, languageId);
+      if (await this.isDuplicateQuestion(normalizedText, languageId, id)) {
+        throw new BadRequestException('A question with the same text already exists');
+      }
+
       // Handle file upload for the question (if provided)
       if (questionFile) {
         const questionFileName = StringHelper.generateRandomFileName(questionFile.originalname);
@@ -312,6 +398,7 @@ export class QuestionService {
         where: { id },
         data: {
           ...questionData,
+          normalized_text: normalizedText,
         },
         select: {
           id: true,
@@ -322,19 +409,25 @@ export class QuestionService {
           firebase: true,
           points: true,
           repeat_count: true,
+          match_threshold: true,
+          numeric_tolerance: true,
+          tolerance_type: true,
+          case_sensitive: true,
+          article_sensitive: true,
+          true_false_answer: true,
           created_at: true,
           updated_at: true,
         },
       });
       // If answers are provided, update them as well
-      if (answers && answers.length > 0) {
+      if (answers) {
         // Delete existing answers associated with this question
         await this.prisma.answer.deleteMany({
           where: { question_id: id },
         });
 
         // Handle file uploads for answers and update the answers data
-        const answersData = answers.map((answer, index) => {
+        const answersData = QuestionFormatHelper.withPositions(kind, answers).map((answer, index) => {
           let answerFileUrl = null;
           if (answerFiles[index]) {
             const answerFileName = StringHelper.generateRandomFileName(answerFiles[index].originalname);
@@ -698,6 +791,8 @@ export class QuestionService {
       let successCount = 0;
       let errorCount = 0;
       const errors = [];
+      // Normalised texts per language already in this file
+      const importedTexts = new Set<string>();
 
       // Process questions in batches to avoid timeout
       const BATCH_SIZE = 10; // Process 10 questions in parallel
@@ -718,19 +813,21 @@ export class QuestionService {
               throw new Error(`Missing required fields in question ${questionIndex + 1}`);
             }
 
-            // Validate answers array
-            if (!Array.isArray(questionData.answers) || questionData.answers.length === 0) {
-              throw new Error(`Invalid or empty answers array in question ${questionIndex + 1}`);
+            // Validate answers array, checked against the question format once the type is known
+            if (!Array.isArray(questionData.answers)) {
+              throw new Error(`Invalid answers array in question ${questionIndex + 1}`);
             }
 
             // Handle language - find existing or create new
             let languageId;
+            let languageCode;
             const existingLanguage = await this.prisma.language.findFirst({
               where: { name: questionData.language }
             });
 
             if (existingLanguage) {
               languageId = existingLanguage.id;
+              languageCode = existingLanguage.code;
             } else {
               // Create new language with default code
               const newLanguage = await this.prisma.language.create({
@@ -740,6 +837,18 @@ export class QuestionService {
                 },
               });
               languageId = newLanguage.id;
+              languageCode = newLanguage.code;
+            }
+
+            // Skip questions already in the database or earlier in the file
+            const normalizedText = normalizeText(questionData.text, languageCode);
+            const importKey = `${languageId}:${normalizedText}`;
+            if (importedTexts.has(importKey)) {
+              throw new Error('A question with the same text is already in the file');
+            }
+            importedTexts.add(importKey);
+            if (await this.isDuplicateQuestion(normalizedText, languageId)) {
+              throw new Error('A question with the same text already exists');
             }
 
             // Handle category - find existing or create new
@@ -788,6 +897,7 @@ export class QuestionService {
 
             // Handle question type - find existing or create new
             let questionTypeId;
+            let questionKind: QuestionKind;
             const existingQuestionType = await this.prisma.questionType.findFirst({
               where: {
                 name: questionData.question_type,
@@ -796,15 +906,24 @@ export class QuestionService {
 
             if (existingQuestionType) {
               questionTypeId = existingQuestionType.id;
+              questionKind = existingQuestionType.kind;
             } else {
               // Create new question type
               const newQuestionType = await this.prisma.questionType.create({
                 data: {
                   name: questionData.question_type,
                   language_id: languageId,
+                  kind: this.getQuestionKind(questionData.question_type, questionData.question_kind),
                 },
               });
               questionTypeId = newQuestionType.id;
+              questionKind = newQuestionType.kind;
+            }
+
+            // Check the answers fit the format of the question type
+            const formatError = QuestionFormatHelper.validate(questionKind, questionData);
+            if (formatError) {
+              throw new Error(formatError);
             }
 
             // Handle question file_url - download and store if provided
@@ -866,6 +985,7 @@ export class QuestionService {
             const question = await this.prisma.question.create({
               data: {
                 text: questionData.text,
+                normalized_text: normalizedText,
                 category_id: categoryId,
                 language_id: languageId,
                 difficulty_id: difficultyId,
@@ -875,20 +995,30 @@ export class QuestionService {
                 points: questionData.points || this.getDefaultPoints(questionData.difficulty),
                 free_bundle: questionData.free_bundle || false,
                 firebase: questionData.firebase || false,
+                match_threshold: questionData.match_threshold ?? null,
+                numeric_tolerance: questionData.numeric_tolerance ?? null,
+                tolerance_type: questionData.tolerance_type === ToleranceType.PERCENT ? ToleranceType.PERCENT : ToleranceType.ABSOLUTE,
+                case_sensitive: questionData.case_sensitive || false,
+                article_sensitive: questionData.article_sensitive || false,
+                true_false_answer: questionKind === QuestionKind.TRUE_FALSE ? questionData.true_false_answer : null,
               },
             });
 
             // Create answers directly from the answers array
-            const answersData = questionData.answers.map(answer => ({
+            const answersData = QuestionFormatHelper.withPositions(questionKind, questionData.answers).map((answer: any) => ({
               text: answer.text,
               is_correct: answer.is_correct,
               question_id: question.id,
               file_url: answer.file_url || null,
+              aliases: Array.isArray(answer.aliases) ? answer.aliases.map(String) : [],
+              position: answer.position,
             }));
 
-            await this.prisma.answer.createMany({
-              data: answersData,
-            });
+            if (answersData.length > 0) {
+              await this.prisma.answer.createMany({
+                data: answersData,
+              });
+            }
 
             return { success: true };
           } catch (questionError) {
@@ -949,6 +1079,55 @@ export class QuestionService {
     return difficultyPoints[difficulty] || 100;
   }
 
+  // Helper method to get how questions of a type are answered, picking an option when the type is unknown
+  private async questionKind(questionTypeId?: string | null): Promise<QuestionKind> {
+    if (!questionTypeId) {
+      return QuestionKind.OPTIONS;
+    }
+    const questionType = await this.prisma.questionType.findUnique({
+      where: { id: questionTypeId },
+      select: { kind: true },
+    });
+    if (!questionType) {
+      throw new BadRequestException('Question type not found');
+    }
+    return questionType.kind;
+  }
+
+  // Helper method to pick how a new question type is answered, from the file or its name
+  // Question text as compared for duplicates and search, in the question's language
+  private async normalizeQuestionText(text: string, languageId: string): Promise<string> {
+    const language = await this.prisma.language.findUnique({
+      where: { id: languageId },
+      select: { code: true },
+    });
+    return normalizeText(text, language?.code);
+  }
+
+  // Whether another question of the language already has the normalised text
+  private async isDuplicateQuestion(normalizedText: string, languageId: string, excludeId?: string): Promise<boolean> {
+    const duplicate = await this.prisma.question.findFirst({
+      where: {
+        language_id: languageId,
+        normalized_text: normalizedText,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+      select: { id: true },
+    });
+    return !!duplicate;
+  }
+
+  private getQuestionKind(questionType: string, kind?: string): QuestionKind {
+    if (kind && Object.values(QuestionKind).includes(kind as QuestionKind)) {
+      return kind as QuestionKind;
+    }
+    const kinds = {
+      'Text': QuestionKind.TEXT,
+      'Bools': QuestionKind.TRUE_FALSE,
+    };
+    return kinds[questionType] || QuestionKind.OPTIONS;
+  }
+
 
   // Helper method to process answers based on question type
   private processAnswers(questionData: any): any[] {
@@ -1028,6 +1207,12 @@ export class QuestionService {
           free_bundle: true,
           firebase: true,
           file_url: true,
+          match_threshold: true,
+          numeric_tolerance: true,
+          tolerance_type: true,
+          case_sensitive: true,
+          article_sensitive: true,
+          true_false_answer: true,
           created_at: true,
           updated_at: true,
           category: {
@@ -1054,6 +1239,7 @@ export class QuestionService {
             select: {
               id: true,
               name: true,
+              kind: true,
             },
           },
           answers: {
@@ -1061,6 +1247,8 @@ export class QuestionService {
               id: true,
               text: true,
               is_correct: true,
+              aliases: true,
+              position: true,
             },
           },
         },
@@ -1088,13 +1276,22 @@ export class QuestionService {
         language: question.language.name,
         difficulty: question.difficulty.name,
         question_type: question.question_type.name,
+        question_kind: question.question_type.kind,
         time: question.time,
         points: question.points,
         free_bundle: question.free_bundle,
+        match_threshold: question.match_threshold,
+        numeric_tolerance: question.numeric_tolerance,
+        tolerance_type: question.tolerance_type,
+        case_sensitive: question.case_sensitive,
+        article_sensitive: question.article_sensitive,
+        true_false_answer: question.true_false_answer,
         question_file_url: question['question_file_url'],
         answers: question.answers.map(answer => ({
           text: answer.text,
           is_correct: answer.is_correct,
+          aliases: answer.aliases,
+          position: answer.position,
         })),
       }));
 
@@ -26,6 +26,30 @@ export class CreateSubscriptionTypeDto {
     @Transform(({ value }) => parseInt(value))
     players: number; // Number of players allowed
 
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    fifty_fifty_lifelines?: number; // 50/50 lifelines per player per game (default: 1)
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    extra_time_lifelines?: number; // Extra time lifelines per player per game (default: 1)
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    double_points_lifelines?: number; // Double points lifelines per player per game (default: 1)
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    free_skip_lifelines?: number; // Free skip lifelines per player per game (default: 1)
+
     @IsNumber()
     @Min(0)
     @Transform(({ value }) => parseFloat(value))
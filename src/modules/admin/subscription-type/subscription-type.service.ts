@@ -22,6 +22,10 @@ export class SubscriptionTypeService {
           games: true,
           questions: true,
           players: true,
+          fifty_fifty_lifelines: true,
+          extra_time_lifelines: true,
+          double_points_lifelines: true,
+          free_skip_lifelines: true,
           price: true,
           status: true,
           language_id: true,
@@ -87,6 +91,10 @@ export class SubscriptionTypeService {
           games: true,
           questions: true,
           players: true,
+          fifty_fifty_lifelines: true,
+          extra_time_lifelines: true,
+          double_points_lifelines: true,
+          free_skip_lifelines: true,
           price: true,
           status: true,
           created_at: true,
@@ -138,6 +146,10 @@ export class SubscriptionTypeService {
           games: true,
           questions: true,
           players: true,
+          fifty_fifty_lifelines: true,
+          extra_time_lifelines: true,
+          double_points_lifelines: true,
+          free_skip_lifelines: true,
           price: true,
           status: true,
           created_at: true,
@@ -180,6 +192,10 @@ export class SubscriptionTypeService {
           games: true,
           questions: true,
           players: true,
+          fifty_fifty_lifelines: true,
+          extra_time_lifelines: true,
+          double_points_lifelines: true,
+          free_skip_lifelines: true,
           price: true,
           status: true,
           language_id: true,
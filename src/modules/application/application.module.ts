@@ -8,6 +8,15 @@ import { GridStyleModule } from './grid-style/grid-style.module';
 import { LeaderboardModule } from './leaderboard/leaderboard.module';
 import { SubscriptionModule } from './subscription/subscription.module';
 import { MultiplayerGameModule } from './multiplayer-game/multiplayer-game.module';
+import { GameRoomModule } from './game-room/game-room.module';
+import { GameEventModule } from './game-event/game-event.module';
+import { TournamentModule } from './tournament/tournament.module';
+import { DailyChallengeModule } from './daily-challenge/daily-challenge.module';
+import { AsyncChallengeModule } from './async-challenge/async-challenge.module';
+import { MatchmakingModule } from './matchmaking/matchmaking.module';
+import { GameSettingsModule } from './game-settings/game-settings.module';
+import { GameSessionModule } from './game-session/game-session.module';
+import { GameEngineModule } from './game-engine/game-engine.module';
 
 @Module({
   imports: [
@@ -20,6 +29,15 @@ import { MultiplayerGameModule } from './multiplayer-game/multiplayer-game.modul
     SubscriptionModule,
     GridStyleModule,
     MultiplayerGameModule,
+    GameRoomModule,
+    GameEventModule,
+    TournamentModule,
+    DailyChallengeModule,
+    AsyncChallengeModule,
+    MatchmakingModule,
+    GameSettingsModule,
+    GameSessionModule,
+    GameEngineModule,
   ],
 })
 export class ApplicationModule {}
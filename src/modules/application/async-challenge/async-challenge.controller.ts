@@ -0,0 +1,175 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AsyncChallengeService } from './async-challenge.service';
+import {
+  AsyncChallengeQueryDto,
+  ChallengeAnswerDto,
+  ChallengeCategoryDto,
+  CreateAsyncChallengeDto,
+} from './dto/async-challenge.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+@ApiTags('Async Challenges')
+@ApiBearerAuth()
+@Controller('challenges')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class AsyncChallengeController {
+  constructor(private readonly asyncChallengeService: AsyncChallengeService) {}
+
+  @ApiOperation({ summary: 'Challenge a friend by username' })
+  @Post()
+  async create(@Body() createDto: CreateAsyncChallengeDto, @Req() req: any) {
+    try {
+      return await this.asyncChallengeService.create(
+        req.user.userId,
+        createDto,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'List your sent and received challenges' })
+  @Get()
+  async findAll(@Query() query: AsyncChallengeQueryDto, @Req() req: any) {
+    try {
+      return await this.asyncChallengeService.findAll(req.user.userId, query);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get a challenge' })
+  @Get(':id')
+  async findOne(@Param('id') id: string, @Req() req: any) {
+    try {
+      return await this.asyncChallengeService.findOne(req.user.userId, id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Accept a challenge and start the game' })
+  @Post(':id/accept')
+  async accept(@Param('id') id: string, @Req() req: any) {
+    try {
+      return await this.asyncChallengeService.accept(req.user.userId, id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Decline a challenge' })
+  @Post(':id/decline')
+  async decline(@Param('id') id: string, @Req() req: any) {
+    try {
+      return await this.asyncChallengeService.decline(req.user.userId, id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Select category and difficulty for your turn' })
+  @Post(':id/select-category')
+  async selectCategory(
+    @Param('id') id: string,
+    @Body() categoryDto: ChallengeCategoryDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.asyncChallengeService.selectCategory(
+        req.user.userId,
+        id,
+        categoryDto,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the question for your turn' })
+  @Get(':id/question')
+  async getQuestion(@Param('id') id: string, @Req() req: any) {
+    try {
+      return await this.asyncChallengeService.getQuestion(req.user.userId, id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Answer the question of your turn' })
+  @Post(':id/answer')
+  async answer(
+    @Param('id') id: string,
+    @Body() answerDto: ChallengeAnswerDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.asyncChallengeService.answer(
+        req.user.userId,
+        id,
+        answerDto,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Steal the question your opponent got wrong' })
+  @Post(':id/steal')
+  async steal(
+    @Param('id') id: string,
+    @Body() answerDto: ChallengeAnswerDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.asyncChallengeService.steal(
+        req.user.userId,
+        id,
+        answerDto,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+}
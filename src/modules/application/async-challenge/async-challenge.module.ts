@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import {
+  AsyncChallengeService,
+  ASYNC_CHALLENGE_QUEUE,
+} from './async-challenge.service';
+import { AsyncChallengeController } from './async-challenge.controller';
+import { ChallengeDeadlineProcessor } from './processors/challenge-deadline.processor';
+import { MessageGateway } from '../../chat/message/message.gateway';
+import { GameEngineModule } from '../game-engine/game-engine.module';
+
+@Module({
+  imports: [
+    MessageGateway,
+    GameEngineModule,
+    BullModule.registerQueue({ name: ASYNC_CHALLENGE_QUEUE }),
+  ],
+  controllers: [AsyncChallengeController],
+  providers: [AsyncChallengeService, ChallengeDeadlineProcessor],
+})
+export class AsyncChallengeModule {}
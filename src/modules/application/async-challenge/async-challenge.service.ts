@@ -0,0 +1,659 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  AsyncChallengeStatus,
+  GameMode,
+  GamePhase,
+  Prisma,
+} from '@prisma/client';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MessageGateway } from '../../chat/message/message.gateway';
+import { GameEngineService } from '../game-engine/game-engine.service';
+import { GameFlow } from '../game-player/helpers/game-phase.helper';
+import {
+  AsyncChallengeQueryDto,
+  ChallengeAnswerDto,
+  ChallengeCategoryDto,
+  CreateAsyncChallengeDto,
+} from './dto/async-challenge.dto';
+import { AsyncChallengeHelper } from './helpers/async-challenge.helper';
+
+export const ASYNC_CHALLENGE_QUEUE = 'async-challenge-queue';
+
+// 'accept' expires a pending challenge, 'turn' forfeits an unplayed turn
+export type ChallengeDeadlineKind = 'accept' | 'turn';
+
+export interface ChallengeDeadlineJobData {
+  challenge_id: string;
+  kind: ChallengeDeadlineKind;
+  turn: number;
+  deadline: string;
+}
+
+// Deadline jobs run this long after the deadline so a last second answer
+// is never raced by its own forfeit.
+const DEADLINE_GRACE_MS = 5000;
+
+const userSelect = { id: true, name: true, username: true, avatar: true };
+
+const challengeInclude = {
+  challenger: { select: userSelect },
+  opponent: { select: userSelect },
+  game: {
+    select: {
+      id: true,
+      status: true,
+      game_phase: true,
+      current_turn: true,
+      current_question: true,
+      total_questions: true,
+      current_player_id: true,
+      game_players: {
+        select: {
+          id: true,
+          user_id: true,
+          player_name: true,
+          player_order: true,
+          score: true,
+        },
+        orderBy: { player_order: 'asc' as const },
+      },
+      game_questions: {
+        select: { game_player_id: true },
+        orderBy: { created_at: 'desc' as const },
+        take: 1,
+      },
+    },
+  },
+};
+
+type ChallengeWithGame = Prisma.AsyncChallengeGetPayload<{
+  include: typeof challengeInclude;
+}>;
+
+@Injectable()
+export class AsyncChallengeService {
+  private readonly logger = new Logger(AsyncChallengeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameGateway: MessageGateway,
+    private readonly engine: GameEngineService,
+    @InjectQueue(ASYNC_CHALLENGE_QUEUE) private readonly queue: Queue,
+  ) {}
+
+  async create(userId: string, createDto: CreateAsyncChallengeDto) {
+    try {
+      const [challenger, opponent, language] = await Promise.all([
+        this.prisma.user.findUnique({
+          where: { id: userId },
+          select: userSelect,
+        }),
+        this.prisma.user.findUnique({
+          where: { username: createDto.username },
+          select: userSelect,
+        }),
+        this.prisma.language.findUnique({
+          where: { id: createDto.language_id },
+        }),
+      ]);
+      if (!challenger) {
+        throw new NotFoundException('User not found');
+      }
+      if (!opponent) {
+        throw new NotFoundException('No user found with that username');
+      }
+      if (opponent.id === userId) {
+        throw new BadRequestException('You cannot challenge yourself');
+      }
+      if (!language) {
+        throw new NotFoundException('Language not found');
+      }
+
+      const config = appConfig().game.async_challenge;
+      const turnHours = createDto.turn_hours ?? config.turn_hours;
+      const rounds = createDto.rounds ?? config.rounds;
+
+      const challenge = await this.prisma.$transaction(async (tx) => {
+        const game = await tx.game.create({
+          data: {
+            mode: GameMode.QUICK_GAME,
+            language_id: createDto.language_id,
+            host_id: userId,
+            game_phase: GamePhase.WAITING,
+            total_questions: rounds * 2,
+          },
+        });
+
+        for (const [index, user] of [challenger, opponent].entries()) {
+          await tx.gamePlayer.create({
+            data: {
+              game_id: game.id,
+              user_id: user.id,
+              player_order: index + 1,
+              status: 'ACTIVE',
+              player_name: user.name ?? user.username,
+            },
+          });
+        }
+
+        return tx.asyncChallenge.create({
+          data: {
+            game_id: game.id,
+            challenger_id: userId,
+            opponent_id: opponent.id,
+            turn_hours: turnHours,
+            turn_deadline_at: AsyncChallengeHelper.deadlineFrom(
+              new Date(),
+              turnHours,
+            ),
+          },
+          include: challengeInclude,
+        });
+      });
+
+      await this.schedule(challenge, 'accept', 0);
+      this.notify(
+        [opponent.id],
+        'challengeReceived',
+        this.summary(challenge, opponent.id),
+      );
+
+      return {
+        success: true,
+        message: `Challenge sent to ${opponent.username}`,
+        data: this.summary(challenge, userId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async findAll(userId: string, query: AsyncChallengeQueryDto) {
+    try {
+      const challenges = await this.prisma.asyncChallenge.findMany({
+        where: {
+          OR: [{ challenger_id: userId }, { opponent_id: userId }],
+          ...(query.status ? { status: query.status } : {}),
+        },
+        include: challengeInclude,
+        orderBy: { updated_at: 'desc' },
+      });
+
+      return {
+        success: true,
+        message: 'Challenges retrieved successfully',
+        data: challenges.map((challenge) => this.summary(challenge, userId)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async findOne(userId: string, id: string) {
+    try {
+      const challenge = await this.findParticipating(id, userId);
+
+      return {
+        success: true,
+        message: 'Challenge retrieved successfully',
+        data: this.summary(challenge, userId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async accept(userId: string, id: string) {
+    try {
+      const challenge = await this.findPending(id, userId);
+
+      const claimed = await this.prisma.asyncChallenge.updateMany({
+        where: { id, status: AsyncChallengeStatus.PENDING },
+        data: { status: AsyncChallengeStatus.ACTIVE },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException('Challenge is no longer pending');
+      }
+
+      const started = (await this.engine
+        .start(challenge.game_id, userId, { flow: GameFlow.QUICK })
+        .catch((error) => ({ success: false, message: error.message }))) as {
+        success: boolean;
+        message: string;
+      };
+      if (!started.success) {
+        await this.prisma.asyncChallenge.update({
+          where: { id },
+          data: { status: AsyncChallengeStatus.PENDING },
+        });
+        return started;
+      }
+
+      await this.unschedule(id, 'accept', challenge.turn_deadline_at);
+      const accepted = await this.armTurn(id);
+      this.notify(
+        [challenge.challenger_id],
+        'challengeAccepted',
+        this.summary(accepted, challenge.challenger_id),
+      );
+
+      return {
+        success: true,
+        message: 'Challenge accepted',
+        data: this.summary(accepted, userId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async decline(userId: string, id: string) {
+    try {
+      const challenge = await this.findPending(id, userId);
+
+      const declined = await this.prisma.asyncChallenge.update({
+        where: { id },
+        data: {
+          status: AsyncChallengeStatus.DECLINED,
+          turn_deadline_at: null,
+        },
+        include: challengeInclude,
+      });
+      await this.closeGame(challenge.game_id, 'declined');
+      await this.unschedule(id, 'accept', challenge.turn_deadline_at);
+
+      this.notify(
+        [challenge.challenger_id],
+        'challengeDeclined',
+        this.summary(declined, challenge.challenger_id),
+      );
+
+      return {
+        success: true,
+        message: 'Challenge declined',
+        data: this.summary(declined, userId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async selectCategory(
+    userId: string,
+    id: string,
+    categoryDto: ChallengeCategoryDto,
+  ) {
+    try {
+      const challenge = await this.findOnTurn(id, userId);
+
+      return await this.engine.selectCategory(challenge.game_id, userId, {
+        category_id: categoryDto.category_id,
+        difficulty_id: categoryDto.difficulty_id,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async getQuestion(userId: string, id: string) {
+    try {
+      const challenge = await this.findOnTurn(id, userId);
+
+      return await this.engine.getQuestion(challenge.game_id, userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async answer(userId: string, id: string, answerDto: ChallengeAnswerDto) {
+    try {
+      const challenge = await this.findOnTurn(id, userId);
+
+      const result = await this.engine.answer(
+        challenge.game_id,
+        userId,
+        this.answerOf(answerDto),
+      );
+
+      return await this.withNextTurn(result, id, userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async steal(userId: string, id: string, answerDto: ChallengeAnswerDto) {
+    try {
+      const challenge = await this.findOnTurn(id, userId);
+
+      const result = await this.engine.steal(
+        challenge.game_id,
+        userId,
+        this.answerOf(answerDto),
+      );
+
+      return await this.withNextTurn(result, id, userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Runs when a deadline job fires. A pending challenge expires, an
+   * unplayed turn is forfeited. Jobs for deadlines that have since been
+   * replaced, because the turn was played in time, are ignored.
+   */
+  async expireDeadline(job: ChallengeDeadlineJobData) {
+    const challenge = await this.prisma.asyncChallenge.findUnique({
+      where: { id: job.challenge_id },
+      include: challengeInclude,
+    });
+    if (!challenge) {
+      return null;
+    }
+
+    if (job.kind === 'accept') {
+      const expired = await this.prisma.asyncChallenge.updateMany({
+        where: { id: challenge.id, status: AsyncChallengeStatus.PENDING },
+        data: { status: AsyncChallengeStatus.EXPIRED, turn_deadline_at: null },
+      });
+      if (expired.count === 0) {
+        return null;
+      }
+
+      await this.closeGame(challenge.game_id, 'expired');
+      this.notify(
+        [challenge.challenger_id, challenge.opponent_id],
+        'challengeExpired',
+        { challenge_id: challenge.id, game_id: challenge.game_id },
+      );
+      return { challenge_id: challenge.id, expired: true };
+    }
+
+    if (
+      challenge.status !== AsyncChallengeStatus.ACTIVE ||
+      challenge.turn_deadline_at?.toISOString() !== job.deadline
+    ) {
+      return null;
+    }
+
+    return this.forfeitTurn(challenge);
+  }
+
+  /**
+   * The player the challenge waits for loses their turn, the game takes it
+   * as a missed question and the opponent is up.
+   */
+  private async forfeitTurn(challenge: ChallengeWithGame) {
+    const { game } = challenge;
+    const player = AsyncChallengeHelper.playerUp(game);
+    if (!player) {
+      return null;
+    }
+
+    const forfeited = await this.engine.forfeit(game.id, player.id, true);
+    if (!forfeited) {
+      return null;
+    }
+
+    await this.prisma.asyncChallenge.update({
+      where: { id: challenge.id },
+      data: { missed_turns: { increment: 1 } },
+    });
+    this.notify([player.user_id].filter(Boolean), 'challengeTurnForfeited', {
+      challenge_id: challenge.id,
+      game_id: game.id,
+      turn: game.current_turn,
+    });
+
+    const next = await this.afterTurn(challenge.id);
+    return { challenge_id: challenge.id, status: next.status, forfeited: true };
+  }
+
+  // attach the state of the challenge to a successful answer or steal
+  private async withNextTurn(result: unknown, id: string, userId: string) {
+    const played = result as { success: boolean; data?: any };
+    if (!played.success) {
+      return played;
+    }
+
+    const challenge = await this.afterTurn(id);
+    return {
+      ...played,
+      data: { ...played.data, challenge: this.summary(challenge, userId) },
+    };
+  }
+
+  // close the challenge once its game is over, otherwise start the clock of
+  // the player who is up next
+  private async afterTurn(id: string) {
+    const challenge = await this.prisma.asyncChallenge.findUnique({
+      where: { id },
+      include: challengeInclude,
+    });
+
+    if (!AsyncChallengeHelper.isFinished(challenge.game)) {
+      return this.armTurn(id);
+    }
+
+    const completed = await this.prisma.asyncChallenge.update({
+      where: { id },
+      data: {
+        status: AsyncChallengeStatus.COMPLETED,
+        turn_deadline_at: null,
+      },
+      include: challengeInclude,
+    });
+    await this.unschedule(id, 'turn', challenge.turn_deadline_at);
+
+    for (const userId of [completed.challenger_id, completed.opponent_id]) {
+      this.notify(
+        [userId],
+        'challengeCompleted',
+        this.summary(completed, userId),
+      );
+    }
+    return completed;
+  }
+
+  private async armTurn(id: string) {
+    const challenge = await this.prisma.asyncChallenge.findUnique({
+      where: { id },
+    });
+
+    const armed = await this.prisma.asyncChallenge.update({
+      where: { id },
+      data: {
+        turn_deadline_at: AsyncChallengeHelper.deadlineFrom(
+          new Date(),
+          challenge.turn_hours,
+        ),
+      },
+      include: challengeInclude,
+    });
+    const { game } = armed;
+
+    await this.unschedule(id, 'turn', challenge.turn_deadline_at);
+    await this.schedule(armed, 'turn', game.current_turn);
+
+    const player = AsyncChallengeHelper.playerUp(game);
+    if (player?.user_id) {
+      this.notify(
+        [player.user_id],
+        'challengeYourTurn',
+        this.summary(armed, player.user_id),
+      );
+    }
+    return armed;
+  }
+
+  private async findParticipating(id: string, userId: string) {
+    const challenge = await this.prisma.asyncChallenge.findUnique({
+      where: { id },
+      include: challengeInclude,
+    });
+    if (
+      !challenge ||
+      (challenge.challenger_id !== userId && challenge.opponent_id !== userId)
+    ) {
+      throw new NotFoundException('Challenge not found');
+    }
+    return challenge;
+  }
+
+  private async findPending(id: string, userId: string) {
+    const challenge = await this.findParticipating(id, userId);
+    if (challenge.opponent_id !== userId) {
+      throw new ForbiddenException('Only the challenged user can respond');
+    }
+    if (challenge.status !== AsyncChallengeStatus.PENDING) {
+      throw new BadRequestException(
+        `Challenge is ${challenge.status.toLowerCase()}`,
+      );
+    }
+    if (AsyncChallengeHelper.isOverdue(challenge.turn_deadline_at)) {
+      throw new BadRequestException('Challenge has expired');
+    }
+    return challenge;
+  }
+
+  private async findOnTurn(id: string, userId: string) {
+    const challenge = await this.findParticipating(id, userId);
+    if (challenge.status !== AsyncChallengeStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Challenge is ${challenge.status.toLowerCase()}`,
+      );
+    }
+
+    if (AsyncChallengeHelper.playerUp(challenge.game)?.user_id !== userId) {
+      throw new ForbiddenException('It is not your turn');
+    }
+    if (AsyncChallengeHelper.isOverdue(challenge.turn_deadline_at)) {
+      throw new BadRequestException('Your turn has expired');
+    }
+    return challenge;
+  }
+
+  private async closeGame(gameId: string, status: string) {
+    await this.prisma.game.update({
+      where: { id: gameId },
+      data: { status, game_phase: GamePhase.COMPLETED },
+    });
+  }
+
+  private summary(challenge: ChallengeWithGame, userId: string) {
+    return {
+      ...challenge,
+      your_turn:
+        challenge.status === AsyncChallengeStatus.ACTIVE &&
+        AsyncChallengeHelper.playerUp(challenge.game)?.user_id === userId,
+    };
+  }
+
+  private async schedule(
+    challenge: ChallengeWithGame,
+    kind: ChallengeDeadlineKind,
+    turn: number,
+  ) {
+    try {
+      const deadline = challenge.turn_deadline_at;
+      const delay = Math.max(deadline.getTime() - Date.now(), 0);
+
+      await this.queue.add(
+        'challengeDeadline',
+        {
+          challenge_id: challenge.id,
+          kind,
+          turn,
+          deadline: deadline.toISOString(),
+        },
+        {
+          jobId: this.jobId(challenge.id, kind, deadline),
+          delay: delay + DEADLINE_GRACE_MS,
+          removeOnComplete: true,
+          removeOnFail: true,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error scheduling ${kind} deadline for challenge ${challenge.id}`,
+        error,
+      );
+    }
+  }
+
+  private async unschedule(
+    id: string,
+    kind: ChallengeDeadlineKind,
+    deadline: Date | null,
+  ) {
+    if (!deadline) {
+      return;
+    }
+    try {
+      await this.queue.remove(this.jobId(id, kind, deadline));
+    } catch (error) {
+      this.logger.error(
+        `Error cancelling ${kind} deadline for challenge ${id}`,
+        error,
+      );
+    }
+  }
+
+  // one job per deadline: a steal keeps the turn but gets a deadline of
+  // its own, and bullmq skips a job whose id is already queued. bullmq
+  // does not allow ':' in custom job ids.
+  private jobId(id: string, kind: ChallengeDeadlineKind, deadline: Date) {
+    return `${kind}-${id}-${deadline.getTime()}`;
+  }
+
+  private answerOf(answerDto: ChallengeAnswerDto) {
+    return {
+      question_id: answerDto.question_id,
+      answer_id: answerDto.answer_id,
+      answer_text: answerDto.answer_text,
+      answer_ids: answerDto.answer_ids,
+    };
+  }
+
+  private notify(userIds: string[], event: string, payload: any) {
+    if (userIds.length > 0) {
+      this.gameGateway.server.to(userIds).emit(event, payload);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AsyncChallengeStatus } from '@prisma/client';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+export class CreateAsyncChallengeDto {
+  @ApiProperty({ description: 'Username of the friend to challenge' })
+  @IsString()
+  @IsNotEmpty()
+  username: string;
+
+  @ApiProperty({
+    description: 'Language of the game',
+    example: 'clxkfzium000008l4f14m2b1q',
+  })
+  @IsString()
+  @IsNotEmpty()
+  language_id: string;
+
+  @ApiProperty({
+    description: 'Hours each side has to play a turn. Defaults to 24',
+    example: 24,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  @IsOptional()
+  turn_hours?: number;
+
+  @ApiProperty({
+    description: 'Questions each player gets. Defaults to 5',
+    example: 5,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  @IsOptional()
+  rounds?: number;
+}
+
+export class AsyncChallengeQueryDto {
+  @ApiProperty({ enum: AsyncChallengeStatus, required: false })
+  @IsEnum(AsyncChallengeStatus)
+  @IsOptional()
+  status?: AsyncChallengeStatus;
+}
+
+export class ChallengeCategoryDto {
+  @ApiProperty({ description: 'Category for your turn' })
+  @IsString()
+  @IsNotEmpty()
+  category_id: string;
+
+  @ApiProperty({ description: 'Difficulty for your turn' })
+  @IsString()
+  @IsNotEmpty()
+  difficulty_id: string;
+}
+
+export class ChallengeAnswerDto {
+  @ApiProperty({ description: 'The question being answered' })
+  @IsString()
+  @IsNotEmpty()
+  question_id: string;
+
+  @ApiProperty({
+    description: 'Selected answer, or "true"/"false"',
+    required: false,
+  })
+  @ValidateIf((o) => !o.answer_text && !o.answer_ids)
+  @IsString()
+  @IsNotEmpty()
+  answer_id?: string;
+
+  @ApiProperty({ description: 'Typed answer', required: false })
+  @ValidateIf((o) => !o.answer_id && !o.answer_ids)
+  @IsString()
+  @IsNotEmpty()
+  answer_text?: string;
+
+  @ApiProperty({
+    description: 'Answers picked, or put in order',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  answer_ids?: string[];
+}
@@ -0,0 +1,62 @@
+import { GamePhase } from '@prisma/client';
+import { AsyncChallengeHelper } from './async-challenge.helper';
+
+describe('AsyncChallengeHelper', () => {
+  const game = {
+    game_phase: GamePhase.CATEGORY_SELECTION,
+    current_player_id: 'p1',
+    game_players: [{ id: 'p1' }, { id: 'p2' }],
+    game_questions: [{ game_player_id: 'p2' }],
+  };
+
+  it('should give each turn the configured number of hours', () => {
+    const from = new Date('2026-10-19T12:00:00.000Z');
+    const deadline = AsyncChallengeHelper.deadlineFrom(from, 24);
+
+    expect(deadline.toISOString()).toBe('2026-10-20T12:00:00.000Z');
+    expect(AsyncChallengeHelper.isOverdue(deadline, deadline)).toBe(false);
+    expect(
+      AsyncChallengeHelper.isOverdue(
+        deadline,
+        new Date(deadline.getTime() + 1),
+      ),
+    ).toBe(true);
+    expect(AsyncChallengeHelper.isOverdue(null)).toBe(false);
+  });
+
+  it('should wait for the player on turn', () => {
+    expect(AsyncChallengeHelper.playerUp(game)?.id).toBe('p1');
+  });
+
+  it('should leave a missed question to the opponent to steal', () => {
+    const stealing = {
+      ...game,
+      game_phase: GamePhase.STEAL_MODE_ACTIVE,
+      current_player_id: null,
+    };
+
+    expect(AsyncChallengeHelper.playerUp(stealing)?.id).toBe('p1');
+    expect(
+      AsyncChallengeHelper.playerUp({
+        ...stealing,
+        game_phase: GamePhase.STEAL_MODE_ON_TIMEOUT,
+        game_questions: [{ game_player_id: 'p1' }],
+      })?.id,
+    ).toBe('p2');
+  });
+
+  it('should finish once the game has completed', () => {
+    expect(AsyncChallengeHelper.isFinished(game)).toBe(false);
+    expect(
+      AsyncChallengeHelper.isFinished({
+        ...game,
+        game_phase: GamePhase.STEAL_MODE_ACTIVE,
+      }),
+    ).toBe(false);
+    expect(
+      AsyncChallengeHelper.isFinished({
+        game_phase: GamePhase.COMPLETED,
+      }),
+    ).toBe(true);
+  });
+});
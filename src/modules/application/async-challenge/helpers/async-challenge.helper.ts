@@ -0,0 +1,49 @@
+import { GamePhase } from '@prisma/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const STEAL_PHASES: GamePhase[] = [
+  GamePhase.STEAL_MODE_ACTIVE,
+  GamePhase.STEAL_MODE_ON_TIMEOUT,
+];
+
+export type ChallengeProgress<P extends { id: string }> = {
+  game_phase: GamePhase;
+  current_player_id: string | null;
+  game_players: P[];
+  // latest question first
+  game_questions: { game_player_id: string | null }[];
+};
+
+export class AsyncChallengeHelper {
+  static deadlineFrom(from: Date, turnHours: number): Date {
+    return new Date(from.getTime() + turnHours * HOUR_MS);
+  }
+
+  static isOverdue(deadline: Date | null, now: Date = new Date()): boolean {
+    return !!deadline && now.getTime() > deadline.getTime();
+  }
+
+  /**
+   * Player the challenge waits for: the one on turn, or while a missed
+   * question is open for stealing, the opponent of the one who missed it
+   */
+  static playerUp<P extends { id: string }>(
+    game: ChallengeProgress<P>,
+  ): P | null {
+    if (STEAL_PHASES.includes(game.game_phase)) {
+      const owner = game.game_questions[0]?.game_player_id;
+      return game.game_players.find((p) => p.id !== owner) ?? null;
+    }
+    return (
+      game.game_players.find((p) => p.id === game.current_player_id) ?? null
+    );
+  }
+
+  /**
+   * The game has been played out, the last steal included
+   */
+  static isFinished(game: { game_phase: GamePhase }): boolean {
+    return game.game_phase === GamePhase.COMPLETED;
+  }
+}
@@ -0,0 +1,40 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import {
+  ASYNC_CHALLENGE_QUEUE,
+  AsyncChallengeService,
+  ChallengeDeadlineJobData,
+} from '../async-challenge.service';
+
+@Processor(ASYNC_CHALLENGE_QUEUE)
+export class ChallengeDeadlineProcessor extends WorkerHost {
+  private readonly logger = new Logger(ChallengeDeadlineProcessor.name);
+  constructor(private asyncChallengeService: AsyncChallengeService) {
+    super();
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.log(`Job ${job.id} with name ${job.name} completed`);
+  }
+
+  async process(job: Job<ChallengeDeadlineJobData>): Promise<any> {
+    this.logger.log(`Processing job ${job.id} with name ${job.name}`);
+    try {
+      switch (job.name) {
+        case 'challengeDeadline':
+          return await this.asyncChallengeService.expireDeadline(job.data);
+        default:
+          this.logger.log('Unknown job name');
+          return;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing job ${job.id} with name ${job.name}`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
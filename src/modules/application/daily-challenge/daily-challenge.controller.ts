@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { DailyChallengeService } from './daily-challenge.service';
+import {
+  DailyChallengeAnswerDto,
+  DailyLeaderboardQueryDto,
+  StartDailyChallengeDto,
+} from './dto/daily-challenge.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+@ApiTags('Daily Challenge')
+@ApiBearerAuth()
+@Controller('daily-challenge')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class DailyChallengeController {
+  constructor(private readonly dailyChallengeService: DailyChallengeService) {}
+
+  @ApiOperation({ summary: "Get today's challenge, your attempt and streak" })
+  @Get('today')
+  async getToday(@Query('language_id') languageId: string, @Req() req: any) {
+    try {
+      return await this.dailyChallengeService.getToday(
+        req.user.userId,
+        languageId,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: "Start (or resume) today's daily challenge" })
+  @Post('start')
+  async start(@Body() startDto: StartDailyChallengeDto, @Req() req: any) {
+    try {
+      return await this.dailyChallengeService.start(req.user.userId, startDto);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the current question of a daily challenge' })
+  @Get('question/:gameId')
+  async getQuestion(@Param('gameId') gameId: string, @Req() req: any) {
+    try {
+      return await this.dailyChallengeService.getQuestion(
+        req.user.userId,
+        gameId,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Answer the current question of a daily challenge' })
+  @Post('answer')
+  async answer(@Body() answerDto: DailyChallengeAnswerDto, @Req() req: any) {
+    try {
+      return await this.dailyChallengeService.answer(
+        req.user.userId,
+        answerDto,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the daily leaderboard' })
+  @Get('leaderboard')
+  async getLeaderboard(
+    @Query() query: DailyLeaderboardQueryDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.dailyChallengeService.getLeaderboard(
+        req.user.userId,
+        query,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get your daily challenge streak' })
+  @Get('streak')
+  async getStreak(@Req() req: any) {
+    try {
+      return await this.dailyChallengeService.getStreak(req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { DailyChallengeService } from './daily-challenge.service';
+import { DailyChallengeController } from './daily-challenge.controller';
+
+// Global so question selection everywhere can leave out today's questions
+@Global()
+@Module({
+  controllers: [DailyChallengeController],
+  providers: [DailyChallengeService],
+  exports: [DailyChallengeService],
+})
+export class DailyChallengeModule {}
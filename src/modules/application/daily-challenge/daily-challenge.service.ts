@@ -0,0 +1,817 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DailyChallengeAttempt,
+  GameEventType,
+  GameMode,
+  GamePhase,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import appConfig from '../../../config/app.config';
+import { GameEventService } from '../game-event/game-event.service';
+import { GamePhaseHelper } from '../game-player/helpers/game-phase.helper';
+import { ScoringHelper } from '../game-player/helpers/scoring.helper';
+import { AnswerGradingHelper } from '../game-player/helpers/answer-grading.helper';
+import { AnswerTokenHelper } from '../game-player/helpers/answer-token.helper';
+import {
+  DailyChallengeAnswerDto,
+  DailyLeaderboardQueryDto,
+  StartDailyChallengeDto,
+} from './dto/daily-challenge.dto';
+import { DailyChallengeHelper } from './helpers/daily-challenge.helper';
+
+const challengeInclude = {
+  questions: {
+    orderBy: { position: 'asc' as const },
+    select: { question_id: true, position: true },
+  },
+};
+
+const userSelect = { id: true, name: true, avatar: true };
+
+@Injectable()
+export class DailyChallengeService {
+  private readonly logger = new Logger(DailyChallengeService.name);
+
+  // question ids of today's challenges, kept until the day changes
+  private excluded: { day: number; ids: string[] } | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameEvents: GameEventService,
+  ) {}
+
+  /**
+   * Today's challenge for a language along with the user's attempt and
+   * streak. The questions themselves are only shown while playing.
+   */
+  async getToday(userId: string, languageId: string) {
+    try {
+      const today = DailyChallengeHelper.dayOf();
+      const challenge = await this.ensureChallenge(languageId, today);
+
+      const [attempt, streak, questions] = await Promise.all([
+        this.prisma.dailyChallengeAttempt.findUnique({
+          where: {
+            challenge_id_user_id: {
+              challenge_id: challenge.id,
+              user_id: userId,
+            },
+          },
+        }),
+        this.prisma.dailyStreak.findUnique({ where: { user_id: userId } }),
+        this.prisma.question.findMany({
+          where: { id: { in: challenge.questions.map((q) => q.question_id) } },
+          select: {
+            category: { select: { id: true, name: true } },
+            difficulty: { select: { id: true, name: true } },
+          },
+        }),
+      ]);
+
+      const categories = new Map<string, { name: string; questions: number }>();
+      for (const question of questions) {
+        const entry = categories.get(question.category.id) ?? {
+          name: question.category.name,
+          questions: 0,
+        };
+        entry.questions++;
+        categories.set(question.category.id, entry);
+      }
+
+      return {
+        success: true,
+        message: "Today's daily challenge retrieved successfully",
+        data: {
+          challenge_id: challenge.id,
+          date: challenge.date,
+          resets_at: DailyChallengeHelper.nextDay(today),
+          total_questions: challenge.questions.length,
+          categories: [...categories.entries()].map(([id, entry]) => ({
+            id,
+            ...entry,
+          })),
+          attempt: attempt
+            ? {
+                game_id: attempt.game_id,
+                score: attempt.score,
+                correct_answers: attempt.correct_answers,
+                wrong_answers: attempt.wrong_answers,
+                completed_at: attempt.completed_at,
+              }
+            : null,
+          can_play: !attempt?.completed_at,
+          streak: {
+            current_streak: DailyChallengeHelper.activeStreak(streak, today),
+            longest_streak: streak?.longest_streak ?? 0,
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Start the user's only attempt at today's challenge. An attempt that was
+   * started but not finished is resumed instead.
+   */
+  async start(userId: string, dto: StartDailyChallengeDto) {
+    try {
+      const challenge = await this.ensureChallenge(dto.language_id);
+
+      const existing = await this.prisma.dailyChallengeAttempt.findUnique({
+        where: {
+          challenge_id_user_id: { challenge_id: challenge.id, user_id: userId },
+        },
+      });
+      if (existing?.completed_at) {
+        return {
+          success: false,
+          message:
+            "You have already played today's daily challenge. Come back tomorrow!",
+          statusCode: 409,
+          data: { game_id: existing.game_id, score: existing.score },
+        };
+      }
+      if (existing) {
+        return {
+          success: true,
+          message: 'Daily challenge resumed',
+          data: {
+            game_id: existing.game_id,
+            date: challenge.date,
+            total_questions: challenge.questions.length,
+            answered_questions:
+              existing.correct_answers + existing.wrong_answers,
+          },
+        };
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { name: true },
+      });
+
+      const game = await this.prisma.$transaction(async (tx) => {
+        const game = await tx.game.create({
+          data: {
+            mode: GameMode.DAILY_CHALLENGE,
+            language_id: dto.language_id,
+            host_id: userId,
+            game_phase: GamePhase.QUESTION,
+            total_questions: challenge.questions.length,
+          },
+        });
+
+        const player = await tx.gamePlayer.create({
+          data: {
+            game_id: game.id,
+            user_id: userId,
+            player_order: 1,
+            status: 'ACTIVE',
+            player_name: user?.name,
+          },
+        });
+
+        await tx.gameQuestion.createMany({
+          data: challenge.questions.map((q) => ({
+            game_id: game.id,
+            question_id: q.question_id,
+            game_player_id: player.id,
+          })),
+        });
+
+        await tx.dailyChallengeAttempt.create({
+          data: {
+            challenge_id: challenge.id,
+            user_id: userId,
+            game_id: game.id,
+          },
+        });
+
+        await this.gameEvents.record(
+          game.id,
+          GameEventType.GAME_STARTED,
+          {
+            payload: {
+              mode: GameMode.DAILY_CHALLENGE,
+              date: challenge.date,
+              total_questions: challenge.questions.length,
+            },
+          },
+          tx,
+        );
+
+        return game;
+      });
+
+      return {
+        success: true,
+        message: 'Daily challenge started',
+        data: {
+          game_id: game.id,
+          date: challenge.date,
+          total_questions: challenge.questions.length,
+          answered_questions: 0,
+        },
+      };
+    } catch (error) {
+      // a second request raced this one to the attempt
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return {
+          success: false,
+          message: 'You have already started the daily challenge.',
+          statusCode: 409,
+        };
+      }
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Next question of the attempt. The clock starts the first time the
+   * question is shown; asking again does not reset it.
+   */
+  async getQuestion(userId: string, gameId: string) {
+    try {
+      const attempt = await this.findOpenAttempt(userId, gameId);
+      const entry = await this.currentEntry(attempt);
+
+      const question = await this.prisma.question.findUnique({
+        where: { id: entry.question_id },
+        select: {
+          id: true,
+          text: true,
+          points: true,
+          time: true,
+          file_url: true,
+          true_false_answer: true,
+          category: { select: { id: true, name: true } },
+          difficulty: { select: { id: true, name: true } },
+          question_type: { select: { id: true, name: true, kind: true } },
+          answers: { select: { id: true, text: true, file_url: true } },
+        },
+      });
+
+      const { game } = attempt;
+      let deadlineAt = game.question_deadline_at;
+      if (game.current_question !== entry.position || !game.question_asked_at) {
+        const askedAt = new Date();
+        deadlineAt = new Date(askedAt.getTime() + question.time * 1000);
+        await this.prisma.$transaction(async (tx) => {
+          await tx.game.update({
+            where: { id: gameId },
+            data: {
+              current_question: entry.position,
+              question_asked_at: askedAt,
+              question_deadline_at: deadlineAt,
+            },
+          });
+          await this.gameEvents.record(
+            gameId,
+            GameEventType.QUESTION_REVEALED,
+            {
+              question_id: question.id,
+              payload: { question_number: entry.position },
+            },
+            tx,
+          );
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Question retrieved successfully',
+        data: {
+          game_id: gameId,
+          question_number: entry.position,
+          total_questions: attempt.challenge.questions.length,
+          deadline_at: deadlineAt,
+          question: {
+            ...question,
+            // told with the answer result
+            true_false_answer: undefined,
+            answers: AnswerGradingHelper.present(
+              gameId,
+              question,
+              appConfig().game.answer_tokens.secret,
+            ),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Answer the current question. Answers after the deadline, or without an
+   * answer, count as wrong. The last answer completes the attempt.
+   */
+  async answer(userId: string, dto: DailyChallengeAnswerDto) {
+    try {
+      const attempt = await this.findOpenAttempt(userId, dto.game_id);
+      const entry = await this.currentEntry(attempt);
+
+      if (entry.question_id !== dto.question_id) {
+        throw new BadRequestException('This is not the current question');
+      }
+
+      const question = await this.prisma.question.findUnique({
+        where: { id: dto.question_id },
+        include: { answers: true, question_type: true },
+      });
+
+      const secret = appConfig().game.answer_tokens.secret;
+      const answered = !!(
+        dto.answer_id ||
+        dto.answer_text ||
+        dto.answer_ids?.length
+      );
+      const graded = answered
+        ? AnswerGradingHelper.grade(
+            dto.game_id,
+            question,
+            {
+              answer_id: dto.answer_id,
+              answer_text: dto.answer_text,
+              answer_ids: dto.answer_ids,
+            },
+            secret,
+            attempt.game.language?.code,
+          )
+        : null;
+      if (answered && !graded) {
+        throw new BadRequestException('Invalid answer selected');
+      }
+      const selectedAnswer = graded?.answer ?? null;
+
+      // claim the question so a repeated request cannot answer it twice
+      const { question_asked_at, question_deadline_at } = attempt.game;
+      const claimed = await this.prisma.game.updateMany({
+        where: {
+          id: dto.game_id,
+          current_question: entry.position,
+          question_asked_at: { not: null },
+        },
+        data: { question_asked_at: null, question_deadline_at: null },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException('Get the question before answering it');
+      }
+
+      const answeredAt = new Date();
+      const timedOut =
+        !!question_deadline_at && answeredAt > question_deadline_at;
+      const isCorrect = !timedOut && !!graded?.is_correct;
+      const responseTimeMs = ScoringHelper.responseTimeMs(
+        question_asked_at,
+        answeredAt,
+      );
+      const pointsEarned = ScoringHelper.calculatePoints({
+        points: question.points,
+        is_correct: isCorrect,
+        credit: timedOut ? 0 : graded?.credit,
+        response_time_ms: responseTimeMs,
+        time_limit_seconds: question.time,
+      });
+      const results = isCorrect
+        ? { correct_answers: { increment: 1 } }
+        : { wrong_answers: { increment: 1 } };
+      const player = attempt.game.game_players[0];
+
+      const updatedPlayer = await this.prisma.$transaction(async (tx) => {
+        await tx.playerAnswer.create({
+          data: {
+            game_player_id: player.id,
+            question_id: question.id,
+            answer_id: selectedAnswer?.id ?? null,
+            answer_text: graded?.answer_text ?? null,
+            similarity: graded?.similarity ?? null,
+            submission: graded?.submission,
+            credit: graded?.credit ?? null,
+            isCorrect,
+            response_time_ms: responseTimeMs,
+          },
+        });
+        const updatedPlayer = await tx.gamePlayer.update({
+          where: { id: player.id },
+          data: { score: { increment: pointsEarned }, ...results },
+        });
+        await tx.dailyChallengeAttempt.update({
+          where: { id: attempt.id },
+          data: {
+            score: { increment: pointsEarned },
+            ...results,
+            total_response_time_ms: {
+              increment: Math.min(
+                responseTimeMs ?? question.time * 1000,
+                question.time * 1000,
+              ),
+            },
+          },
+        });
+
+        await this.gameEvents.record(
+          dto.game_id,
+          timedOut
+            ? GameEventType.QUESTION_TIMED_OUT
+            : GameEventType.ANSWER_SUBMITTED,
+          {
+            game_player_id: player.id,
+            question_id: question.id,
+            points: pointsEarned,
+            payload: {
+              answer_id: AnswerTokenHelper.tokenOf(
+                dto.game_id,
+                selectedAnswer?.id,
+                secret,
+              ),
+              is_correct: isCorrect,
+              response_time_ms: responseTimeMs,
+            },
+          },
+          tx,
+        );
+        return updatedPlayer;
+      });
+
+      const isLast = entry.position === attempt.challenge.questions.length;
+      const result = isLast ? await this.complete(attempt) : null;
+
+      return {
+        success: true,
+        message: timedOut
+          ? "Time's up!"
+          : isCorrect
+            ? 'Correct!'
+            : 'Incorrect!',
+        data: {
+          is_correct: isCorrect,
+          similarity: graded?.similarity ?? null,
+          credit: graded?.credit ?? null,
+          timed_out: timedOut,
+          points_earned: pointsEarned,
+          current_score: updatedPlayer.score,
+          correct_answer: AnswerGradingHelper.reveal(
+            dto.game_id,
+            question,
+            secret,
+          ),
+          question_number: entry.position,
+          total_questions: attempt.challenge.questions.length,
+          is_completed: isLast,
+          result,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Completed attempts of a day ranked by score, then correct answers, then
+   * total answering time
+   */
+  async getLeaderboard(userId: string, query: DailyLeaderboardQueryDto) {
+    try {
+      const day = DailyChallengeHelper.dayOf(
+        query.date ? new Date(query.date) : new Date(),
+      );
+      const challenge = await this.prisma.dailyChallenge.findUnique({
+        where: {
+          date_language_id: { date: day, language_id: query.language_id },
+        },
+      });
+
+      const attempts = challenge
+        ? await this.prisma.dailyChallengeAttempt.findMany({
+            where: { challenge_id: challenge.id, completed_at: { not: null } },
+            include: { user: { select: userSelect } },
+            orderBy: [
+              { score: 'desc' },
+              { correct_answers: 'desc' },
+              { total_response_time_ms: 'asc' },
+              { completed_at: 'asc' },
+            ],
+          })
+        : [];
+
+      const entries = attempts.map((attempt, index) => ({
+        rank: index + 1,
+        user: attempt.user,
+        score: attempt.score,
+        correct_answers: attempt.correct_answers,
+        wrong_answers: attempt.wrong_answers,
+        total_response_time_ms: attempt.total_response_time_ms,
+        completed_at: attempt.completed_at,
+      }));
+
+      return {
+        success: true,
+        message: 'Daily leaderboard retrieved successfully',
+        data: {
+          date: day,
+          language_id: query.language_id,
+          total_players: entries.length,
+          leaderboard: entries.slice(0, query.limit ?? 50),
+          my_entry: entries.find((e) => e.user.id === userId) ?? null,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async getStreak(userId: string) {
+    try {
+      const today = DailyChallengeHelper.dayOf();
+      const streak = await this.prisma.dailyStreak.findUnique({
+        where: { user_id: userId },
+      });
+
+      return {
+        success: true,
+        message: 'Daily streak retrieved successfully',
+        data: {
+          current_streak: DailyChallengeHelper.activeStreak(streak, today),
+          longest_streak: streak?.longest_streak ?? 0,
+          last_played_date: streak?.last_played_date ?? null,
+          played_today:
+            !!streak?.last_played_date &&
+            DailyChallengeHelper.daysBetween(streak.last_played_date, today) ===
+              0,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Question ids of today's daily challenges, to leave out of normal random
+   * selection. Missing challenges for today are picked first so that no
+   * daily question can be played before it is chosen.
+   */
+  async excludedQuestionIds(): Promise<string[]> {
+    const day = DailyChallengeHelper.dayOf();
+    if (this.excluded?.day === day.getTime()) {
+      return this.excluded.ids;
+    }
+
+    try {
+      const languages = await this.prisma.language.findMany({
+        select: { id: true },
+      });
+
+      const ids: string[] = [];
+      for (const language of languages) {
+        const challenge = await this.ensureChallenge(language.id, day).catch(
+          (error) => {
+            // languages without questions have no challenge
+            if (error instanceof NotFoundException) {
+              return null;
+            }
+            throw error;
+          },
+        );
+        ids.push(...(challenge?.questions.map((q) => q.question_id) ?? []));
+      }
+
+      this.excluded = { day: day.getTime(), ids };
+      return ids;
+    } catch (error) {
+      this.logger.error('Error loading daily challenge questions', error);
+      return [];
+    }
+  }
+
+  /**
+   * The challenge of a language for a day, picking its questions the first
+   * time it is asked for
+   */
+  private async ensureChallenge(
+    languageId: string,
+    day: Date = DailyChallengeHelper.dayOf(),
+  ) {
+    const where = {
+      date_language_id: { date: day, language_id: languageId },
+    };
+    const existing = await this.prisma.dailyChallenge.findUnique({
+      where,
+      include: challengeInclude,
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const pool = await this.prisma.question.findMany({
+      where: {
+        language_id: languageId,
+        answers: { some: { is_correct: true } },
+      },
+      select: { id: true, category_id: true, difficulty_id: true },
+    });
+    const selected = DailyChallengeHelper.selectQuestions(
+      pool,
+      appConfig().game.daily_challenge.questions,
+      DailyChallengeHelper.seedFor(day, languageId),
+    );
+    if (selected.length === 0) {
+      throw new NotFoundException(
+        'No questions are available for a daily challenge in this language',
+      );
+    }
+
+    try {
+      return await this.prisma.dailyChallenge.create({
+        data: {
+          date: day,
+          language_id: languageId,
+          questions: {
+            create: selected.map((question, index) => ({
+              question_id: question.id,
+              position: index + 1,
+            })),
+          },
+        },
+        include: challengeInclude,
+      });
+    } catch (error) {
+      // another request created it first; both picked the same questions
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return this.prisma.dailyChallenge.findUnique({
+          where,
+          include: challengeInclude,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async findOpenAttempt(userId: string, gameId: string) {
+    const attempt = await this.prisma.dailyChallengeAttempt.findUnique({
+      where: { game_id: gameId },
+      include: {
+        challenge: { include: challengeInclude },
+        game: {
+          include: {
+            game_players: true,
+            language: { select: { code: true } },
+          },
+        },
+      },
+    });
+    if (!attempt || attempt.user_id !== userId) {
+      throw new NotFoundException('Daily challenge game not found');
+    }
+    if (attempt.completed_at) {
+      throw new BadRequestException(
+        'You have already finished this daily challenge',
+      );
+    }
+    return attempt;
+  }
+
+  // first question of the set the player has not answered yet
+  private async currentEntry(attempt: {
+    game_id: string;
+    challenge: { questions: { question_id: string; position: number }[] };
+  }) {
+    const answered = await this.prisma.playerAnswer.count({
+      where: { game_player: { game_id: attempt.game_id } },
+    });
+    const entry = attempt.challenge.questions[answered];
+    if (!entry) {
+      throw new BadRequestException('All questions have been answered');
+    }
+    return entry;
+  }
+
+  /**
+   * Finish the attempt, extend the streak and work out the day's rank
+   */
+  private async complete(
+    attempt: DailyChallengeAttempt & {
+      challenge: { date: Date };
+      game: { game_phase: GamePhase; game_players: { id: string }[] };
+    },
+  ) {
+    const phaseConflict = GamePhaseHelper.checkTransition(
+      GamePhaseHelper.flowsForMode(GameMode.DAILY_CHALLENGE),
+      attempt.game.game_phase,
+      GamePhase.COMPLETED,
+    );
+    if (phaseConflict) {
+      throw new BadRequestException(phaseConflict.message);
+    }
+
+    const current = await this.prisma.dailyStreak.findUnique({
+      where: { user_id: attempt.user_id },
+    });
+    const streak = DailyChallengeHelper.nextStreak(
+      current,
+      attempt.challenge.date,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.game.update({
+        where: { id: attempt.game_id },
+        data: { status: 'completed', game_phase: GamePhase.COMPLETED },
+      });
+      await tx.gamePlayer.update({
+        where: { id: attempt.game.game_players[0].id },
+        data: { final_rank: 1 },
+      });
+      const finished = await tx.dailyChallengeAttempt.update({
+        where: { id: attempt.id },
+        data: { completed_at: new Date() },
+      });
+      await tx.dailyStreak.upsert({
+        where: { user_id: attempt.user_id },
+        create: {
+          user_id: attempt.user_id,
+          current_streak: streak.current_streak,
+          longest_streak: streak.longest_streak,
+          last_played_date: streak.last_played_date,
+        },
+        update: {
+          current_streak: streak.current_streak,
+          longest_streak: streak.longest_streak,
+          last_played_date: streak.last_played_date,
+        },
+      });
+
+      const ahead = await tx.dailyChallengeAttempt.count({
+        where: {
+          challenge_id: attempt.challenge_id,
+          completed_at: { not: null },
+          id: { not: attempt.id },
+          OR: [
+            { score: { gt: finished.score } },
+            {
+              score: finished.score,
+              correct_answers: { gt: finished.correct_answers },
+            },
+            {
+              score: finished.score,
+              correct_answers: finished.correct_answers,
+              total_response_time_ms: { lte: finished.total_response_time_ms },
+            },
+          ],
+        },
+      });
+
+      const result = {
+        score: finished.score,
+        correct_answers: finished.correct_answers,
+        wrong_answers: finished.wrong_answers,
+        total_response_time_ms: finished.total_response_time_ms,
+        daily_rank: ahead + 1,
+        streak: {
+          current_streak: streak.current_streak,
+          longest_streak: streak.longest_streak,
+        },
+      };
+
+      await this.gameEvents.record(
+        attempt.game_id,
+        GameEventType.GAME_COMPLETED,
+        { payload: result },
+        tx,
+      );
+
+      return result;
+    });
+  }
+}
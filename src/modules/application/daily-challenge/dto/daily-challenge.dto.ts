@@ -0,0 +1,92 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class StartDailyChallengeDto {
+  @ApiProperty({
+    description: 'Language of the daily challenge',
+    example: 'clxkfzium000008l4f14m2b1q',
+  })
+  @IsString()
+  @IsNotEmpty()
+  language_id: string;
+}
+
+export class DailyChallengeAnswerDto {
+  @ApiProperty({
+    description: 'The ID of the daily challenge game',
+    example: 'clxkfzium000008l4f14m2b1q',
+  })
+  @IsString()
+  @IsNotEmpty()
+  game_id: string;
+
+  @ApiProperty({ description: 'The question being answered' })
+  @IsString()
+  @IsNotEmpty()
+  question_id: string;
+
+  @ApiProperty({
+    description: 'Selected answer. Leave out when the time ran out',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  answer_id?: string;
+
+  @ApiProperty({
+    description: 'Typed answer, for text questions',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  answer_text?: string;
+
+  @ApiProperty({
+    description:
+      'Answers picked for multi-select questions, or put in order for ordering questions',
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  answer_ids?: string[];
+}
+
+export class DailyLeaderboardQueryDto {
+  @ApiProperty({ description: 'Language of the daily challenge' })
+  @IsString()
+  @IsNotEmpty()
+  language_id: string;
+
+  @ApiProperty({
+    description: 'Day to show (UTC). Defaults to today',
+    example: '2026-10-19',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+
+  @ApiProperty({
+    description: 'Number of entries to return',
+    example: 50,
+    required: false,
+  })
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,78 @@
+import { DailyChallengeHelper, PoolQuestion } from './daily-challenge.helper';
+
+// 3 categories with 4 questions each, 2 of each difficulty
+const pool: PoolQuestion[] = ['history', 'science', 'sport'].flatMap(
+  (category) =>
+    [1, 2, 3, 4].map((n) => ({
+      id: `${category}-${n}`,
+      category_id: category,
+      difficulty_id: n % 2 === 0 ? 'hard' : 'easy',
+    })),
+);
+
+describe('DailyChallengeHelper', () => {
+  const day = new Date('2026-10-19T15:30:00.000Z');
+
+  it('should give everyone the same set for a day and language', () => {
+    const seed = DailyChallengeHelper.seedFor(day, 'en');
+    const first = DailyChallengeHelper.selectQuestions(pool, 6, seed);
+    const second = DailyChallengeHelper.selectQuestions(
+      [...pool].reverse(),
+      6,
+      DailyChallengeHelper.seedFor(new Date('2026-10-19T01:00:00Z'), 'en'),
+    );
+
+    expect(second.map((q) => q.id)).toEqual(first.map((q) => q.id));
+    expect(DailyChallengeHelper.seedFor(day, 'ar')).not.toBe(seed);
+  });
+
+  it('should balance categories and difficulties', () => {
+    const selected = DailyChallengeHelper.selectQuestions(pool, 6, 42);
+    const count = (key: keyof PoolQuestion, value: string) =>
+      selected.filter((q) => q[key] === value).length;
+
+    expect(new Set(selected.map((q) => q.id)).size).toBe(6);
+    expect(
+      ['history', 'science', 'sport'].map((c) => count('category_id', c)),
+    ).toEqual([2, 2, 2]);
+    expect(count('difficulty_id', 'easy')).toBe(3);
+  });
+
+  it('should stop when the pool runs out', () => {
+    expect(DailyChallengeHelper.selectQuestions(pool, 20, 1)).toHaveLength(12);
+    expect(DailyChallengeHelper.selectQuestions([], 5, 1)).toEqual([]);
+  });
+
+  it('should extend a streak on consecutive days and reset after a gap', () => {
+    const first = DailyChallengeHelper.nextStreak(null, day);
+    expect(first.current_streak).toBe(1);
+
+    const next = DailyChallengeHelper.nextStreak(
+      first,
+      new Date('2026-10-20T09:00:00Z'),
+    );
+    expect(next).toMatchObject({ current_streak: 2, longest_streak: 2 });
+    expect(
+      DailyChallengeHelper.nextStreak(next, new Date('2026-10-20T22:00:00Z')),
+    ).toBe(next);
+
+    const reset = DailyChallengeHelper.nextStreak(
+      next,
+      new Date('2026-10-23T09:00:00Z'),
+    );
+    expect(reset).toMatchObject({ current_streak: 1, longest_streak: 2 });
+  });
+
+  it('should drop the active streak once a day is missed', () => {
+    const streak = {
+      current_streak: 4,
+      longest_streak: 4,
+      last_played_date: new Date('2026-10-18T00:00:00Z'),
+    };
+
+    expect(DailyChallengeHelper.activeStreak(streak, day)).toBe(4);
+    expect(
+      DailyChallengeHelper.activeStreak(streak, new Date('2026-10-20T00:00Z')),
+    ).toBe(0);
+  });
+});
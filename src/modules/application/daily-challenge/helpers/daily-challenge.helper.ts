@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PoolQuestion = {
+  id: string;
+  category_id: string;
+  difficulty_id: string;
+};
+
+export type StreakState = {
+  current_streak: number;
+  longest_streak: number;
+  last_played_date: Date | null;
+};
+
+export class DailyChallengeHelper {
+  /**
+   * Start of the calendar day (UTC) the date falls on
+   */
+  static dayOf(date: Date = new Date()): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  static nextDay(day: Date): Date {
+    return new Date(this.dayOf(day).getTime() + DAY_MS);
+  }
+
+  // whole days from one calendar day to another
+  static daysBetween(from: Date, to: Date): number {
+    return Math.round(
+      (this.dayOf(to).getTime() - this.dayOf(from).getTime()) / DAY_MS,
+    );
+  }
+
+  /**
+   * Seed shared by everyone playing the language on that day
+   */
+  static seedFor(day: Date, languageId: string): number {
+    const key = `${this.dayOf(day).toISOString().slice(0, 10)}:${languageId}`;
+    return createHash('sha256').update(key).digest().readUInt32BE(0);
+  }
+
+  /**
+   * Small seeded generator (mulberry32) returning numbers in [0, 1)
+   */
+  static random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  static shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Pick the day's questions. The same pool and seed always give the same
+   * set. Categories take turns so they are spread evenly, and each pick
+   * asks for the next difficulty in turn, falling back to whatever
+   * difficulty the category still has.
+   */
+  static selectQuestions<Q extends PoolQuestion>(
+    pool: Q[],
+    count: number,
+    seed: number,
+  ): Q[] {
+    const random = this.random(seed);
+    const sorted = [...pool].sort((a, b) => a.id.localeCompare(b.id));
+
+    const byCategory = new Map<string, Q[]>();
+    for (const question of sorted) {
+      const questions = byCategory.get(question.category_id) ?? [];
+      questions.push(question);
+      byCategory.set(question.category_id, questions);
+    }
+
+    const categories = this.shuffle([...byCategory.keys()].sort(), random);
+    const remaining = new Map(
+      categories.map((id) => [id, this.shuffle(byCategory.get(id), random)]),
+    );
+    const difficulties = this.shuffle(
+      [...new Set(sorted.map((q) => q.difficulty_id))].sort(),
+      random,
+    );
+
+    const selected: Q[] = [];
+    let turn = 0;
+    while (selected.length < count && remaining.size > 0) {
+      for (const categoryId of categories) {
+        const questions = remaining.get(categoryId);
+        if (!questions || selected.length >= count) {
+          continue;
+        }
+
+        const wanted = difficulties[turn % difficulties.length];
+        const index = Math.max(
+          questions.findIndex((q) => q.difficulty_id === wanted),
+          0,
+        );
+        selected.push(questions.splice(index, 1)[0]);
+        turn++;
+
+        if (questions.length === 0) {
+          remaining.delete(categoryId);
+        }
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Streak after completing the challenge of `day`. Another challenge of
+   * the same or an earlier day keeps it, the next day extends it, anything
+   * later starts over.
+   */
+  static nextStreak(streak: StreakState | null, day: Date): StreakState {
+    const gap = streak?.last_played_date
+      ? this.daysBetween(streak.last_played_date, day)
+      : null;
+
+    if (gap !== null && gap <= 0) {
+      return streak;
+    }
+
+    const current = gap === 1 ? streak.current_streak + 1 : 1;
+    return {
+      current_streak: current,
+      longest_streak: Math.max(streak?.longest_streak ?? 0, current),
+      last_played_date: this.dayOf(day),
+    };
+  }
+
+  /**
+   * Streak as it stands today: it is lost once a whole day is missed
+   */
+  static activeStreak(streak: StreakState | null, today: Date): number {
+    if (!streak?.last_played_date) {
+      return 0;
+    }
+    return this.daysBetween(streak.last_played_date, today) <= 1
+      ? streak.current_streak
+      : 0;
+  }
+}
@@ -0,0 +1,138 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import {
+  AnswerSubmission,
+  CategorySelection,
+  PlayStart,
+} from '../strategies/game-mode.strategy';
+
+export class StartPlayDto implements PlayStart {
+  @ApiProperty({
+    enum: GameFlow,
+    required: false,
+    description:
+      'How a quick game is played (QUICK, COMPETITIVE, HOST or ONLINE), the only flow of the mode for the other modes',
+  })
+  @IsOptional()
+  @IsEnum(GameFlow)
+  flow?: GameFlow;
+
+  @ApiProperty({
+    required: false,
+    description: 'First category, online games start with it',
+  })
+  @IsOptional()
+  @IsString()
+  category_id?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  difficulty_id?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Board columns of a grid style game',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(6)
+  @IsString({ each: true })
+  categories?: string[];
+}
+
+export class SelectPlayCategoryDto implements CategorySelection {
+  @IsString()
+  @IsNotEmpty()
+  category_id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  difficulty_id: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Your GamePlayer making the selection when you play for several at one device, in team games only the captain on turn may select',
+  })
+  @IsOptional()
+  @IsString()
+  player_id?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Board cell picked in a grid style game',
+  })
+  @IsOptional()
+  @IsString()
+  cell_id?: string;
+}
+
+export class PlayAnswerDto implements AnswerSubmission {
+  @IsString()
+  @IsNotEmpty()
+  question_id: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Answer token, or "true"/"false", required unless answer_text or answer_ids is given',
+  })
+  @ValidateIf((o) => !o.answer_text && !o.answer_ids)
+  @IsString()
+  @IsNotEmpty()
+  answer_id?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Typed answer of a text question',
+  })
+  @IsOptional()
+  @IsString()
+  answer_text?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Answer tokens picked for a multi-select question, or in order for an ordering question',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  answer_ids?: string[];
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Your answering GamePlayer when you play for several at one device, your own player otherwise',
+  })
+  @IsOptional()
+  @IsString()
+  player_id?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Answering team of a grid style game',
+  })
+  @IsOptional()
+  @IsString()
+  team_id?: string;
+}
+
+export class SkipPlayDto {
+  @IsString()
+  @IsNotEmpty()
+  question_id: string;
+}
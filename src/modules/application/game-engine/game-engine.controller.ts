@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { GameEngineService } from './game-engine.service';
+import {
+  PlayAnswerDto,
+  SelectPlayCategoryDto,
+  SkipPlayDto,
+  StartPlayDto,
+} from './dto/game-engine.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+@ApiTags('Games v2')
+@ApiBearerAuth()
+@Controller('v2/games')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class GameEngineController {
+  constructor(private readonly gameEngineService: GameEngineService) {}
+
+  @ApiOperation({ summary: 'Get a game with its flow, rules and players' })
+  @Get(':id')
+  async getGame(@Param('id') id: string, @Req() req: any) {
+    return this.gameEngineService.getGame(id, req.user.userId);
+  }
+
+  @ApiOperation({ summary: 'Start a game in the given flow' })
+  @Post(':id/start')
+  async start(
+    @Param('id') id: string,
+    @Body() dto: StartPlayDto,
+    @Req() req: any,
+  ) {
+    return this.gameEngineService.start(id, req.user.userId, dto);
+  }
+
+  @ApiOperation({ summary: 'Select a category and difficulty, or a cell' })
+  @Post(':id/category')
+  async selectCategory(
+    @Param('id') id: string,
+    @Body() dto: SelectPlayCategoryDto,
+    @Req() req: any,
+  ) {
+    return this.gameEngineService.selectCategory(id, req.user.userId, dto);
+  }
+
+  @ApiOperation({ summary: 'Get the current question' })
+  @Get(':id/question')
+  async getQuestion(@Param('id') id: string, @Req() req: any) {
+    return this.gameEngineService.getQuestion(id, req.user.userId);
+  }
+
+  @ApiOperation({ summary: 'Answer the current question' })
+  @Post(':id/answer')
+  async answer(
+    @Param('id') id: string,
+    @Body() dto: PlayAnswerDto,
+    @Req() req: any,
+  ) {
+    return this.gameEngineService.answer(id, req.user.userId, dto);
+  }
+
+  @ApiOperation({ summary: 'Steal a question another player got wrong' })
+  @Post(':id/steal')
+  async steal(
+    @Param('id') id: string,
+    @Body() dto: PlayAnswerDto,
+    @Req() req: any,
+  ) {
+    return this.gameEngineService.steal(id, req.user.userId, dto);
+  }
+
+  @ApiOperation({ summary: 'Skip the current question' })
+  @Post(':id/skip')
+  async skip(
+    @Param('id') id: string,
+    @Body() dto: SkipPlayDto,
+    @Req() req: any,
+  ) {
+    return this.gameEngineService.skip(id, req.user.userId, dto.question_id);
+  }
+
+  @ApiOperation({ summary: 'Get scores and progress' })
+  @Get(':id/status')
+  async getStatus(@Param('id') id: string, @Req() req: any) {
+    return this.gameEngineService.getStatus(id, req.user.userId);
+  }
+
+  @ApiOperation({ summary: 'End a game and get its final results' })
+  @Post(':id/end')
+  async end(@Param('id') id: string, @Req() req: any) {
+    return this.gameEngineService.end(id, req.user.userId);
+  }
+}
@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { GameEngineService } from './game-engine.service';
+import { GameRoundService } from './game-round.service';
+import { GameLifelineService } from './game-lifeline.service';
+import { QuestionTimerProcessor } from './processors/question-timer.processor';
+import { GameEngineController } from './game-engine.controller';
+import { LegacyGameController } from './legacy-game.controller';
+import { GamePlayerModule } from '../game-player/game-player.module';
+import { GridStyleModule } from '../grid-style/grid-style.module';
+import { GAME_MODE_STRATEGIES } from './strategies/game-mode.strategy';
+import { QuickStrategy } from './strategies/quick.strategy';
+import { CompetitiveStrategy } from './strategies/competitive.strategy';
+import { HostStrategy } from './strategies/host.strategy';
+import { OnlineStrategy } from './strategies/online.strategy';
+import { GridStrategy } from './strategies/grid.strategy';
+
+const STRATEGIES = [
+  QuickStrategy,
+  CompetitiveStrategy,
+  HostStrategy,
+  OnlineStrategy,
+  GridStrategy,
+];
+
+@Module({
+  imports: [GamePlayerModule, GridStyleModule],
+  controllers: [GameEngineController, LegacyGameController],
+  providers: [
+    ...STRATEGIES,
+    {
+      provide: GAME_MODE_STRATEGIES,
+      useFactory: (...strategies) => strategies,
+      inject: STRATEGIES,
+    },
+    GameRoundService,
+    GameLifelineService,
+    GameEngineService,
+    QuestionTimerProcessor,
+  ],
+  exports: [GameEngineService],
+})
+export class GameEngineModule {}
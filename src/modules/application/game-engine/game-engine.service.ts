@@ -0,0 +1,242 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { GamePhase } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { GameFlow } from '../game-player/helpers/game-phase.helper';
+import { QuestionTimerJobData } from '../game-player/question-timer.service';
+import { UseLifelineDto } from '../game-player/dto/lifeline.dto';
+import { GamePlayerService } from '../game-player/game-player.service';
+import { FINISHED_STATUSES } from '../game-session/helpers/game-session.helper';
+import { GameLifelineService } from './game-lifeline.service';
+import { GameEngineHelper } from './helpers/game-engine.helper';
+import {
+  AnswerSubmission,
+  CategorySelection,
+  EngineContext,
+  EngineGame,
+  GAME_MODE_STRATEGIES,
+  GameModeStrategy,
+  PlayStart,
+} from './strategies/game-mode.strategy';
+
+/**
+ * Single entry point for playing a game. Every action is handed to the
+ * strategy of the flow the game is played through.
+ */
+@Injectable()
+export class GameEngineService {
+  private readonly strategies: Map<GameFlow, GameModeStrategy>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lifelines: GameLifelineService,
+    private readonly gamePlayerService: GamePlayerService,
+    @Inject(GAME_MODE_STRATEGIES) strategies: GameModeStrategy[],
+  ) {
+    this.strategies = new Map(
+      strategies.map((strategy) => [strategy.flow, strategy]),
+    );
+  }
+
+  async getGame(gameId: string, userId: string) {
+    const { game } = await this.context(gameId, userId, true);
+    const flow = GameEngineHelper.flowOf(game);
+
+    return {
+      success: true,
+      message: 'Game fetched successfully',
+      data: {
+        id: game.id,
+        mode: game.mode,
+        flow,
+        status: game.status,
+        game_phase: game.game_phase,
+        current_player_id: game.current_player_id,
+        current_question: game.current_question,
+        total_questions: game.total_questions,
+        rules: this.strategies.get(flow)?.rules ?? null,
+        players: game.game_players.map((player) => ({
+          id: player.id,
+          user_id: player.user_id,
+          player_name: player.player_name,
+          player_order: player.player_order,
+          team_id: player.team_id,
+          score: player.score,
+          status: player.status,
+        })),
+      },
+    };
+  }
+
+  async start(gameId: string, userId: string, start: PlayStart) {
+    const context = await this.context(gameId, userId);
+    const flow = GameEngineHelper.startFlow(context.game, start.flow);
+    if (!flow) {
+      throw new BadRequestException(
+        `${context.game.mode} games cannot be played as ${start.flow}`,
+      );
+    }
+    // a game under way keeps the flow it was started with
+    if (
+      context.game.game_phase !== GamePhase.WAITING &&
+      flow !== GameEngineHelper.flowOf(context.game)
+    ) {
+      throw new BadRequestException(
+        `The game is already played as ${GameEngineHelper.flowOf(context.game)}`,
+      );
+    }
+    return this.strategyFor(flow).start(context, start);
+  }
+
+  async selectCategory(
+    gameId: string,
+    userId: string,
+    selection: CategorySelection,
+  ) {
+    const context = await this.context(gameId, userId);
+    return this.strategyOf(context).selectCategory(context, selection);
+  }
+
+  async getQuestion(gameId: string, userId: string) {
+    const context = await this.context(gameId, userId);
+    return this.strategyOf(context).getQuestion(context);
+  }
+
+  async answer(gameId: string, userId: string, answer: AnswerSubmission) {
+    const context = await this.context(gameId, userId);
+    return this.strategyOf(context).answer(context, answer);
+  }
+
+  async steal(gameId: string, userId: string, answer: AnswerSubmission) {
+    const context = await this.context(gameId, userId);
+    return this.strategyOf(context).steal(context, answer);
+  }
+
+  async skip(gameId: string, userId: string, questionId: string) {
+    const context = await this.context(gameId, userId);
+    return this.strategyOf(context).skip(context, questionId);
+  }
+
+  async getStatus(gameId: string, userId: string) {
+    const context = await this.context(gameId, userId, true);
+    return this.strategyOf(context).getStatus(context);
+  }
+
+  async end(gameId: string, userId: string) {
+    const context = await this.context(gameId, userId);
+    if (!context.is_host) {
+      throw new ForbiddenException('Only the host can end the game');
+    }
+    return this.strategyOf(context).end(context);
+  }
+
+  /**
+   * End the game for the legacy end-game route and answer with its final
+   * rankings. A game that is over only has its rankings read.
+   */
+  async endGame(gameId: string, userId: string) {
+    const game = await this.loadGame(gameId);
+    if (!FINISHED_STATUSES.includes(game.status)) {
+      const ended = (await this.end(gameId, userId)) as { success: boolean };
+      if (!ended.success) {
+        return ended;
+      }
+    }
+    return this.gamePlayerService.finalRankings(gameId, userId);
+  }
+
+  async getLifelines(gameId: string, userId: string, playerId: string) {
+    const context = await this.context(gameId, userId, true);
+    GameEngineHelper.actingPlayer(context.game, userId, playerId);
+    return this.lifelines.inventory(context, playerId);
+  }
+
+  async useLifeline(userId: string, dto: UseLifelineDto) {
+    const context = await this.context(dto.game_id, userId);
+    GameEngineHelper.actingPlayer(context.game, userId, dto.player_id);
+    return this.lifelines.use(context, this.strategyOf(context), dto);
+  }
+
+  /**
+   * Run out the clock of a question, called by the question timer worker
+   */
+  async expire(job: QuestionTimerJobData) {
+    const game = await this.loadGame(job.game_id);
+    if (FINISHED_STATUSES.includes(game.status)) {
+      return { success: false, message: 'Game is no longer active' };
+    }
+    return this.strategyFor(GameEngineHelper.flowOf(game)).expire(game, job);
+  }
+
+  /**
+   * Take the turn from a player who was removed from the game or missed
+   * their deadline
+   */
+  async forfeit(gameId: string, playerId: string, countAsSkipped: boolean) {
+    const game = await this.loadGame(gameId);
+    if (FINISHED_STATUSES.includes(game.status)) {
+      return null;
+    }
+    return this.strategyFor(GameEngineHelper.flowOf(game)).forfeit(
+      game,
+      playerId,
+      countAsSkipped,
+    );
+  }
+
+  private async loadGame(gameId: string): Promise<EngineGame> {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: { game_players: { orderBy: { player_order: 'asc' } } },
+    });
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+    return game;
+  }
+
+  /**
+   * Game and acting player of a user. Only its status and lifelines can be
+   * read once the game is over.
+   */
+  private async context(
+    gameId: string,
+    userId: string,
+    readOnly = false,
+  ): Promise<EngineContext> {
+    const game = await this.loadGame(gameId);
+
+    const isHost = game.host_id === userId;
+    if (!isHost && GameEngineHelper.seatsOf(game, userId).length === 0) {
+      throw new ForbiddenException('You are not playing in this game');
+    }
+    if (!readOnly && FINISHED_STATUSES.includes(game.status)) {
+      throw new BadRequestException('Game is already completed');
+    }
+    return {
+      game,
+      userId,
+      is_host: isHost,
+      player: GameEngineHelper.actingPlayer(game, userId),
+    };
+  }
+
+  private strategyOf(context: EngineContext) {
+    return this.strategyFor(GameEngineHelper.flowOf(context.game));
+  }
+
+  private strategyFor(flow: GameFlow) {
+    const strategy = this.strategies.get(flow);
+    if (!strategy) {
+      throw new BadRequestException(
+        `${flow} games are played through their own endpoints`,
+      );
+    }
+    return strategy;
+  }
+}
@@ -0,0 +1,330 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Answer,
+  GameEventType,
+  GamePhase,
+  LifelineType,
+  PlayerStatus,
+  Question,
+} from '@prisma/client';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { GameRoomEvent, GameRoomGateway } from '../game-room/game-room.gateway';
+import { GameEventService } from '../game-event/game-event.service';
+import { UseLifelineDto } from '../game-player/dto/lifeline.dto';
+import { QuestionTimerService } from '../game-player/question-timer.service';
+import { GamePhaseHelper } from '../game-player/helpers/game-phase.helper';
+import { AnswerTokenHelper } from '../game-player/helpers/answer-token.helper';
+import {
+  EXTRA_TIME_SECONDS,
+  LifelineHelper,
+} from '../game-player/helpers/lifeline.helper';
+import { GameRoundService } from './game-round.service';
+import {
+  EngineContext,
+  GameModeStrategy,
+} from './strategies/game-mode.strategy';
+
+/**
+ * Lifelines of the players. 50/50, extra time and free skip apply to the
+ * open question of the player whose turn it is; double points stays active
+ * until the player's next correct answer.
+ */
+@Injectable()
+export class GameLifelineService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameRoomGateway: GameRoomGateway,
+    private readonly gameEvents: GameEventService,
+    private readonly questionTimer: QuestionTimerService,
+    private readonly rounds: GameRoundService,
+  ) {}
+
+  /**
+   * Lifelines a player has left in a game
+   */
+  async inventory({ game }: EngineContext, playerId: string) {
+    const [limits, player] = await Promise.all([
+      this.prisma.game.findUnique({
+        where: { id: game.id },
+        select: { subscription: { select: { subscription_type: true } } },
+      }),
+      this.prisma.gamePlayer.findFirst({
+        where: { id: playerId, game_id: game.id },
+        include: { lifeline_uses: { orderBy: { created_at: 'asc' } } },
+      }),
+    ]);
+    if (!player) {
+      throw new NotFoundException('Player not found in this game');
+    }
+
+    return {
+      success: true,
+      message: 'Lifelines retrieved successfully',
+      data: {
+        game_id: game.id,
+        player_id: playerId,
+        inventory: LifelineHelper.inventory(
+          LifelineHelper.allowance(limits?.subscription?.subscription_type),
+          player.lifeline_uses,
+        ),
+        double_points_active: player.lifeline_uses.some(
+          (use) => use.type === LifelineType.DOUBLE_POINTS && !use.consumed_at,
+        ),
+        uses: player.lifeline_uses.map((use) => ({
+          id: use.id,
+          type: use.type,
+          question_id: use.question_id,
+          created_at: use.created_at,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Use a lifeline. A free skip ends the turn through the flow of the game,
+   * like a timeout that is not counted as skipped.
+   */
+  async use(
+    { game }: EngineContext,
+    strategy: GameModeStrategy,
+    useLifelineDto: UseLifelineDto,
+  ) {
+    const { player_id: playerId, type } = useLifelineDto;
+
+    if (game.game_phase === GamePhase.COMPLETED) {
+      throw new BadRequestException('Game is already completed');
+    }
+
+    const player = game.game_players.find((p) => p.id === playerId);
+    if (!player || player.status !== PlayerStatus.ACTIVE) {
+      throw new NotFoundException('Player not found in this game');
+    }
+
+    const [limits, uses] = await Promise.all([
+      this.prisma.game.findUnique({
+        where: { id: game.id },
+        select: { subscription: { select: { subscription_type: true } } },
+      }),
+      this.prisma.lifelineUse.findMany({
+        where: { game_player_id: playerId },
+      }),
+    ]);
+    const inventory = LifelineHelper.inventory(
+      LifelineHelper.allowance(limits?.subscription?.subscription_type),
+      uses,
+    );
+    if (inventory[type].remaining === 0) {
+      throw new BadRequestException(`No ${type} lifelines left`);
+    }
+
+    let question: (Question & { answers: Answer[] }) | null = null;
+
+    if (type === LifelineType.DOUBLE_POINTS) {
+      if (
+        uses.some(
+          (use) => use.type === LifelineType.DOUBLE_POINTS && !use.consumed_at,
+        )
+      ) {
+        throw new BadRequestException('Double points is already active');
+      }
+    } else {
+      const phaseConflict = GamePhaseHelper.checkPhase(
+        game.game_phase,
+        type === LifelineType.FREE_SKIP
+          ? [GamePhase.QUESTION, GamePhase.QUESTION_SELECTED]
+          : [GamePhase.QUESTION_SELECTED],
+        'use a lifeline',
+      );
+      if (phaseConflict) {
+        return phaseConflict;
+      }
+
+      if (game.current_player_id !== playerId) {
+        throw new ForbiddenException(
+          'Lifelines can only be used on your own turn',
+        );
+      }
+
+      if (game.game_phase === GamePhase.QUESTION_SELECTED) {
+        if (!useLifelineDto.question_id) {
+          throw new BadRequestException(
+            'question_id is required for this lifeline',
+          );
+        }
+
+        const latestGameQuestion = await this.prisma.gameQuestion.findFirst({
+          where: { game_id: game.id },
+          orderBy: { created_at: 'desc' },
+        });
+        if (
+          !latestGameQuestion ||
+          latestGameQuestion.question_id !== useLifelineDto.question_id
+        ) {
+          throw new BadRequestException(
+            'The lifeline is for an incorrect or outdated question.',
+          );
+        }
+
+        if (QuestionTimerService.isExpired(game.question_deadline_at)) {
+          throw new BadRequestException('Time is up for this question.');
+        }
+
+        if (
+          uses.some(
+            (use) =>
+              use.type === type &&
+              use.question_id === useLifelineDto.question_id,
+          )
+        ) {
+          throw new BadRequestException(
+            `${type} has already been used on this question`,
+          );
+        }
+
+        const existingAnswer = await this.prisma.playerAnswer.findFirst({
+          where: {
+            game_player_id: playerId,
+            question_id: useLifelineDto.question_id,
+          },
+        });
+        if (existingAnswer) {
+          throw new BadRequestException('Question already answered');
+        }
+
+        question = await this.prisma.question.findUnique({
+          where: { id: useLifelineDto.question_id },
+          include: { answers: true },
+        });
+        if (!question) {
+          throw new NotFoundException('Question not found');
+        }
+      }
+    }
+
+    // details are stored with the use, result is only sent to the player
+    let details: Record<string, any> = {};
+    let result: Record<string, any> = {};
+    let deadlineAt: Date | null = null;
+
+    switch (type) {
+      case LifelineType.FIFTY_FIFTY: {
+        const split = LifelineHelper.fiftyFifty(question.answers);
+        if (!split) {
+          throw new BadRequestException(
+            '50/50 is not available for this question',
+          );
+        }
+        // the removed answers as the players know them, by their tokens
+        details = {
+          removed_answer_ids: split.removed.map((a) =>
+            AnswerTokenHelper.token(
+              game.id,
+              a.id,
+              appConfig().game.answer_tokens.secret,
+            ),
+          ),
+        };
+        result = {
+          answers: this.rounds.presentAnswers(game.id, { answers: split.kept }),
+        };
+        break;
+      }
+      case LifelineType.EXTRA_TIME: {
+        // Games without a server deadline only extend the client timer
+        if (game.question_deadline_at) {
+          deadlineAt = QuestionTimerService.deadlineFrom(
+            new Date(Math.max(game.question_deadline_at.getTime(), Date.now())),
+            EXTRA_TIME_SECONDS,
+          );
+        }
+        details = {
+          extra_seconds: EXTRA_TIME_SECONDS,
+          deadline_at: deadlineAt,
+        };
+        break;
+      }
+      case LifelineType.FREE_SKIP: {
+        // Same as a timeout, without counting a skipped answer
+        const skipResult = await strategy.forfeit(game, playerId, false);
+        if (!skipResult) {
+          throw new BadRequestException(
+            'A free skip is not available in this game',
+          );
+        }
+        const skipped = skipResult as { success: boolean; data?: unknown };
+        if (!skipped.success || !skipped.data) {
+          return skipped;
+        }
+        result = skipped.data;
+        break;
+      }
+    }
+
+    const used = {
+      player_id: playerId,
+      type,
+      question_id: question?.id ?? null,
+      ...details,
+    };
+    const lifelineUse = await this.prisma.$transaction(async (tx) => {
+      const lifelineUse = await tx.lifelineUse.create({
+        data: {
+          game_id: game.id,
+          game_player_id: playerId,
+          question_id: question?.id ?? null,
+          type,
+          details,
+        },
+      });
+      if (deadlineAt) {
+        await tx.game.update({
+          where: { id: game.id },
+          data: { question_deadline_at: deadlineAt },
+        });
+      }
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.LIFELINE_USED,
+        {
+          game_player_id: playerId,
+          question_id: lifelineUse.question_id,
+          payload: used,
+        },
+        tx,
+      );
+      return lifelineUse;
+    });
+
+    if (deadlineAt) {
+      await this.questionTimer.cancel(game.id, question.id);
+      await this.questionTimer.scheduleTurnTimeout(
+        game.id,
+        question.id,
+        playerId,
+        deadlineAt,
+      );
+    }
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.LIFELINE_USED,
+      used,
+    );
+
+    return {
+      success: true,
+      message: `${type} lifeline used successfully`,
+      data: {
+        lifeline_id: lifelineUse.id,
+        remaining: inventory[type].remaining - 1,
+        ...used,
+        ...result,
+      },
+    };
+  }
+}
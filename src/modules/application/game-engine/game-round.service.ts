@@ -0,0 +1,2201 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  GameEventType,
+  GamePhase,
+  GamePlayer,
+  GameQuestion,
+  GameTeam,
+  LifelineType,
+  Prisma,
+  QuestionKind,
+} from '@prisma/client';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SojebStorage } from '../../../common/lib/Disk/SojebStorage';
+import { MessageGateway } from '../../chat/message/message.gateway';
+import { GameRoomEvent, GameRoomGateway } from '../game-room/game-room.gateway';
+import { GameEventService } from '../game-event/game-event.service';
+import { TournamentService } from '../tournament/tournament.service';
+import { RatingService } from '../leaderboard/rating.service';
+import { DailyChallengeService } from '../daily-challenge/daily-challenge.service';
+import { GameSettingsService } from '../game-settings/game-settings.service';
+import {
+  GameRules,
+  GameSettingsHelper,
+} from '../game-settings/helpers/game-settings.helper';
+import { GamePlayerService } from '../game-player/game-player.service';
+import { AdaptiveDifficultyService } from '../game-player/adaptive-difficulty.service';
+import {
+  QuestionTimerJobData,
+  QuestionTimerService,
+} from '../game-player/question-timer.service';
+import {
+  GameFlow,
+  GamePhaseHelper,
+} from '../game-player/helpers/game-phase.helper';
+import { ScoringHelper } from '../game-player/helpers/scoring.helper';
+import { TeamHelper } from '../game-player/helpers/team.helper';
+import { AnswerTokenHelper } from '../game-player/helpers/answer-token.helper';
+import {
+  AnswerAttempt,
+  AnswerGradingHelper,
+  GradableAnswer,
+  GradableQuestion,
+} from '../game-player/helpers/answer-grading.helper';
+import { GameEngineHelper } from './helpers/game-engine.helper';
+import {
+  AnswerSubmission,
+  CategorySelection,
+  EngineContext,
+  EngineGame,
+  ModeRules,
+} from './strategies/game-mode.strategy';
+
+// Players a game played in turns supports
+const MIN_PLAYERS = 2;
+const MAX_PLAYERS = 4;
+
+const STEAL_PHASES: GamePhase[] = [
+  GamePhase.STEAL_MODE_ACTIVE,
+  GamePhase.STEAL_MODE_ON_TIMEOUT,
+];
+
+// phases in which the dealt question can still be answered
+const OPEN_PHASES: GamePhase[] = [GamePhase.QUESTION_SELECTED, ...STEAL_PHASES];
+
+type OnTurn = { player: GamePlayer | null; team: GameTeam | null };
+
+/**
+ * Rounds of the turn based flows. A round deals one question to the player
+ * on turn, takes their answer, opens a steal window when the flow has one
+ * and closes by handing the turn on; the game completes when the last
+ * round closes. What varies between the flows comes from their ModeRules.
+ */
+@Injectable()
+export class GameRoundService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gatway: MessageGateway,
+    private readonly gameRoomGateway: GameRoomGateway,
+    private readonly gameEvents: GameEventService,
+    private readonly gameSettings: GameSettingsService,
+    private readonly questionTimer: QuestionTimerService,
+    private readonly adaptiveDifficulty: AdaptiveDifficultyService,
+    private readonly dailyChallenges: DailyChallengeService,
+    private readonly tournaments: TournamentService,
+    private readonly ratings: RatingService,
+    private readonly gamePlayerService: GamePlayerService,
+  ) {}
+
+  /**
+   * Start a game: the first player is on turn, or nobody when the host
+   * hands the questions out
+   */
+  async begin(context: EngineContext, flow: GameFlow, rules: ModeRules) {
+    const { game } = context;
+    if (rules.turn_order === 'HOST_ASSIGNED' && !context.is_host) {
+      throw new ForbiddenException('Only the game host can start the game');
+    }
+
+    const phaseConflict = GamePhaseHelper.checkTransition(
+      flow,
+      game.game_phase,
+      GamePhase.CATEGORY_SELECTION,
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+
+    const seated = game.game_players.filter((p) => TeamHelper.isSeated(p));
+    if (seated.length < MIN_PLAYERS) {
+      throw new BadRequestException(
+        `Need at least ${MIN_PLAYERS} players to start the game`,
+      );
+    }
+    if (seated.length > MAX_PLAYERS) {
+      throw new BadRequestException(
+        `Games played in turns support at most ${MAX_PLAYERS} players`,
+      );
+    }
+
+    const first =
+      rules.turn_order === 'PLAYER_ORDER'
+        ? (await this.onTurn({ ...game, current_player_id: null })).player
+        : null;
+
+    // a category per turn plays a share of questions per player, a single
+    // category plays what it has once it is picked
+    let totalQuestions = game.total_questions;
+    if (!totalQuestions && rules.question_selection === 'PER_TURN') {
+      totalQuestions = GameSettingsHelper.totalQuestions(
+        await this.gameSettings.forGame(game.id),
+        seated.filter((p) => TeamHelper.takesTurns(p)).length,
+        await this.limitsOf(game.id),
+      );
+    }
+
+    const started = {
+      current_player_id: first?.id ?? null,
+      phase: GamePhase.CATEGORY_SELECTION,
+    };
+    await this.prisma.$transaction(async (tx) => {
+      await tx.game.update({
+        where: { id: game.id },
+        data: {
+          status: 'in_progress',
+          game_phase: GamePhase.CATEGORY_SELECTION,
+          flow,
+          current_player_id: first?.id ?? null,
+          current_turn: 1,
+          current_question: 0,
+          total_questions: totalQuestions,
+        },
+      });
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.GAME_STARTED,
+        { payload: started },
+        tx,
+      );
+    });
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.GAME_STARTED,
+      started,
+    );
+
+    return {
+      success: true,
+      message: 'Game started successfully',
+      data: {
+        game_id: game.id,
+        flow,
+        current_player: first,
+        turn: 1,
+        phase: GamePhase.CATEGORY_SELECTION,
+        total_players: seated.length,
+        total_questions: totalQuestions,
+        players: game.game_players,
+      },
+    };
+  }
+
+  /**
+   * Pick the category of the next question, or of the whole game
+   */
+  async chooseCategory(
+    context: EngineContext,
+    flow: GameFlow,
+    rules: ModeRules,
+    selection: CategorySelection,
+  ) {
+    const { game } = context;
+    const phaseConflict = GamePhaseHelper.checkTransition(
+      flow,
+      game.game_phase,
+      GamePhase.QUESTION,
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+
+    const [category, difficulty] = await Promise.all([
+      this.prisma.category.findUnique({
+        where: { id: selection.category_id },
+      }),
+      this.prisma.difficulty.findUnique({
+        where: { id: selection.difficulty_id },
+      }),
+    ]);
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+    if (!difficulty) {
+      throw new NotFoundException('Difficulty not found');
+    }
+
+    const settings = await this.gameSettings.forGame(game.id);
+    let onTurn: OnTurn = { player: null, team: null };
+    let totalQuestions = game.total_questions;
+
+    if (rules.question_selection === 'PER_TURN') {
+      onTurn = await this.onTurn(game);
+      const turnConflict = this.checkSelecting(
+        context,
+        onTurn,
+        selection.player_id,
+      );
+      if (turnConflict) {
+        return turnConflict;
+      }
+      await this.checkCategoryLimit(game.id, onTurn.player, category, settings);
+    } else {
+      this.checkDealer(context, rules);
+      const available = await this.prisma.question.count({
+        where: {
+          category_id: selection.category_id,
+          difficulty_id: selection.difficulty_id,
+        },
+      });
+      if (available === 0) {
+        throw new BadRequestException(
+          'No questions available for selected category and difficulty',
+        );
+      }
+      totalQuestions = GameSettingsHelper.competitiveQuestions(
+        settings,
+        available,
+        await this.limitsOf(game.id),
+      );
+    }
+
+    const points = Math.round(
+      (difficulty.points || 10) * settings.points_multiplier,
+    );
+    const selected = await this.prisma.$transaction(async (tx) => {
+      const gameSelection = await tx.gameSelection.create({
+        data: {
+          game_id: game.id,
+          player_id: onTurn.player?.id ?? null,
+          category_id: category.id,
+          difficulty_id: difficulty.id,
+          points,
+        },
+      });
+      await tx.game.update({
+        where: { id: game.id },
+        data: {
+          game_phase: GamePhase.QUESTION,
+          total_questions: totalQuestions,
+        },
+      });
+
+      const selected = {
+        selection_id: gameSelection.id,
+        category: { id: category.id, name: category.name },
+        difficulty: { id: difficulty.id, name: difficulty.name },
+        points,
+        player_id: onTurn.player?.id ?? null,
+        player_name: onTurn.player?.player_name ?? null,
+        total_questions: totalQuestions,
+        phase: GamePhase.QUESTION,
+        next_action: 'GET_QUESTION',
+      };
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.CATEGORY_SELECTED,
+        { game_player_id: onTurn.player?.id, payload: selected },
+        tx,
+      );
+      return selected;
+    });
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.CATEGORY_SELECTED,
+      selected,
+    );
+
+    return {
+      success: true,
+      message: 'Category selected successfully',
+      data: selected,
+    };
+  }
+
+  /**
+   * Deal the next question of the picked category, or hand back the one
+   * that is still open
+   */
+  async deal(context: EngineContext, flow: GameFlow, rules: ModeRules) {
+    const { game } = context;
+    if (OPEN_PHASES.includes(game.game_phase)) {
+      return this.openQuestion(game);
+    }
+
+    const phaseConflict = GamePhaseHelper.checkTransition(
+      flow,
+      game.game_phase,
+      GamePhase.QUESTION_SELECTED,
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+
+    const selection = await this.prisma.gameSelection.findFirst({
+      where: { game_id: game.id, is_used: false },
+      orderBy: { created_at: 'desc' },
+    });
+    if (!selection) {
+      throw new BadRequestException(
+        'No category/difficulty selected. Please select category and difficulty first.',
+      );
+    }
+
+    let onTurn: OnTurn = { player: null, team: null };
+    if (rules.turn_order === 'HOST_ASSIGNED') {
+      this.checkDealer(context, rules);
+    } else {
+      onTurn = await this.onTurn(game);
+      if (
+        !context.is_host &&
+        context.player?.id !== onTurn.player?.id &&
+        !TeamHelper.isTeammate(context.player, onTurn.player)
+      ) {
+        throw new ForbiddenException('It is not your turn');
+      }
+    }
+
+    return this.ask(
+      game,
+      flow,
+      rules,
+      selection.category_id,
+      selection.difficulty_id,
+      onTurn,
+      rules.question_selection === 'PER_TURN' ? selection.id : null,
+    );
+  }
+
+  /**
+   * Pick a category and deal its question in one step, for flows without
+   * a separate category phase
+   */
+  async chooseAndDeal(
+    context: EngineContext,
+    flow: GameFlow,
+    rules: ModeRules,
+    selection: CategorySelection,
+  ) {
+    const { game } = context;
+    const phaseConflict = GamePhaseHelper.checkTransition(
+      flow,
+      game.game_phase,
+      GamePhase.QUESTION_SELECTED,
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+
+    const seated = game.game_players.filter((p) => TeamHelper.takesTurns(p));
+    if (seated.length === 0) {
+      throw new BadRequestException(
+        'No players have been added to this game yet.',
+      );
+    }
+
+    const settings = await this.gameSettings.forGame(game.id);
+    if (game.current_question === 0) {
+      game.total_questions = GameSettingsHelper.totalQuestions(
+        settings,
+        seated.length,
+        await this.limitsOf(game.id),
+      );
+      await this.prisma.game.update({
+        where: { id: game.id },
+        data: { total_questions: game.total_questions },
+      });
+    }
+    if (this.isFinished(game)) {
+      throw new BadRequestException(
+        'The game is complete. No more questions can be played.',
+      );
+    }
+
+    const onTurn = await this.onTurn(game);
+    const turnConflict = this.checkSelecting(
+      context,
+      onTurn,
+      selection.player_id,
+    );
+    if (turnConflict) {
+      return turnConflict;
+    }
+
+    const category = await this.prisma.category.findUnique({
+      where: { id: selection.category_id },
+    });
+    if (!category) {
+      throw new NotFoundException('Category not found.');
+    }
+    await this.checkCategoryLimit(game.id, onTurn.player, category, settings);
+
+    return this.ask(
+      game,
+      flow,
+      rules,
+      selection.category_id,
+      selection.difficulty_id,
+      onTurn,
+      null,
+    );
+  }
+
+  /**
+   * Question that is open right now, for a player coming back to the game
+   */
+  async openQuestion(game: EngineGame) {
+    const phaseConflict = GamePhaseHelper.checkPhase(
+      game.game_phase,
+      OPEN_PHASES,
+      'get the open question',
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+
+    const asked = await this.latestQuestion(game.id);
+    const question = await this.prisma.question.findUnique({
+      where: { id: asked.question_id },
+      include: {
+        answers: true,
+        question_type: { select: { id: true, name: true, kind: true } },
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Question retrieved successfully',
+      data: {
+        question: {
+          id: question.id,
+          text: question.text,
+          points: question.points,
+          deadline_at: game.question_deadline_at,
+          file_url: this.fileUrl(question.file_url),
+          question_type: question.question_type,
+          answers: this.presentAnswers(game.id, question),
+        },
+        phase: game.game_phase,
+        current_player_id: game.current_player_id,
+        game_info: this.progress(game, game.current_question),
+      },
+    };
+  }
+
+  /**
+   * Take an answer to the dealt question, or a steal while its steal
+   * window is open
+   */
+  async submit(
+    context: EngineContext,
+    rules: ModeRules,
+    submission: AnswerSubmission,
+    stealOnly = false,
+  ) {
+    const { game } = context;
+    const phaseConflict = GamePhaseHelper.checkPhase(
+      game.game_phase,
+      stealOnly ? STEAL_PHASES : OPEN_PHASES,
+      stealOnly ? 'steal' : 'answer',
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+    const isSteal = STEAL_PHASES.includes(game.game_phase);
+
+    const asked = await this.latestQuestion(game.id);
+    if (!asked || asked.question_id !== submission.question_id) {
+      throw new BadRequestException(
+        'The submitted answer is for an incorrect or outdated question.',
+      );
+    }
+
+    // The server owns the clock: late answers are rejected even if the
+    // timeout job has not been processed yet.
+    if (QuestionTimerService.isExpired(game.question_deadline_at)) {
+      throw new BadRequestException(
+        isSteal
+          ? 'The steal window for this question has closed.'
+          : 'Time is up! Your answer was submitted after the deadline.',
+      );
+    }
+
+    const player = this.answeringPlayer(context, rules, submission, isSteal);
+    const owner = game.game_players.find((p) => p.id === asked.game_player_id);
+    if (isSteal && player.id === owner?.id) {
+      throw new ForbiddenException('You cannot steal your own question.');
+    }
+    if (isSteal && TeamHelper.isTeammate(player, owner)) {
+      throw new ForbiddenException(
+        'You cannot steal a question your own team has answered.',
+      );
+    }
+
+    const answers = await this.answersTo(game.id, asked.question_id);
+    if (answers.some((answer) => answer.game_player_id === player.id)) {
+      throw new ForbiddenException(
+        'You have already attempted to answer this question and cannot try again.',
+      );
+    }
+
+    const question = await this.prisma.question.findUnique({
+      where: { id: asked.question_id },
+      include: { answers: true, question_type: true },
+    });
+    if (!question) {
+      throw new NotFoundException('Question not found');
+    }
+
+    const graded = await this.gradeAnswer(game.id, question, submission);
+    if (!graded) {
+      let message = 'Invalid answer selected';
+      if (
+        !submission.answer_id &&
+        !submission.answer_text &&
+        !submission.answer_ids?.length
+      ) {
+        message = AnswerGradingHelper.isTyped(question)
+          ? 'Answer text is required for this question type.'
+          : 'Answer ID is required for this question type.';
+      }
+      throw new BadRequestException(message);
+    }
+    const isCorrect = graded.is_correct;
+
+    // the host enters answers for the players, so there is no speed to
+    // score
+    const settings = await this.gameSettings.forGame(game.id);
+    const responseTimeMs =
+      rules.turn_order === 'HOST_ASSIGNED'
+        ? null
+        : ScoringHelper.responseTimeMs(game.question_asked_at);
+    const basePoints = ScoringHelper.calculatePoints({
+      points: question.points,
+      is_correct: isCorrect,
+      credit: graded.credit,
+      is_steal: isSteal,
+      response_time_ms: responseTimeMs,
+      time_limit_seconds: QuestionTimerService.resolveTimeLimit(
+        question,
+        await this.roomsOf(game.id),
+        settings,
+      ),
+      points_multiplier: settings.points_multiplier,
+    });
+
+    // what the answer does to the round decides how it is claimed: a miss
+    // leaves the question open to the host's other players or to steals,
+    // anything else closes the round
+    const waiting =
+      !isCorrect && !isSteal && rules.turn_order === 'HOST_ASSIGNED'
+        ? game.game_players.filter(
+            (p) =>
+              TeamHelper.takesTurns(p) &&
+              p.id !== player.id &&
+              !answers.some((answer) => answer.game_player_id === p.id),
+          )
+        : [];
+    const opensSteal =
+      !isCorrect &&
+      !isSteal &&
+      rules.turn_order !== 'HOST_ASSIGNED' &&
+      rules.steal === 'ANY_PLAYER' &&
+      settings.steal_enabled;
+    const closesRound = waiting.length === 0 && !opensSteal;
+    const stealDeadlineAt = opensSteal
+      ? await this.stealDeadline(game, question, settings)
+      : null;
+    const next = closesRound
+      ? await this.nextAfter(game, rules, asked.game_player_id)
+      : null;
+    const finished = this.isFinished(game);
+
+    const { result, opened, advanced } = await this.prisma.$transaction(
+      async (tx) => {
+        // a concurrent answer, steal or timeout that got the round first
+        // refuses this one
+        let advanced: ReturnType<typeof this.turnAdvanced> | null = null;
+        if (opensSteal) {
+          await this.openSteal(
+            tx,
+            game,
+            GamePhase.STEAL_MODE_ACTIVE,
+            stealDeadlineAt,
+          );
+        } else if (closesRound) {
+          advanced = await this.endTurn(tx, game, next, finished);
+        } else {
+          await this.claimRound(tx, game, { game_phase: game.game_phase });
+        }
+
+        // a refused answer keeps the double points lifeline for the next one
+        const { points: pointsEarned, doubled: doublePointsApplied } =
+          await this.applyDoublePoints(tx, player.id, basePoints);
+
+        await tx.playerAnswer.create({
+          data: {
+            game_player_id: player.id,
+            question_id: question.id,
+            answer_id: graded.answer?.id,
+            answer_text: graded.answer_text,
+            similarity: graded.similarity,
+            submission: graded.submission,
+            credit: graded.credit,
+            isCorrect,
+            response_time_ms: responseTimeMs,
+          },
+        });
+        const updatedPlayer = await tx.gamePlayer.update({
+          where: { id: player.id },
+          data: {
+            score: { increment: pointsEarned },
+            ...(isCorrect
+              ? { correct_answers: { increment: 1 } }
+              : { wrong_answers: { increment: 1 } }),
+          },
+        });
+        // the player's team, if any, shares the score
+        await tx.gameTeam.updateMany({
+          where: { players: { some: { id: player.id } } },
+          data: {
+            score: { increment: pointsEarned },
+            ...(isCorrect
+              ? { correct_answers: { increment: 1 } }
+              : { wrong_answers: { increment: 1 } }),
+            ...(isCorrect && isSteal ? { steals: { increment: 1 } } : {}),
+          },
+        });
+
+        await this.gameEvents.record(
+          game.id,
+          GameEventType.ANSWER_SUBMITTED,
+          {
+            game_player_id: player.id,
+            question_id: question.id,
+            points: pointsEarned,
+            payload: {
+              answer_id: AnswerTokenHelper.tokenOf(
+                game.id,
+                graded.answer?.id,
+                appConfig().game.answer_tokens.secret,
+              ),
+              answer_text: graded.answer_text,
+              is_correct: isCorrect,
+              credit: graded.credit,
+              is_steal: isSteal,
+              response_time_ms: responseTimeMs,
+              double_points_applied: doublePointsApplied,
+            },
+          },
+          tx,
+        );
+
+        const result = {
+          is_correct: isCorrect,
+          similarity: graded.similarity,
+          credit: graded.credit,
+          is_steal: isSteal,
+          points_earned: pointsEarned,
+          double_points_applied: doublePointsApplied,
+          response_time_ms: responseTimeMs,
+          player_id: player.id,
+          player_name: player.player_name,
+          player_score: updatedPlayer.score,
+        };
+        const opened = opensSteal
+          ? {
+              ...result,
+              // told once the steal window closes
+              correct_answer: null,
+              next_action: 'OPEN_FOR_STEAL',
+              steal_deadline_at: stealDeadlineAt,
+            }
+          : null;
+        if (opened) {
+          await this.gameEvents.record(
+            game.id,
+            GameEventType.STEAL_OPENED,
+            { question_id: question.id, payload: opened },
+            tx,
+          );
+        }
+        return { result, opened, advanced };
+      },
+    );
+
+    // the host takes answers from the other players until one is right
+    // or everyone has missed
+    if (waiting.length > 0) {
+      return this.announce(game, 'Wrong answer! Another player may answer.', {
+        ...result,
+        correct_answer: null,
+        next_action: 'ANSWER_OPEN',
+      });
+    }
+    if (opened) {
+      await this.startStealTimer(game.id, question.id, stealDeadlineAt);
+      await this.gameRoomGateway.emitToGame(
+        game.id,
+        GameRoomEvent.STEAL_OPENED,
+        opened,
+      );
+      return this.announce(
+        game,
+        'Wrong answer! The question is now open for anyone to steal.',
+        opened,
+      );
+    }
+
+    const outcome = isCorrect
+      ? isSteal
+        ? `Successful steal by ${player.player_name}!`
+        : 'Correct answer!'
+      : isSteal
+        ? 'Incorrect steal attempt.'
+        : 'Wrong answer!';
+
+    const response = await this.announce(
+      game,
+      `${outcome} ${this.nextMessage(next, finished)}`.trim(),
+      {
+        ...result,
+        correct_answer: isCorrect ? null : this.revealAnswer(game.id, question),
+        next_action: finished ? 'GAME_OVER' : 'SELECT_NEW_QUESTION',
+        next_turn_for: next
+          ? { player_id: next.id, player_name: next.player_name }
+          : null,
+        is_round_over: true,
+        is_game_over: finished,
+      },
+    );
+    const results = await this.closeRound(game, asked, advanced, finished);
+    return { ...response, data: { ...response.data, results } };
+  }
+
+  /**
+   * The open question runs out: a missed turn opens the steal window when
+   * the flow has one, a steal window that runs out closes the round. A
+   * free skip ends the turn the same way without counting as skipped.
+   */
+  async timeOut(
+    game: EngineGame,
+    rules: ModeRules,
+    questionId: string,
+    playerId: string | null,
+    countAsSkipped = true,
+  ) {
+    const phaseConflict = GamePhaseHelper.checkPhase(
+      game.game_phase,
+      OPEN_PHASES,
+      'time out the question',
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+
+    const asked = await this.latestQuestion(game.id);
+    if (!asked || asked.question_id !== questionId) {
+      throw new BadRequestException('The question is no longer open.');
+    }
+
+    if (STEAL_PHASES.includes(game.game_phase)) {
+      const next = await this.nextAfter(game, rules, asked.game_player_id);
+      const finished = this.isFinished(game);
+      const timedOut = {
+        question_id: questionId,
+        next_action: finished ? 'GAME_OVER' : 'SELECT_NEW_QUESTION',
+        next_turn_for: next
+          ? { player_id: next.id, player_name: next.player_name }
+          : null,
+      };
+
+      const advanced = await this.prisma.$transaction(async (tx) => {
+        const advanced = await this.endTurn(tx, game, next, finished);
+        await this.gameEvents.record(
+          game.id,
+          GameEventType.QUESTION_TIMED_OUT,
+          { question_id: questionId, payload: timedOut },
+          tx,
+        );
+        return advanced;
+      });
+      await this.gameRoomGateway.emitToGame(
+        game.id,
+        GameRoomEvent.QUESTION_TIMED_OUT,
+        timedOut,
+      );
+      const results = await this.closeRound(game, asked, advanced, finished);
+      return {
+        success: true,
+        message: 'Steal time is over! Moving to the next round.',
+        data: { ...timedOut, results },
+      };
+    }
+
+    if ((playerId ?? null) !== game.current_player_id) {
+      throw new ForbiddenException("It's not this player's turn to time out.");
+    }
+
+    const skipEvent = countAsSkipped
+      ? GameEventType.QUESTION_TIMED_OUT
+      : GameEventType.QUESTION_SKIPPED;
+    // a missed turn of a player counts as a wrong answer, a free skip
+    // lifeline is not counted as skipped
+    const missTurn = (tx: Prisma.TransactionClient) =>
+      playerId
+        ? Promise.all([
+            ...(countAsSkipped
+              ? [
+                  tx.gamePlayer.update({
+                    where: { id: playerId },
+                    data: { skipped_answers: { increment: 1 } },
+                  }),
+                ]
+              : []),
+            tx.playerAnswer.create({
+              data: {
+                game_player_id: playerId,
+                question_id: questionId,
+                isCorrect: false,
+              },
+            }),
+          ])
+        : null;
+
+    const settings = await this.gameSettings.forGame(game.id);
+    if (rules.steal === 'ANY_PLAYER' && settings.steal_enabled) {
+      const question = await this.prisma.question.findUnique({
+        where: { id: questionId },
+        select: { id: true, time: true },
+      });
+      const stealDeadlineAt = await this.stealDeadline(
+        game,
+        question,
+        settings,
+      );
+      const opened = {
+        next_action: 'OPEN_FOR_STEAL',
+        question_id: questionId,
+        steal_deadline_at: stealDeadlineAt,
+      };
+
+      await this.prisma.$transaction(async (tx) => {
+        await this.openSteal(
+          tx,
+          game,
+          GamePhase.STEAL_MODE_ON_TIMEOUT,
+          stealDeadlineAt,
+        );
+        await missTurn(tx);
+        await this.gameEvents.record(
+          game.id,
+          skipEvent,
+          {
+            game_player_id: playerId,
+            question_id: questionId,
+            payload: opened,
+          },
+          tx,
+        );
+      });
+      await this.startStealTimer(game.id, questionId, stealDeadlineAt);
+      await this.gameRoomGateway.emitToGame(
+        game.id,
+        GameRoomEvent.STEAL_OPENED,
+        opened,
+      );
+      return {
+        success: true,
+        message: 'Time is up! The question is now open for anyone to steal.',
+        data: opened,
+      };
+    }
+
+    const next = await this.nextAfter(game, rules, asked.game_player_id);
+    const finished = this.isFinished(game);
+    const roundOver = {
+      next_action: finished ? 'GAME_OVER' : 'SELECT_NEW_QUESTION',
+      question_id: questionId,
+      next_turn_for: next
+        ? { player_id: next.id, player_name: next.player_name }
+        : null,
+    };
+
+    const advanced = await this.prisma.$transaction(async (tx) => {
+      const advanced = await this.endTurn(tx, game, next, finished);
+      await missTurn(tx);
+      await this.gameEvents.record(
+        game.id,
+        skipEvent,
+        {
+          game_player_id: playerId,
+          question_id: questionId,
+          payload: roundOver,
+        },
+        tx,
+      );
+      return advanced;
+    });
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.QUESTION_TIMED_OUT,
+      roundOver,
+    );
+    const results = await this.closeRound(game, asked, advanced, finished);
+    return {
+      success: true,
+      message: 'Time is up! Moving to the next round.',
+      data: { ...roundOver, results },
+    };
+  }
+
+  /**
+   * Pass on the dealt question, which counts as running out of time
+   */
+  async skip(context: EngineContext, rules: ModeRules, questionId: string) {
+    const { game } = context;
+    const phaseConflict = GamePhaseHelper.checkPhase(
+      game.game_phase,
+      [GamePhase.QUESTION_SELECTED],
+      'skip the question',
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+    if (
+      rules.turn_order === 'HOST_ASSIGNED'
+        ? !context.is_host
+        : !context.is_host && context.player?.id !== game.current_player_id
+    ) {
+      throw new ForbiddenException('It is not your turn');
+    }
+
+    return this.timeOut(game, rules, questionId, game.current_player_id);
+  }
+
+  /**
+   * Called by the question timer worker once a deadline has passed.
+   * Stale jobs (question already answered or round moved on) are ignored.
+   */
+  async expire(game: EngineGame, rules: ModeRules, job: QuestionTimerJobData) {
+    if (game.game_phase === GamePhase.COMPLETED) {
+      return { success: false, message: 'Game is no longer active' };
+    }
+
+    const asked = await this.latestQuestion(game.id);
+    if (!asked || asked.question_id !== job.question_id) {
+      return { success: false, message: 'Question is no longer active' };
+    }
+
+    if (job.kind === 'turn') {
+      if (
+        game.game_phase !== GamePhase.QUESTION_SELECTED ||
+        game.current_player_id !== (job.player_id ?? null)
+      ) {
+        return { success: false, message: 'Turn has already moved on' };
+      }
+      if (job.player_id) {
+        const existingAnswer = await this.prisma.playerAnswer.findFirst({
+          where: {
+            game_player_id: job.player_id,
+            question_id: job.question_id,
+          },
+        });
+        if (existingAnswer) {
+          return { success: false, message: 'Player has already answered' };
+        }
+      }
+    } else if (!STEAL_PHASES.includes(game.game_phase)) {
+      return { success: false, message: 'Steal window has already closed' };
+    }
+
+    let result: Awaited<ReturnType<typeof this.timeOut>>;
+    try {
+      result = await this.timeOut(
+        game,
+        rules,
+        job.question_id,
+        job.kind === 'turn' ? (job.player_id ?? null) : null,
+      );
+    } catch (error) {
+      // an answer got the round while the job was on its way
+      if (error instanceof ConflictException) {
+        return { success: false, message: 'Turn has already moved on' };
+      }
+      throw error;
+    }
+
+    if (result.success && 'data' in result) {
+      await this.notifyPlayers(game, 'questionTimedOut', {
+        game_id: game.id,
+        question_id: job.question_id,
+        player_id: job.player_id ?? null,
+        kind: job.kind,
+        ...result.data,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * The player loses their turn, because they were removed or let their
+   * deadline pass. An open question times out; between questions the turn
+   * moves on, and a counted miss also uses up the question the player
+   * would have picked. Returns null when the player had nothing to lose.
+   */
+  async forfeit(
+    game: EngineGame,
+    rules: ModeRules,
+    playerId: string,
+    countAsSkipped: boolean,
+  ) {
+    if (OPEN_PHASES.includes(game.game_phase)) {
+      const asked = await this.latestQuestion(game.id);
+      if (game.game_phase === GamePhase.QUESTION_SELECTED) {
+        return game.current_player_id === playerId
+          ? this.timeOut(
+              game,
+              rules,
+              asked.question_id,
+              playerId,
+              countAsSkipped,
+            )
+          : null;
+      }
+
+      // the steal window stays open while someone else can still steal
+      const owner = game.game_players.find(
+        (p) => p.id === asked.game_player_id,
+      );
+      const answered = new Set(
+        (await this.answersTo(game.id, asked.question_id)).map(
+          (answer) => answer.game_player_id,
+        ),
+      );
+      const stealers = game.game_players.filter(
+        (p) =>
+          TeamHelper.takesTurns(p) &&
+          p.id !== playerId &&
+          p.id !== owner?.id &&
+          !TeamHelper.isTeammate(p, owner) &&
+          !answered.has(p.id),
+      );
+      return stealers.length === 0
+        ? this.timeOut(game, rules, asked.question_id, null)
+        : null;
+    }
+
+    const turnPhases: GamePhase[] = [
+      GamePhase.CATEGORY_SELECTION,
+      GamePhase.QUESTION,
+      GamePhase.ROUND_COMPLETED,
+    ];
+    if (
+      !turnPhases.includes(game.game_phase) ||
+      game.current_player_id !== playerId
+    ) {
+      return null;
+    }
+
+    const usesQuestion =
+      countAsSkipped && rules.question_selection === 'PER_TURN';
+    const currentQuestion = usesQuestion
+      ? Math.min(game.current_question + 1, game.total_questions)
+      : game.current_question;
+    const next = await this.nextAfter(game, rules, playerId);
+    const progress = { ...game, current_question: currentQuestion };
+    const advanced =
+      next && !this.isFinished(progress) ? this.turnAdvanced(game, next) : null;
+
+    // only one of the forfeit and a late action can win the turn
+    const claimed = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.game.updateMany({
+        where: {
+          id: game.id,
+          current_turn: game.current_turn,
+          game_phase: game.game_phase,
+        },
+        data: {
+          current_question: currentQuestion,
+          current_player_id: next?.id ?? null,
+          current_turn: { increment: 1 },
+          // a category picked for the lost turn goes with it
+          ...(rules.question_selection === 'PER_TURN' &&
+          game.game_phase === GamePhase.QUESTION
+            ? { game_phase: GamePhase.ROUND_COMPLETED }
+            : {}),
+        },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      if (rules.question_selection === 'PER_TURN') {
+        await tx.gameSelection.updateMany({
+          where: { game_id: game.id, is_used: false },
+          data: { is_used: true },
+        });
+      }
+      if (countAsSkipped) {
+        await tx.gamePlayer.update({
+          where: { id: playerId },
+          data: { skipped_answers: { increment: 1 } },
+        });
+      }
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.QUESTION_SKIPPED,
+        {
+          game_player_id: playerId,
+          payload: { reason: 'turn_forfeited', turn: game.current_turn },
+        },
+        tx,
+      );
+      if (advanced) {
+        await this.gameEvents.record(
+          game.id,
+          GameEventType.TURN_ADVANCED,
+          { game_player_id: next.id, payload: advanced },
+          tx,
+        );
+      }
+      return true;
+    });
+    if (!claimed) {
+      return null;
+    }
+
+    if (this.isFinished(progress)) {
+      return this.complete(game.id);
+    }
+    if (advanced) {
+      await this.gameRoomGateway.emitToGame(
+        game.id,
+        GameRoomEvent.TURN_ADVANCED,
+        advanced,
+      );
+    }
+
+    return {
+      success: true,
+      message: 'Turn forfeited',
+      data: {
+        player_id: playerId,
+        next_turn_for: next
+          ? { player_id: next.id, player_name: next.player_name }
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Scores and progress of a game
+   */
+  async status(game: EngineGame) {
+    const [players, selection, totalAnswers, correctAnswers] =
+      await Promise.all([
+        this.prisma.gamePlayer.findMany({
+          where: { game_id: game.id },
+          include: { user: { select: { name: true } } },
+          orderBy: { score: 'desc' },
+        }),
+        this.prisma.gameSelection.findFirst({
+          where: { game_id: game.id },
+          orderBy: { created_at: 'desc' },
+          include: { category: true, difficulty: true },
+        }),
+        this.prisma.playerAnswer.count({
+          where: { game_player: { game_id: game.id } },
+        }),
+        this.prisma.playerAnswer.count({
+          where: { game_player: { game_id: game.id }, isCorrect: true },
+        }),
+      ]);
+
+    return {
+      success: true,
+      message: 'Game status retrieved successfully',
+      data: {
+        game: {
+          id: game.id,
+          mode: game.mode,
+          flow: game.flow,
+          status: game.status,
+          game_phase: game.game_phase,
+          current_player_id: game.current_player_id,
+          current_turn: game.current_turn,
+          current_question: game.current_question,
+          total_questions: game.total_questions,
+          question_deadline_at: game.question_deadline_at,
+          progress_percentage:
+            game.total_questions > 0
+              ? Math.round((game.current_question / game.total_questions) * 100)
+              : 0,
+        },
+        category: selection?.category ?? null,
+        difficulty: selection?.difficulty ?? null,
+        players: players.map((player) => ({
+          id: player.id,
+          name: player.player_name || player.user?.name || 'Unknown',
+          score: player.score,
+          correct_answers: player.correct_answers,
+          wrong_answers: player.wrong_answers,
+          skipped_answers: player.skipped_answers,
+          player_order: player.player_order,
+          team_id: player.team_id,
+          status: player.status,
+          is_guest: player.is_guest,
+        })),
+        teams: game.is_team_game
+          ? await this.gamePlayerService.teamStandings(game.id)
+          : [],
+        game_stats: this.answerStats(totalAnswers, correctAnswers),
+      },
+    };
+  }
+
+  /**
+   * End the game early. Unless it is already decided, it does not count
+   * for tournaments or ratings.
+   */
+  async end(game: EngineGame, flow: GameFlow) {
+    const phaseConflict = GamePhaseHelper.checkTransition(
+      flow,
+      game.game_phase,
+      GamePhase.COMPLETED,
+    );
+    if (phaseConflict) {
+      return phaseConflict;
+    }
+    return this.complete(game.id, GamePhaseHelper.isDecided(game));
+  }
+
+  /**
+   * Complete the game and rank its players. A decided game moves its
+   * tournament match on and rates its players.
+   */
+  async complete(gameId: string, decided = true) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: {
+        game_players: {
+          include: { user: { select: { name: true } } },
+          orderBy: [
+            { score: 'desc' },
+            { correct_answers: 'desc' },
+            { player_order: 'asc' },
+          ],
+        },
+        game_selections: {
+          orderBy: { created_at: 'desc' },
+          take: 1,
+          include: { category: true, difficulty: true },
+        },
+      },
+    });
+
+    // Team games share one rank per team
+    if (game.is_team_game) {
+      await this.gamePlayerService.finalizeTeamRanks(gameId);
+    }
+    const teamRankings = game.is_team_game
+      ? await this.gamePlayerService.teamStandings(gameId)
+      : [];
+
+    const rankedPlayers = game.game_players.map((player, index) => ({
+      id: player.id,
+      name: player.player_name || player.user?.name || 'Unknown',
+      score: player.score,
+      correct_answers: player.correct_answers,
+      wrong_answers: player.wrong_answers,
+      skipped_answers: player.skipped_answers,
+      final_rank:
+        teamRankings.find((team) => team.id === player.team_id)?.position ??
+        index + 1,
+      player_order: player.player_order,
+      team_id: player.team_id,
+    }));
+
+    const [totalAnswers, correctAnswers] = await Promise.all([
+      this.prisma.playerAnswer.count({
+        where: { game_player: { game_id: gameId } },
+      }),
+      this.prisma.playerAnswer.count({
+        where: { game_player: { game_id: gameId }, isCorrect: true },
+      }),
+    ]);
+
+    const results = {
+      game: {
+        id: game.id,
+        status: 'completed',
+        total_questions: game.total_questions,
+        current_question: game.current_question,
+      },
+      category: game.game_selections[0]?.category || null,
+      difficulty: game.game_selections[0]?.difficulty || null,
+      final_leaderboard: rankedPlayers,
+      team_leaderboard: teamRankings,
+      winner: rankedPlayers[0],
+      winning_team: teamRankings[0] ?? null,
+      game_stats: this.answerStats(totalAnswers, correctAnswers),
+    };
+
+    await this.prisma.$transaction(async (tx) => {
+      // a game is completed once, by whichever action ends it first
+      const { count } = await tx.game.updateMany({
+        where: { id: gameId, status: { not: 'completed' } },
+        data: {
+          status: 'completed',
+          game_phase: GamePhase.COMPLETED,
+          question_deadline_at: null,
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Game is already completed');
+      }
+      if (!game.is_team_game) {
+        for (const player of rankedPlayers) {
+          await tx.gamePlayer.update({
+            where: { id: player.id },
+            data: { final_rank: player.final_rank },
+          });
+        }
+      }
+      await this.gameEvents.record(
+        gameId,
+        GameEventType.GAME_COMPLETED,
+        { payload: results },
+        tx,
+      );
+    });
+
+    // nothing is left to run out once the game is over
+    const asked = await this.latestQuestion(gameId);
+    if (asked) {
+      await this.questionTimer.cancel(gameId, asked.question_id);
+    }
+
+    // Tournament match games move the bracket on
+    if (decided) {
+      await this.tournaments.recordGameResult(gameId);
+      await this.ratings.recordGameResult(gameId);
+    }
+    await this.gameRoomGateway.emitToGame(
+      gameId,
+      GameRoomEvent.GAME_COMPLETED,
+      results,
+    );
+
+    return {
+      success: true,
+      message: 'Game ended successfully',
+      data: results,
+    };
+  }
+
+  /**
+   * Deal a question of the category to the player on turn and start its
+   * clock
+   */
+  private async ask(
+    game: EngineGame,
+    flow: GameFlow,
+    rules: ModeRules,
+    categoryId: string,
+    difficultyId: string,
+    onTurn: OnTurn,
+    selectionId: string | null,
+  ) {
+    const { player, team } = onTurn;
+
+    // Adaptive games ask the tier that suits the player on turn
+    let adaptiveDifficulty = null;
+    if (game.adaptive_difficulty && player) {
+      const usedQuestionIds = (
+        await this.prisma.gameQuestion.findMany({
+          where: { game_id: game.id },
+          select: { question_id: true },
+        })
+      ).map((q) => q.question_id);
+      const adaptive = await this.adaptiveDifficulty.chooseDifficulty(
+        player,
+        categoryId,
+        game.language_id,
+        difficultyId,
+        async (id) =>
+          (await this.prisma.question.count({
+            where: {
+              category_id: categoryId,
+              difficulty_id: id,
+              id: { notIn: usedQuestionIds },
+            },
+          })) > 0,
+      );
+      difficultyId = adaptive.difficulty_id;
+      adaptiveDifficulty = {
+        difficulty_id: difficultyId,
+        ...adaptive.estimate,
+      };
+    }
+
+    const question = await this.pickQuestion(game, categoryId, difficultyId);
+    if (!question) {
+      // a single category game is over once its questions run out
+      if (
+        rules.question_selection === 'PER_GAME' &&
+        game.current_question > 0
+      ) {
+        return this.complete(game.id);
+      }
+      throw new BadRequestException(
+        'No new questions available for selected category and difficulty (players may have played all, or reached global repeat limit)',
+      );
+    }
+
+    const settings = await this.gameSettings.forGame(game.id);
+    const timeLimit = QuestionTimerService.resolveTimeLimit(
+      question,
+      await this.roomsOf(game.id),
+      settings,
+    );
+    const questionAskedAt = new Date();
+    const questionDeadlineAt = QuestionTimerService.deadlineFrom(
+      questionAskedAt,
+      timeLimit,
+    );
+
+    const formattedQuestion = {
+      id: question.id,
+      text: question.text,
+      points: question.points,
+      time_limit: timeLimit,
+      deadline_at: questionDeadlineAt,
+      file_url: this.fileUrl(question.file_url),
+      question_type: question.question_type,
+      // the correct answer is only told with the answer result
+      answers: this.presentAnswers(game.id, question),
+    };
+    const dealt = {
+      question: formattedQuestion,
+      currentPlayer: player
+        ? {
+            id: player.id,
+            name: player.player_name,
+            player_order: player.player_order,
+            team_id: player.team_id,
+          }
+        : null,
+      game_info: {
+        ...this.progress(game, game.current_question + 1),
+        adaptive_difficulty: adaptiveDifficulty,
+      },
+    };
+    const roomDealt = {
+      ...dealt,
+      question: this.toRoomQuestion(dealt.question),
+    };
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.gameQuestion.create({
+        data: {
+          game_id: game.id,
+          question_id: question.id,
+          game_player_id: player?.id ?? null,
+        },
+      });
+      if (selectionId) {
+        await tx.gameSelection.update({
+          where: { id: selectionId },
+          data: { is_used: true, question_id: question.id },
+        });
+      }
+      await tx.game.update({
+        where: { id: game.id },
+        data: {
+          game_phase: GamePhase.QUESTION_SELECTED,
+          flow,
+          current_player_id: player?.id ?? null,
+          current_question: game.current_question + 1,
+          question_asked_at: questionAskedAt,
+          question_deadline_at: questionDeadlineAt,
+        },
+      });
+      if (team) {
+        await tx.gameTeam.update({
+          where: { id: team.id },
+          data: { turns_taken: { increment: 1 } },
+        });
+      }
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.QUESTION_REVEALED,
+        {
+          game_player_id: player?.id,
+          question_id: question.id,
+          payload: roomDealt,
+        },
+        tx,
+      );
+    });
+
+    await this.questionTimer.scheduleTurnTimeout(
+      game.id,
+      question.id,
+      player?.id ?? null,
+      questionDeadlineAt,
+    );
+
+    if (player?.user_id) {
+      await this.notifyPlayers(game, 'newQuestionReady', dealt, [
+        player.user_id,
+      ]);
+    }
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.QUESTION_REVEALED,
+      roomDealt,
+    );
+
+    return {
+      success: true,
+      message: player
+        ? `Question selected for ${player.player_name}. It's their turn to answer.`
+        : 'Question dealt',
+      data: dealt,
+    };
+  }
+
+  /**
+   * A question of the category none of the players has played before,
+   * leaving out questions asked too often and those of daily challenges
+   */
+  private async pickQuestion(
+    game: EngineGame,
+    categoryId: string,
+    difficultyId: string,
+  ) {
+    const userIds = game.game_players
+      .map((player) => player.user_id)
+      .filter((id): id is string => !!id);
+    if (game.host_id && !userIds.includes(game.host_id)) {
+      userIds.push(game.host_id);
+    }
+
+    const playedGames = userIds.length
+      ? await this.prisma.gamePlayer.findMany({
+          where: { user_id: { in: userIds } },
+          select: { game_id: true },
+        })
+      : [];
+    const played = await this.prisma.gameQuestion.findMany({
+      where: {
+        game_id: { in: [game.id, ...playedGames.map((p) => p.game_id)] },
+      },
+      select: { question_id: true },
+    });
+
+    const where: Record<string, unknown> = {
+      category_id: categoryId,
+      difficulty_id: difficultyId,
+    };
+    if (game.mode === 'GRID_STYLE') {
+      const textQuestionType = await this.prisma.questionType.findFirst({
+        where: { kind: QuestionKind.TEXT, language_id: game.language_id },
+        select: { id: true },
+      });
+      if (!textQuestionType) {
+        throw new NotFoundException(
+          `No text question type found for language ID: ${game.language_id}`,
+        );
+      }
+      where.question_type_id = textQuestionType.id;
+    }
+
+    const candidates = await this.prisma.question.findMany({
+      where,
+      select: { id: true, repeat_count: true },
+    });
+    const playCounts = await this.prisma.gameQuestion.groupBy({
+      by: ['question_id'],
+      where: { question_id: { in: candidates.map((q) => q.id) } },
+      _count: { question_id: true },
+    });
+    const overRepeated = candidates
+      .filter(
+        (q) =>
+          (playCounts.find((c) => c.question_id === q.id)?._count.question_id ??
+            0) >= (q.repeat_count ?? 5),
+      )
+      .map((q) => q.id);
+
+    const questions = await this.prisma.question.findMany({
+      where: {
+        ...where,
+        id: {
+          notIn: [
+            ...new Set(played.map((q) => q.question_id)),
+            ...overRepeated,
+            ...(await this.dailyChallenges.excludedQuestionIds()),
+          ],
+        },
+      },
+      include: {
+        answers: {
+          select: {
+            id: true,
+            text: true,
+            file_url: true,
+            is_correct: true,
+            position: true,
+          },
+        },
+        question_type: { select: { id: true, name: true, kind: true } },
+      },
+    });
+
+    return questions.length
+      ? questions[Math.floor(Math.random() * questions.length)]
+      : null;
+  }
+
+  /**
+   * Player whose turn it is. A player who left, or a bot, hands the turn to
+   * the one after them.
+   */
+  private async onTurn(game: EngineGame): Promise<OnTurn> {
+    const teams = await this.prisma.gameTeam.findMany({
+      where: { game_id: game.id },
+    });
+    const current = game.game_players.find(
+      (p) => p.id === game.current_player_id,
+    );
+    if (current && TeamHelper.takesTurns(current)) {
+      return {
+        player: current,
+        team: teams.find((team) => team.id === current.team_id) ?? null,
+      };
+    }
+    return TeamHelper.nextPlayer(
+      game.game_players,
+      teams,
+      game.current_player_id,
+    );
+  }
+
+  /**
+   * Player who takes the turn after the one the question was dealt to,
+   * none when the host deals the questions
+   */
+  private async nextAfter(
+    game: EngineGame,
+    rules: ModeRules,
+    playerId: string | null,
+  ) {
+    if (rules.turn_order === 'HOST_ASSIGNED') {
+      return null;
+    }
+    const teams = await this.prisma.gameTeam.findMany({
+      where: { game_id: game.id },
+    });
+    return TeamHelper.nextPlayer(game.game_players, teams, playerId).player;
+  }
+
+  // the player on turn picks; in a team game the captain of their team
+  private checkSelecting(
+    context: EngineContext,
+    onTurn: OnTurn,
+    playerId?: string,
+  ) {
+    if (!onTurn.player) {
+      throw new BadRequestException('Current player could not be determined.');
+    }
+    const selecting = GameEngineHelper.actingPlayer(
+      context.game,
+      context.userId,
+      playerId,
+    );
+    if (onTurn.team?.captain_id) {
+      return TeamHelper.checkCaptain(onTurn.team, selecting?.id);
+    }
+    if (selecting?.id !== onTurn.player.id) {
+      throw new ForbiddenException('It is not your turn');
+    }
+    return null;
+  }
+
+  // the host runs a host game; in others the host or the player on turn
+  private checkDealer(context: EngineContext, rules: ModeRules) {
+    if (context.is_host) {
+      return;
+    }
+    if (
+      rules.turn_order === 'HOST_ASSIGNED' ||
+      context.player?.id !== context.game.current_player_id
+    ) {
+      throw new ForbiddenException(
+        rules.turn_order === 'HOST_ASSIGNED'
+          ? 'Only the game host can run a host game'
+          : 'It is not your turn',
+      );
+    }
+  }
+
+  private async checkCategoryLimit(
+    gameId: string,
+    player: GamePlayer,
+    category: { id: string; same_category_selection: number | null },
+    settings: GameRules,
+  ) {
+    const limit = GameSettingsHelper.categoryLimit(settings, category);
+    const taken = await this.prisma.gameQuestion.count({
+      where: {
+        game_id: gameId,
+        game_player_id: player.id,
+        question: { category_id: category.id },
+      },
+    });
+    if (taken >= limit) {
+      throw new BadRequestException(
+        `${player.player_name} has already selected ${limit} questions from this category for this game. Please select another category.`,
+      );
+    }
+  }
+
+  /**
+   * Player an answer is given for. The player on turn answers their own
+   * question; the host enters answers for any player of a host game.
+   */
+  private answeringPlayer(
+    context: EngineContext,
+    rules: ModeRules,
+    submission: AnswerSubmission,
+    isSteal: boolean,
+  ): GamePlayer {
+    const { game } = context;
+
+    if (rules.turn_order === 'HOST_ASSIGNED') {
+      if (!context.is_host) {
+        throw new ForbiddenException('Only the game host can enter answers');
+      }
+      if (!submission.player_id) {
+        throw new BadRequestException(
+          'player_id is required, the host answers on behalf of a player',
+        );
+      }
+      const player = game.game_players.find(
+        (p) => p.id === submission.player_id && TeamHelper.isSeated(p),
+      );
+      if (!player) {
+        throw new NotFoundException('Player not found in this game');
+      }
+      return player;
+    }
+
+    const player = GameEngineHelper.actingPlayer(
+      game,
+      context.userId,
+      submission.player_id,
+    );
+    if (isSteal) {
+      if (!player) {
+        throw new BadRequestException(
+          'player_id is required to steal when you play for several players',
+        );
+      }
+      return player;
+    }
+    if (!player || player.id !== game.current_player_id) {
+      const onTurn = game.game_players.find(
+        (p) => p.id === game.current_player_id,
+      );
+      throw new ForbiddenException(
+        `It's not your turn! Waiting for ${onTurn?.player_name || 'the current player'} to answer.`,
+      );
+    }
+    return player;
+  }
+
+  /**
+   * End of the steal window of a question. Asynchronous challenges leave
+   * the steal to the opponent's next turn, which has a deadline of its own.
+   */
+  private async stealDeadline(
+    game: EngineGame,
+    question: { id: string; time: number },
+    settings: GameRules,
+  ) {
+    const isChallenge =
+      (await this.prisma.asyncChallenge.count({
+        where: { game_id: game.id },
+      })) > 0;
+    return isChallenge
+      ? null
+      : QuestionTimerService.deadlineFrom(
+          new Date(),
+          settings.steal_time ??
+            QuestionTimerService.resolveTimeLimit(
+              question,
+              await this.roomsOf(game.id),
+              settings,
+            ),
+        );
+  }
+
+  // nobody is on turn while everyone may steal
+  private openSteal(
+    tx: Prisma.TransactionClient,
+    game: EngineGame,
+    gamePhase: GamePhase,
+    stealDeadlineAt: Date | null,
+  ) {
+    return this.claimRound(tx, game, {
+      current_player_id: null,
+      game_phase: gamePhase,
+      question_deadline_at: stealDeadlineAt,
+    });
+  }
+
+  /**
+   * Move the round on from the turn and phase the game was loaded in. Only
+   * one of concurrent answers, steals and timeouts gets the round, the
+   * others are refused and their transaction is rolled back.
+   */
+  private async claimRound(
+    tx: Prisma.TransactionClient,
+    game: EngineGame,
+    data: Prisma.GameUpdateManyMutationInput,
+  ) {
+    const { count } = await tx.game.updateMany({
+      where: {
+        id: game.id,
+        current_turn: game.current_turn,
+        game_phase: game.game_phase,
+      },
+      data,
+    });
+    if (count === 0) {
+      throw new ConflictException('The round has already moved on.');
+    }
+  }
+
+  // the turn timer makes way for the timer of the steal window
+  private async startStealTimer(
+    gameId: string,
+    questionId: string,
+    stealDeadlineAt: Date | null,
+  ) {
+    await this.questionTimer.cancel(gameId, questionId);
+    if (stealDeadlineAt) {
+      await this.questionTimer.scheduleStealTimeout(
+        gameId,
+        questionId,
+        stealDeadlineAt,
+      );
+    }
+  }
+
+  /**
+   * End the turn in the transaction that closes the round, handing it to
+   * the next player unless the game is over
+   */
+  private async endTurn(
+    tx: Prisma.TransactionClient,
+    game: EngineGame,
+    next: GamePlayer | null,
+    finished: boolean,
+  ) {
+    const advanced = next && !finished ? this.turnAdvanced(game, next) : null;
+    await this.claimRound(tx, game, {
+      game_phase: GamePhase.ROUND_COMPLETED,
+      question_deadline_at: null,
+      ...(advanced
+        ? { current_player_id: next.id, current_turn: { increment: 1 } }
+        : {}),
+    });
+    if (advanced) {
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.TURN_ADVANCED,
+        { game_player_id: next.id, payload: advanced },
+        tx,
+      );
+    }
+    return advanced;
+  }
+
+  /**
+   * Close the round once its turn has ended: reveal the answers, then
+   * announce the next turn or complete the game. Returns the results of a
+   * completed game.
+   */
+  private async closeRound(
+    game: EngineGame,
+    asked: GameQuestion,
+    advanced: ReturnType<typeof this.turnAdvanced> | null,
+    finished: boolean,
+  ) {
+    await this.questionTimer.cancel(game.id, asked.question_id);
+    await this.revealRound(game.id, asked.question_id);
+
+    if (finished) {
+      return (await this.complete(game.id)).data;
+    }
+
+    if (advanced) {
+      await this.gameRoomGateway.emitToGame(
+        game.id,
+        GameRoomEvent.TURN_ADVANCED,
+        advanced,
+      );
+    }
+    return null;
+  }
+
+  private turnAdvanced(game: EngineGame, next: GamePlayer) {
+    return {
+      current_player_id: next.id,
+      player_name: next.player_name,
+      turn: game.current_turn + 1,
+    };
+  }
+
+  /**
+   * Reveal the correct answer and the answers given once a round is over.
+   * Spectators only see answers through this event.
+   */
+  private async revealRound(gameId: string, questionId: string) {
+    const [question, answers] = await Promise.all([
+      this.prisma.question.findUnique({
+        where: { id: questionId },
+        select: {
+          true_false_answer: true,
+          question_type: { select: { kind: true } },
+          answers: {
+            select: {
+              id: true,
+              text: true,
+              file_url: true,
+              is_correct: true,
+              position: true,
+            },
+          },
+        },
+      }),
+      this.prisma.playerAnswer.findMany({
+        where: { question_id: questionId, game_player: { game_id: gameId } },
+        orderBy: { created_at: 'asc' },
+        include: { game_player: { select: { player_name: true } } },
+      }),
+    ]);
+
+    await this.gameRoomGateway.emitToGame(gameId, GameRoomEvent.ROUND_CLOSED, {
+      question_id: questionId,
+      correct_answer: question ? this.revealAnswer(gameId, question) : null,
+      answers: answers.map((answer) => ({
+        player_id: answer.game_player_id,
+        player_name: answer.game_player.player_name,
+        answer_id: AnswerTokenHelper.tokenOf(
+          gameId,
+          answer.answer_id,
+          appConfig().game.answer_tokens.secret,
+        ),
+        is_correct: answer.isCorrect,
+        credit: answer.credit,
+      })),
+    });
+  }
+
+  // tell the room and the players of an online game how an answer went
+  private async announce<D>(game: EngineGame, message: string, data: D) {
+    await this.notifyPlayers(game, 'answerResult', data);
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.ANSWER_RESULT,
+      data,
+    );
+    return { success: true, message, data };
+  }
+
+  // players of a game played across phones also get the older events
+  private async notifyPlayers(
+    game: EngineGame,
+    event: string,
+    data: unknown,
+    userIds: string[] = game.game_players
+      .map((player) => player.user_id)
+      .filter(Boolean),
+  ) {
+    if ((await this.roomsOf(game.id)).length > 0) {
+      this.gatway.server.to(userIds).emit(event, data);
+    }
+  }
+
+  private nextMessage(next: GamePlayer | null, finished: boolean) {
+    if (finished) {
+      return 'The game is complete!';
+    }
+    return next ? `Next turn is for ${next.player_name}.` : '';
+  }
+
+  // the question count has been played through
+  private isFinished(game: {
+    current_question: number;
+    total_questions: number;
+  }) {
+    return (
+      game.total_questions > 0 && game.current_question >= game.total_questions
+    );
+  }
+
+  private progress(game: { total_questions: number }, currentQuestion: number) {
+    return {
+      total_question_number: game.total_questions,
+      current_question_number: currentQuestion,
+      remainig_qustion_number: game.total_questions - currentQuestion,
+    };
+  }
+
+  private answerStats(totalAnswers: number, correctAnswers: number) {
+    return {
+      total_answers: totalAnswers,
+      correct_answers: correctAnswers,
+      wrong_answers: totalAnswers - correctAnswers,
+      accuracy_percentage:
+        totalAnswers > 0
+          ? Math.round((correctAnswers / totalAnswers) * 100)
+          : 0,
+    };
+  }
+
+  private latestQuestion(gameId: string) {
+    return this.prisma.gameQuestion.findFirst({
+      where: { game_id: gameId },
+      orderBy: { created_at: 'desc' },
+    });
+  }
+
+  private answersTo(gameId: string, questionId: string) {
+    return this.prisma.playerAnswer.findMany({
+      where: { question_id: questionId, game_player: { game_id: gameId } },
+      orderBy: { created_at: 'asc' },
+    });
+  }
+
+  private roomsOf(gameId: string) {
+    return this.prisma.room.findMany({
+      where: { game_id: gameId },
+      select: { question_time: true },
+    });
+  }
+
+  // Limits of the subscription the game is played on, none for a free game
+  private async limitsOf(gameId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: { subscription: { select: { subscription_type: true } } },
+    });
+    return game?.subscription?.subscription_type ?? null;
+  }
+
+  /**
+   * Double the points of a correct answer when the player has an active
+   * double points lifeline, and consume it
+   */
+  private async applyDoublePoints(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    points: number,
+  ) {
+    if (points <= 0) {
+      return { points, doubled: false };
+    }
+
+    const activeUse = await tx.lifelineUse.findFirst({
+      where: {
+        game_player_id: playerId,
+        type: LifelineType.DOUBLE_POINTS,
+        consumed_at: null,
+      },
+      orderBy: { created_at: 'asc' },
+    });
+    if (!activeUse) {
+      return { points, doubled: false };
+    }
+
+    // guard against two answers consuming the same lifeline
+    const { count } = await tx.lifelineUse.updateMany({
+      where: { id: activeUse.id, consumed_at: null },
+      data: { consumed_at: new Date() },
+    });
+
+    return count > 0
+      ? { points: points * 2, doubled: true }
+      : { points, doubled: false };
+  }
+
+  private fileUrl(fileUrl: string | null) {
+    return fileUrl
+      ? SojebStorage.url(appConfig().storageUrl.question + fileUrl)
+      : null;
+  }
+
+  // answers as players get them for the format of the question: shuffled,
+  // behind tokens, without correctness
+  presentAnswers(gameId: string, question: GradableQuestion<GradableAnswer>) {
+    return AnswerGradingHelper.present(
+      gameId,
+      question,
+      appConfig().game.answer_tokens.secret,
+    );
+  }
+
+  private revealAnswer(
+    gameId: string,
+    question: GradableQuestion<GradableAnswer>,
+  ) {
+    return AnswerGradingHelper.reveal(
+      gameId,
+      question,
+      appConfig().game.answer_tokens.secret,
+    );
+  }
+
+  // answer token or typed text graded, null when nothing usable was sent
+  private async gradeAnswer<A extends GradableAnswer>(
+    gameId: string,
+    question: GradableQuestion<A>,
+    attempt: AnswerAttempt,
+  ) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: { language: { select: { code: true } } },
+    });
+    return AnswerGradingHelper.grade(
+      gameId,
+      question,
+      attempt,
+      appConfig().game.answer_tokens.secret,
+      game?.language?.code ?? null,
+    );
+  }
+
+  /**
+   * Strip the correct answer from a question before it is pushed to a room
+   */
+  private toRoomQuestion(question: {
+    answers: { id: string; text?: string | null; file_url?: string | null }[];
+    [key: string]: unknown;
+  }) {
+    return {
+      id: question.id,
+      text: question.text,
+      points: question.points,
+      time_limit: question.time_limit,
+      deadline_at: question.deadline_at,
+      file_url: question.file_url,
+      question_type: question.question_type,
+      answers: (question.answers || []).map((answer) => ({
+        id: answer.id,
+        text: answer.text,
+        file_url: answer.file_url,
+      })),
+    };
+  }
+}
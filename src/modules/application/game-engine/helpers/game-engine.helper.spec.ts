@@ -0,0 +1,93 @@
+import { ForbiddenException } from '@nestjs/common';
+import { GameMode, GamePhase, PlayerStatus } from '@prisma/client';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { GameEngineHelper } from './game-engine.helper';
+
+describe('GameEngineHelper', () => {
+  const game = (
+    mode: GameMode,
+    flow: string | null = null,
+    game_phase: GamePhase = GamePhase.WAITING,
+  ) => ({ mode, flow, game_phase });
+
+  it('should play a game through the flow it was started with', () => {
+    expect(
+      GameEngineHelper.flowOf(game(GameMode.QUICK_GAME, GameFlow.HOST)),
+    ).toBe(GameFlow.HOST);
+    expect(
+      GameEngineHelper.flowOf(game(GameMode.QUICK_GAME, GameFlow.COMPETITIVE)),
+    ).toBe(GameFlow.COMPETITIVE);
+  });
+
+  it('should fall back to the only flow of the mode', () => {
+    expect(GameEngineHelper.flowOf(game(GameMode.GRID_STYLE))).toBe(
+      GameFlow.GRID,
+    );
+    expect(
+      GameEngineHelper.flowOf(game(GameMode.ONLINE_QUICK_GAME, GameFlow.QUICK)),
+    ).toBe(GameFlow.ONLINE);
+    expect(GameEngineHelper.flowOf(game(GameMode.DAILY_CHALLENGE))).toBe(
+      GameFlow.DAILY,
+    );
+  });
+
+  it('should tell older quick games apart by their phase', () => {
+    expect(
+      GameEngineHelper.flowOf(
+        game(GameMode.QUICK_GAME, null, GamePhase.QUESTION_SELECTED),
+      ),
+    ).toBe(GameFlow.ONLINE);
+    expect(
+      GameEngineHelper.flowOf(
+        game(GameMode.QUICK_GAME, null, GamePhase.CATEGORY_SELECTION),
+      ),
+    ).toBe(GameFlow.QUICK);
+  });
+
+  it('should only start a game with a flow its mode allows', () => {
+    expect(
+      GameEngineHelper.startFlow(game(GameMode.QUICK_GAME), GameFlow.HOST),
+    ).toBe(GameFlow.HOST);
+    expect(GameEngineHelper.startFlow(game(GameMode.QUICK_GAME))).toBe(
+      GameFlow.QUICK,
+    );
+    expect(
+      GameEngineHelper.startFlow(game(GameMode.GRID_STYLE), GameFlow.QUICK),
+    ).toBeNull();
+  });
+
+  describe('seats', () => {
+    const seated = {
+      host_id: 'host',
+      current_player_id: 'p2',
+      game_players: [
+        { id: 'p1', user_id: 'host', status: PlayerStatus.ACTIVE },
+        { id: 'p2', user_id: null, status: PlayerStatus.ACTIVE },
+        { id: 'p3', user_id: 'user-3', status: PlayerStatus.ACTIVE },
+        { id: 'p4', user_id: 'user-4', status: PlayerStatus.BANNED },
+      ],
+    };
+
+    it('should let the host play for the guests at their device', () => {
+      expect(GameEngineHelper.seatsOf(seated, 'host').map((p) => p.id)).toEqual(
+        ['p1', 'p2'],
+      );
+      expect(GameEngineHelper.actingPlayer(seated, 'host').id).toBe('p2');
+      expect(GameEngineHelper.actingPlayer(seated, 'user-3').id).toBe('p3');
+    });
+
+    it('should refuse a player that is not one of the user seats', () => {
+      expect(() =>
+        GameEngineHelper.actingPlayer(seated, 'user-3', 'p2'),
+      ).toThrow(ForbiddenException);
+      expect(() => GameEngineHelper.actingPlayer(seated, 'host', 'p3')).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should give removed players no seat', () => {
+      expect(GameEngineHelper.seatsOf(seated, 'user-4')).toEqual([]);
+      expect(GameEngineHelper.actingPlayer(seated, 'user-4')).toBeNull();
+    });
+  });
+});
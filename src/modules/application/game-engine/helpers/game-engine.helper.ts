@@ -0,0 +1,102 @@
+import { ForbiddenException } from '@nestjs/common';
+import { GameMode, GamePhase, PlayerStatus } from '@prisma/client';
+import {
+  GameFlow,
+  GamePhaseHelper,
+} from '../../game-player/helpers/game-phase.helper';
+import { TeamHelper } from '../../game-player/helpers/team.helper';
+
+type FlowGame = {
+  mode: GameMode;
+  flow: string | null;
+  game_phase: GamePhase;
+};
+
+type SeatedGame<P> = {
+  host_id: string | null;
+  current_player_id: string | null;
+  game_players: P[];
+};
+
+type Seat = {
+  id: string;
+  user_id: string | null;
+  status?: PlayerStatus;
+  is_bot?: boolean;
+};
+
+// phases only the round based flow goes through
+const ROUND_PHASES: GamePhase[] = [
+  GamePhase.QUESTION_SELECTED,
+  GamePhase.STEAL_MODE_ON_TIMEOUT,
+  GamePhase.ROUND_COMPLETED,
+];
+
+export class GameEngineHelper {
+  /**
+   * Flow a game is played through: the one set when play started, else the
+   * only flow of its mode. Quick games started before flows were recorded
+   * are told apart by their phase.
+   */
+  static flowOf(game: FlowGame): GameFlow {
+    const flows = GamePhaseHelper.flowsForMode(game.mode);
+    const recorded = flows.find((flow) => flow === game.flow);
+    if (recorded) {
+      return recorded;
+    }
+    if (flows.length === 1) {
+      return flows[0];
+    }
+    return ROUND_PHASES.includes(game.game_phase)
+      ? GameFlow.ONLINE
+      : GameFlow.QUICK;
+  }
+
+  /**
+   * Flow to start a game with, null when its mode cannot be played that way
+   */
+  static startFlow(game: FlowGame, requested?: GameFlow): GameFlow | null {
+    if (!requested) {
+      return this.flowOf(game);
+    }
+    return GamePhaseHelper.flowsForMode(game.mode).includes(requested)
+      ? requested
+      : null;
+  }
+
+  /**
+   * Players the user plays for: their own seats, and for the host also the
+   * guests added at their device
+   */
+  static seatsOf<P extends Seat>(game: SeatedGame<P>, userId: string): P[] {
+    const isHost = game.host_id === userId;
+    return game.game_players.filter(
+      (player) =>
+        TeamHelper.takesTurns(player) &&
+        (player.user_id === userId || (isHost && player.user_id === null)),
+    );
+  }
+
+  /**
+   * Player the user acts as. A named player has to be one of the user's
+   * seats, otherwise it is their seat on turn or their only seat.
+   */
+  static actingPlayer<P extends Seat>(
+    game: SeatedGame<P>,
+    userId: string,
+    playerId?: string,
+  ): P | null {
+    const seats = this.seatsOf(game, userId);
+    if (playerId) {
+      const seat = seats.find((player) => player.id === playerId);
+      if (!seat) {
+        throw new ForbiddenException('You cannot play for this player');
+      }
+      return seat;
+    }
+    return (
+      seats.find((player) => player.id === game.current_player_id) ??
+      (seats.length === 1 ? seats[0] : null)
+    );
+  }
+}
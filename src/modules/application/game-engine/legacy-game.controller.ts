@@ -0,0 +1,499 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { GameEngineService } from './game-engine.service';
+import {
+  AnswerCompetitiveQuestionDto,
+  AnswerQuickGameQuestionDto,
+  EndQuickGameDto,
+  HostAnswerQuestionDto,
+  HostSelectCategoryDto,
+  HostSkipQuestionDto,
+  SelectCategoryAndStartDto,
+  SelectCompetitiveCategoryDto,
+  SelectQuickGameCategoryDto,
+  StartQuickGameDto,
+  StealQuickGameQuestionDto,
+} from '../game-player/dto/quick-game.dto';
+import { QuestionTimeoutDto } from '../game-player/dto/question-timeout.dto';
+import { EndGameDto } from '../game-player/dto/gameplay.dto';
+import { AnswerQuestionDto } from '../game-player/dto/answer-question.dto';
+import { UseLifelineDto } from '../game-player/dto/lifeline.dto';
+import { GameFlow } from '../game-player/helpers/game-phase.helper';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+type AnswerDto = {
+  question_id: string;
+  answer_id?: string;
+  answer_text?: string;
+  answer_ids?: string[];
+  player_id?: string;
+};
+
+/**
+ * Routes of the quick, competitive, host and online flows the apps still
+ * call. They go through the game engine, which plays them the way the
+ * game's flow does, until the apps have moved to the v2 routes.
+ */
+@ApiTags('Game Player')
+@ApiBearerAuth()
+@Controller('game-players')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class LegacyGameController {
+  constructor(private readonly gameEngineService: GameEngineService) {}
+
+  // ===== QUICK GAME =====
+
+  @ApiOperation({ summary: 'Start Quick Game' })
+  @Post('quick-game/start')
+  async startQuickGame(@Body() dto: StartQuickGameDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.start(dto.game_id, req.user.userId, {
+        flow: GameFlow.QUICK,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Select category and difficulty for current turn' })
+  @Post('quick-game/select-category')
+  async selectQuickGameCategory(
+    @Body() dto: SelectQuickGameCategoryDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.selectCategory(
+        dto.game_id,
+        req.user.userId,
+        {
+          category_id: dto.category_id,
+          difficulty_id: dto.difficulty_id,
+          player_id: dto.player_id,
+        },
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get question for current turn' })
+  @Get('quick-game/question/:gameId')
+  async getQuestion(@Param('gameId') gameId: string, @Req() req: any) {
+    try {
+      return await this.gameEngineService.getQuestion(gameId, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Answer question in Quick Game' })
+  @Post('quick-game/answer')
+  async answer(@Body() dto: AnswerQuickGameQuestionDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.answer(
+        dto.game_id,
+        req.user.userId,
+        this.answerOf(dto),
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Steal question when player answers wrong' })
+  @Post('quick-game/steal-question')
+  async steal(@Body() dto: StealQuickGameQuestionDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.steal(
+        dto.game_id,
+        req.user.userId,
+        this.answerOf(dto),
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({
+    summary: 'Select category/difficulty and start game in one step',
+  })
+  @Post('quick-game/select-category-and-start')
+  async selectCategoryAndStart(
+    @Body() dto: SelectCategoryAndStartDto,
+    @Req() req: any,
+  ) {
+    try {
+      // every round of an online game starts with its category
+      return await this.gameEngineService.start(dto.game_id, req.user.userId, {
+        flow: GameFlow.ONLINE,
+        category_id: dto.category_id,
+        difficulty_id: dto.difficulty_id,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get Quick Game status with scores and progress' })
+  @Get('quick-game/status/:gameId')
+  async getQuickGameStatus(@Param('gameId') gameId: string, @Req() req: any) {
+    try {
+      return await this.gameEngineService.getStatus(gameId, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'End Quick Game and get final results' })
+  @Post('quick-game/end')
+  async endQuickGame(@Body() dto: EndQuickGameDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.end(dto.game_id, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // the answer is checked against the game's phase, turn and deadline
+  // like the answers of every flow
+  @ApiOperation({ summary: 'Answer a question in game' })
+  @Post('answer/:gameId')
+  async answerQuestion(
+    @Param('gameId') gameId: string,
+    @Body() dto: AnswerQuestionDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.answer(
+        gameId,
+        req.user.userId,
+        this.answerOf(dto),
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({
+    summary: 'End game and show final rankings with leaderboard',
+  })
+  @Post('end-game')
+  async endGame(@Body() dto: EndGameDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.endGame(dto.game_id, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // for time out or quit game
+  @ApiOperation({ summary: 'Handle a question timeout' })
+  @Post('timeout-skiped')
+  async handleQuestionTimeout(
+    @Body() timeoutDto: QuestionTimeoutDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.skip(
+        timeoutDto.game_id,
+        req.user.userId,
+        timeoutDto.question_id,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // ===== COMPETITIVE QUICK GAME =====
+
+  @ApiOperation({ summary: 'Start Competitive Quick Game' })
+  @Post('competitive-quick-game/start/:gameId')
+  async startCompetitiveQuickGame(
+    @Param('gameId') gameId: string,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.start(gameId, req.user.userId, {
+        flow: GameFlow.COMPETITIVE,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({
+    summary: 'Select category and difficulty for competitive game',
+  })
+  @Post('competitive-quick-game/select-category')
+  async selectCompetitiveCategory(
+    @Body() dto: SelectCompetitiveCategoryDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.selectCategory(
+        dto.game_id,
+        req.user.userId,
+        { category_id: dto.category_id, difficulty_id: dto.difficulty_id },
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get next question for competitive game' })
+  @Get('competitive-quick-game/question/:gameId')
+  async getCompetitiveQuestion(
+    @Param('gameId') gameId: string,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.getQuestion(gameId, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // answers the question on turn, or steals it while the steal window is open
+  @ApiOperation({ summary: 'Answer question in competitive game' })
+  @Post('competitive-quick-game/answer')
+  async answerCompetitiveQuestion(
+    @Body() dto: AnswerCompetitiveQuestionDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.answer(
+        dto.game_id,
+        req.user.userId,
+        this.answerOf(dto),
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get competitive game status' })
+  @Get('competitive-quick-game/status/:gameId')
+  async getCompetitiveGameStatus(
+    @Param('gameId') gameId: string,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.getStatus(gameId, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // ===== HOST-CONTROLLED GAME =====
+
+  @ApiOperation({ summary: 'Host starts competitive game' })
+  @Post('host-game/start/:gameId')
+  async hostStartCompetitiveGame(
+    @Param('gameId') gameId: string,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.start(gameId, req.user.userId, {
+        flow: GameFlow.HOST,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Host selects category and difficulty' })
+  @Post('host-game/select-category')
+  async hostSelectCategory(
+    @Body() dto: HostSelectCategoryDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.selectCategory(
+        dto.game_id,
+        req.user.userId,
+        { category_id: dto.category_id, difficulty_id: dto.difficulty_id },
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Host gets next question' })
+  @Get('host-game/question/:gameId')
+  async hostGetQuestion(@Param('gameId') gameId: string, @Req() req: any) {
+    try {
+      return await this.gameEngineService.getQuestion(gameId, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Host submits answer on behalf of a player' })
+  @Post('host-game/answer')
+  async hostAnswerQuestion(
+    @Body() dto: HostAnswerQuestionDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.answer(
+        dto.game_id,
+        req.user.userId,
+        this.answerOf(dto),
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Host skips a question' })
+  @Post('host-game/skip-question')
+  async hostSkipQuestion(@Body() dto: HostSkipQuestionDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.skip(
+        dto.game_id,
+        req.user.userId,
+        dto.question_id,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Host gets game status' })
+  @Get('host-game/status/:gameId')
+  async hostGetGameStatus(@Param('gameId') gameId: string, @Req() req: any) {
+    try {
+      return await this.gameEngineService.getStatus(gameId, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // ===== LIFELINES =====
+
+  @ApiOperation({ summary: 'Get the lifelines a player has left in a game' })
+  @Get('lifelines/:gameId/:playerId')
+  async getLifelines(
+    @Param('gameId') gameId: string,
+    @Param('playerId') playerId: string,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.gameEngineService.getLifelines(
+        gameId,
+        req.user.userId,
+        playerId,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({
+    summary: 'Use a lifeline',
+    description:
+      'FIFTY_FIFTY removes two wrong answers, EXTRA_TIME extends the question deadline, DOUBLE_POINTS doubles the next correct answer and FREE_SKIP skips the question without counting it as skipped.',
+  })
+  @Post('lifelines/use')
+  async useLifeline(@Body() dto: UseLifelineDto, @Req() req: any) {
+    try {
+      return await this.gameEngineService.useLifeline(req.user.userId, dto);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  private answerOf(dto: AnswerDto) {
+    return {
+      question_id: dto.question_id,
+      answer_id: dto.answer_id,
+      answer_text: dto.answer_text,
+      answer_ids: dto.answer_ids,
+      player_id: dto.player_id,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { GameEngineService } from '../game-engine.service';
+import {
+  QUESTION_TIMER_QUEUE,
+  QuestionTimerJobData,
+} from '../../game-player/question-timer.service';
+
+@Processor(QUESTION_TIMER_QUEUE)
+export class QuestionTimerProcessor extends WorkerHost {
+  private readonly logger = new Logger(QuestionTimerProcessor.name);
+  constructor(private gameEngineService: GameEngineService) {
+    super();
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.log(`Job ${job.id} with name ${job.name} completed`);
+  }
+
+  async process(job: Job<QuestionTimerJobData>): Promise<any> {
+    this.logger.log(`Processing job ${job.id} with name ${job.name}`);
+    try {
+      switch (job.name) {
+        case 'questionTimeout':
+          return await this.gameEngineService.expire(job.data);
+        default:
+          this.logger.log('Unknown job name');
+          return;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing job ${job.id} with name ${job.name}`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
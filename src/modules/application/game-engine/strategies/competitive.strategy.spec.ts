@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  GameMode,
+  GamePhase,
+  PlayerStatus,
+  QuestionKind,
+} from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { MessageGateway } from '../../../chat/message/message.gateway';
+import { GameRoomGateway } from '../../game-room/game-room.gateway';
+import { GameEventService } from '../../game-event/game-event.service';
+import { GameSettingsService } from '../../game-settings/game-settings.service';
+import { GameSettingsHelper } from '../../game-settings/helpers/game-settings.helper';
+import { TournamentService } from '../../tournament/tournament.service';
+import { RatingService } from '../../leaderboard/rating.service';
+import { DailyChallengeService } from '../../daily-challenge/daily-challenge.service';
+import { GamePlayerService } from '../../game-player/game-player.service';
+import { AdaptiveDifficultyService } from '../../game-player/adaptive-difficulty.service';
+import { QuestionTimerService } from '../../game-player/question-timer.service';
+import { AnswerTokenHelper } from '../../game-player/helpers/answer-token.helper';
+import { GameRoundService } from '../game-round.service';
+import { CompetitiveStrategy } from './competitive.strategy';
+
+jest.mock('../../game-player/game-player.service', () => ({
+  GamePlayerService: class {},
+}));
+
+describe('CompetitiveStrategy', () => {
+  const secret = 'test-secret';
+  process.env.ANSWER_TOKEN_SECRET = secret;
+
+  const question = {
+    id: 'q1',
+    text: 'Highest mountain?',
+    points: 10,
+    time: 30,
+    file_url: null,
+    repeat_count: 5,
+    question_type: { id: 't1', name: 'Options', kind: QuestionKind.OPTIONS },
+    answers: [
+      { id: 'a1', text: 'Everest', file_url: null, is_correct: true },
+      { id: 'a2', text: 'K2', file_url: null, is_correct: false },
+    ],
+  };
+
+  let strategy: CompetitiveStrategy;
+  let rounds: GameRoundService;
+  let game: Record<string, any>;
+  let players: Record<string, any>[];
+  let asked: Record<string, any>[];
+  let answers: Record<string, any>[];
+  let prisma: Record<string, any>;
+
+  // apply a prisma update the way the database would
+  const apply = (row: Record<string, any>, data: Record<string, any>) => {
+    for (const [key, value] of Object.entries(data)) {
+      row[key] =
+        value && typeof value === 'object' && 'increment' in value
+          ? row[key] + value.increment
+          : value;
+    }
+    return { ...row };
+  };
+
+  const contextOf = (playerId: string) => {
+    const player = players.find((p) => p.id === playerId);
+    return {
+      game: { ...game, game_players: players } as any,
+      userId: player.user_id,
+      is_host: player.user_id === game.host_id,
+      player: player as any,
+    };
+  };
+
+  const answer = (playerId: string, answerId: string) =>
+    strategy.answer(contextOf(playerId), {
+      question_id: 'q1',
+      answer_id: AnswerTokenHelper.token('g1', answerId, secret),
+    });
+
+  beforeEach(async () => {
+    game = {
+      id: 'g1',
+      mode: 'QUICK_GAME',
+      flow: null,
+      status: 'waiting',
+      game_phase: GamePhase.WAITING,
+      host_id: 'u1',
+      language_id: 'l1',
+      adaptive_difficulty: false,
+      is_team_game: false,
+      current_player_id: null,
+      current_turn: 0,
+      current_question: 0,
+      total_questions: 0,
+      question_asked_at: null,
+      question_deadline_at: null,
+    };
+    players = ['u1', 'u2'].map((userId, index) => ({
+      id: `p${index + 1}`,
+      user_id: userId,
+      player_name: `Player ${index + 1}`,
+      player_order: index + 1,
+      team_id: null,
+      score: 0,
+      status: PlayerStatus.ACTIVE,
+    }));
+    asked = [];
+    answers = [];
+
+    prisma = {
+      $transaction: jest.fn((operations) =>
+        typeof operations === 'function'
+          ? operations(prisma)
+          : Promise.all(operations),
+      ),
+      game: {
+        findUnique: jest.fn(async () => ({
+          ...game,
+          subscription: null,
+          language: { code: 'en' },
+          game_players: players,
+          game_selections: [],
+        })),
+        update: jest.fn(async ({ data }) => apply(game, data)),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const matches = Object.entries(where).every(
+            ([key, value]) => key === 'id' || game[key] === value,
+          );
+          if (matches) {
+            apply(game, data);
+          }
+          return { count: matches ? 1 : 0 };
+        }),
+      },
+      gamePlayer: {
+        findMany: jest.fn(async () => []),
+        update: jest.fn(async ({ where, data }) =>
+          apply(
+            players.find((p) => p.id === where.id),
+            data,
+          ),
+        ),
+      },
+      gameTeam: {
+        findMany: jest.fn(async () => []),
+        updateMany: jest.fn(async () => ({ count: 0 })),
+      },
+      category: {
+        findUnique: jest.fn(async () => ({ id: 'c1', name: 'Geography' })),
+      },
+      difficulty: {
+        findUnique: jest.fn(async () => ({
+          id: 'd1',
+          name: 'Easy',
+          points: 10,
+        })),
+      },
+      gameSelection: {
+        create: jest.fn(async ({ data }) => ({ id: 's1', ...data })),
+        findFirst: jest.fn(async () => ({
+          id: 's1',
+          category_id: 'c1',
+          difficulty_id: 'd1',
+        })),
+      },
+      question: {
+        count: jest.fn(async () => 5),
+        findMany: jest.fn(async () => [question]),
+        findUnique: jest.fn(async () => question),
+      },
+      gameQuestion: {
+        findMany: jest.fn(async () => []),
+        groupBy: jest.fn(async () => []),
+        create: jest.fn(async ({ data }) => {
+          asked.unshift(data);
+          return data;
+        }),
+        findFirst: jest.fn(async () => asked[0] ?? null),
+      },
+      playerAnswer: {
+        findMany: jest.fn(async () => answers),
+        create: jest.fn(async ({ data }) => {
+          answers.push({ ...data, game_player: { player_name: 'Player' } });
+          return data;
+        }),
+        count: jest.fn(async () => answers.length),
+      },
+      lifelineUse: { findFirst: jest.fn(async () => null) },
+      asyncChallenge: { count: jest.fn(async () => 0) },
+      room: { findMany: jest.fn(async () => []) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CompetitiveStrategy,
+        GameRoundService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MessageGateway, useValue: { server: { to: jest.fn() } } },
+        { provide: GameRoomGateway, useValue: { emitToGame: jest.fn() } },
+        { provide: GameEventService, useValue: { record: jest.fn() } },
+        {
+          provide: GameSettingsService,
+          useValue: {
+            forGame: jest.fn(async () =>
+              GameSettingsHelper.defaults(GameMode.QUICK_GAME),
+            ),
+          },
+        },
+        {
+          provide: QuestionTimerService,
+          useValue: {
+            scheduleTurnTimeout: jest.fn(),
+            scheduleStealTimeout: jest.fn(),
+            cancel: jest.fn(),
+          },
+        },
+        { provide: AdaptiveDifficultyService, useValue: {} },
+        {
+          provide: DailyChallengeService,
+          useValue: { excludedQuestionIds: jest.fn(async () => []) },
+        },
+        {
+          provide: TournamentService,
+          useValue: { recordGameResult: jest.fn() },
+        },
+        { provide: RatingService, useValue: { recordGameResult: jest.fn() } },
+        {
+          provide: GamePlayerService,
+          useValue: { teamStandings: jest.fn(async () => []) },
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<CompetitiveStrategy>(CompetitiveStrategy);
+    rounds = module.get<GameRoundService>(GameRoundService);
+
+    await strategy.start(contextOf('p1'));
+    await strategy.selectCategory(contextOf('p1'), {
+      category_id: 'c1',
+      difficulty_id: 'd1',
+    });
+  });
+
+  it('should play a question through to its answer', async () => {
+    expect(game.game_phase).toBe(GamePhase.QUESTION);
+    expect(game.total_questions).toBe(5);
+
+    const dealt: any = await strategy.getQuestion(contextOf('p1'));
+    expect(dealt.data.question.id).toBe('q1');
+    expect(asked[0].game_player_id).toBe('p1');
+    expect(game.game_phase).toBe(GamePhase.QUESTION_SELECTED);
+
+    const result: any = await answer('p1', 'a1');
+
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        is_correct: true,
+        player_id: 'p1',
+        next_turn_for: { player_id: 'p2', player_name: 'Player 2' },
+        is_round_over: true,
+      }),
+    );
+    expect(players[0].score).toBeGreaterThan(0);
+    expect(game.game_phase).toBe(GamePhase.ROUND_COMPLETED);
+    expect(game.current_player_id).toBe('p2');
+  });
+
+  it('should leave a missed question for the other player to steal', async () => {
+    await strategy.getQuestion(contextOf('p1'));
+
+    const missed: any = await answer('p1', 'a2');
+    expect(missed.data.next_action).toBe('OPEN_FOR_STEAL');
+    expect(game.game_phase).toBe(GamePhase.STEAL_MODE_ACTIVE);
+
+    await expect(answer('p1', 'a1')).rejects.toThrow(
+      'You cannot steal your own question.',
+    );
+
+    const stolen: any = await strategy.steal(contextOf('p2'), {
+      question_id: 'q1',
+      answer_id: AnswerTokenHelper.token('g1', 'a1', secret),
+    });
+    expect(stolen.data).toEqual(
+      expect.objectContaining({ is_correct: true, is_steal: true }),
+    );
+    expect(game.game_phase).toBe(GamePhase.ROUND_COMPLETED);
+    expect(game.current_player_id).toBe('p2');
+  });
+
+  it('should refuse a timeout that lost the round to a steal', async () => {
+    await strategy.getQuestion(contextOf('p1'));
+    await answer('p1', 'a2');
+
+    const stealing = contextOf('p2');
+    await strategy.steal(stealing, {
+      question_id: 'q1',
+      answer_id: AnswerTokenHelper.token('g1', 'a1', secret),
+    });
+
+    await expect(
+      rounds.timeOut(stealing.game, strategy.rules, 'q1', null),
+    ).rejects.toThrow('The round has already moved on.');
+    expect(game.current_turn).toBe(2);
+  });
+});
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { GameRoundService } from '../game-round.service';
+import { ModeRules } from './game-mode.strategy';
+import { RoundStrategy } from './round.strategy';
+
+/**
+ * Competitive quick game: one category for the whole game, the players
+ * take its questions in turn and a missed question is open for the others
+ * to steal
+ */
+@Injectable()
+export class CompetitiveStrategy extends RoundStrategy {
+  readonly flow = GameFlow.COMPETITIVE;
+  readonly rules: ModeRules = {
+    turn_order: 'PLAYER_ORDER',
+    question_selection: 'PER_GAME',
+    scoring: 'QUESTION_POINTS',
+    steal: 'ANY_PLAYER',
+    completion: 'QUESTION_LIMIT',
+  };
+
+  constructor(rounds: GameRoundService) {
+    super(rounds);
+  }
+}
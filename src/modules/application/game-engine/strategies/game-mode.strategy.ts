@@ -0,0 +1,86 @@
+import { Game, GamePlayer } from '@prisma/client';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { QuestionTimerJobData } from '../../game-player/question-timer.service';
+
+export const GAME_MODE_STRATEGIES = 'GAME_MODE_STRATEGIES';
+
+/**
+ * How a flow plays out, reported to clients so they can lay out the game
+ * without knowing the mode themselves
+ */
+export type ModeRules = {
+  // PLAYER_ORDER: players take turns, HOST_ASSIGNED: the host deals the
+  // questions and enters the answers of any player
+  turn_order: 'PLAYER_ORDER' | 'HOST_ASSIGNED';
+  // category picked on every turn, once for the whole game or per board cell
+  question_selection: 'PER_TURN' | 'PER_GAME' | 'BOARD_CELL';
+  // question points scaled by the game's multiplier, or the cell's points
+  scoring: 'QUESTION_POINTS' | 'CELL_POINTS';
+  // who may take a question the player on turn got wrong
+  steal: 'ANY_PLAYER' | 'NONE';
+  // the question count running out or every board cell being used
+  completion: 'QUESTION_LIMIT' | 'BOARD_FULL';
+};
+
+export type EngineGame = Game & { game_players: GamePlayer[] };
+
+export type EngineContext = {
+  game: EngineGame;
+  userId: string;
+  is_host: boolean;
+  // seat of the user on turn, or their only seat in the game
+  player: GamePlayer | null;
+};
+
+export type PlayStart = {
+  flow?: GameFlow;
+  category_id?: string;
+  difficulty_id?: string;
+  categories?: string[];
+};
+
+export type CategorySelection = {
+  category_id: string;
+  difficulty_id: string;
+  player_id?: string;
+  cell_id?: string;
+};
+
+export type AnswerSubmission = {
+  question_id: string;
+  answer_id?: string;
+  answer_text?: string;
+  answer_ids?: string[];
+  // one of the user's own seats, for a user playing several at one device
+  player_id?: string;
+  team_id?: string;
+};
+
+/**
+ * One way of playing a game. Strategies own the rules of their flow and
+ * hand every action to the code that implements it; actions a flow does
+ * not have throw a BadRequestException. `expire` and `forfeit` are run by
+ * the server, without a signed-in user.
+ */
+export interface GameModeStrategy {
+  readonly flow: GameFlow;
+  readonly rules: ModeRules;
+
+  start(context: EngineContext, start: PlayStart): Promise<unknown>;
+  selectCategory(
+    context: EngineContext,
+    selection: CategorySelection,
+  ): Promise<unknown>;
+  getQuestion(context: EngineContext): Promise<unknown>;
+  answer(context: EngineContext, answer: AnswerSubmission): Promise<unknown>;
+  steal(context: EngineContext, answer: AnswerSubmission): Promise<unknown>;
+  skip(context: EngineContext, questionId: string): Promise<unknown>;
+  getStatus(context: EngineContext): Promise<unknown>;
+  end(context: EngineContext): Promise<unknown>;
+  expire(game: EngineGame, job: QuestionTimerJobData): Promise<unknown>;
+  forfeit(
+    game: EngineGame,
+    playerId: string,
+    countAsSkipped: boolean,
+  ): Promise<unknown>;
+}
@@ -0,0 +1,116 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { QuestionTimerJobData } from '../../game-player/question-timer.service';
+import { GridStyleService } from '../../grid-style/grid-style.service';
+import { GameRoundService } from '../game-round.service';
+import { GameEngineHelper } from '../helpers/game-engine.helper';
+import {
+  AnswerSubmission,
+  CategorySelection,
+  EngineContext,
+  EngineGame,
+  GameModeStrategy,
+  ModeRules,
+  PlayStart,
+} from './game-mode.strategy';
+
+/**
+ * Grid style game: teams pick cells off a board laid out from the chosen
+ * categories, a right answer takes the cell and a wrong one burns it
+ */
+@Injectable()
+export class GridStrategy implements GameModeStrategy {
+  readonly flow = GameFlow.GRID;
+  readonly rules: ModeRules = {
+    turn_order: 'PLAYER_ORDER',
+    question_selection: 'BOARD_CELL',
+    scoring: 'CELL_POINTS',
+    steal: 'NONE',
+    completion: 'BOARD_FULL',
+  };
+
+  constructor(
+    private readonly gridStyleService: GridStyleService,
+    private readonly rounds: GameRoundService,
+  ) {}
+
+  start({ game, userId }: EngineContext, start: PlayStart) {
+    if (!start.categories?.length) {
+      throw new BadRequestException(
+        'categories are required to lay out the board',
+      );
+    }
+
+    return this.gridStyleService.createBoard(userId, {
+      game_id: game.id,
+      categories: start.categories,
+    });
+  }
+
+  // picking a cell deals its question
+  selectCategory(
+    { game, userId }: EngineContext,
+    selection: CategorySelection,
+  ) {
+    return this.gridStyleService.getQuestionByCategory({
+      game_id: game.id,
+      category_id: selection.category_id,
+      difficulty_id: selection.difficulty_id,
+      player_id: GameEngineHelper.actingPlayer(
+        game,
+        userId,
+        selection.player_id,
+      )?.id,
+      cell_id: selection.cell_id,
+    });
+  }
+
+  async getQuestion(): Promise<never> {
+    throw new BadRequestException(
+      'Grid questions are dealt when a cell is picked',
+    );
+  }
+
+  answer({ game, userId }: EngineContext, answer: AnswerSubmission) {
+    if (!answer.team_id) {
+      throw new BadRequestException(
+        'team_id is required to answer a grid question',
+      );
+    }
+
+    return this.gridStyleService.answerQuestion(userId, {
+      game_id: game.id,
+      question_id: answer.question_id,
+      team_id: answer.team_id,
+      answer_id: answer.answer_id,
+      answer_text: answer.answer_text,
+      answer_ids: answer.answer_ids,
+    });
+  }
+
+  async steal(): Promise<never> {
+    throw new BadRequestException('Grid games have no steals');
+  }
+
+  async skip(): Promise<never> {
+    throw new BadRequestException('Grid questions cannot be skipped');
+  }
+
+  getStatus({ game }: EngineContext) {
+    return this.gridStyleService.getBoard(game.id);
+  }
+
+  end({ game }: EngineContext) {
+    return this.rounds.end(game, this.flow);
+  }
+
+  // a dealt cell runs out like a wrong answer
+  expire(_game: EngineGame, job: QuestionTimerJobData) {
+    return this.gridStyleService.expireQuestion(job);
+  }
+
+  // the team keeps its turn until the cell is answered
+  async forfeit() {
+    return null;
+  }
+}
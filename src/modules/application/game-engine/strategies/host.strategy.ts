@@ -0,0 +1,29 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { GameRoundService } from '../game-round.service';
+import { ModeRules } from './game-mode.strategy';
+import { RoundStrategy } from './round.strategy';
+
+/**
+ * Host controlled game: the host runs a single category and enters the
+ * answers of the players, there is no stealing
+ */
+@Injectable()
+export class HostStrategy extends RoundStrategy {
+  readonly flow = GameFlow.HOST;
+  readonly rules: ModeRules = {
+    turn_order: 'HOST_ASSIGNED',
+    question_selection: 'PER_GAME',
+    scoring: 'QUESTION_POINTS',
+    steal: 'NONE',
+    completion: 'QUESTION_LIMIT',
+  };
+
+  constructor(rounds: GameRoundService) {
+    super(rounds);
+  }
+
+  async steal(): Promise<never> {
+    throw new BadRequestException('Host games have no steals');
+  }
+}
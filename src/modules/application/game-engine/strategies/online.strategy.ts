@@ -0,0 +1,53 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { GameRoundService } from '../game-round.service';
+import {
+  CategorySelection,
+  EngineContext,
+  ModeRules,
+  PlayStart,
+} from './game-mode.strategy';
+import { RoundStrategy } from './round.strategy';
+
+/**
+ * Round based game of an online room: every turn the player on turn picks a
+ * category and gets one timed question, which the others may steal when it
+ * is missed. Picking the first category starts the game.
+ */
+@Injectable()
+export class OnlineStrategy extends RoundStrategy {
+  readonly flow = GameFlow.ONLINE;
+  readonly rules: ModeRules = {
+    turn_order: 'PLAYER_ORDER',
+    question_selection: 'PER_TURN',
+    scoring: 'QUESTION_POINTS',
+    steal: 'ANY_PLAYER',
+    completion: 'QUESTION_LIMIT',
+  };
+
+  constructor(rounds: GameRoundService) {
+    super(rounds);
+  }
+
+  start(context: EngineContext, start?: PlayStart) {
+    if (!start?.category_id || !start?.difficulty_id) {
+      throw new BadRequestException(
+        'category_id and difficulty_id are required to start an online game',
+      );
+    }
+
+    return this.selectCategory(context, {
+      category_id: start.category_id,
+      difficulty_id: start.difficulty_id,
+    });
+  }
+
+  // picking the category deals its question
+  selectCategory(context: EngineContext, selection: CategorySelection) {
+    return this.rounds.chooseAndDeal(context, this.flow, this.rules, selection);
+  }
+
+  getQuestion({ game }: EngineContext) {
+    return this.rounds.openQuestion(game);
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { GameRoundService } from '../game-round.service';
+import { ModeRules } from './game-mode.strategy';
+import { RoundStrategy } from './round.strategy';
+
+/**
+ * Pass-and-play quick game: the player on turn picks a category, answers,
+ * and a wrong answer can be stolen by any other player
+ */
+@Injectable()
+export class QuickStrategy extends RoundStrategy {
+  readonly flow = GameFlow.QUICK;
+  readonly rules: ModeRules = {
+    turn_order: 'PLAYER_ORDER',
+    question_selection: 'PER_TURN',
+    scoring: 'QUESTION_POINTS',
+    steal: 'ANY_PLAYER',
+    completion: 'QUESTION_LIMIT',
+  };
+
+  constructor(rounds: GameRoundService) {
+    super(rounds);
+  }
+}
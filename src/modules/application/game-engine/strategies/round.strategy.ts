@@ -0,0 +1,71 @@
+import { GameFlow } from '../../game-player/helpers/game-phase.helper';
+import { QuestionTimerJobData } from '../../game-player/question-timer.service';
+import { GameRoundService } from '../game-round.service';
+import {
+  AnswerSubmission,
+  CategorySelection,
+  EngineContext,
+  EngineGame,
+  GameModeStrategy,
+  ModeRules,
+} from './game-mode.strategy';
+
+/**
+ * Flow played in rounds of one question each. The rounds are run by
+ * GameRoundService; a flow only states its rules and how its categories
+ * are picked.
+ */
+export abstract class RoundStrategy implements GameModeStrategy {
+  abstract readonly flow: GameFlow;
+  abstract readonly rules: ModeRules;
+
+  constructor(protected readonly rounds: GameRoundService) {}
+
+  start(context: EngineContext): Promise<unknown> {
+    return this.rounds.begin(context, this.flow, this.rules);
+  }
+
+  selectCategory(
+    context: EngineContext,
+    selection: CategorySelection,
+  ): Promise<unknown> {
+    return this.rounds.chooseCategory(
+      context,
+      this.flow,
+      this.rules,
+      selection,
+    );
+  }
+
+  getQuestion(context: EngineContext): Promise<unknown> {
+    return this.rounds.deal(context, this.flow, this.rules);
+  }
+
+  answer(context: EngineContext, answer: AnswerSubmission) {
+    return this.rounds.submit(context, this.rules, answer);
+  }
+
+  steal(context: EngineContext, answer: AnswerSubmission) {
+    return this.rounds.submit(context, this.rules, answer, true);
+  }
+
+  skip(context: EngineContext, questionId: string) {
+    return this.rounds.skip(context, this.rules, questionId);
+  }
+
+  getStatus({ game }: EngineContext) {
+    return this.rounds.status(game);
+  }
+
+  end({ game }: EngineContext) {
+    return this.rounds.end(game, this.flow);
+  }
+
+  expire(game: EngineGame, job: QuestionTimerJobData) {
+    return this.rounds.expire(game, this.rules, job);
+  }
+
+  forfeit(game: EngineGame, playerId: string, countAsSkipped: boolean) {
+    return this.rounds.forfeit(game, this.rules, playerId, countAsSkipped);
+  }
+}
@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { GameEventService } from './game-event.service';
+
+@Global()
+@Module({
+  providers: [GameEventService],
+  exports: [GameEventService],
+})
+export class GameEventModule {}
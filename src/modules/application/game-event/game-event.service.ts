@@ -0,0 +1,135 @@
+import { Injectable } from '@nestjs/common';
+import { GameEventType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { GameEventHelper } from './helpers/game-event.helper';
+
+export type GameEventEntry = {
+  game_player_id?: string | null;
+  question_id?: string | null;
+  points?: number;
+  payload?: any;
+};
+
+@Injectable()
+export class GameEventService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Append an event to the game's log. Pass the transaction of the change
+   * the event describes, so both are written or neither is. The sequence
+   * number is taken from an atomic increment on the game, so concurrent
+   * actions never share one.
+   */
+  async record(
+    gameId: string,
+    type: GameEventType,
+    entry: GameEventEntry = {},
+    tx?: Prisma.TransactionClient,
+  ) {
+    if (!tx) {
+      return this.prisma.$transaction((client) =>
+        this.record(gameId, type, entry, client),
+      );
+    }
+
+    const { event_sequence } = await tx.game.update({
+      where: { id: gameId },
+      data: { event_sequence: { increment: 1 } },
+      select: { event_sequence: true },
+    });
+
+    return tx.gameEvent.create({
+      data: {
+        game_id: gameId,
+        sequence: event_sequence,
+        type,
+        game_player_id: entry.game_player_id ?? null,
+        question_id: entry.question_id ?? null,
+        points: entry.points ?? 0,
+        // round trip through JSON to store dates and drop undefined values
+        payload:
+          entry.payload === undefined
+            ? undefined
+            : JSON.parse(JSON.stringify(entry.payload)),
+      },
+    });
+  }
+
+  // events of a game in the order they happened
+  async getTimeline(gameId: string) {
+    return this.prisma.gameEvent.findMany({
+      where: { game_id: gameId },
+      orderBy: { sequence: 'asc' },
+      include: {
+        game_player: {
+          select: { id: true, player_name: true, user_id: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Recompute the final scores of a game from its event log and flag the
+   * players whose stored score does not match
+   */
+  async auditScores(gameId: string) {
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        select: {
+          id: true,
+          mode: true,
+          status: true,
+          game_players: {
+            select: { id: true, player_name: true, score: true },
+            orderBy: { player_order: 'asc' },
+          },
+        },
+      });
+
+      if (!game) {
+        return {
+          success: false,
+          message: 'Game not found',
+        };
+      }
+
+      const events = await this.prisma.gameEvent.findMany({
+        where: { game_id: gameId },
+        select: { game_player_id: true, points: true },
+        orderBy: { sequence: 'asc' },
+      });
+
+      if (events.length === 0) {
+        return {
+          success: false,
+          message: 'This game has no event log to audit',
+        };
+      }
+
+      const players = GameEventHelper.auditScores(game.game_players, events);
+      const mismatches = players.filter((player) => !player.matches);
+
+      return {
+        success: true,
+        message:
+          mismatches.length > 0
+            ? `${mismatches.length} player score(s) do not match the event log`
+            : 'All player scores match the event log',
+        data: {
+          game_id: game.id,
+          mode: game.mode,
+          status: game.status,
+          total_events: events.length,
+          has_mismatch: mismatches.length > 0,
+          players,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error auditing game scores: ${error.message}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { GameEventHelper } from './game-event.helper';
+
+describe('GameEventHelper', () => {
+  const events = [
+    { game_player_id: null, points: 0 },
+    { game_player_id: 'p1', points: 100 },
+    { game_player_id: 'p2', points: 0 },
+    { game_player_id: 'p1', points: 50 },
+    { game_player_id: 'p2', points: 200 },
+  ];
+
+  it('should sum the score changes per player', () => {
+    expect(GameEventHelper.recomputeScores(events)).toEqual({
+      p1: 150,
+      p2: 200,
+    });
+  });
+
+  it('should flag players whose stored score differs from the log', () => {
+    const audit = GameEventHelper.auditScores(
+      [
+        { id: 'p1', player_name: 'Alice', score: 150 },
+        { id: 'p2', player_name: 'Bob', score: 300 },
+        { id: 'p3', player_name: 'Carol', score: 0 },
+      ],
+      events,
+    );
+
+    expect(audit.map((entry) => entry.matches)).toEqual([true, false, true]);
+    expect(audit[1]).toMatchObject({
+      stored_score: 300,
+      recomputed_score: 200,
+      difference: 100,
+    });
+  });
+});
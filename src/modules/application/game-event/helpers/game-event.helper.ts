@@ -0,0 +1,55 @@
+export type ScoredEvent = {
+  game_player_id: string | null;
+  points: number;
+};
+
+export type ScoreAuditEntry = {
+  player_id: string;
+  player_name: string | null;
+  stored_score: number;
+  recomputed_score: number;
+  difference: number;
+  matches: boolean;
+};
+
+export class GameEventHelper {
+  /**
+   * Final score of every player from the score changes in the event log
+   */
+  static recomputeScores(events: ScoredEvent[]): Record<string, number> {
+    const scores: Record<string, number> = {};
+
+    for (const event of events) {
+      if (!event.game_player_id) {
+        continue;
+      }
+      scores[event.game_player_id] =
+        (scores[event.game_player_id] ?? 0) + event.points;
+    }
+
+    return scores;
+  }
+
+  /**
+   * Compare the stored score of every player with the one recomputed from
+   * the event log
+   */
+  static auditScores(
+    players: { id: string; player_name: string | null; score: number }[],
+    events: ScoredEvent[],
+  ): ScoreAuditEntry[] {
+    const recomputed = this.recomputeScores(events);
+
+    return players.map((player) => {
+      const recomputedScore = recomputed[player.id] ?? 0;
+      return {
+        player_id: player.id,
+        player_name: player.player_name,
+        stored_score: player.score,
+        recomputed_score: recomputedScore,
+        difference: player.score - recomputedScore,
+        matches: player.score === recomputedScore,
+      };
+    });
+  }
+}
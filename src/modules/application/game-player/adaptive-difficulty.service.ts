@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AdaptiveDifficultyHelper } from './helpers/adaptive-difficulty.helper';
+
+// The estimate is replayed from this many of the player's latest answers
+const HISTORY_SIZE = 100;
+
+export type AdaptivePlayer = {
+  id: string;
+  user_id: string | null;
+};
+
+@Injectable()
+export class AdaptiveDifficultyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  static targetSuccess() {
+    return appConfig().game.adaptive_difficulty.target_success;
+  }
+
+  /**
+   * Accuracy estimate of a player in a category. Registered players are
+   * estimated from all their games, guests from the current game only.
+   */
+  async estimate(
+    player: AdaptivePlayer,
+    categoryId: string,
+    languageId: string,
+  ) {
+    const target = AdaptiveDifficultyService.targetSuccess();
+    const tiers = await this.prisma.difficulty.findMany({
+      where: { language_id: languageId },
+      select: { id: true, name: true, points: true },
+    });
+
+    const history = await this.prisma.playerAnswer.findMany({
+      where: {
+        question: { category_id: categoryId },
+        game_player: this.historyOf(player),
+      },
+      select: {
+        isCorrect: true,
+        question: { select: { difficulty_id: true } },
+      },
+      orderBy: { created_at: 'desc' },
+      take: HISTORY_SIZE,
+    });
+
+    const estimate = AdaptiveDifficultyHelper.estimate(
+      tiers,
+      history.reverse().map((answer) => ({
+        difficulty_id: answer.question.difficulty_id,
+        is_correct: answer.isCorrect,
+      })),
+      target,
+    );
+
+    return {
+      tiers,
+      estimate,
+      summary: {
+        category_id: categoryId,
+        target_success: target,
+        accuracy: estimate.accuracy,
+        answers: estimate.answers,
+        tiers: AdaptiveDifficultyHelper.expectedSuccess(
+          tiers,
+          estimate.ability,
+        ),
+      },
+    };
+  }
+
+  /**
+   * Difficulty to ask next: the tier closest to the target success rate
+   * that still has a question left, falling back to the requested one
+   */
+  async chooseDifficulty(
+    player: AdaptivePlayer,
+    categoryId: string,
+    languageId: string,
+    requestedId: string,
+    hasQuestions: (difficultyId: string) => Promise<boolean>,
+  ) {
+    const { tiers, estimate, summary } = await this.estimate(
+      player,
+      categoryId,
+      languageId,
+    );
+    const ranked = AdaptiveDifficultyHelper.rankTiers(
+      tiers,
+      estimate,
+      AdaptiveDifficultyService.targetSuccess(),
+      requestedId,
+    );
+
+    for (const difficultyId of ranked) {
+      if (await hasQuestions(difficultyId)) {
+        return { difficulty_id: difficultyId, estimate: summary };
+      }
+    }
+    return { difficulty_id: requestedId, estimate: summary };
+  }
+
+  /**
+   * Estimates of every player for the categories asked so far in the game
+   */
+  async gameEstimates(gameId: string) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: {
+        game_players: { orderBy: { player_order: 'asc' } },
+        game_questions: {
+          select: { question: { select: { category_id: true } } },
+        },
+      },
+    });
+    if (!game) {
+      return null;
+    }
+
+    const categoryIds = [
+      ...new Set(game.game_questions.map((gq) => gq.question.category_id)),
+    ];
+    const players = [];
+    for (const player of game.game_players) {
+      const categories = [];
+      for (const categoryId of categoryIds) {
+        categories.push(
+          (await this.estimate(player, categoryId, game.language_id)).summary,
+        );
+      }
+      players.push({
+        player_id: player.id,
+        player_name: player.player_name,
+        categories,
+      });
+    }
+
+    return {
+      enabled: game.adaptive_difficulty,
+      target_success: AdaptiveDifficultyService.targetSuccess(),
+      players,
+    };
+  }
+
+  private historyOf(player: AdaptivePlayer): Prisma.GamePlayerWhereInput {
+    return player.user_id ? { user_id: player.user_id } : { id: player.id };
+  }
+}
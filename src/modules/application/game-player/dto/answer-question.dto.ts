@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsInt, Min } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsInt, Min, ValidateIf, IsArray } from 'class-validator';
 import { Transform } from 'class-transformer';
 
 export class AnswerQuestionDto {
@@ -6,9 +6,20 @@ export class AnswerQuestionDto {
     @IsNotEmpty()
     question_id: string;  // Question being answered
 
+    @ValidateIf((o) => !o.answer_text && !o.answer_ids)
     @IsString()
     @IsNotEmpty()
-    answer_id: string;  // Selected answer
+    answer_id?: string;  // Selected answer token, or "true"/"false", required unless answer_text or answer_ids is given
+
+    @ValidateIf((o) => !o.answer_id && !o.answer_ids)
+    @IsString()
+    @IsNotEmpty()
+    answer_text?: string;  // Typed answer
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    answer_ids?: string[];  // Answer tokens picked for a multi-select question, or in order for an ordering question
 
     @IsString()
     @IsNotEmpty()
@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LifelineType } from '@prisma/client';
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class UseLifelineDto {
+  @ApiProperty({
+    description: 'The ID of the game',
+    example: 'clxkfzium000008l4f14m2b1q',
+  })
+  @IsString()
+  @IsNotEmpty()
+  game_id: string;
+
+  @ApiProperty({
+    description: 'The ID of the GamePlayer using the lifeline',
+    example: 'clxkfziup000208l4b5n6a7d8',
+  })
+  @IsString()
+  @IsNotEmpty()
+  player_id: string;
+
+  @ApiProperty({
+    description: 'The lifeline to use',
+    enum: LifelineType,
+    example: LifelineType.FIFTY_FIFTY,
+  })
+  @IsEnum(LifelineType)
+  type: LifelineType;
+
+  @ApiProperty({
+    description:
+      'The ID of the open question. Required for every lifeline except double points',
+    example: 'clxkfziun000108l4h2g3f0c2',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  question_id?: string;
+}
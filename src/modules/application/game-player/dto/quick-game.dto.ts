@@ -41,6 +41,15 @@ export class SelectQuickGameCategoryDto {
   @IsString()
   @IsNotEmpty()
   difficulty_id: string;
+
+  @ApiProperty({
+    description:
+      'The ID of the GamePlayer making the selection. Required in team games, where only the captain of the team on turn may select',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  player_id?: string;
 }
 
 export class AnswerQuickGameQuestionDto {
@@ -52,9 +61,46 @@ export class AnswerQuickGameQuestionDto {
   @IsNotEmpty()
   question_id: string;
 
+  @ApiProperty({
+    required: false,
+    description:
+      'Required for MCQ/True-False type questions, "true" or "false" for the latter',
+  })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  answer_id: string;
+  @ValidateIf((o) => !o.answer_text && !o.answer_ids)
+  answer_id?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Required for Text-Input type questions',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((o) => !o.answer_id && !o.answer_ids)
+  answer_text?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Required for Multi-Select and Ordering type questions, in the chosen order for the latter',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  answer_ids?: string[];
+
+  @ApiProperty({
+    description:
+      'The ID of the answering GamePlayer, one of your own players when you play for several at one device',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  player_id?: string;
 }
 
 export class StealQuickGameQuestionDto {
@@ -66,13 +112,46 @@ export class StealQuickGameQuestionDto {
   @IsNotEmpty()
   question_id: string;
 
+  @ApiProperty({
+    required: false,
+    description:
+      'Required for MCQ/True-False type questions, "true" or "false" for the latter',
+  })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  answer_id: string;
+  @ValidateIf((o) => !o.answer_text && !o.answer_ids)
+  answer_id?: string;
 
+  @ApiProperty({
+    required: false,
+    description: 'Required for Text-Input type questions',
+  })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  user_id: string;
+  @ValidateIf((o) => !o.answer_id && !o.answer_ids)
+  answer_text?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Required for Multi-Select and Ordering type questions, in the chosen order for the latter',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  answer_ids?: string[];
+
+  @ApiProperty({
+    description:
+      'The ID of the GamePlayer stealing the question, one of your own players when you play for several at one device',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  player_id?: string;
 }
 
 export class EndQuickGameDto {
@@ -139,12 +218,13 @@ export class AnswerCompetitiveQuestionDto {
 
   @ApiProperty({
     required: false,
-    description: 'Required for MCQ/True-False type questions',
+    description:
+      'Required for MCQ/True-False type questions, "true" or "false" for the latter',
   })
   @IsOptional()
   @IsString()
   @IsNotEmpty()
-  @ValidateIf((o) => !o.answer_text)
+  @ValidateIf((o) => !o.answer_text && !o.answer_ids)
   answer_id?: string;
 
   @ApiProperty({
@@ -154,8 +234,19 @@ export class AnswerCompetitiveQuestionDto {
   @IsOptional()
   @IsString()
   @IsNotEmpty()
-  @ValidateIf((o) => !o.answer_id)
+  @ValidateIf((o) => !o.answer_id && !o.answer_ids)
   answer_text?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Required for Multi-Select and Ordering type questions, in the chosen order for the latter',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  answer_ids?: string[];
 }
 
 export class GetCompetitiveQuestionDto {
@@ -195,9 +286,37 @@ export class HostAnswerQuestionDto {
   @IsNotEmpty()
   question_id: string;
 
+  @ApiProperty({
+    required: false,
+    description:
+      'Required for MCQ/True-False type questions, "true" or "false" for the latter',
+  })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  answer_id: string;
+  @ValidateIf((o) => !o.answer_text && !o.answer_ids)
+  answer_id?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Required for Text-Input type questions',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((o) => !o.answer_id && !o.answer_ids)
+  answer_text?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Required for Multi-Select and Ordering type questions, in the chosen order for the latter',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  answer_ids?: string[];
 
   @IsString()
   @IsNotEmpty()
@@ -264,40 +383,13 @@ export class SelectCategoryAndStartDto {
   @IsString()
   @IsNotEmpty()
   difficulty_id: string;
-}
-
-export class PlayerAnswerQuestionDto {
-  @IsString()
-  @IsNotEmpty()
-  game_id: string;
-
-  @IsString()
-  @IsNotEmpty()
-  question_id: string;
-
-  @IsString()
-  @IsNotEmpty()
-  answer_id: string;
-
-  @IsString()
-  @IsNotEmpty()
-  player_id: string;
-}
-
-export class StealQuestionDto {
-  @IsString()
-  @IsNotEmpty()
-  game_id: string;
-
-  @IsString()
-  @IsNotEmpty()
-  question_id: string;
-
-  @IsString()
-  @IsNotEmpty()
-  answer_id: string;
 
+  @ApiProperty({
+    description:
+      'The ID of the GamePlayer making the selection. Required in team games, where only the captain of the team on turn may select',
+    required: false,
+  })
   @IsString()
-  @IsNotEmpty()
-  player_id: string;
+  @IsOptional()
+  player_id?: string;
 }
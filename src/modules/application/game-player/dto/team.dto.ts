@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class TeamDto {
+  @ApiProperty({ description: 'Name of the team', example: 'Red Foxes' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Display color of the team',
+    example: '#E53935',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  color?: string;
+
+  @ApiProperty({
+    description:
+      'IDs of the GamePlayers in the team, in the order they take turns',
+    example: ['clxkfziup000208l4b5n6a7d8', 'clxkfziuq000308l4c6d7e8f9'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  player_ids: string[];
+
+  @ApiProperty({
+    description:
+      'ID of the GamePlayer who selects categories for the team. Defaults to the first player',
+    example: 'clxkfziup000208l4b5n6a7d8',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  captain_id?: string;
+}
+
+export class SetupTeamsDto {
+  @ApiProperty({
+    description: 'The ID of the game',
+    example: 'clxkfzium000008l4f14m2b1q',
+  })
+  @IsString()
+  @IsNotEmpty()
+  game_id: string;
+
+  @ApiProperty({
+    description: 'Teams in turn order. Replaces any teams set up before',
+    type: [TeamDto],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(8)
+  @ValidateNested({ each: true })
+  @Type(() => TeamDto)
+  teams: TeamDto[];
+}
@@ -12,10 +12,9 @@ import {
 } from '@nestjs/common';
 import { GamePlayerService } from './game-player.service';
 import { JoinGameDto, LeaveGameDto } from './dto/join-game.dto';
-import { AnswerQuestionDto, SkipQuestionDto } from './dto/answer-question.dto';
+import { SkipQuestionDto } from './dto/answer-question.dto';
 import {
   StartGameDto,
-  EndGameDto,
   UpdateScoreDto,
   GetGameQuestionsDto,
 } from './dto/gameplay.dto';
@@ -31,31 +30,19 @@ import {
 } from './dto/game-flow.dto';
 import {
   AddQuickGamePlayerDto,
-  StartQuickGameDto,
-  SelectQuickGameCategoryDto,
-  AnswerQuickGameQuestionDto,
-  StealQuickGameQuestionDto,
   EndQuickGameDto,
   GetQuickGameStatusDto,
   AddMultipleQuickGamePlayersDto,
   AddPlayersAndStartGameDto,
-  SelectCompetitiveCategoryDto,
-  AnswerCompetitiveQuestionDto,
   GetCompetitiveQuestionDto,
   GetCompetitiveGameStatusDto,
-  HostSelectCategoryDto,
-  HostAnswerQuestionDto,
   HostStealQuestionDto,
-  HostSkipQuestionDto,
   HostStartGameDto,
   AddPlayersOnlyDto,
-  SelectCategoryAndStartDto,
-  PlayerAnswerQuestionDto,
-  StealQuestionDto,
 } from './dto/quick-game.dto';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
-import { QuestionTimeoutDto } from './dto/question-timeout.dto';
+import { SetupTeamsDto } from './dto/team.dto';
 import { RolesGuard } from 'src/common/guard/role/roles.guard';
 import { Role } from 'src/common/guard/role/role.enum';
 import { Roles } from 'src/common/guard/role/roles.decorator';
@@ -192,29 +179,6 @@ export class GamePlayerController {
     );
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Answer a question in game' })
-  @Post('answer/:gameId')
-  async answerQuestion(
-    @Param('gameId') gameId: string,
-    @Body() answerDto: AnswerQuestionDto,
-    @Req() req: any,
-  ) {
-    try {
-      const userId = req.user.userId;
-      const result = await this.gamePlayerService.answerQuestion(
-        gameId,
-        answerDto,
-      );
-      return result;
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Skip a question in game' })
   @Post('skip/:gameId')
@@ -321,24 +285,6 @@ export class GamePlayerController {
     }
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({
-    summary: 'End game and show final rankings with leaderboard',
-  })
-  @Post('end-game')
-  async endGame(@Body() endGameDto: EndGameDto, @Req() req: any) {
-    try {
-      const userId = req.user.userId;
-      const result = await this.gamePlayerService.endGame(userId, endGameDto);
-      return result;
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Find unplayed game' })
   @Get('find-unplayed')
@@ -553,20 +499,6 @@ export class GamePlayerController {
     }
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Start Quick Game' })
-  @Post('quick-game/start')
-  async startQuickGame(@Body() dto: StartQuickGameDto) {
-    try {
-      return await this.gamePlayerService.startQuickGame(dto.game_id);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Get current turn in Quick Game' })
   @Get('quick-game/current-turn/:gameId')
@@ -581,75 +513,6 @@ export class GamePlayerController {
     }
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Select category and difficulty for current turn' })
-  @Post('quick-game/select-category')
-  async selectQuickGameCategory(@Body() dto: SelectQuickGameCategoryDto) {
-    try {
-      return await this.gamePlayerService.selectQuickGameCategory(
-        dto.game_id,
-        dto.category_id,
-        dto.difficulty_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get question for current turn' })
-  @Get('quick-game/question/:gameId')
-  async getQuickGameQuestion(@Param('gameId') gameId: string) {
-    try {
-      return await this.gamePlayerService.getQuickGameQuestion(gameId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Answer question in Quick Game' })
-  @Post('quick-game/answer')
-  async answerQuickGameQuestion(@Body() dto: AnswerQuickGameQuestionDto) {
-    try {
-      return await this.gamePlayerService.answerQuickGameQuestion(
-        dto.game_id,
-        dto.question_id,
-        dto.answer_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Steal question when player answers wrong' })
-  @Post('quick-game/steal-question')
-  async stealQuickGameQuestion(@Body() dto: StealQuickGameQuestionDto) {
-    try {
-      return await this.gamePlayerService.stealQuickGameQuestion(
-        dto.game_id,
-        dto.question_id,
-        dto.answer_id,
-        dto.user_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   // add player and start game
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Add multiple players to Quick Game at once' })
@@ -692,69 +555,18 @@ export class GamePlayerController {
   //   }
   // }
 
-  // ===== COMPETITIVE QUICK GAME ENDPOINTS =====
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Start Competitive Quick Game' })
-  @Post('competitive-quick-game/start/:gameId')
-  async startCompetitiveQuickGame(@Param('gameId') gameId: string) {
-    try {
-      return await this.gamePlayerService.startCompetitiveQuickGame(gameId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
-    summary: 'Select category and difficulty for competitive game',
+    summary: 'Replay a game',
+    description:
+      'Returns the ordered event log of the game: joins, turns, selections, answers, steals, timeouts and lifelines. Only players and the host of a finished game can see it.',
   })
-  @Post('competitive-quick-game/select-category')
-  async selectCompetitiveCategory(@Body() dto: SelectCompetitiveCategoryDto) {
+  @Get('replay/:gameId')
+  async getGameReplay(@Param('gameId') gameId: string, @Req() req: any) {
     try {
-      return await this.gamePlayerService.selectCompetitiveCategory(
-        dto.game_id,
-        dto.category_id,
-        dto.difficulty_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  // steal question/ player specific question || I think no neded
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get next question for competitive game' })
-  @Get('competitive-quick-game/question/:gameId')
-  async getCompetitiveQuestion(@Param('gameId') gameId: string) {
-    try {
-      return await this.gamePlayerService.getCompetitiveQuestion(gameId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  // play game with selected player|| now not select player
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Answer question in competitive game' })
-  @Post('competitive-quick-game/answer')
-  async answerCompetitiveQuestion(@Body() dto: AnswerCompetitiveQuestionDto) {
-    try {
-      return await this.gamePlayerService.answerCompetitiveQuestion(
-        dto.game_id,
-        dto.question_id,
-        dto.player_id,
-        dto.answer_id,
-        dto.answer_text,
+      return await this.gamePlayerService.getGameReplay(
+        gameId,
+        req.user.userId,
       );
     } catch (error) {
       return {
@@ -764,21 +576,16 @@ export class GamePlayerController {
     }
   }
 
-  // for time out or quit game
   @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
-  @Post('timeout-skiped')
-  @ApiOperation({ summary: 'Handle a question timeout' })
-  async handleQuestionTimeout(
-    @Body() timeoutDto: QuestionTimeoutDto,
-    @Req() req: any,
-  ) {
+  @ApiOperation({
+    summary: 'Set up teams for a game',
+    description:
+      'Assigns every player of the game to a team before it starts. Turns then rotate by team, scores and steals are shared per team and only team captains select categories.',
+  })
+  @Post('teams')
+  async setupTeams(@Body() dto: SetupTeamsDto) {
     try {
-      return await this.gamePlayerService.handleQuestionTimeout(
-        timeoutDto.game_id,
-        timeoutDto.question_id,
-        timeoutDto.player_id,
-      );
+      return await this.gamePlayerService.setupTeams(dto);
     } catch (error) {
       return {
         success: false,
@@ -788,11 +595,13 @@ export class GamePlayerController {
   }
 
   @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get competitive game status' })
-  @Get('competitive-quick-game/status/:gameId')
-  async getCompetitiveGameStatus(@Param('gameId') gameId: string) {
+  @ApiOperation({
+    summary: 'Get the teams of a game with member contributions',
+  })
+  @Get('teams/:gameId')
+  async getTeams(@Param('gameId') gameId: string) {
     try {
-      return await this.gamePlayerService.getCompetitiveGameStatus(gameId);
+      return await this.gamePlayerService.getTeams(gameId);
     } catch (error) {
       return {
         success: false,
@@ -837,125 +646,6 @@ export class GamePlayerController {
     }
   }
 
-  // ===== HOST-CONTROLLED GAME ENDPOINTS =====
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Host starts competitive game' })
-  @Post('host-game/start/:gameId')
-  async hostStartCompetitiveGame(
-    @Param('gameId') gameId: string,
-    @Req() req: any,
-  ) {
-    try {
-      const hostUserId = req.user.userId;
-      return await this.gamePlayerService.hostStartCompetitiveGame(
-        gameId,
-        hostUserId,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Host selects category and difficulty' })
-  @Post('host-game/select-category')
-  async hostSelectCategory(
-    @Body() dto: HostSelectCategoryDto,
-    @Req() req: any,
-  ) {
-    try {
-      const hostUserId = req.user.userId;
-      return await this.gamePlayerService.hostSelectCategory(
-        dto.game_id,
-        dto.category_id,
-        dto.difficulty_id,
-        hostUserId,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Host gets next question' })
-  @Get('host-game/question/:gameId')
-  async hostGetQuestion(@Param('gameId') gameId: string, @Req() req: any) {
-    try {
-      const hostUserId = req.user.userId;
-      return await this.gamePlayerService.hostGetQuestion(gameId, hostUserId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Host submits answer on behalf of a player' })
-  @Post('host-game/answer')
-  async hostAnswerQuestion(
-    @Body() dto: HostAnswerQuestionDto,
-    @Req() req: any,
-  ) {
-    try {
-      const hostUserId = req.user.userId;
-      return await this.gamePlayerService.hostAnswerQuestion(
-        dto.game_id,
-        dto.question_id,
-        dto.answer_id,
-        dto.player_id,
-        hostUserId,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Host skips a question' })
-  @Post('host-game/skip-question')
-  async hostSkipQuestion(@Body() dto: HostSkipQuestionDto, @Req() req: any) {
-    try {
-      const hostUserId = req.user.userId;
-      return await this.gamePlayerService.hostSkipQuestion(
-        dto.game_id,
-        dto.question_id,
-        hostUserId,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Host gets game status' })
-  @Get('host-game/status/:gameId')
-  async hostGetGameStatus(@Param('gameId') gameId: string, @Req() req: any) {
-    try {
-      const hostUserId = req.user.userId;
-      return await this.gamePlayerService.hostGetGameStatus(gameId, hostUserId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   // ===== QUICK GAME FLOW ENDPOINTS =====
 
   // eta pore dekhte hobe, abadoto lagche na dekhe coment kore rakhchi
@@ -977,80 +667,6 @@ export class GamePlayerController {
   //   }
   // }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({
-    summary: 'Select category/difficulty and start game in one step',
-  })
-  @Post('quick-game/select-category-and-start')
-  async selectCategoryAndStart(@Body() dto: SelectCategoryAndStartDto) {
-    try {
-      return await this.gamePlayerService.selectSingleQuestionForGame(
-        dto.game_id,
-        dto.category_id,
-        dto.difficulty_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get question for current player' })
-  @Get('quick-game/question/:gameId')
-  async getPlayerQuestion(@Param('gameId') gameId: string) {
-    try {
-      return await this.gamePlayerService.getPlayerQuestion(gameId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Player answers question' })
-  @Post('quick-game/answer')
-  async playerAnswerQuestion(@Body() dto: PlayerAnswerQuestionDto) {
-    try {
-      return await this.gamePlayerService.playerAnswerQuestion(
-        dto.game_id,
-        dto.question_id,
-        dto.answer_id,
-        dto.player_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({
-    summary: 'Steal question - forwards same question to next player',
-  })
-  @Post('quick-game/steal-question')
-  async stealQuestion(@Body() dto: StealQuestionDto) {
-    try {
-      return await this.gamePlayerService.stealQuestion(
-        dto.game_id,
-        dto.question_id,
-        dto.answer_id,
-        dto.player_id,
-      );
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Debug - Get game details and selections' })
   @Get('quick-game/debug/:gameId')
@@ -1064,32 +680,4 @@ export class GamePlayerController {
       };
     }
   }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get Quick Game status with scores and progress' })
-  @Get('quick-game/status/:gameId')
-  async getQuickGameStatus(@Param('gameId') gameId: string) {
-    try {
-      return await this.gamePlayerService.getQuickGameStatus(gameId);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'End Quick Game and get final results' })
-  @Post('quick-game/end')
-  async endQuickGame(@Body() dto: { game_id: string }) {
-    try {
-      return await this.gamePlayerService.endQuickGame(dto.game_id);
-    } catch (error) {
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
-  }
 }
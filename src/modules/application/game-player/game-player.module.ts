@@ -1,13 +1,27 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
 import { GamePlayerService } from './game-player.service';
 import { GamePlayerController } from './game-player.controller';
 import { PrismaModule } from '../../../prisma/prisma.module';
 import { MessageGateway } from 'src/modules/chat/message/message.gateway';
+import {
+  QUESTION_TIMER_QUEUE,
+  QuestionTimerService,
+} from './question-timer.service';
+import { AdaptiveDifficultyService } from './adaptive-difficulty.service';
 
 @Module({
-  imports: [PrismaModule, MessageGateway],
+  imports: [
+    PrismaModule,
+    MessageGateway,
+    BullModule.registerQueue({ name: QUESTION_TIMER_QUEUE }),
+  ],
   controllers: [GamePlayerController],
-  providers: [GamePlayerService],
-  exports: [GamePlayerService],
+  providers: [
+    GamePlayerService,
+    QuestionTimerService,
+    AdaptiveDifficultyService,
+  ],
+  exports: [GamePlayerService, QuestionTimerService, AdaptiveDifficultyService],
 })
 export class GamePlayerModule {}
@@ -1,31 +1,62 @@
 import {
   Injectable,
   BadRequestException,
+  ForbiddenException,
   NotFoundException,
   HttpException,
   InternalServerErrorException,
-  ForbiddenException,
 } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { JoinGameDto, LeaveGameDto } from './dto/join-game.dto';
-import { GameMode } from '@prisma/client';
-import { AnswerQuestionDto, SkipQuestionDto } from './dto/answer-question.dto';
+import {
+  AsyncChallenge,
+  AsyncChallengeStatus,
+  GameEventType,
+  GameMode,
+  GamePhase,
+  LifelineType,
+  PlayerStatus,
+  Prisma,
+} from '@prisma/client';
+import { SkipQuestionDto } from './dto/answer-question.dto';
 import {
   StartGameDto,
-  EndGameDto,
   UpdateScoreDto,
   GetGameQuestionsDto,
 } from './dto/gameplay.dto';
 import { SojebStorage } from 'src/common/lib/Disk/SojebStorage';
+import {
+  languageKey,
+  normalizeText,
+} from 'src/common/helper/textNormalization.helper';
 import appConfig from 'src/config/app.config';
 import { MessageGateway } from 'src/modules/chat/message/message.gateway';
-import { checkTextAnswer } from 'src/common/helper/stringSimilarity.helper';
+import { GameRoomEvent, GameRoomGateway } from '../game-room/game-room.gateway';
+import { GameEventService } from '../game-event/game-event.service';
+import { DailyChallengeService } from '../daily-challenge/daily-challenge.service';
+import { AdaptiveDifficultyService } from './adaptive-difficulty.service';
+import { GameSettingsService } from '../game-settings/game-settings.service';
+import { GamePhaseHelper } from './helpers/game-phase.helper';
+import { TeamHelper, TeamMember } from './helpers/team.helper';
+import { AnswerTokenHelper } from './helpers/answer-token.helper';
+import {
+  AnswerGradingHelper,
+  GradableAnswer,
+  GradableQuestion,
+} from './helpers/answer-grading.helper';
+import { SetupTeamsDto } from './dto/team.dto';
+import { FINISHED_STATUSES } from '../game-session/helpers/game-session.helper';
 
 @Injectable()
 export class GamePlayerService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly gatway: MessageGateway,
+    private readonly gameRoomGateway: GameRoomGateway,
+    private readonly gameEvents: GameEventService,
+    private readonly dailyChallenges: DailyChallengeService,
+    private readonly adaptiveDifficulty: AdaptiveDifficultyService,
+    private readonly gameSettings: GameSettingsService,
   ) { }
 
   // Join a game
@@ -95,56 +126,86 @@ export class GamePlayerService {
       // Determine player order
       const playerOrder = game._count.game_players + 1;
 
-      const gamePlayer = await this.prisma.gamePlayer.create({
-        data: {
-          game_id: joinGameDto.game_id,
-          user_id: userId,
-          room_id: roomId,
-          player_order: playerOrder,
-        },
-        select: {
-          id: true,
-          game_id: true,
-          user_id: true,
-          room_id: true,
-          score: true,
-          correct_answers: true,
-          wrong_answers: true,
-          skipped_answers: true,
-          player_order: true,
-          final_rank: true,
-          created_at: true,
-          updated_at: true,
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatar: true,
-            },
+      const gamePlayer = await this.prisma.$transaction(async (tx) => {
+        const gamePlayer = await tx.gamePlayer.create({
+          data: {
+            game_id: joinGameDto.game_id,
+            user_id: userId,
+            room_id: roomId,
+            player_order: playerOrder,
           },
-          game: {
-            select: {
-              id: true,
-              mode: true,
-              status: true,
+          select: {
+            id: true,
+            game_id: true,
+            user_id: true,
+            room_id: true,
+            score: true,
+            correct_answers: true,
+            wrong_answers: true,
+            skipped_answers: true,
+            player_order: true,
+            final_rank: true,
+            created_at: true,
+            updated_at: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                avatar: true,
+              },
+            },
+            game: {
+              select: {
+                id: true,
+                mode: true,
+                status: true,
+              },
+            },
+            room: {
+              select: {
+                id: true,
+                code: true,
+              },
             },
           },
-          room: {
-            select: {
-              id: true,
-              code: true,
+        });
+
+        await tx.game.update({
+          where: { id: game_id },
+          data: {
+            ...(isHost && { status: 'active' }), // Set to active when host joins
+          },
+        });
+
+        await this.gameEvents.record(
+          game_id,
+          GameEventType.PLAYER_JOINED,
+          {
+            game_player_id: gamePlayer.id,
+            payload: {
+              player_id: gamePlayer.id,
+              user_id: gamePlayer.user_id,
+              name: gamePlayer.user?.name,
+              player_order: gamePlayer.player_order,
             },
           },
-        },
+          tx,
+        );
+
+        return gamePlayer;
       });
 
-      await this.prisma.game.update({
-        where: { id: game_id },
-        data: {
-          ...(isHost && { status: 'active' }), // Set to active when host joins
+      await this.gameRoomGateway.emitToGame(
+        game_id,
+        GameRoomEvent.PLAYER_JOINED,
+        {
+          player_id: gamePlayer.id,
+          user_id: gamePlayer.user_id,
+          name: gamePlayer.user?.name,
+          player_order: gamePlayer.player_order,
         },
-      });
+      );
 
       return {
         success: true,
@@ -301,6 +362,21 @@ export class GamePlayerService {
         },
       });
 
+      await this.gameEvents.record(
+        joinGameDto.game_id,
+        GameEventType.PLAYER_JOINED,
+        {
+          payload: {
+            players: createdPlayers.map((player) => ({
+              player_id: player.id,
+              user_id: player.user_id,
+              player_order: player.player_order,
+            })),
+          },
+        },
+        tx,
+      );
+
       return createdPlayers;
     });
 
@@ -316,6 +392,18 @@ export class GamePlayerService {
 
     const hostPlayer = result.find((p) => p.user_id === userId);
 
+    await this.gameRoomGateway.emitToGame(
+      joinGameDto.game_id,
+      GameRoomEvent.PLAYER_JOINED,
+      {
+        players: result.map((player) => ({
+          player_id: player.id,
+          user_id: player.user_id,
+          player_order: player.player_order,
+        })),
+      },
+    );
+
     return {
       success: true,
       message: `Host joined and added ${uniqueUserIds.length - 1} additional players to the game`,
@@ -365,9 +453,45 @@ export class GamePlayerService {
           });
         }
 
-        await this.prisma.gamePlayer.deleteMany({
-          where: { user_id: gamePlayer.user_id },
+        await this.prisma.$transaction(async (tx) => {
+          await this.gameEvents.record(
+            leaveGameDto.game_id,
+            GameEventType.PLAYER_LEFT,
+            {
+              game_player_id: gamePlayer.id,
+              payload: {
+                player_id: gamePlayer.id,
+                user_id: gamePlayer.user_id,
+              },
+            },
+            tx,
+          );
+
+          // a player who quits a game under way keeps their row, so its
+          // results and event log still know who played
+          if (game.game_phase === GamePhase.WAITING) {
+            await tx.gamePlayer.delete({ where: { id: gamePlayer.id } });
+          } else {
+            await tx.gamePlayer.update({
+              where: { id: gamePlayer.id },
+              data: { status: PlayerStatus.QUIT },
+            });
+          }
         });
+        await this.gameRoomGateway.emitToGame(
+          leaveGameDto.game_id,
+          GameRoomEvent.PLAYER_LEFT,
+          { player_id: gamePlayer.id, user_id: gamePlayer.user_id },
+        );
+
+        // a host who leaves hands the game to another player
+        if (game && game.host_id === gamePlayer.user_id) {
+          await this.gameRoomGateway.hostLeft(
+            game.id,
+            gamePlayer.user_id,
+            true,
+          );
+        }
       }
 
       // Game player count is automatically managed by the relation
@@ -485,92 +609,6 @@ export class GamePlayerService {
     }
   }
 
-  // Answer a question (for gameplay)
-  async answerQuestion(gameId: string, answerDto: AnswerQuestionDto) {
-    try {
-      const gamePlayer = await this.prisma.gamePlayer.findFirst({
-        where: {
-          // game_id: gameId,
-          user_id: answerDto.user_id,
-        },
-      });
-
-      if (!gamePlayer) {
-        throw new NotFoundException('Player not found in this game');
-      }
-
-      // Get question with answers
-      const question = await this.prisma.question.findUnique({
-        where: { id: answerDto.question_id },
-        include: { answers: true },
-      });
-
-      if (!question) {
-        throw new NotFoundException('Question not found');
-      }
-
-      // Find the selected answer
-      const selectedAnswer = question.answers.find(
-        (a) => a.id === answerDto.answer_id,
-      );
-      if (!selectedAnswer) {
-        throw new BadRequestException('Invalid answer selected');
-      }
-
-      // Check if already answered
-      const existingAnswer = await this.prisma.playerAnswer.findFirst({
-        where: {
-          game_player_id: gamePlayer.id,
-          question_id: answerDto.question_id,
-        },
-      });
-
-      if (existingAnswer) {
-        throw new BadRequestException('Question already answered');
-      }
-
-      // Create player answer
-      await this.prisma.playerAnswer.create({
-        data: {
-          game_player_id: gamePlayer.id,
-          question_id: answerDto.question_id,
-          answer_id: answerDto.answer_id,
-          isCorrect: selectedAnswer.is_correct,
-        },
-      });
-
-      // Update player stats
-      const pointsEarned = selectedAnswer.is_correct ? question.points : 0;
-      const updatedPlayer = await this.prisma.gamePlayer.update({
-        where: { id: gamePlayer.id },
-        data: {
-          score: { increment: pointsEarned },
-          ...(selectedAnswer.is_correct
-            ? { correct_answers: { increment: 1 } }
-            : { wrong_answers: { increment: 1 } }),
-        },
-      });
-
-      return {
-        success: true,
-        message: selectedAnswer.is_correct ? 'Correct!' : 'Incorrect!',
-        data: {
-          is_correct: selectedAnswer.is_correct,
-          points_earned: pointsEarned,
-          current_score: updatedPlayer.score,
-          correct_answer: selectedAnswer.is_correct
-            ? null
-            : question.answers.find((a) => a.is_correct),
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error answering question: ${error.message}`,
-      };
-    }
-  }
-
   // Skip a question
   async skipQuestion(userId: string, gameId: string, skipDto: SkipQuestionDto) {
     try {
@@ -585,16 +623,34 @@ export class GamePlayerService {
         throw new NotFoundException('Player not found in this game');
       }
 
-      await this.prisma.gamePlayer.update({
-        where: { id: gamePlayer.id },
-        data: {
-          skipped_answers: { increment: 1 },
-        },
+      const penalty = await this.prisma.$transaction(async (tx) => {
+        await tx.gamePlayer.update({
+          where: { id: gamePlayer.id },
+          data: {
+            skipped_answers: { increment: 1 },
+          },
+        });
+
+        const penalty = await this.applySkipPenalty(gameId, gamePlayer, tx);
+
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.QUESTION_SKIPPED,
+          {
+            game_player_id: gamePlayer.id,
+            question_id: skipDto.question_id,
+            points: -penalty,
+          },
+          tx,
+        );
+
+        return penalty;
       });
 
       return {
         success: true,
         message: 'Question skipped',
+        data: { penalty },
       };
     } catch (error) {
       return {
@@ -680,9 +736,17 @@ export class GamePlayerService {
       }
 
       // Update game status to in_progress
-      await this.prisma.game.update({
-        where: { id: startGameDto.game_id },
-        data: { status: 'in_progress' },
+      await this.prisma.$transaction(async (tx) => {
+        await tx.game.update({
+          where: { id: startGameDto.game_id },
+          data: { status: 'in_progress' },
+        });
+        await this.gameEvents.record(
+          startGameDto.game_id,
+          GameEventType.GAME_STARTED,
+          { payload: { status: 'in_progress' } },
+          tx,
+        );
       });
 
       // Get game info
@@ -717,6 +781,12 @@ export class GamePlayerService {
         },
       });
 
+      await this.gameRoomGateway.emitToGame(
+        startGameDto.game_id,
+        GameRoomEvent.GAME_STARTED,
+        { status: 'in_progress' },
+      );
+
       return {
         success: true,
         message: 'Game started successfully',
@@ -792,9 +862,13 @@ export class GamePlayerService {
         );
       }
 
+      // today's daily challenge questions stay out of normal play
+      const dailyQuestionIds = await this.dailyChallenges.excludedQuestionIds();
+
       const whereClause = {
         category_id: { in: questionsDto.category_ids },
         difficulty_id: questionsDto.difficulty_id,
+        id: { notIn: dailyQuestionIds },
       };
 
       const totalAvailableQuestions = await this.prisma.question.count({
@@ -825,6 +899,7 @@ export class GamePlayerService {
         const categoryWhereClause = {
           category_id: categoryId,
           difficulty_id: questionsDto.difficulty_id,
+          id: { notIn: dailyQuestionIds },
         };
 
         // Count available questions for this category
@@ -899,7 +974,7 @@ export class GamePlayerService {
               where: {
                 category_id: categoryResult.category.id,
                 difficulty_id: questionsDto.difficulty_id,
-                id: { notIn: finalSelectedIds },
+                id: { notIn: [...finalSelectedIds, ...dailyQuestionIds] },
               },
               select: { id: true },
               take: additionalToGet,
@@ -932,6 +1007,7 @@ export class GamePlayerService {
           points: true,
           time: true,
           file_url: true,
+          true_false_answer: true,
           category: {
             select: {
               id: true,
@@ -949,6 +1025,7 @@ export class GamePlayerService {
             select: {
               id: true,
               name: true,
+              kind: true,
             },
           },
           answers: {
@@ -1031,7 +1108,7 @@ export class GamePlayerService {
             category: question.category,
             difficulty: question.difficulty,
             question_type: question.question_type,
-            answers: question.answers,
+            answers: this.presentAnswers(gameId, question),
             is_answered: false, // Initially all questions are unanswered
           })),
           total_questions: questions.length,
@@ -1051,25 +1128,12 @@ export class GamePlayerService {
     }
   }
 
-  // End game - calculate final rankings and create leaderboard entries
-  async endGame(userId: string, endGameDto: EndGameDto) {
+  /**
+   * Final rankings of a game that is over, for its host and players. The
+   * game engine ends games; this only reads the results.
+   */
+  async finalRankings(gameId: string, userId: string) {
     try {
-      const gameId = endGameDto.game_id;
-      const gamePlayer = await this.prisma.gamePlayer.findFirst({
-        where: {
-          game_id: gameId,
-          user_id: userId,
-        },
-      });
-
-      if (!gamePlayer) {
-        return {
-          success: false,
-          message: 'You are not a player in this game and cannot end it.',
-          statusCode: 403,
-        };
-      }
-
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
         include: {
@@ -1082,33 +1146,29 @@ export class GamePlayerService {
         return { success: false, message: 'Game not found', statusCode: 404 };
       }
 
-      if (game.status !== 'completed') {
-        const allPlayersForRanking = await this.prisma.gamePlayer.findMany({
-          where: { game_id: gameId },
-          orderBy: [
-            { score: 'desc' },
-            { correct_answers: 'desc' },
-            { player_order: 'asc' },
-          ],
+      if (game.host_id !== userId) {
+        const gamePlayer = await this.prisma.gamePlayer.findFirst({
+          where: {
+            game_id: gameId,
+            user_id: userId,
+          },
         });
 
-        const updateRankPromises = allPlayersForRanking.map((player, index) => {
-          const newRank = index + 1;
-          if (player.final_rank !== newRank) {
-            return this.prisma.gamePlayer.update({
-              where: { id: player.id },
-              data: { final_rank: newRank },
-            });
-          }
-          return Promise.resolve(null);
-        });
-        await Promise.all(updateRankPromises.filter(Boolean));
+        if (!gamePlayer) {
+          return {
+            success: false,
+            message: 'You are not a player in this game.',
+            statusCode: 403,
+          };
+        }
+      }
 
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: { status: 'completed' },
-        });
-        game.status = 'completed';
+      if (game.status !== 'completed') {
+        return {
+          success: false,
+          message: 'The game is not over yet.',
+          statusCode: 400,
+        };
       }
 
       const finalRankingsData = await this.prisma.gamePlayer.findMany({
@@ -1120,30 +1180,40 @@ export class GamePlayerService {
               question_id: true,
               answer_id: true,
               isCorrect: true,
-              question: {
-                select: {
-                  text: true,
-                  answers: {
-                    select: {
-                      id: true,
-                      text: true,
-                      is_correct: true,
-                    },
-                  },
-                },
-              },
+              question: { select: { text: true } },
             },
           },
         },
         orderBy: [{ final_rank: 'asc' }],
       });
 
+      // answers in the results stay behind the tokens of this game
+      const secret = appConfig().game.answer_tokens.secret;
+      const withTokens = (player: (typeof finalRankingsData)[number]) =>
+        player && {
+          ...player,
+          player_answers: player.player_answers.map((answer) => ({
+            ...answer,
+            answer_id: AnswerTokenHelper.tokenOf(
+              gameId,
+              answer.answer_id,
+              secret,
+            ),
+          })),
+        };
       const podium = {
-        first_place: finalRankingsData.find((p) => p.final_rank === 1) || null,
-        second_place: finalRankingsData.find((p) => p.final_rank === 2) || null,
-        third_place: finalRankingsData.find((p) => p.final_rank === 3) || null,
+        first_place:
+          withTokens(finalRankingsData.find((p) => p.final_rank === 1)) || null,
+        second_place:
+          withTokens(finalRankingsData.find((p) => p.final_rank === 2)) || null,
+        third_place:
+          withTokens(finalRankingsData.find((p) => p.final_rank === 3)) || null,
       };
 
+      const teamRankings = game.is_team_game
+        ? await this.teamStandings(gameId)
+        : [];
+
       return {
         success: true,
         message: 'Game results retrieved successfully',
@@ -1174,16 +1244,18 @@ export class GamePlayerService {
                   ? `${((p.correct_answers / (p.correct_answers + p.wrong_answers)) * 100).toFixed(2)}%`
                   : '0%',
               player_order: p.player_order,
+              team_id: p.team_id,
               created_at: p.created_at,
             };
           }),
+          team_rankings: teamRankings,
           podium: podium,
         },
       };
     } catch (error) {
       return {
         success: false,
-        message: 'An unexpected error occurred while ending the game.',
+        message: 'An unexpected error occurred while fetching the results.',
         statusCode: 500,
       };
     }
@@ -1194,12 +1266,28 @@ export class GamePlayerService {
     try {
       const unplayedGames = await this.prisma.game.findMany({
         where: {
-          host_id: userId,
-          game_phase: 'waiting',
           mode: mode as GameMode,
-          rooms: {
-            none: {},
-          },
+          OR: [
+            {
+              host_id: userId,
+              game_phase: GamePhase.WAITING,
+              rooms: {
+                none: {},
+              },
+            },
+            // Asynchronous challenges stay listed until they are over
+            {
+              async_challenge: {
+                status: {
+                  in: [
+                    AsyncChallengeStatus.PENDING,
+                    AsyncChallengeStatus.ACTIVE,
+                  ],
+                },
+                OR: [{ challenger_id: userId }, { opponent_id: userId }],
+              },
+            },
+          ],
         },
 
         include: {
@@ -1222,6 +1310,7 @@ export class GamePlayerService {
               name: true,
             },
           },
+          async_challenge: true,
         },
         orderBy: {
           created_at: 'desc',
@@ -1252,6 +1341,7 @@ export class GamePlayerService {
             current_player_id: game.current_player_id,
             language: game.language,
             room_code: null,
+            challenge: this.challengeInfo(game, hostPlayerInfo?.id),
           },
           your_player_info: hostPlayerInfo
             ? {
@@ -1314,6 +1404,7 @@ export class GamePlayerService {
               name: true,
             },
           },
+          async_challenge: true,
         },
       });
 
@@ -1329,6 +1420,15 @@ export class GamePlayerService {
         (p) => p.user_id === userId && !p.is_guest,
       );
 
+      // Only the two sides of a challenge may open it
+      if (game.async_challenge && !hostPlayer) {
+        return {
+          success: false,
+          message: 'Offline game not found.',
+          statusCode: 404,
+        };
+      }
+
       return {
         success: true,
         message: 'Game session data retrieved successfully.',
@@ -1342,6 +1442,7 @@ export class GamePlayerService {
             total_questions: game.total_questions,
             current_player_id: game.current_player_id,
             language: game.language,
+            challenge: this.challengeInfo(game, hostPlayer?.id),
           },
           your_player_info: hostPlayer
             ? {
@@ -1364,6 +1465,30 @@ export class GamePlayerService {
     }
   }
 
+  // Deadline and turn of an asynchronous challenge game, null otherwise
+  private challengeInfo(
+    game: { current_player_id: string; async_challenge: AsyncChallenge },
+    playerId?: string,
+  ) {
+    const challenge = game.async_challenge;
+    if (!challenge) {
+      return null;
+    }
+
+    return {
+      id: challenge.id,
+      status: challenge.status,
+      challenger_id: challenge.challenger_id,
+      opponent_id: challenge.opponent_id,
+      turn_hours: challenge.turn_hours,
+      turn_deadline_at: challenge.turn_deadline_at,
+      your_turn:
+        challenge.status === AsyncChallengeStatus.ACTIVE &&
+        !!playerId &&
+        game.current_player_id === playerId,
+    };
+  }
+
   // Get comprehensive game results with rankings and leaderboard
   async getGameResults(gameId: string) {
     try {
@@ -1440,6 +1565,65 @@ export class GamePlayerService {
         finalRankings.reduce((sum, player) => sum + player.score, 0) /
         finalRankings.length;
 
+      // Response time stats from the timed answers of this game
+      const timedAnswers = await this.prisma.playerAnswer.findMany({
+        where: {
+          game_player: { game_id: gameId },
+          response_time_ms: { not: null },
+        },
+        select: {
+          game_player_id: true,
+          question_id: true,
+          isCorrect: true,
+          response_time_ms: true,
+        },
+      });
+
+      const responseStats = (playerId: string) => {
+        const answers = timedAnswers.filter(
+          (a) => a.game_player_id === playerId,
+        );
+        const correctTimes = answers
+          .filter((a) => a.isCorrect)
+          .map((a) => a.response_time_ms);
+
+        return {
+          timed_answers: answers.length,
+          average_response_time_ms:
+            answers.length > 0
+              ? Math.round(
+                  answers.reduce((sum, a) => sum + a.response_time_ms, 0) /
+                    answers.length,
+                )
+              : null,
+          fastest_correct_ms:
+            correctTimes.length > 0 ? Math.min(...correctTimes) : null,
+        };
+      };
+
+      const lifelineUses = await this.prisma.lifelineUse.findMany({
+        where: { game_id: gameId },
+        orderBy: { created_at: 'asc' },
+      });
+
+      const lifelinesUsed = (playerId: string) =>
+        lifelineUses
+          .filter((use) => use.game_player_id === playerId)
+          .map((use) => ({
+            type: use.type,
+            question_id: use.question_id,
+            created_at: use.created_at,
+          }));
+
+      const fastestCorrect = timedAnswers
+        .filter((a) => a.isCorrect)
+        .sort((a, b) => a.response_time_ms - b.response_time_ms)[0];
+      const fastestPlayer = fastestCorrect
+        ? finalRankings.find((p) => p.id === fastestCorrect.game_player_id)
+        : null;
+
+      const teams = game.is_team_game ? await this.teamStandings(gameId) : [];
+
       const topPerformer = finalRankings[0];
       const winner = finalRankings.find((player) => player.final_rank === 1);
 
@@ -1476,8 +1660,12 @@ export class GamePlayerService {
                 ).toFixed(2) + '%'
                 : '0%',
             player_order: player.player_order,
+            team_id: player.team_id,
+            response_time: responseStats(player.id),
+            lifelines_used: lifelinesUsed(player.id),
             created_at: player.created_at,
           })),
+          teams,
           leaderboard: leaderboardEntries.map((entry, index) => ({
             leaderboard_position: index + 1,
             user: entry.user,
@@ -1511,6 +1699,22 @@ export class GamePlayerService {
                 correct_answers: topPerformer.correct_answers,
               }
               : null,
+            fastest_correct_answer: fastestCorrect
+              ? {
+                  player_id: fastestCorrect.game_player_id,
+                  player_name: fastestPlayer?.player_name,
+                  user: fastestPlayer?.user,
+                  question_id: fastestCorrect.question_id,
+                  response_time_ms: fastestCorrect.response_time_ms,
+                }
+              : null,
+            lifelines_used: Object.values(LifelineType).reduce(
+              (counts, type) => ({
+                ...counts,
+                [type]: lifelineUses.filter((use) => use.type === type).length,
+              }),
+              {},
+            ),
             average_score: Math.round(averageScore * 100) / 100,
             total_questions_per_player: Math.round(totalQuestions),
             completion_rate: finalRankings.length > 0 ? '100%' : '0%',
@@ -1530,18 +1734,31 @@ export class GamePlayerService {
     }
   }
 
-  // ===== GAME FLOW METHODS =====
-
   /**
-   * Get the current player whose turn it is
+   * Ordered timeline of everything that happened in a game, with the
+   * running score of the player after each scoring event. Only the players
+   * and host of the game see it, once the game is over.
    */
-  async getCurrentPlayer(gameId: string) {
+  async getGameReplay(gameId: string, userId: string) {
     try {
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
-        include: {
+        select: {
+          id: true,
+          mode: true,
+          status: true,
+          game_phase: true,
+          host_id: true,
+          created_at: true,
           game_players: {
-            include: { user: true },
+            select: {
+              id: true,
+              user_id: true,
+              player_name: true,
+              player_order: true,
+              score: true,
+              final_rank: true,
+            },
             orderBy: { player_order: 'asc' },
           },
         },
@@ -1551,17 +1768,247 @@ export class GamePlayerService {
         throw new NotFoundException('Game not found');
       }
 
-      if (!game.current_player_id) {
-        return {
-          success: false,
-          message: 'No current player set',
-          data: null,
-        };
+      if (
+        game.host_id !== userId &&
+        !game.game_players.some((p) => p.user_id === userId)
+      ) {
+        throw new ForbiddenException('You did not take part in this game');
       }
 
-      const currentPlayer = game.game_players.find(
-        (player) => player.id === game.current_player_id,
-      );
+      if (
+        game.game_phase !== GamePhase.COMPLETED &&
+        !FINISHED_STATUSES.includes(game.status)
+      ) {
+        throw new BadRequestException(
+          'The replay is available once the game is over',
+        );
+      }
+
+      const events = await this.gameEvents.getTimeline(gameId);
+      const runningScores: Record<string, number> = {};
+
+      return {
+        success: true,
+        message: 'Game replay retrieved successfully',
+        data: {
+          game: {
+            id: game.id,
+            mode: game.mode,
+            status: game.status,
+            game_phase: game.game_phase,
+            created_at: game.created_at,
+          },
+          players: game.game_players,
+          total_events: events.length,
+          timeline: events.map((event) => {
+            if (event.game_player_id) {
+              runningScores[event.game_player_id] =
+                (runningScores[event.game_player_id] ?? 0) + event.points;
+            }
+
+            return {
+              sequence: event.sequence,
+              type: event.type,
+              player: event.game_player,
+              question_id: event.question_id,
+              points: event.points,
+              score_after: event.game_player_id
+                ? runningScores[event.game_player_id]
+                : null,
+              payload: event.payload,
+              created_at: event.created_at,
+            };
+          }),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error fetching game replay: ${error.message}`,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Split the players of a game into teams before it starts. Replaces any
+   * teams set up before; teams take turns in the order they are listed.
+   */
+  async setupTeams(setupTeamsDto: SetupTeamsDto) {
+    try {
+      const gameId = setupTeamsDto.game_id;
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        include: { game_players: true },
+      });
+
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+
+      if (game.game_phase !== GamePhase.WAITING || game.current_question > 0) {
+        throw new BadRequestException(
+          'Teams can only be set up before the game starts',
+        );
+      }
+
+      const assignedIds = setupTeamsDto.teams.flatMap((t) => t.player_ids);
+      const unknownIds = assignedIds.filter(
+        (id) => !game.game_players.some((p) => p.id === id),
+      );
+      if (unknownIds.length > 0) {
+        throw new BadRequestException(
+          `Players not found in this game: ${unknownIds.join(', ')}`,
+        );
+      }
+
+      if (new Set(assignedIds).size !== assignedIds.length) {
+        throw new BadRequestException('A player can only be in one team');
+      }
+
+      const unassigned = game.game_players.filter(
+        (p) => !assignedIds.includes(p.id),
+      );
+      if (unassigned.length > 0) {
+        throw new BadRequestException(
+          `Every player must be in a team. Unassigned: ${unassigned.map((p) => p.player_name || p.id).join(', ')}`,
+        );
+      }
+
+      const invalidCaptain = setupTeamsDto.teams.find(
+        (t) => t.captain_id && !t.player_ids.includes(t.captain_id),
+      );
+      if (invalidCaptain) {
+        throw new BadRequestException(
+          `The captain of ${invalidCaptain.name} must be a member of the team`,
+        );
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.gamePlayer.updateMany({
+          where: { game_id: gameId },
+          data: { team_id: null },
+        });
+        await tx.gameTeam.deleteMany({ where: { game_id: gameId } });
+
+        for (const [index, team] of setupTeamsDto.teams.entries()) {
+          await tx.gameTeam.create({
+            data: {
+              game_id: gameId,
+              name: team.name,
+              color: team.color,
+              team_order: index + 1,
+              captain_id: team.captain_id ?? team.player_ids[0],
+              players: { connect: team.player_ids.map((id) => ({ id })) },
+            },
+          });
+        }
+
+        await tx.game.update({
+          where: { id: gameId },
+          data: { is_team_game: true },
+        });
+      });
+
+      const teams = await this.teamStandings(gameId);
+
+      await this.gameRoomGateway.emitToGame(
+        gameId,
+        GameRoomEvent.TEAMS_UPDATED,
+        { game_id: gameId, teams },
+      );
+
+      return {
+        success: true,
+        message: 'Teams set up successfully',
+        data: { game_id: gameId, teams },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error setting up teams: ${error.message}`,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Teams of a game with their shared score and what each member added
+   */
+  async getTeams(gameId: string) {
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        select: { id: true, is_team_game: true, current_player_id: true },
+      });
+
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+
+      return {
+        success: true,
+        message: 'Teams retrieved successfully',
+        data: {
+          game_id: game.id,
+          is_team_game: game.is_team_game,
+          current_player_id: game.current_player_id,
+          teams: await this.teamStandings(gameId),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error fetching teams: ${error.message}`,
+        data: null,
+      };
+    }
+  }
+
+  // ===== GAME FLOW METHODS =====
+
+  /**
+   * Get the current player whose turn it is
+   */
+  async getCurrentPlayer(gameId: string) {
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        include: {
+          game_players: {
+            include: { user: true },
+            orderBy: { player_order: 'asc' },
+          },
+        },
+      });
+
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+
+      if (!game.current_player_id) {
+        return {
+          success: false,
+          message: 'No current player set',
+          data: null,
+        };
+      }
+
+      let currentPlayer = game.game_players.find(
+        (player) => player.id === game.current_player_id,
+      );
+
+      // a player the host removed, or a bot, hands the turn to the next one
+      if (currentPlayer && !TeamHelper.takesTurns(currentPlayer)) {
+        currentPlayer = (
+          await this.resolveNextPlayer(
+            gameId,
+            game.game_players,
+            currentPlayer.id,
+            false,
+          )
+        ).player;
+      }
 
       if (!currentPlayer) {
         return {
@@ -1611,32 +2058,45 @@ export class GamePlayerService {
         throw new BadRequestException('No players in game');
       }
 
-      const currentPlayerIndex = game.game_players.findIndex(
-        (player) => player.id === game.current_player_id,
+      const { player: nextPlayer } = await this.resolveNextPlayer(
+        gameId,
+        game.game_players,
+        game.current_player_id,
       );
-
-      let nextPlayerIndex;
-      if (
-        currentPlayerIndex === -1 ||
-        currentPlayerIndex === game.game_players.length - 1
-      ) {
-        // If no current player or last player, start with first player
-        nextPlayerIndex = 0;
-      } else {
-        // Move to next player
-        nextPlayerIndex = currentPlayerIndex + 1;
-      }
-
-      const nextPlayer = game.game_players[nextPlayerIndex];
       const nextTurn = game.current_turn + 1;
 
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            current_player_id: nextPlayer.id,
+            current_turn: nextTurn,
+          },
+        });
+
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.TURN_ADVANCED,
+          {
+            game_player_id: nextPlayer.id,
+            payload: {
+              current_player_id: nextPlayer.id,
+              player_name: nextPlayer.player_name,
+              turn: nextTurn,
+            },
+          },
+          tx,
+        );
+      });
+      await this.gameRoomGateway.emitToGame(
+        gameId,
+        GameRoomEvent.TURN_ADVANCED,
+        {
           current_player_id: nextPlayer.id,
-          current_turn: nextTurn,
+          player_name: nextPlayer.player_name,
+          turn: nextTurn,
         },
-      });
+      );
 
       return {
         success: true,
@@ -1680,14 +2140,48 @@ export class GamePlayerService {
         throw new NotFoundException('Player not found in game');
       }
 
+      if (game.game_phase !== GamePhase.QUESTION) {
+        const phaseConflict = GamePhaseHelper.checkTransition(
+          GamePhaseHelper.flowsForMode(game.mode),
+          game.game_phase,
+          GamePhase.QUESTION,
+        );
+        if (phaseConflict) {
+          return phaseConflict;
+        }
+      }
+
       // Update game to set current player and phase
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            current_player_id: playerId,
+            game_phase: GamePhase.QUESTION,
+          },
+        });
+
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.TURN_ADVANCED,
+          {
+            game_player_id: playerId,
+            payload: {
+              current_player_id: playerId,
+              turn: game.current_turn,
+            },
+          },
+          tx,
+        );
+      });
+      await this.gameRoomGateway.emitToGame(
+        gameId,
+        GameRoomEvent.TURN_ADVANCED,
+        {
           current_player_id: playerId,
-          game_phase: 'question',
+          turn: game.current_turn,
         },
-      });
+      );
 
       return {
         success: true,
@@ -1695,7 +2189,7 @@ export class GamePlayerService {
         data: {
           player: player,
           turn: game.current_turn,
-          phase: 'question',
+          phase: GamePhase.QUESTION,
         },
       };
     } catch (error) {
@@ -1710,23 +2204,44 @@ export class GamePlayerService {
   /**
    * Update game phase
    */
-  async updateGamePhase(gameId: string, phase: string) {
+  async updateGamePhase(gameId: string, phase: GamePhase) {
     try {
-      const validPhases = [
-        'waiting',
-        'category_selection',
-        'question',
-        'completed',
-      ];
+      const validPhases = Object.values(GamePhase);
       if (!validPhases.includes(phase)) {
         throw new BadRequestException(
           `Invalid phase. Must be one of: ${validPhases.join(', ')}`,
         );
       }
 
-      const game = await this.prisma.game.update({
+      const game = await this.prisma.game.findUnique({
         where: { id: gameId },
-        data: { game_phase: phase },
+      });
+
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+
+      const phaseConflict = GamePhaseHelper.checkTransition(
+        GamePhaseHelper.flowsForMode(game.mode),
+        game.game_phase,
+        phase,
+      );
+      if (phaseConflict) {
+        return phaseConflict;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.game.update({
+          where: { id: gameId },
+          data: { game_phase: phase },
+        });
+
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.PHASE_CHANGED,
+          { payload: { from: game.game_phase, to: phase } },
+          tx,
+        );
       });
 
       return {
@@ -1788,6 +2303,10 @@ export class GamePlayerService {
           },
           players: game.game_players,
           current_player: currentPlayer || null,
+          adaptive_difficulty: game.adaptive_difficulty
+            ? await this.adaptiveDifficulty.gameEstimates(game.id)
+            : null,
+          settings: await this.gameSettings.forGame(game.id),
         },
       };
     } catch (error) {
@@ -1845,14 +2364,14 @@ export class GamePlayerService {
 
       if (result.success && result.data.should_end) {
         // Update game phase to completed
-        await this.updateGamePhase(gameId, 'completed');
+        await this.updateGamePhase(gameId, GamePhase.COMPLETED);
 
         return {
           success: true,
           message: 'Game completed',
           data: {
             completed: true,
-            phase: 'completed',
+            phase: GamePhase.COMPLETED,
           },
         };
       }
@@ -1881,17 +2400,14 @@ export class GamePlayerService {
    */
   async addGuestPlayer(gameId: string, playerName: string) {
     try {
-      const validationResult = await this.validateGuestPlayerName(playerName);
-      if (!validationResult.isValid) {
-        throw new BadRequestException(validationResult.error);
-      }
-
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
         include: {
           _count: {
             select: { game_players: true },
           },
+          language: { select: { code: true } },
+          game_players: { select: { player_name: true } },
         },
       });
 
@@ -1899,19 +2415,28 @@ export class GamePlayerService {
         throw new NotFoundException('Game not found');
       }
 
+      const language = game.language?.code;
+      const validationResult = await this.validateGuestPlayerName(
+        playerName,
+        language,
+      );
+      if (!validationResult.isValid) {
+        throw new BadRequestException(validationResult.error);
+      }
+
       // Check if game is full (max 8 players)
       const maxPlayers = 8;
       if (game._count.game_players >= maxPlayers) {
         throw new BadRequestException('Game is full');
       }
 
-      // Check if player name already exists in this game
-      const existingPlayer = await this.prisma.gamePlayer.findFirst({
-        where: {
-          game_id: gameId,
-          player_name: validationResult.sanitizedName,
-        },
-      });
+      // Check if player name already exists in this game, names that only
+      // differ in case, accents or diacritics count as the same
+      const existingPlayer = game.game_players.some(
+        (player) =>
+          normalizeText(player.player_name, language) ===
+          validationResult.normalizedName,
+      );
 
       if (existingPlayer) {
         throw new BadRequestException(
@@ -1922,18 +2447,47 @@ export class GamePlayerService {
       // Determine player order
       const playerOrder = game._count.game_players + 1;
 
-      const guestPlayer = await this.prisma.gamePlayer.create({
-        data: {
-          game_id: gameId,
-          player_name: validationResult.sanitizedName,
+      const guestPlayer = await this.prisma.$transaction(async (tx) => {
+        const guestPlayer = await tx.gamePlayer.create({
+          data: {
+            game_id: gameId,
+            player_name: validationResult.sanitizedName,
+            player_order: playerOrder,
+            is_guest: true,
+            score: 0,
+            correct_answers: 0,
+            wrong_answers: 0,
+            skipped_answers: 0,
+          },
+        });
+
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.PLAYER_JOINED,
+          {
+            game_player_id: guestPlayer.id,
+            payload: {
+              player_id: guestPlayer.id,
+              name: guestPlayer.player_name,
+              player_order: playerOrder,
+              is_guest: true,
+            },
+          },
+          tx,
+        );
+
+        return guestPlayer;
+      });
+      await this.gameRoomGateway.emitToGame(
+        gameId,
+        GameRoomEvent.PLAYER_JOINED,
+        {
+          player_id: guestPlayer.id,
+          name: guestPlayer.player_name,
           player_order: playerOrder,
           is_guest: true,
-          score: 0,
-          correct_answers: 0,
-          wrong_answers: 0,
-          skipped_answers: 0,
         },
-      });
+      );
 
       return {
         success: true,
@@ -1953,24 +2507,26 @@ export class GamePlayerService {
   }
 
   /**
-   * Validate guest player name
+   * Validate guest player name. The name is checked as normalised in the
+   * language of the game, games in Arabic also take Arabic letters.
    */
-  async validateGuestPlayerName(playerName: string) {
+  async validateGuestPlayerName(playerName: string, language?: string | null) {
     try {
       if (!playerName || typeof playerName !== 'string') {
         return { isValid: false, error: 'Player name is required' };
       }
 
       const trimmedName = playerName.trim();
+      const normalizedName = normalizeText(trimmedName, language);
 
-      if (trimmedName.length < 2) {
+      if (normalizedName.length < 2) {
         return {
           isValid: false,
           error: 'Player name must be at least 2 characters long',
         };
       }
 
-      if (trimmedName.length > 20) {
+      if (normalizedName.length > 20) {
         return {
           isValid: false,
           error: 'Player name must be less than 20 characters',
@@ -1978,8 +2534,11 @@ export class GamePlayerService {
       }
 
       // Check for inappropriate characters
-      const validNameRegex = /^[a-zA-Z0-9\s\-_]+$/;
-      if (!validNameRegex.test(trimmedName)) {
+      const validNameRegex =
+        languageKey(language) === 'ar'
+          ? /^[a-zA-Z0-9\u0621-\u064a\s\-_]+$/
+          : /^[a-zA-Z0-9\s\-_]+$/;
+      if (!validNameRegex.test(normalizedName)) {
         return {
           isValid: false,
           error:
@@ -1995,9 +2554,8 @@ export class GamePlayerService {
         'bot',
         'guest',
       ];
-      const lowerName = trimmedName.toLowerCase();
       for (const word of inappropriateWords) {
-        if (lowerName.includes(word)) {
+        if (normalizedName.includes(word)) {
           return {
             isValid: false,
             error: 'Player name contains inappropriate words',
@@ -2005,7 +2563,12 @@ export class GamePlayerService {
         }
       }
 
-      return { isValid: true, error: null, sanitizedName: trimmedName };
+      return {
+        isValid: true,
+        error: null,
+        sanitizedName: trimmedName,
+        normalizedName,
+      };
     } catch (error) {
       return { isValid: false, error: 'Error validating player name' };
     }
@@ -2028,8 +2591,25 @@ export class GamePlayerService {
         throw new NotFoundException('Guest player not found in this game');
       }
 
-      await this.prisma.gamePlayer.delete({
-        where: { id: playerId },
+      await this.prisma.$transaction(async (tx) => {
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.PLAYER_LEFT,
+          {
+            game_player_id: playerId,
+            payload: {
+              player_id: playerId,
+            },
+          },
+          tx,
+        );
+
+        await tx.gamePlayer.delete({
+          where: { id: playerId },
+        });
+      });
+      await this.gameRoomGateway.emitToGame(gameId, GameRoomEvent.PLAYER_LEFT, {
+        player_id: playerId,
       });
 
       return {
@@ -2097,14 +2677,15 @@ export class GamePlayerService {
   }
 
   /**
-   * Start Quick Game - initialize turn-based gameplay
+   * Get current turn information for Quick Game
    */
-  async startQuickGame(gameId: string) {
+  async getQuickGameCurrentTurn(gameId: string) {
     try {
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
         include: {
           game_players: {
+            include: { user: true },
             orderBy: { player_order: 'asc' },
           },
         },
@@ -2114,72 +2695,9 @@ export class GamePlayerService {
         throw new NotFoundException('Game not found');
       }
 
-      if (game.game_players.length < 2) {
-        throw new BadRequestException(
-          'Need at least 2 players to start the game',
-        );
-      }
-
-      if (game.game_players.length > 4) {
-        throw new BadRequestException('Quick Game supports maximum 4 players');
-      }
-
-      // Set first player as current player
-      const firstPlayer = game.game_players[0];
-
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          status: 'in_progress',
-          game_phase: 'category_selection',
-          current_player_id: firstPlayer.id,
-          current_turn: 1,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Quick Game started successfully',
-        data: {
-          game_id: gameId,
-          current_player: firstPlayer,
-          turn: 1,
-          phase: 'category_selection',
-          total_players: game.game_players.length,
-          players: game.game_players,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error starting Quick Game: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Get current turn information for Quick Game
-   */
-  async getQuickGameCurrentTurn(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { player_order: 'asc' },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      const currentPlayer = game.game_players.find(
-        (player) => player.id === game.current_player_id,
-      );
+      const currentPlayer = game.game_players.find(
+        (player) => player.id === game.current_player_id,
+      );
 
       return {
         success: true,
@@ -2202,3034 +2720,424 @@ export class GamePlayerService {
   }
 
   /**
-   * Select category and difficulty for current player's turn
+   * Add multiple players to Quick Game at once
    */
-  async selectQuickGameCategory(
+  async addMultipleQuickGamePlayers(
     gameId: string,
-    categoryId: string,
-    difficultyId: string,
+    playerNames: string[],
+    userId?: string,
+    isMaxLimit?: number,
   ) {
     try {
+      // Validate game exists
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
         include: {
-          game_players: true,
+          _count: {
+            select: { game_players: true },
+          },
+          subscription: {
+            include: {
+              subscription_type: true,
+            },
+          },
+          language: { select: { code: true } },
+          game_players: { select: { player_name: true } },
         },
       });
 
       if (!game) {
         throw new NotFoundException('Game not found');
       }
+      const language = game.language?.code;
 
-      const currentPlayer = game.game_players.find(
-        (p) => p.id === game.current_player_id,
-      );
-      if (!currentPlayer) {
-        throw new NotFoundException('Current player not found');
-      }
-
-      // Verify category and difficulty exist
-      const category = await this.prisma.category.findUnique({
-        where: { id: categoryId },
-      });
-
-      const difficulty = await this.prisma.difficulty.findUnique({
-        where: { id: difficultyId },
-      });
+      let maxPlayers: number;
 
-      if (!category || !difficulty) {
-        throw new BadRequestException('Invalid category or difficulty');
+      if (isMaxLimit) {
+        maxPlayers = isMaxLimit;
+      } else if (
+        game.subscription &&
+        game.subscription.subscription_type.players > 0
+      ) {
+        maxPlayers = game.subscription.subscription_type.players;
+      } else {
+        maxPlayers = 4;
+      }
+      const totalPlayersAfterAdding =
+        game._count.game_players + playerNames.length;
+      if (totalPlayersAfterAdding > maxPlayers) {
+        throw new BadRequestException(
+          `Cannot add ${playerNames.length} players. Quick Game allows maximum ${maxPlayers} players. Currently has ${game._count.game_players} players.`,
+        );
       }
 
-      // Create game selection record
-      const gameSelection = await this.prisma.gameSelection.create({
-        data: {
-          game_id: gameId,
-          player_id: currentPlayer.id,
-          category_id: categoryId,
-          difficulty_id: difficultyId,
-          points: difficulty.points || 10,
-          is_used: false,
-        },
-      });
-
-      // Update game phase to question
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          game_phase: 'question',
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Category and difficulty selected successfully',
-        data: {
-          selection: gameSelection,
-          category: category,
-          difficulty: difficulty,
-          points: difficulty.points || 10,
-          phase: 'question',
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error selecting category: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Get question for current player's turn
-   */
-  async getQuickGameQuestion(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: true,
-        },
-      });
+      // Validate all player names
+      const validationResults = await Promise.all(
+        playerNames.map((name) => this.validateGuestPlayerName(name, language)),
+      );
 
-      if (!game) {
-        throw new NotFoundException('Game not found');
+      const invalidNames = validationResults.filter(
+        (result) => !result.isValid,
+      );
+      if (invalidNames.length > 0) {
+        throw new BadRequestException(
+          `Invalid player names: ${invalidNames.map((r) => r.error).join(', ')}`,
+        );
       }
 
-      const currentPlayer = game.game_players.find(
-        (p) => p.id === game.current_player_id,
+      // Check for duplicate names in the request, compared normalised
+      const normalizedNames = validationResults.map(
+        (result) => result.normalizedName,
       );
-      if (!currentPlayer) {
-        throw new NotFoundException('Current player not found');
+      const uniqueNames = [...new Set(normalizedNames)];
+      if (uniqueNames.length !== playerNames.length) {
+        throw new BadRequestException('Duplicate player names are not allowed');
       }
 
-      // Get the latest game selection for current player
-      const gameSelection = await this.prisma.gameSelection.findFirst({
-        where: {
-          game_id: gameId,
-          player_id: currentPlayer.id,
-          is_used: false,
-        },
-        include: {
-          category: true,
-          difficulty: true,
-        },
-        orderBy: { created_at: 'desc' },
-      });
+      // Check if any names already exist in the game
+      const existingPlayers = game.game_players.filter((player) =>
+        normalizedNames.includes(normalizeText(player.player_name, language)),
+      );
 
-      if (!gameSelection) {
+      if (existingPlayers.length > 0) {
+        const existingNames = existingPlayers
+          .map((p) => p.player_name)
+          .join(', ');
         throw new BadRequestException(
-          'No category/difficulty selected for current turn',
+          `Player names already exist in this game: ${existingNames}`,
         );
       }
 
-      // Get a random question from selected category and difficulty
-      const questions = await this.prisma.question.findMany({
-        where: {
-          category_id: gameSelection.category_id,
-          difficulty_id: gameSelection.difficulty_id,
-        },
-        include: {
-          answers: {
-            select: {
-              id: true,
-              text: true,
-              file_url: true,
-              // Don't include is_correct for security
-            },
-          },
-        },
-      });
+      // Create all players in a transaction
+      const createdPlayers = await this.prisma.$transaction(async (tx) => {
+        const players = [];
+        let playerOrder = game._count.game_players + 1;
 
-      if (questions.length === 0) {
-        throw new NotFoundException(
-          'No questions available for selected category and difficulty',
-        );
-      }
+        for (const playerName of playerNames) {
+          const validationResult = validationResults.find(
+            (r) => r.sanitizedName === playerName.trim(),
+          );
+          const sanitizedName =
+            validationResult?.sanitizedName || playerName.trim();
 
-      // Select random question
-      const randomQuestion =
-        questions[Math.floor(Math.random() * questions.length)];
+          const player = await tx.gamePlayer.create({
+            data: {
+              game_id: gameId,
+              player_name: sanitizedName,
+              player_order: playerOrder,
+              is_guest: true,
+              score: 0,
+              user_id: userId,
+              correct_answers: 0,
+              wrong_answers: 0,
+              skipped_answers: 0,
+            },
+          });
 
-      // Mark game selection as used
-      await this.prisma.gameSelection.update({
-        where: { id: gameSelection.id },
-        data: { is_used: true },
-      });
+          players.push(player);
+          playerOrder++;
+        }
 
-      // Update game with current question
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          current_question: game.current_question + 1,
-        },
+        return players;
       });
 
       return {
         success: true,
-        message: 'Question retrieved successfully',
+        message: `Successfully added ${createdPlayers.length} players to Quick Game`,
         data: {
-          question: {
-            id: randomQuestion.id,
-            text: randomQuestion.text,
-            points: randomQuestion.points,
-            time_limit: randomQuestion.time,
-            file_url: randomQuestion.file_url,
-            category: gameSelection.category,
-            difficulty: gameSelection.difficulty,
-            answers: randomQuestion.answers,
-          },
-          current_player: currentPlayer,
-          turn: game.current_turn,
+          players: createdPlayers,
+          total_players: game._count.game_players + createdPlayers.length,
+          remaining_slots:
+            maxPlayers - (game._count.game_players + createdPlayers.length),
         },
       };
     } catch (error) {
       return {
         success: false,
-        message: `Error getting question: ${error.message}`,
+        message: `Error adding multiple players: ${error.message}`,
         data: null,
       };
     }
   }
 
   /**
-   * Answer question in Quick Game
+   * Add multiple players and start the game immediately
    */
-  async answerQuickGameQuestion(
-    gameId: string,
-    questionId: string,
-    answerId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: true,
-        },
-      });
+  // async addPlayersAndStartQuickGame(gameId: string, playerNames: string[]) {
+  //   try {
+  //     // First add all players
+  //     const addResult = await this.addMultipleQuickGamePlayers(
+  //       gameId,
+  //       playerNames,
+  //     );
 
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
+  //     if (!addResult.success) {
+  //       return addResult;
+  //     }
 
-      const currentPlayer = game.game_players.find(
-        (p) => p.id === game.current_player_id,
-      );
-      if (!currentPlayer) {
-        throw new NotFoundException('Current player not found');
-      }
+  //     // Then start the game
+  //     const startResult = await this.startQuickGame(gameId);
 
-      // Get question with correct answer
-      const question = await this.prisma.question.findUnique({
-        where: { id: questionId },
-        include: { answers: true },
-      });
+  //     if (!startResult.success) {
+  //       return startResult;
+  //     }
 
-      if (!question) {
-        throw new NotFoundException('Question not found');
-      }
+  //     return {
+  //       success: true,
+  //       message: `Successfully added ${playerNames.length} players and started Quick Game`,
+  //       data: {
+  //         players_added: addResult.data.players,
+  //         game_started: startResult.data,
+  //         total_players: addResult.data.total_players,
+  //       },
+  //     };
+  //   } catch (error) {
+  //     return {
+  //       success: false,
+  //       message: `Error adding players and starting game: ${error.message}`,
+  //       data: null,
+  //     };
+  //   }
+  // }
 
-      const selectedAnswer = question.answers.find((a) => a.id === answerId);
-      if (!selectedAnswer) {
-        throw new BadRequestException('Invalid answer selected');
-      }
-
-      // Check if already answered
-      const existingAnswer = await this.prisma.playerAnswer.findFirst({
-        where: {
-          game_player_id: currentPlayer.id,
-          question_id: questionId,
-        },
-      });
-
-      if (existingAnswer) {
-        throw new BadRequestException('Question already answered');
-      }
-
-      // Create player answer
-      await this.prisma.playerAnswer.create({
-        data: {
-          game_player_id: currentPlayer.id,
-          question_id: questionId,
-          answer_id: answerId,
-          isCorrect: selectedAnswer.is_correct,
-        },
-      });
-
-      const isCorrect = selectedAnswer.is_correct;
-      const pointsEarned = isCorrect ? question.points : 0;
-
-      // Update player stats
-      const updatedPlayer = await this.prisma.gamePlayer.update({
-        where: { id: currentPlayer.id },
-        data: {
-          score: { increment: pointsEarned },
-          ...(isCorrect
-            ? { correct_answers: { increment: 1 } }
-            : { wrong_answers: { increment: 1 } }),
-        },
-      });
-
-      // Move to next turn
-      await this.nextTurn(gameId);
-
-      return {
-        success: true,
-        message: isCorrect ? 'Correct answer!' : 'Wrong answer!',
-        data: {
-          is_correct: isCorrect,
-          points_earned: pointsEarned,
-          current_score: updatedPlayer.score,
-          correct_answer: isCorrect
-            ? null
-            : question.answers.find((a) => a.is_correct),
-          next_turn: true,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error answering question: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Steal question when player answers wrong
-   */
-  async stealQuickGameQuestion(
-    gameId: string,
-    questionId: string,
-    answerId: string,
-    userId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { player_order: 'asc' },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Find the player by user_id
-      const stealingPlayer = game.game_players.find(
-        (p) => p.user_id === userId,
-      );
-      if (!stealingPlayer) {
-        const availableUserIds = game.game_players
-          .map((p) => p.user_id)
-          .filter((id) => id !== null);
-        throw new NotFoundException(
-          `User not found in this game. ` +
-          `Looking for user ID: ${userId}. ` +
-          `Available user IDs: ${availableUserIds.join(', ')}`,
-        );
-      }
-
-      // Get question with correct answer
-      const question = await this.prisma.question.findUnique({
-        where: { id: questionId },
-        include: { answers: true },
-      });
-
-      if (!question) {
-        throw new NotFoundException('Question not found');
-      }
-
-      const selectedAnswer = question.answers.find((a) => a.id === answerId);
-      if (!selectedAnswer) {
-        throw new BadRequestException('Invalid answer selected');
-      }
-
-      // Check if already answered by stealing player
-      const existingAnswer = await this.prisma.playerAnswer.findFirst({
-        where: {
-          game_player_id: stealingPlayer.id,
-          question_id: questionId,
-        },
-      });
-
-      if (existingAnswer) {
-        throw new BadRequestException(
-          'Question already answered by this player',
-        );
-      }
-
-      // Create player answer for stealing player
-      await this.prisma.playerAnswer.create({
-        data: {
-          game_player_id: stealingPlayer.id,
-          question_id: questionId,
-          answer_id: answerId,
-          isCorrect: selectedAnswer.is_correct,
-        },
-      });
-
-      const isCorrect = selectedAnswer.is_correct;
-      const pointsEarned = isCorrect ? question.points : 0;
-
-      // Update stealing player's stats
-      const updatedPlayer = await this.prisma.gamePlayer.update({
-        where: { id: stealingPlayer.id },
-        data: {
-          score: { increment: pointsEarned },
-          ...(isCorrect
-            ? { correct_answers: { increment: 1 } }
-            : { wrong_answers: { increment: 1 } }),
-        },
-      });
-
-      // Move to next turn
-      await this.nextTurn(gameId);
-
-      return {
-        success: true,
-        message: isCorrect ? 'Stolen and correct!' : 'Stolen but wrong!',
-        data: {
-          is_correct: isCorrect,
-          points_earned: pointsEarned,
-          current_score: updatedPlayer.score,
-          correct_answer: isCorrect
-            ? null
-            : question.answers.find((a) => a.is_correct),
-          user_id: userId,
-          player_id: stealingPlayer.id,
-          player_name:
-            stealingPlayer.player_name ||
-            stealingPlayer.user?.name ||
-            'Unknown',
-          stolen: true,
-          next_turn: true,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error stealing question: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Add multiple players to Quick Game at once
-   */
-  async addMultipleQuickGamePlayers(
-    gameId: string,
-    playerNames: string[],
-    userId?: string,
-    isMaxLimit?: number,
-  ) {
-    try {
-      // Validate game exists
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          _count: {
-            select: { game_players: true },
-          },
-          subscription: {
-            include: {
-              subscription_type: true,
-            },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      let maxPlayers: number;
-
-      if (isMaxLimit) {
-        maxPlayers = isMaxLimit;
-      } else if (
-        game.subscription &&
-        game.subscription.subscription_type.players > 0
-      ) {
-        maxPlayers = game.subscription.subscription_type.players;
-      } else {
-        maxPlayers = 4;
-      }
-      const totalPlayersAfterAdding =
-        game._count.game_players + playerNames.length;
-      if (totalPlayersAfterAdding > maxPlayers) {
-        throw new BadRequestException(
-          `Cannot add ${playerNames.length} players. Quick Game allows maximum ${maxPlayers} players. Currently has ${game._count.game_players} players.`,
-        );
-      }
-
-      // Validate all player names
-      const validationResults = await Promise.all(
-        playerNames.map((name) => this.validateGuestPlayerName(name)),
-      );
-
-      const invalidNames = validationResults.filter(
-        (result) => !result.isValid,
-      );
-      if (invalidNames.length > 0) {
-        throw new BadRequestException(
-          `Invalid player names: ${invalidNames.map((r) => r.error).join(', ')}`,
-        );
-      }
-
-      // Check for duplicate names in the request
-      const uniqueNames = [...new Set(playerNames)];
-      if (uniqueNames.length !== playerNames.length) {
-        throw new BadRequestException('Duplicate player names are not allowed');
-      }
-
-      // Check if any names already exist in the game
-      const existingPlayers = await this.prisma.gamePlayer.findMany({
-        where: {
-          game_id: gameId,
-          player_name: { in: playerNames },
-        },
-        select: { player_name: true },
-      });
-
-      if (existingPlayers.length > 0) {
-        const existingNames = existingPlayers
-          .map((p) => p.player_name)
-          .join(', ');
-        throw new BadRequestException(
-          `Player names already exist in this game: ${existingNames}`,
-        );
-      }
-
-      // Create all players in a transaction
-      const createdPlayers = await this.prisma.$transaction(async (tx) => {
-        const players = [];
-        let playerOrder = game._count.game_players + 1;
-
-        for (const playerName of playerNames) {
-          const validationResult = validationResults.find(
-            (r) => r.sanitizedName === playerName.trim(),
-          );
-          const sanitizedName =
-            validationResult?.sanitizedName || playerName.trim();
-
-          const player = await tx.gamePlayer.create({
-            data: {
-              game_id: gameId,
-              player_name: sanitizedName,
-              player_order: playerOrder,
-              is_guest: true,
-              score: 0,
-              user_id: userId,
-              correct_answers: 0,
-              wrong_answers: 0,
-              skipped_answers: 0,
-            },
-          });
-
-          players.push(player);
-          playerOrder++;
-        }
-
-        return players;
-      });
-
-      return {
-        success: true,
-        message: `Successfully added ${createdPlayers.length} players to Quick Game`,
-        data: {
-          players: createdPlayers,
-          total_players: game._count.game_players + createdPlayers.length,
-          remaining_slots:
-            maxPlayers - (game._count.game_players + createdPlayers.length),
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error adding multiple players: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Add multiple players and start the game immediately
-   */
-  // async addPlayersAndStartQuickGame(gameId: string, playerNames: string[]) {
-  //   try {
-  //     // First add all players
-  //     const addResult = await this.addMultipleQuickGamePlayers(
-  //       gameId,
-  //       playerNames,
-  //     );
-
-  //     if (!addResult.success) {
-  //       return addResult;
-  //     }
-
-  //     // Then start the game
-  //     const startResult = await this.startQuickGame(gameId);
-
-  //     if (!startResult.success) {
-  //       return startResult;
-  //     }
-
-  //     return {
-  //       success: true,
-  //       message: `Successfully added ${playerNames.length} players and started Quick Game`,
-  //       data: {
-  //         players_added: addResult.data.players,
-  //         game_started: startResult.data,
-  //         total_players: addResult.data.total_players,
-  //       },
-  //     };
-  //   } catch (error) {
-  //     return {
-  //       success: false,
-  //       message: `Error adding players and starting game: ${error.message}`,
-  //       data: null,
-  //     };
-  //   }
-  // }
-
-  // ===== COMPETITIVE QUICK GAME METHODS =====
-
-  /**
-   * Start Competitive Quick Game - initialize competitive gameplay
-   */
-  async startCompetitiveQuickGame(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            orderBy: { player_order: 'asc' },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      if (game.game_players.length < 2) {
-        throw new BadRequestException(
-          'Need at least 2 players to start competitive game',
-        );
-      }
-
-      if (game.game_players.length > 4) {
-        throw new BadRequestException(
-          'Competitive Quick Game supports maximum 4 players',
-        );
-      }
-
-      // Set game to competitive mode
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          status: 'in_progress',
-          game_phase: 'category_selection',
-          current_turn: 0, // No turns in competitive mode
-          current_question: 0,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Competitive Quick Game started successfully',
-        data: {
-          game_id: gameId,
-          phase: 'category_selection',
-          total_players: game.game_players.length,
-          players: game.game_players,
-          game_mode: 'competitive',
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error starting Competitive Quick Game: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Select category and difficulty for competitive game
-   */
-  async selectCompetitiveCategory(
-    gameId: string,
-    categoryId: string,
-    difficultyId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: true,
-          host: true,
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify category and difficulty exist
-      const category = await this.prisma.category.findUnique({
-        where: { id: categoryId },
-      });
-
-      const difficulty = await this.prisma.difficulty.findUnique({
-        where: { id: difficultyId },
-      });
-
-      if (!category || !difficulty) {
-        throw new BadRequestException('Invalid category or difficulty');
-      }
-
-      // Get questions count for this category and difficulty
-      const questionsCount = await this.prisma.question.count({
-        where: {
-          category_id: categoryId,
-          difficulty_id: difficultyId,
-        },
-      });
-
-      if (questionsCount === 0) {
-        throw new BadRequestException(
-          'No questions available for selected category and difficulty',
-        );
-      }
-
-      // Check subscription limits for questions
-      const hostSubscription = await this.prisma.subscription.findFirst({
-        where: {
-          user_id: game.host_id,
-          status: 'active',
-        },
-        include: {
-          subscription_type: true,
-        },
-      });
-
-      let availableQuestions = questionsCount;
-      if (hostSubscription) {
-        // Check if user has question limits
-        if (hostSubscription.subscription_type.questions !== -1) {
-          availableQuestions = Math.min(
-            questionsCount,
-            hostSubscription.subscription_type.questions,
-          );
-        }
-      } else {
-        // Free game - limit to 10 questions
-        availableQuestions = Math.min(questionsCount, 10);
-      }
-
-      // Update game with category selection
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          game_phase: 'question',
-          total_questions: availableQuestions,
-          current_question: 0,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Category and difficulty selected successfully',
-        data: {
-          category: category,
-          difficulty: difficulty,
-          total_questions: availableQuestions,
-          available_questions: questionsCount,
-          phase: 'question',
-          game_mode: 'competitive',
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error selecting category: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Get next question for competitive game
-   */
-  async getCompetitiveQuestion(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      if (game.game_phase !== 'question') {
-        throw new BadRequestException('Game is not in question phase');
-      }
-
-      if (game.current_question >= game.total_questions) {
-        // Game completed
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            game_phase: 'completed',
-            status: 'completed',
-          },
-        });
-
-        return {
-          success: true,
-          message: 'Game completed! All questions answered.',
-          data: {
-            game_completed: true,
-            total_questions: game.total_questions,
-            questions_answered: game.current_question,
-          },
-        };
-      }
-
-      // Get the latest game selection to know category and difficulty
-      const gameSelection = await this.prisma.gameSelection.findFirst({
-        where: {
-          game_id: gameId,
-        },
-        include: {
-          category: true,
-          difficulty: true,
-        },
-        orderBy: { created_at: 'desc' },
-      });
-
-      if (!gameSelection) {
-        throw new BadRequestException(
-          'No category/difficulty selected for this game',
-        );
-      }
-
-      // Get questions that haven't been answered yet
-      const answeredQuestionIds = await this.prisma.playerAnswer.findMany({
-        where: {
-          game_player: {
-            game_id: gameId,
-          },
-        },
-        select: {
-          question_id: true,
-        },
-      });
-
-      const answeredIds = answeredQuestionIds.map((a) => a.question_id);
-
-      // Get a random unanswered question
-      const questions = await this.prisma.question.findMany({
-        where: {
-          category_id: gameSelection.category_id,
-          difficulty_id: gameSelection.difficulty_id,
-          id: { notIn: answeredIds },
-        },
-        include: {
-          answers: {
-            select: {
-              id: true,
-              text: true,
-              file_url: true,
-            },
-          },
-        },
-      });
-
-      if (questions.length === 0) {
-        // No more questions available
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            game_phase: 'completed',
-            status: 'completed',
-          },
-        });
-
-        return {
-          success: true,
-          message: 'Game completed! All questions answered.',
-          data: {
-            game_completed: true,
-            total_questions: game.total_questions,
-            questions_answered: game.current_question,
-          },
-        };
-      }
-
-      // Select random question
-      const randomQuestion =
-        questions[Math.floor(Math.random() * questions.length)];
-
-      // Update current question number
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          current_question: game.current_question + 1,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Question retrieved successfully',
-        data: {
-          question: {
-            id: randomQuestion.id,
-            text: randomQuestion.text,
-            points: randomQuestion.points,
-            time_limit: randomQuestion.time,
-            file_url: randomQuestion.file_url,
-            category: gameSelection.category,
-            difficulty: gameSelection.difficulty,
-            answers: randomQuestion.answers,
-          },
-          game_progress: {
-            current_question: game.current_question + 1,
-            total_questions: game.total_questions,
-            remaining_questions:
-              game.total_questions - (game.current_question + 1),
-          },
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            score: player.score,
-          })),
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting question: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Answer question in competitive game
-   */
-
-  async answerCompetitiveQuestion(
-    gameId: string,
-    questionId: string,
-    playerId: string,
-    answerId?: string,
-    answerText?: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: { orderBy: { player_order: 'asc' } },
-          rooms: true,
-        },
-      });
-
-      if (!game) {
-        return { success: false, message: 'Game not found', statusCode: 404 };
-      }
-
-      const latestGameQuestion = await this.prisma.gameQuestion.findFirst({
-        where: {
-          game_id: gameId,
-        },
-        orderBy: {
-          created_at: 'desc',
-        },
-      });
-
-      if (
-        !latestGameQuestion ||
-        latestGameQuestion.question_id !== questionId
-      ) {
-        return {
-          success: false,
-          message:
-            'The submitted answer is for an incorrect or outdated question.',
-          statusCode: 400,
-        };
-      }
-
-      const isMultiPhoneGame = game.rooms && game.rooms.length > 0;
-      const roomId = isMultiPhoneGame ? game.rooms[0].id : null;
-      const isStealMode = game.current_player_id === null;
-
-      // Authorization Check
-      if (isStealMode) {
-        const answerers = await this.prisma.playerAnswer.findMany({
-          where: { question_id: questionId, game_player: { game_id: gameId } },
-          orderBy: { created_at: 'asc' },
-        });
-        // Added null/undefined check for answerers[0]
-        if (answerers.length > 0) {
-          // console.log(answerers[0].game_player_id);
-        }
-        if (answerers.some((answer) => answer.game_player_id === playerId)) {
-          return {
-            success: false,
-            message:
-              'You have already attempted to answer this question and cannot try again.',
-            statusCode: 403,
-          };
-        }
-      } else {
-        if (game.current_player_id !== playerId) {
-          const currentPlayer = game.game_players.find(
-            (p) => p.id === game.current_player_id,
-          );
-          const currentTurnPlayerName =
-            currentPlayer?.player_name || 'the current player';
-          return {
-            success: false,
-            message: `It's not your turn! Waiting for ${currentTurnPlayerName} to answer.`,
-            statusCode: 403,
-          };
-        }
-      }
-
-      const [player, question] = await Promise.all([
-        this.prisma.gamePlayer.findUnique({ where: { id: playerId } }),
-        this.prisma.question.findUnique({
-          where: { id: questionId },
-          include: { answers: true, question_type: true },
-        }),
-      ]);
-
-      if (!player || !question) {
-        return {
-          success: false,
-          message: 'Player or Question not found.',
-          statusCode: 404,
-        };
-      }
-
-      let isCorrect = false;
-      let selectedAnswerIdForDB: string | null = null;
-      const correctAnswer = question.answers.find((a) => a.is_correct);
-
-      if (question.question_type.name === 'Text') {
-        if (answerText === undefined || answerText === null) {
-          return {
-            success: false,
-            message: 'Answer text is required for this question type.',
-            statusCode: 400,
-          };
-        }
-
-        if (correctAnswer) {
-          isCorrect = checkTextAnswer(answerText, correctAnswer.text);
-        }
-        selectedAnswerIdForDB = isCorrect ? correctAnswer.id : null;
-      } else {
-        if (!answerId) {
-          return {
-            success: false,
-            message: 'Answer ID is required for this question type.',
-            statusCode: 400,
-          };
-        }
-        const selectedAnswer = question.answers.find((a) => a.id === answerId);
-        if (!selectedAnswer) {
-          return {
-            success: false,
-            message: 'Invalid answer selected',
-            statusCode: 400,
-          };
-        }
-        isCorrect = selectedAnswer.is_correct;
-        selectedAnswerIdForDB = selectedAnswer.id;
-      }
-
-      const pointsEarned = isCorrect
-        ? isStealMode
-          ? Math.round(question.points / 2)
-          : question.points
-        : 0;
-
-      // Determine if we should increment current_question
-      const shouldIncrementQuestion = isCorrect || (isStealMode && !isCorrect);
-
-      // Perform transaction with conditional current_question increment
-      const transactionOperations: any[] = [
-        this.prisma.playerAnswer.create({
-          data: {
-            game_player_id: playerId,
-            question_id: questionId,
-            answer_id: selectedAnswerIdForDB,
-            isCorrect,
-          },
-        }),
-        this.prisma.gamePlayer.update({
-          where: { id: playerId },
-          data: {
-            score: { increment: pointsEarned },
-            ...(isCorrect
-              ? { correct_answers: { increment: 1 } }
-              : { wrong_answers: { increment: 1 } }),
-          },
-        }),
-      ];
-
-      // if (shouldIncrementQuestion) {
-      //   transactionOperations.push(
-      //     this.prisma.game.update({
-      //       where: { id: gameId },
-      //       data: {
-      //         current_question: { increment: 0 }, 
-      //       },
-      //     }),
-      //   );
-      // }
-
-      await this.prisma.$transaction(transactionOperations);
-
-      // Fetch updated game data to get the latest current_question
-      const updatedGame = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: { orderBy: { player_order: 'asc' } },
-        },
-      });
-
-      if (!updatedGame) {
-        // Add null check for updatedGame
-        throw new InternalServerErrorException('Updated game data not found.');
-      }
-
-      const updatedPlayer = await this.prisma.gamePlayer.findUnique({
-        where: { id: playerId },
-      });
-
-      if (!updatedPlayer) {
-        // Add null check for updatedPlayer
-        throw new InternalServerErrorException(
-          'Updated player data not found.',
-        );
-      }
-
-      const allPlayersHistory = await this.getAllPlayersHistory(
-        updatedGame.game_players,
-      );
-
-      // Check if this is the final question AFTER incrementing
-      const isFinalQuestion =
-        updatedGame.total_questions > 0 &&
-        updatedGame.current_question > updatedGame.total_questions;
-
-      // Game Over logic - if this is the final question, end the game
-      if (isFinalQuestion) {
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: { status: 'COMPLETED', game_phase: 'GAME_OVER' },
-        });
-
-        const gameOverResponse = {
-          success: true,
-          message:
-            'The final question has been answered. The game is now complete!',
-          data: {
-            is_correct: isCorrect,
-            player_score: updatedPlayer.score,
-            next_action: 'GAME_OVER',
-            all_players_history: allPlayersHistory,
-            is_game_over: true,
-            is_steal: isStealMode,
-            points_earned: pointsEarned,
-          },
-        };
-
-        // if (isMultiPhoneGame) {
-        //   this.gatway.server.to(roomId).emit('answerResult', gameOverResponse.data);
-        // }
-        return gameOverResponse;
-      }
-
-      // Rest of your existing logic for non-game-over scenarios
-      let isRoundOver = true;
-      let nextTurnPlayer: any;
-
-      if (isCorrect) {
-        if (isStealMode) {
-          const firstAnswererRecord = await this.prisma.playerAnswer.findFirst({
-            where: {
-              question_id: questionId,
-              game_player: { game_id: gameId },
-            },
-            orderBy: { created_at: 'asc' },
-          });
-
-          // console.log(firstAnswererRecord);
-
-          // const firstPlayer = firstAnswererRecord.game_player_id[0];
-          let originalPlayerIndex = -1;
-          if (firstAnswererRecord) {
-            originalPlayerIndex = updatedGame.game_players.findIndex(
-              (p) => p.id === firstAnswererRecord.game_player_id,
-            );
-          }
-
-          await this.prisma.game.update({
-            where: { id: gameId },
-            data: {
-              game_phase: 'ROUND_COMPLETED',
-              current_player_id: firstAnswererRecord.game_player_id,
-            },
-          });
-
-          // console.log(gamedata);
-
-          if (originalPlayerIndex !== -1) {
-            nextTurnPlayer =
-              updatedGame.game_players[
-              (originalPlayerIndex + 1) % updatedGame.game_players.length
-              ];
-          } else {
-            nextTurnPlayer = updatedGame.game_players[0];
-          }
-        } else {
-          const currentPlayerIndex = updatedGame.game_players.findIndex(
-            (p) => p.id === playerId,
-          );
-          nextTurnPlayer =
-            updatedGame.game_players[
-            (currentPlayerIndex + 1) % updatedGame.game_players.length
-            ];
-        }
-
-        const successResponse = {
-          success: true,
-          message: isStealMode
-            ? `Successful steal by ${player.player_name}! Next turn is for ${nextTurnPlayer.player_name}.`
-            : `Correct answer! Next turn is for ${nextTurnPlayer.player_name}.`,
-          data: {
-            is_correct: true,
-            is_hunt: false,
-            is_steal: isStealMode,
-            points_earned: pointsEarned,
-            player_score: updatedPlayer.score,
-            next_action: 'SELECT_NEW_QUESTION',
-            player_id: playerId,
-            player_name: player.player_name,
-            next_turn_for: {
-              player_id: nextTurnPlayer.id,
-              player_name: nextTurnPlayer.player_name,
-            },
-            all_players_history: allPlayersHistory,
-            is_round_over: isRoundOver,
-          },
-        };
-
-        // complete notification to all players
-        if (isMultiPhoneGame) {
-          const playerUserIds = updatedGame.game_players.map((p) => p.user_id);
-          this.gatway.server.to(playerUserIds).emit('answerResult', successResponse.data);
-        }
-        return successResponse;
-      } else {
-        // isCorrect is false (Answer is incorrect)
-        if (isStealMode) {
-          const firstAnswererRecord = await this.prisma.playerAnswer.findFirst({
-            where: {
-              question_id: questionId,
-              game_player: { game_id: gameId },
-            },
-            orderBy: { created_at: 'asc' },
-          });
-
-          // console.log(firstAnswererRecord.game_player_id);
-
-          let nextPlayerForNewQuestion: any = updatedGame.game_players[0];
-          let originalPlayerIndex = -1;
-
-          if (firstAnswererRecord) {
-            originalPlayerIndex = updatedGame.game_players.findIndex(
-              (p) => p.id === firstAnswererRecord.game_player_id,
-            );
-          }
-
-          if (originalPlayerIndex !== -1) {
-            nextPlayerForNewQuestion =
-              updatedGame.game_players[
-              (originalPlayerIndex + 1) % updatedGame.game_players.length
-              ];
-          }
-
-          await this.prisma.game.update({
-            where: { id: gameId },
-            data: {
-              game_phase: 'ROUND_COMPLETED',
-              current_player_id: firstAnswererRecord.game_player_id,
-            },
-          });
-
-          const stealFailResponse = {
-            success: true,
-            message: 'Incorrect steal attempt. Moving to the next round.',
-            data: {
-              is_correct: false,
-              is_hunt: false,
-              is_steal: true,
-              player_score: updatedPlayer.score,
-              correct_answer: {
-                id: correctAnswer?.id,
-                text: correctAnswer?.text,
-              },
-              next_action: 'SELECT_NEW_QUESTION_FOR_NEXT_PLAYER',
-              next_player_id: nextPlayerForNewQuestion.id,
-              next_player_name: nextPlayerForNewQuestion.player_name,
-              all_players_history: allPlayersHistory,
-              is_round_over: isRoundOver,
-            },
-          };
-
-          // complete notification to all players
-          if (isMultiPhoneGame) {
-            const playerUserIds = updatedGame.game_players.map((p) => p.user_id);
-            this.gatway.server.to(playerUserIds).emit('answerResult', stealFailResponse.data);
-          }
-          return stealFailResponse;
-        } else {
-          // Regular turn, wrong answer - open for steal
-          await this.prisma.game.update({
-            where: { id: gameId },
-            data: { current_player_id: null, game_phase: 'STEAL_MODE_ACTIVE' },
-          });
-
-          const openForStealResponse = {
-            success: true,
-            message: `Wrong answer! The question is now open for anyone to steal.`,
-            data: {
-              is_correct: false,
-              is_hunt: true,
-              player_score: updatedPlayer.score,
-              correct_answer: {
-                id: correctAnswer?.id,
-                text: correctAnswer?.text,
-              },
-              next_action: 'OPEN_FOR_STEAL',
-              current_question: {
-                id: question.id,
-                text: question.text,
-                answers: question.answers.map((a) => ({
-                  id: a.id,
-                  text: a.text,
-                })),
-              },
-              all_players_history: allPlayersHistory,
-            },
-          };
-
-          if (isMultiPhoneGame) {
-            const playerUserIds = updatedGame.game_players.map((p) => p.user_id);
-            this.gatway.server.to(playerUserIds).emit('answerResult', openForStealResponse.data);
-          }
-          return openForStealResponse;
-        }
-      }
-    } catch (error) {
-      return {
-        success: false,
-        message: 'Failed to play the game',
-      };
-    }
-  }
-
-  // Helper method (assuming it exists elsewhere or needs to be added)
-  private async getAllPlayersHistory(gamePlayers: any[]) {
-    const allPlayersHistory = {};
-    for (const p of gamePlayers) {
-      const history = await this.getPlayerPlayHistory(p.id);
-      allPlayersHistory[p.id] = history.map((h) => ({
-        category: h.category_id,
-        difficulty: h.difficulty_id,
-      }));
-    }
-    return allPlayersHistory;
-  }
-
-  private async getPlayerPlayHistory(playerId: string) {
-    const playerAnswers = await this.prisma.playerAnswer.findMany({
-      where: { game_player_id: playerId },
-      select: {
-        question: {
-          select: {
-            category_id: true,
-            difficulty_id: true,
-          },
-        },
-      },
-    });
-
-    return playerAnswers.map((answer) => ({
-      category_id: answer.question.category_id,
-      difficulty_id: answer.question.difficulty_id,
-    }));
-  }
-
-  // timeout steal mode
-  async handleQuestionTimeout(
-    gameId: string,
-    questionId: string,
-    playerId?: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: { game_players: { orderBy: { player_order: 'asc' } } },
-      });
-
-      if (!game) {
-        return { success: false, message: 'Game not found', statusCode: 404 };
-      }
-
-      const isStealModeTimeout = !playerId;
-
-      if (isStealModeTimeout) {
-        const firstAnswerer = await this.prisma.playerAnswer.findFirst({
-          where: {
-            question_id: questionId,
-            game_player: {
-              game_id: gameId,
-            },
-          },
-          orderBy: { created_at: 'asc' },
-        });
-
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            game_phase: 'ROUND_COMPLETED',
-            current_player_id: firstAnswerer.game_player_id,
-          },
-        });
-
-        return {
-          success: true,
-          message: 'Steal time is over! Moving to the next round.',
-          data: {
-            next_action: 'SELECT_NEW_QUESTION_FOR_NEXT_PLAYER',
-            // next_player_id: nextPlayerForNewQuestion.id,
-          },
-        };
-      } else {
-        if (game.current_player_id !== playerId) {
-          return {
-            success: false,
-            message: "It's not this player's turn to time out.",
-            statusCode: 403,
-          };
-        }
-
-        // Timeout player record
-        await this.prisma.$transaction([
-          this.prisma.gamePlayer.update({
-            where: { id: playerId },
-            data: { skipped_answers: { increment: 1 } },
-          }),
-          this.prisma.playerAnswer.create({
-            data: {
-              game_player_id: playerId,
-              question_id: questionId,
-              isCorrect: false,
-            },
-          }),
-          this.prisma.game.update({
-            where: { id: gameId },
-            data: {
-              current_player_id: null,
-              game_phase: 'STEAL_MODE_ON_TIMEOUT',
-            },
-          }),
-        ]);
-
-        return {
-          success: true,
-          message: `Time is up! The question is now open for anyone to steal.`,
-          data: {
-            next_action: 'OPEN_FOR_STEAL',
-            question_id: questionId,
-          },
-        };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        message: 'An unexpected error occurred while handling the timeout.',
-        statusCode: 500,
-      };
-    }
-  }
-
-  /**
-   * Select category/difficulty and start game in one step
-   */
-  async selectSingleQuestionForGame(
-    gameId: string,
-    categoryId: string,
-    difficultyId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            orderBy: { player_order: 'asc' },
-          },
-          game_questions: true,
-          rooms: true,
-          subscription: {
-            include: {
-              subscription_type: true,
-            },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      if (game.game_players.length === 0) {
-        throw new BadRequestException(
-          'No players have been added to this game yet.',
-        );
-      }
-
-      const isFreeGame = !game.subscription;
-
-      if (game.current_question === 0) {
-        let totalQuestionsForGame;
-        const numberOfPlayers = game.game_players.length;
-
-        if (game.mode === 'GRID_STYLE') {
-          totalQuestionsForGame = 36;
-        } else if (
-          game.subscription &&
-          game.subscription.subscription_type.questions > 0
-        ) {
-          totalQuestionsForGame =
-            game.subscription.subscription_type.questions * numberOfPlayers;
-        } else {
-          totalQuestionsForGame = numberOfPlayers;
-        }
-
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: { total_questions: totalQuestionsForGame },
-        });
-        game.total_questions = totalQuestionsForGame;
-      }
-
-      if (
-        game.total_questions > 0 &&
-        game.current_question >= game.total_questions
-      ) {
-        throw new BadRequestException(
-          'The game is complete. No more questions can be played.',
-        );
-      }
-
-      let currentPlayer;
-      const totalPlayers = game.game_players.length;
-
-      if (game.current_player_id === null) {
-        currentPlayer = game.game_players[0];
-      } else {
-        const lastPlayerIndex = game.game_players.findIndex(
-          (p) => p.id === game.current_player_id,
-        );
-        if (lastPlayerIndex === -1) {
-          console.warn(
-            `current_player_id ${game.current_player_id} not found in game_players. Defaulting to first player.`,
-          );
-          currentPlayer = game.game_players[0];
-        } else {
-          const nextPlayerIndex = (lastPlayerIndex + 1) % totalPlayers;
-          currentPlayer = game.game_players[nextPlayerIndex];
-        }
-      }
-
-      if (!currentPlayer) {
-        throw new InternalServerErrorException(
-          'Current player could not be determined.',
-        );
-      }
-
-      const category = await this.prisma.category.findUnique({
-        where: { id: categoryId },
-        select: { same_category_selection: true },
-      });
-
-      if (!category) {
-        throw new NotFoundException('Category not found.');
-      }
-
-      // console.log('Category data:', category);
-      const maxCategorySelections = category.same_category_selection ?? 5;
-      // console.log('max category selection', maxCategorySelections);
-
-      const selectedQuestionsCountInThisCategoryByPlayer =
-        await this.prisma.gameQuestion.count({
-          where: {
-            game_id: gameId,
-            game_player_id: currentPlayer.id,
-            question: {
-              category_id: categoryId,
-            },
-          },
-        });
-
-      if (
-        selectedQuestionsCountInThisCategoryByPlayer >= maxCategorySelections
-      ) {
-        throw new BadRequestException(
-          `${currentPlayer.player_name} has already selected ${maxCategorySelections} questions from this category for this game. Please select another category.`,
-        );
-      }
-
-      const playerUserIds = game.game_players
-        .map((gp) => gp.user_id)
-        .filter((id) => id !== null) as string[];
-
-      if (game.host_id && !playerUserIds.includes(game.host_id)) {
-        playerUserIds.push(game.host_id);
-      }
-
-      let previouslyPlayedQuestionIds: string[] = [];
-
-      const currentUsedQuestionIds = game.game_questions.map(
-        (q) => q.question_id,
-      );
-      previouslyPlayedQuestionIds = previouslyPlayedQuestionIds.concat(
-        currentUsedQuestionIds,
-      );
-
-      if (playerUserIds.length > 0) {
-        const gamesPlayedByUsers = await this.prisma.gamePlayer.findMany({
-          where: {
-            user_id: { in: playerUserIds },
-          },
-          select: {
-            game_id: true,
-          },
-        });
-        const gameIds = gamesPlayedByUsers.map((gp) => gp.game_id);
-
-        if (gameIds.length > 0) {
-          const pastGameQuestions = await this.prisma.gameQuestion.findMany({
-            where: {
-              game_id: { in: gameIds },
-            },
-            select: {
-              question_id: true,
-            },
-          });
-          previouslyPlayedQuestionIds = previouslyPlayedQuestionIds.concat(
-            pastGameQuestions.map((gq) => gq.question_id),
-          );
-        }
-      }
-
-      previouslyPlayedQuestionIds = Array.from(
-        new Set(previouslyPlayedQuestionIds),
-      );
-
-      const overRepeatedQuestionIds: string[] = [];
-
-      const baseWhereCondition: any = {
-        category_id: categoryId,
-        difficulty_id: difficultyId,
-      };
-
-      if (game.mode === 'GRID_STYLE') {
-        const textQuestionType = await this.prisma.questionType.findFirst({
-          where: {
-            name: 'Text',
-            language_id: game.language_id,
-          },
-          select: { id: true },
-        });
-
-        if (!textQuestionType) {
-          throw new InternalServerErrorException(
-            `Question type "Text" not found for language ID: ${game.language_id}`,
-          );
-        }
-        baseWhereCondition.question_type_id = textQuestionType.id;
-      }
-
-      // if (isFreeGame) {
-      //   baseWhereCondition.free_bundle = true;
-      // }
-
-      const potentialQuestions = await this.prisma.question.findMany({
-        where: baseWhereCondition,
-        select: {
-          id: true,
-          repeat_count: true,
-        },
-      });
-
-      const questionPlayCounts = await this.prisma.gameQuestion.groupBy({
-        by: ['question_id'],
-        where: {
-          question_id: { in: potentialQuestions.map((q) => q.id) },
-        },
-        _count: {
-          question_id: true,
-        },
-      });
-
-      const playCountMap = new Map<string, number>();
-      questionPlayCounts.forEach((item) => {
-        playCountMap.set(item.question_id, item._count.question_id);
-      });
-
-      for (const q of potentialQuestions) {
-        const currentPlayCount = playCountMap.get(q.id) ?? 0;
-        const maxRepeatCount = q.repeat_count ?? 5;
-
-        if (currentPlayCount >= maxRepeatCount) {
-          overRepeatedQuestionIds.push(q.id);
-        }
-      }
-
-      const whereCondition: any = {
-        category_id: categoryId,
-        difficulty_id: difficultyId,
-        id: {
-          notIn: [...previouslyPlayedQuestionIds, ...overRepeatedQuestionIds],
-        },
-      };
-
-      if (game.mode === 'GRID_STYLE') {
-        const textQuestionType = await this.prisma.questionType.findFirst({
-          where: {
-            name: 'Text',
-            language_id: game.language_id,
-          },
-          select: { id: true },
-        });
-
-        if (!textQuestionType) {
-          throw new InternalServerErrorException(
-            `Question type "Text" not found for language ID: ${game.language_id}`,
-          );
-        }
-        whereCondition.question_type_id = textQuestionType.id;
-      }
-
-      // if (isFreeGame) {
-      //   whereCondition.free_bundle = true;
-      // }
-
-      const allQuestions = await this.prisma.question.findMany({
-        where: whereCondition,
-        include: {
-          answers: {
-            select: { id: true, text: true, file_url: true, is_correct: true },
-          },
-          question_type: {
-            select: { id: true, name: true },
-          },
-        },
-      });
-
-      if (!allQuestions.length) {
-        if (isFreeGame) {
-          throw new BadRequestException(
-            'No new free questions available for selected category and difficulty (players may have played all, or reached global repeat limit)',
-          );
-        } else {
-          throw new BadRequestException(
-            'No new questions available for selected category and difficulty (players may have played all, or reached global repeat limit)',
-          );
-        }
-      }
-
-      // previouslyPlayedQuestionIds and overRepeatedQuestionIds
-      // const availableQuestions = allQuestions.filter(
-      //   (q) => !previouslyPlayedQuestionIds.includes(q.id),
-      // );
-
-      const availableQuestions = allQuestions;
-
-      if (!availableQuestions.length) {
-        if (isFreeGame) {
-          throw new BadRequestException(
-            'All available free questions for this category/difficulty have been used in this game or reached global repeat limit',
-          );
-        } else {
-          throw new BadRequestException(
-            'All available questions for this category/difficulty have been used in this game or reached global repeat limit',
-          );
-        }
-      }
-
-      const selectedQuestion =
-        availableQuestions[
-        Math.floor(Math.random() * availableQuestions.length)
-        ];
-
-      await this.prisma.$transaction([
-        this.prisma.gameQuestion.create({
-          data: {
-            game_id: gameId,
-            question_id: selectedQuestion.id,
-            game_player_id: currentPlayer.id,
-          },
-        }),
-        this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            game_phase: 'QUESTION_SELECTED',
-            current_player_id: currentPlayer.id,
-            current_question: game.current_question + 1,
-            question_asked_at: new Date(),
-          },
-        }),
-      ]);
-
-      const correctAnswer = selectedQuestion.answers.find(
-        (a) => a.is_correct === true,
-      );
-
-      let fileUrl = null;
-      if (selectedQuestion.file_url) {
-        const file_url = SojebStorage.url(
-          appConfig().storageUrl.question + selectedQuestion.file_url,
-        );
-
-        fileUrl = file_url;
-      }
-
-      const formattedQuestion = {
-        id: selectedQuestion.id,
-        text: selectedQuestion.text,
-        points: selectedQuestion.points,
-
-        time_limit:
-          game.rooms &&
-            game.rooms.length > 0 &&
-            game.rooms[0].question_time
-            ? game.rooms[0].question_time
-            : selectedQuestion.time,
-        file_url: fileUrl,
-        question_type: selectedQuestion.question_type,
-        answers: selectedQuestion.answers.map((a) => ({
-          id: a.id,
-          text: a.text,
-          file_url: a.file_url,
-        })),
-        correct_answer: {
-          id: correctAnswer?.id,
-          text: correctAnswer?.text,
-        },
-      };
-
-      const responseData = {
-        question: formattedQuestion,
-        currentPlayer: {
-          id: currentPlayer.id,
-          name: currentPlayer.player_name,
-          player_order: currentPlayer.player_order,
-        },
-        game_info: {
-          total_question_number: game.total_questions,
-          current_question_number: game.current_question + 1,
-          remainig_qustion_number:
-            game.total_questions - game.current_question - 1,
-        },
-      };
-
-      const isMultiPhoneGame = game.rooms && game.rooms.length > 0;
-
-      if (isMultiPhoneGame) {
-
-        this.gatway.server.to(currentPlayer.user_id).emit('newQuestionReady', responseData);
-      }
-
-
-
-      return {
-        success: true,
-        message: `Question selected for ${currentPlayer.player_name}. It's their turn to answer.`,
-        data: responseData,
-      };
-    } catch (error) {
-      if (
-        error instanceof BadRequestException ||
-        error instanceof NotFoundException ||
-        error instanceof InternalServerErrorException
-      ) {
-        throw error;
-      }
-      throw new InternalServerErrorException(
-        'An unexpected error occurred while selecting a question.',
-      );
-    }
-  }
-
-  //need to exchage here from game service
-  async countPlayerCategorySelections(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        select: {
-          game_players: {
-            orderBy: { player_order: 'asc' },
-            select: { id: true, player_name: true },
-          },
-          game_questions: {
-            orderBy: { created_at: 'asc' },
-            select: {
-              question: {
-                select: {
-                  category_id: true,
-                  category: {
-                    select: { name: true },
-                  },
-                },
-              },
-            },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found.');
-      }
-
-      const players = game.game_players;
-      const totalPlayers = players.length;
-
-      if (totalPlayers === 0) {
-        return {
-          success: true,
-          message: 'No players in this game.',
-          data: [],
-        };
-      }
-
-      const selectionCounts: {
-        [playerName: string]: { [categoryName: string]: number };
-      } = {};
-      players.forEach((p) => (selectionCounts[p.player_name] = {}));
-
-      //Iterate through the played questions (turns) and map them to players
-      game.game_questions.forEach((gq, index) => {
-        const player = players[index % totalPlayers];
-
-        if (!gq.question || !gq.question.category) return;
-
-        const categoryName = gq.question.category.name;
-        const playerName = player.player_name;
-
-        if (selectionCounts[playerName][categoryName]) {
-          selectionCounts[playerName][categoryName]++;
-        } else {
-          selectionCounts[playerName][categoryName] = 1;
-        }
-      });
-
-      //Format the result into a clean array structure
-      const formattedResult = Object.keys(selectionCounts).map((playerName) => {
-        const player = players.find((p) => p.player_name === playerName);
-        const categories = selectionCounts[playerName];
-        const categoryList = Object.keys(categories).map((categoryName) => ({
-          category_name: categoryName,
-          count: categories[categoryName],
-        }));
-
-        const totalSelections = categoryList.reduce(
-          (sum, item) => sum + item.count,
-          0,
-        );
-
-        return {
-          player_id: player?.id,
-          player_name: playerName,
-          total_selections: totalSelections,
-          category_counts: categoryList,
-        };
-      });
-
-      return {
-        success: true,
-        message: 'Player category selection counts retrieved successfully.',
-        data: formattedResult,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: 'Failed to fatch category usage list',
-      };
-    }
-  }
-
-  /**
-   * Get player IDs for a game (helper method for debugging)
-   */
-  async getGamePlayerIds(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { player_order: 'asc' },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      return {
-        success: true,
-        message: 'Player IDs retrieved successfully',
-        data: {
-          game_id: gameId,
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            player_order: player.player_order,
-            is_guest: player.is_guest,
-          })),
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting player IDs: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Get competitive game status
-   */
-  async getCompetitiveGameStatus(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { score: 'desc' },
-          },
-        },
-      });
-
-      if (!game) {
-        return {
-          success: true,
-          message: 'Game not found',
-          statusCode: 403,
-        };
-      }
-
-      return {
-        success: true,
-        message: 'Competitive game status retrieved successfully',
-        data: {
-          game: {
-            id: game.id,
-            mode: game.mode,
-            status: game.status,
-            phase: game.game_phase,
-            current_question: game.current_question,
-            total_questions: game.total_questions,
-          },
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            score: player.score,
-            correct_answers: player.correct_answers,
-            wrong_answers: player.wrong_answers,
-            player_order: player.player_order,
-          })),
-          game_progress: {
-            questions_answered: game.current_question,
-            total_questions: game.total_questions,
-            remaining_questions: game.total_questions - game.current_question,
-            progress_percentage:
-              game.total_questions > 0
-                ? Math.round(
-                  (game.current_question / game.total_questions) * 100,
-                )
-                : 0,
-          },
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting competitive game status: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  // ===== HOST-CONTROLLED GAME METHODS =====
-
-  /**
-   * Host starts the competitive game (authenticated user controls the game)
-   */
-  async hostStartCompetitiveGame(gameId: string, hostUserId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { player_order: 'asc' },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify host is the game host
-      if (game.host_id !== hostUserId) {
-        throw new ForbiddenException('Only the game host can start the game');
-      }
-
-      if (game.game_players.length < 2) {
-        throw new BadRequestException(
-          'Need at least 2 players to start competitive game',
-        );
-      }
-
-      if (game.game_players.length > 4) {
-        throw new BadRequestException(
-          'Competitive Quick Game supports maximum 4 players',
-        );
-      }
-
-      // Set game to competitive mode with host control
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          status: 'in_progress',
-          game_phase: 'category_selection',
-          current_turn: 0,
-          current_question: 0,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Host-controlled competitive game started successfully',
-        data: {
-          game_id: gameId,
-          host_id: hostUserId,
-          phase: 'category_selection',
-          total_players: game.game_players.length,
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            is_guest: player.is_guest,
-            player_order: player.player_order,
-          })),
-          game_mode: 'host_controlled_competitive',
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error starting host-controlled game: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Host selects category and difficulty for the game
-   */
-  async hostSelectCategory(
-    gameId: string,
-    categoryId: string,
-    difficultyId: string,
-    hostUserId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: true,
-          host: true,
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify host is the game host
-      if (game.host_id !== hostUserId) {
-        throw new ForbiddenException('Only the game host can select category');
-      }
-
-      // Verify category and difficulty exist
-      const category = await this.prisma.category.findUnique({
-        where: { id: categoryId },
-      });
-
-      const difficulty = await this.prisma.difficulty.findUnique({
-        where: { id: difficultyId },
-      });
-
-      if (!category || !difficulty) {
-        throw new BadRequestException('Invalid category or difficulty');
-      }
-
-      // Get questions count for this category and difficulty
-      const questionsCount = await this.prisma.question.count({
-        where: {
-          category_id: categoryId,
-          difficulty_id: difficultyId,
-        },
-      });
-
-      if (questionsCount === 0) {
-        throw new BadRequestException(
-          'No questions available for selected category and difficulty',
-        );
-      }
-
-      // Check subscription limits for questions
-      const hostSubscription = await this.prisma.subscription.findFirst({
-        where: {
-          user_id: game.host_id,
-          status: 'active',
-        },
-        include: {
-          subscription_type: true,
-        },
-      });
-
-      let availableQuestions = questionsCount;
-      if (hostSubscription) {
-        // Check if user has question limits
-        if (hostSubscription.subscription_type.questions !== -1) {
-          availableQuestions = Math.min(
-            questionsCount,
-            hostSubscription.subscription_type.questions,
-          );
-        }
-      } else {
-        // Free game - limit to 10 questions
-        availableQuestions = Math.min(questionsCount, 10);
-      }
-
-      // Update game with category selection
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          game_phase: 'question',
-          total_questions: availableQuestions,
-          current_question: 0,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Host selected category and difficulty successfully',
-        data: {
-          category: category,
-          difficulty: difficulty,
-          total_questions: availableQuestions,
-          available_questions: questionsCount,
-          phase: 'question',
-          game_mode: 'host_controlled_competitive',
-          host_id: hostUserId,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error selecting category: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Host gets next question for the game
-   */
-  async hostGetQuestion(gameId: string, hostUserId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify host is the game host
-      if (game.host_id !== hostUserId) {
-        throw new ForbiddenException('Only the game host can get questions');
-      }
-
-      if (game.game_phase !== 'question') {
-        throw new BadRequestException('Game is not in question phase');
-      }
-
-      if (game.current_question >= game.total_questions) {
-        // Game completed
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            game_phase: 'completed',
-            status: 'completed',
-          },
-        });
-
-        return {
-          success: true,
-          message: 'Game completed! All questions answered.',
-          data: {
-            game_completed: true,
-            total_questions: game.total_questions,
-            questions_answered: game.current_question,
-          },
-        };
-      }
-
-      // Get the latest game selection to know category and difficulty
-      const gameSelection = await this.prisma.gameSelection.findFirst({
-        where: {
-          game_id: gameId,
-        },
-        include: {
-          category: true,
-          difficulty: true,
-        },
-        orderBy: { created_at: 'desc' },
-      });
-
-      if (!gameSelection) {
-        throw new BadRequestException(
-          'No category/difficulty selected for this game',
-        );
-      }
-
-      // Get questions that haven't been answered yet
-      const answeredQuestionIds = await this.prisma.playerAnswer.findMany({
-        where: {
-          game_player: {
-            game_id: gameId,
-          },
-        },
-        select: {
-          question_id: true,
-        },
-      });
-
-      const answeredIds = answeredQuestionIds.map((a) => a.question_id);
-
-      // Get a random unanswered question
-      const questions = await this.prisma.question.findMany({
-        where: {
-          category_id: gameSelection.category_id,
-          difficulty_id: gameSelection.difficulty_id,
-          id: { notIn: answeredIds },
-        },
-        include: {
-          answers: {
-            select: {
-              id: true,
-              text: true,
-              file_url: true,
-            },
-          },
-        },
-      });
-
-      if (questions.length === 0) {
-        // No more questions available
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            game_phase: 'completed',
-            status: 'completed',
-          },
-        });
-
-        return {
-          success: true,
-          message: 'Game completed! All questions answered.',
-          data: {
-            game_completed: true,
-            total_questions: game.total_questions,
-            questions_answered: game.current_question,
-          },
-        };
-      }
-
-      // Select random question
-      const randomQuestion =
-        questions[Math.floor(Math.random() * questions.length)];
-
-      // Update current question number
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          current_question: game.current_question + 1,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Question retrieved successfully',
-        data: {
-          question: {
-            id: randomQuestion.id,
-            text: randomQuestion.text,
-            points: randomQuestion.points,
-            time_limit: randomQuestion.time,
-            file_url: randomQuestion.file_url,
-            category: gameSelection.category,
-            difficulty: gameSelection.difficulty,
-            answers: randomQuestion.answers,
-          },
-          game_progress: {
-            current_question: game.current_question + 1,
-            total_questions: game.total_questions,
-            remaining_questions:
-              game.total_questions - (game.current_question + 1),
-          },
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            score: player.score,
-            is_guest: player.is_guest,
-          })),
-          host_id: hostUserId,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting question: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Host submits answer on behalf of a guest player
-   */
-  async hostAnswerQuestion(
-    gameId: string,
-    questionId: string,
-    answerId: string,
-    playerId: string,
-    hostUserId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify host is the game host
-      if (game.host_id !== hostUserId) {
-        throw new ForbiddenException('Only the game host can submit answers');
-      }
-
-      const player = game.game_players.find((p) => p.id === playerId);
-      if (!player) {
-        const availablePlayerIds = game.game_players.map((p) => p.id);
-        const availablePlayerNames = game.game_players.map(
-          (p) => p.player_name || p.user?.name || 'Unknown',
-        );
-
-        throw new NotFoundException(
-          `Player not found in this game. ` +
-          `Looking for player ID: ${playerId}. ` +
-          `Available players: ${availablePlayerIds.join(', ')} ` +
-          `(${availablePlayerNames.join(', ')})`,
-        );
-      }
-
-      // Get question with correct answer
-      const question = await this.prisma.question.findUnique({
-        where: { id: questionId },
-        include: { answers: true },
-      });
-
-      if (!question) {
-        throw new NotFoundException('Question not found');
-      }
-
-      const selectedAnswer = question.answers.find((a) => a.id === answerId);
-      if (!selectedAnswer) {
-        throw new BadRequestException('Invalid answer selected');
-      }
-
-      // Check if already answered by this player
-      const existingAnswer = await this.prisma.playerAnswer.findFirst({
-        where: {
-          game_player_id: playerId,
-          question_id: questionId,
-        },
-      });
-
-      if (existingAnswer) {
-        throw new BadRequestException(
-          'Question already answered by this player',
-        );
-      }
-
-      // Create player answer
-      await this.prisma.playerAnswer.create({
-        data: {
-          game_player_id: playerId,
-          question_id: questionId,
-          answer_id: answerId,
-          isCorrect: selectedAnswer.is_correct,
-        },
-      });
-
-      const isCorrect = selectedAnswer.is_correct;
-      const pointsEarned = isCorrect ? question.points : 0;
-
-      // Update player stats
-      const updatedPlayer = await this.prisma.gamePlayer.update({
-        where: { id: playerId },
-        data: {
-          score: { increment: pointsEarned },
-          ...(isCorrect
-            ? { correct_answers: { increment: 1 } }
-            : { wrong_answers: { increment: 1 } }),
-        },
-      });
-
-      return {
-        success: true,
-        message: isCorrect ? 'Correct answer!' : 'Wrong answer!',
-        data: {
-          is_correct: isCorrect,
-          points_earned: pointsEarned,
-          player_score: updatedPlayer.score,
-          correct_answer: isCorrect
-            ? null
-            : question.answers.find((a) => a.is_correct),
-          player_id: playerId,
-          player_name: player.player_name || player.user?.name || 'Unknown',
-          host_id: hostUserId,
-          game_continues: true,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error answering question: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * Host skips a question
-   */
-  async hostSkipQuestion(
-    gameId: string,
-    questionId: string,
-    hostUserId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify host is the game host
-      if (game.host_id !== hostUserId) {
-        throw new ForbiddenException('Only the game host can skip questions');
-      }
-
-      // Update current question number (skip this question)
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          current_question: game.current_question + 1,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Question skipped successfully',
-        data: {
-          question_id: questionId,
-          host_id: hostUserId,
-          game_continues: true,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error skipping question: ${error.message}`,
-        data: null,
-      };
-    }
+  // answers as players get them for the format of the question: shuffled,
+  // behind tokens, without correctness
+  private presentAnswers(
+    gameId: string,
+    question: GradableQuestion<GradableAnswer>,
+  ) {
+    return AnswerGradingHelper.present(
+      gameId,
+      question,
+      appConfig().game.answer_tokens.secret,
+    );
   }
 
   /**
-   * Host gets game status
+   * Player who takes the next turn. Team games rotate by team, and the
+   * chosen team's turn counter is moved on unless `advance` is false.
    */
-  async hostGetGameStatus(gameId: string, hostUserId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { score: 'desc' },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Verify host is the game host
-      if (game.host_id !== hostUserId) {
-        throw new ForbiddenException('Only the game host can view game status');
-      }
+  private async resolveNextPlayer<P extends TeamMember>(
+    gameId: string,
+    players: P[],
+    currentPlayerId: string | null,
+    advance = true,
+  ) {
+    const teams = await this.prisma.gameTeam.findMany({
+      where: { game_id: gameId },
+    });
+    const next = TeamHelper.nextPlayer(players, teams, currentPlayerId);
 
-      return {
-        success: true,
-        message: 'Host game status retrieved successfully',
-        data: {
-          game: {
-            id: game.id,
-            mode: game.mode,
-            status: game.status,
-            phase: game.game_phase,
-            current_question: game.current_question,
-            total_questions: game.total_questions,
-          },
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            score: player.score,
-            correct_answers: player.correct_answers,
-            wrong_answers: player.wrong_answers,
-            player_order: player.player_order,
-            is_guest: player.is_guest,
-          })),
-          game_progress: {
-            questions_answered: game.current_question,
-            total_questions: game.total_questions,
-            remaining_questions: game.total_questions - game.current_question,
-            progress_percentage:
-              game.total_questions > 0
-                ? Math.round(
-                  (game.current_question / game.total_questions) * 100,
-                )
-                : 0,
-          },
-          host_id: hostUserId,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting host game status: ${error.message}`,
-        data: null,
-      };
+    if (advance && next.team) {
+      await this.prisma.gameTeam.update({
+        where: { id: next.team.id },
+        data: { turns_taken: { increment: 1 } },
+      });
     }
-  }
-
-  // ===== MODIFIED GAME FLOW METHODS =====
 
-  /**
-   * Add players only (don't start game)
-   */
-  // async addPlayersOnly(gameId: string, playerNames: string[]) {
-  //   try {
-  //     // Use existing addMultipleQuickGamePlayers method but don't start game
-  //     return await this.addMultipleQuickGamePlayers(gameId, playerNames, userId);
-  //   } catch (error) {
-  //     return {
-  //       success: false,
-  //       message: `Error adding players: ${error.message}`,
-  //       data: null,
-  //     };
-  //   }
-  // }
+    return next;
+  }
 
   /**
-   * Player selects their own category and difficulty on their turn
+   * Take the game's skip penalty from the player and their team. A score
+   * never goes below zero because of a skip.
    */
-  async playerSelectCategory(
+  private async applySkipPenalty(
     gameId: string,
-    categoryId: string,
-    difficultyId: string,
+    player: { id: string; score: number },
+    client: Prisma.TransactionClient = this.prisma,
   ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      const currentPlayer = game.game_players.find(
-        (p) => p.id === game.current_player_id,
-      );
-      if (!currentPlayer) {
-        throw new NotFoundException('Current player not found');
-      }
-
-      // Verify category and difficulty exist
-      const category = await this.prisma.category.findUnique({
-        where: { id: categoryId },
-      });
-
-      const difficulty = await this.prisma.difficulty.findUnique({
-        where: { id: difficultyId },
-      });
+    const rules = await this.gameSettings.forGame(gameId);
+    const penalty = Math.min(rules.skip_penalty, Math.max(player.score, 0));
+    if (penalty === 0) {
+      return 0;
+    }
 
-      if (!category || !difficulty) {
-        throw new BadRequestException('Invalid category or difficulty');
-      }
+    await client.gamePlayer.update({
+      where: { id: player.id },
+      data: { score: { decrement: penalty } },
+    });
+    await client.gameTeam.updateMany({
+      where: { players: { some: { id: player.id } } },
+      data: { score: { decrement: penalty } },
+    });
 
-      // Get questions count for this category and difficulty
-      const questionsCount = await this.prisma.question.count({
-        where: {
-          category_id: categoryId,
-          difficulty_id: difficultyId,
-        },
-      });
+    return penalty;
+  }
 
-      if (questionsCount === 0) {
-        throw new BadRequestException(
-          'No questions available for selected category and difficulty',
-        );
-      }
+  /**
+   * Rank the teams of a finished game; every member gets the team's rank
+   */
+  async finalizeTeamRanks(gameId: string) {
+    const teams = await this.prisma.gameTeam.findMany({
+      where: { game_id: gameId },
+    });
 
-      // Create game selection record for this player
-      await this.prisma.gameSelection.create({
-        data: {
-          game_id: gameId,
-          player_id: currentPlayer.id,
-          category_id: categoryId,
-          difficulty_id: difficultyId,
-          points: difficulty.points || 0,
-        },
-      });
+    await this.prisma.$transaction(
+      TeamHelper.rankTeams(teams).flatMap((team) => [
+        this.prisma.gameTeam.update({
+          where: { id: team.id },
+          data: { final_rank: team.final_rank },
+        }),
+        this.prisma.gamePlayer.updateMany({
+          where: { team_id: team.id },
+          data: { final_rank: team.final_rank },
+        }),
+      ]),
+    );
+  }
 
-      return {
-        success: true,
-        message: 'Category and difficulty selected for current player',
-        data: {
-          category: category,
-          difficulty: difficulty,
-          available_questions: questionsCount,
-          current_player: {
-            id: currentPlayer.id,
-            name:
-              currentPlayer.player_name ||
-              currentPlayer.user?.name ||
-              'Unknown',
-            player_order: currentPlayer.player_order,
+  /**
+   * Teams ranked by their shared score, with each member's contribution
+   */
+  async teamStandings(gameId: string) {
+    const teams = await this.prisma.gameTeam.findMany({
+      where: { game_id: gameId },
+      include: {
+        players: {
+          include: {
+            user: { select: { id: true, name: true, avatar: true } },
           },
+          orderBy: { player_order: 'asc' },
         },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error selecting category: ${error.message}`,
-        data: null,
-      };
-    }
+      },
+      orderBy: { team_order: 'asc' },
+    });
+
+    return TeamHelper.rankTeams(teams).map((team) => ({
+      id: team.id,
+      name: team.name,
+      color: team.color,
+      position: team.final_rank,
+      team_order: team.team_order,
+      captain_id: team.captain_id,
+      score: team.score,
+      correct_answers: team.correct_answers,
+      wrong_answers: team.wrong_answers,
+      steals: team.steals,
+      members: TeamHelper.contributions(
+        team.score,
+        team.players.map((player) => ({
+          id: player.id,
+          player_name: player.player_name || player.user?.name,
+          user: player.user,
+          is_captain: player.id === team.captain_id,
+          score: player.score,
+          correct_answers: player.correct_answers,
+          wrong_answers: player.wrong_answers,
+        })),
+      ),
+    }));
   }
 
-  /**
-   * Get question for current player (based on their category selection)
-   */
-  async getPlayerQuestion(gameId: string) {
+  //need to exchage here from game service
+  async countPlayerCategorySelections(gameId: string) {
     try {
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
-        include: {
+        select: {
           game_players: {
-            include: { user: true },
+            orderBy: { player_order: 'asc' },
+            select: { id: true, player_name: true },
           },
-          game_selections: {
-            orderBy: { created_at: 'desc' },
-            take: 1,
-            include: {
-              category: true,
-              difficulty: true,
+          game_questions: {
+            orderBy: { created_at: 'asc' },
+            select: {
+              question: {
+                select: {
+                  category_id: true,
+                  category: {
+                    select: { name: true },
+                  },
+                },
+              },
             },
           },
         },
       });
 
       if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      if (!game.game_selections.length) {
-        throw new BadRequestException(
-          'No category/difficulty selected for this game. Please select category and difficulty first.',
-        );
+        throw new NotFoundException('Game not found.');
       }
 
-      const gameSelection = game.game_selections[0];
-
-      // Get all questions from the selected category and difficulty
-      const allQuestions = await this.prisma.question.findMany({
-        where: {
-          category_id: gameSelection.category_id,
-          difficulty_id: gameSelection.difficulty_id,
-        },
-        include: {
-          answers: {
-            select: {
-              id: true,
-              text: true,
-              file_url: true,
-            },
-          },
-        },
-      });
+      const players = game.game_players;
+      const totalPlayers = players.length;
 
-      if (allQuestions.length === 0) {
+      if (totalPlayers === 0) {
         return {
           success: true,
-          message: 'No questions available for this category and difficulty',
-          data: {
-            no_questions_available: true,
-          },
+          message: 'No players in this game.',
+          data: [],
         };
       }
 
-      // Get a random question from the selected category and difficulty
-      const randomIndex = Math.floor(Math.random() * allQuestions.length);
-      const currentQuestion = allQuestions[randomIndex];
-
-      return {
-        success: true,
-        message: 'Question retrieved successfully',
-        data: {
-          question: {
-            id: currentQuestion.id,
-            text: currentQuestion.text,
-            points: currentQuestion.points,
-            time_limit: currentQuestion.time,
-            file_url: currentQuestion.file_url,
-            category: gameSelection.category,
-            difficulty: gameSelection.difficulty,
-            answers: currentQuestion.answers,
-          },
-          game_info: {
-            category: gameSelection.category.name,
-            difficulty: gameSelection.difficulty.name,
-            points: gameSelection.points,
-          },
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting question: ${error.message}`,
-        data: null,
-      };
-    }
-  }
+      const selectionCounts: {
+        [playerName: string]: { [categoryName: string]: number };
+      } = {};
+      players.forEach((p) => (selectionCounts[p.player_name] = {}));
 
-  /**
-   * Player answers question
-   */
-  async playerAnswerQuestion(
-    gameId: string,
-    questionId: string,
-    answerId: string,
-    playerId: string,
-  ) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-          },
-        },
-      });
+      //Iterate through the played questions (turns) and map them to players
+      game.game_questions.forEach((gq, index) => {
+        const player = players[index % totalPlayers];
 
-      if (!game) {
-        return 'Game not found';
-      }
+        if (!gq.question || !gq.question.category) return;
 
-      // Find the player who is answering (not necessarily current player)
-      const answeringPlayer = game.game_players.find((p) => p.id === playerId);
-      if (!answeringPlayer) {
-        throw new NotFoundException('Player not found in this game');
-      }
+        const categoryName = gq.question.category.name;
+        const playerName = player.player_name;
 
-      // Get question with correct answer
-      const question = await this.prisma.question.findUnique({
-        where: { id: questionId },
-        include: { answers: true },
+        if (selectionCounts[playerName][categoryName]) {
+          selectionCounts[playerName][categoryName]++;
+        } else {
+          selectionCounts[playerName][categoryName] = 1;
+        }
       });
 
-      if (!question) {
-        throw new NotFoundException('Question not found');
-      }
-
-      const selectedAnswer = question.answers.find((a) => a.id === answerId);
-      if (!selectedAnswer) {
-        throw new BadRequestException('Invalid answer selected');
-      }
-
-      // Check if already answered by this player
-      const existingAnswer = await this.prisma.playerAnswer.findFirst({
-        where: {
-          game_player_id: answeringPlayer.id,
-          question_id: questionId,
-        },
-      });
+      //Format the result into a clean array structure
+      const formattedResult = Object.keys(selectionCounts).map((playerName) => {
+        const player = players.find((p) => p.player_name === playerName);
+        const categories = selectionCounts[playerName];
+        const categoryList = Object.keys(categories).map((categoryName) => ({
+          category_name: categoryName,
+          count: categories[categoryName],
+        }));
 
-      if (existingAnswer) {
-        throw new BadRequestException(
-          'Question already answered by this player',
+        const totalSelections = categoryList.reduce(
+          (sum, item) => sum + item.count,
+          0,
         );
-      }
-
-      // Create player answer
-      await this.prisma.playerAnswer.create({
-        data: {
-          game_player_id: answeringPlayer.id,
-          question_id: questionId,
-          answer_id: answerId,
-          isCorrect: selectedAnswer.is_correct,
-        },
-      });
-
-      const isCorrect = selectedAnswer.is_correct;
-      const pointsEarned = isCorrect ? question.points : 0;
 
-      // Update player stats
-      const updatedPlayer = await this.prisma.gamePlayer.update({
-        where: { id: answeringPlayer.id },
-        data: {
-          score: { increment: pointsEarned },
-          ...(isCorrect
-            ? { correct_answers: { increment: 1 } }
-            : { wrong_answers: { increment: 1 } }),
-        },
+        return {
+          player_id: player?.id,
+          player_name: playerName,
+          total_selections: totalSelections,
+          category_counts: categoryList,
+        };
       });
 
-      // If correct answer, move to next question. If wrong, question can be stolen
-      if (isCorrect) {
-        // Just increment the question counter, don't change the game state
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            current_question: { increment: 1 },
-          },
-        });
-      }
-
       return {
         success: true,
-        message: isCorrect ? 'Correct answer!' : 'Wrong answer!',
-        data: {
-          is_correct: isCorrect,
-          points_earned: pointsEarned,
-          player_score: updatedPlayer.score,
-          correct_answer: isCorrect
-            ? null
-            : question.answers.find((a) => a.is_correct),
-          player_id: answeringPlayer.id,
-          player_name:
-            answeringPlayer.player_name ||
-            answeringPlayer.user?.name ||
-            'Unknown',
-          next_turn: isCorrect,
-        },
+        message: 'Player category selection counts retrieved successfully.',
+        data: formattedResult,
       };
     } catch (error) {
       return {
         success: false,
-        message: `Error answering question: ${error.message}`,
-        data: null,
+        message: 'Failed to fatch category usage list',
       };
     }
   }
 
   /**
-   * Steal question - forwards the same question to all players
+   * Get player IDs for a game (helper method for debugging)
    */
-  async stealQuestion(
-    gameId: string,
-    questionId: string,
-    answerId: string,
-    playerId: string,
-  ) {
+  async getGamePlayerIds(gameId: string) {
     try {
       const game = await this.prisma.game.findUnique({
         where: { id: gameId },
         include: {
           game_players: {
             include: { user: true },
+            orderBy: { player_order: 'asc' },
           },
         },
       });
@@ -5238,157 +3146,46 @@ export class GamePlayerService {
         throw new NotFoundException('Game not found');
       }
 
-      // Get question with correct answer
-      const question = await this.prisma.question.findUnique({
-        where: { id: questionId },
-        include: { answers: true },
-      });
-
-      if (!question) {
-        throw new NotFoundException('Question not found');
-      }
-
-      const selectedAnswer = question.answers.find((a) => a.id === answerId);
-      if (!selectedAnswer) {
-        throw new BadRequestException('Invalid answer selected');
-      }
-
-      // Find the stealing player
-      const stealingPlayer = game.game_players.find((p) => p.id === playerId);
-      if (!stealingPlayer) {
-        throw new NotFoundException('Stealing player not found in this game');
-      }
-
-      // Check if stealing player has already answered this question
-      const existingAnswer = await this.prisma.playerAnswer.findFirst({
-        where: {
-          game_player_id: stealingPlayer.id,
-          question_id: questionId,
-        },
-      });
-
-      if (existingAnswer) {
-        throw new BadRequestException(
-          'You have already answered this question',
-        );
-      }
-
-      // Record the stealing player's answer
-      await this.prisma.playerAnswer.create({
-        data: {
-          game_player_id: stealingPlayer.id,
-          question_id: questionId,
-          answer_id: answerId,
-          isCorrect: selectedAnswer.is_correct,
-        },
-      });
-
-      const isCorrect = selectedAnswer.is_correct;
-      const pointsEarned = isCorrect ? question.points : 0;
-
-      // Update stealing player's stats
-      await this.prisma.gamePlayer.update({
-        where: { id: stealingPlayer.id },
-        data: {
-          score: { increment: pointsEarned },
-          ...(isCorrect
-            ? { correct_answers: { increment: 1 } }
-            : { wrong_answers: { increment: 1 } }),
-        },
-      });
-
-      // If correct answer, move to next question
-      if (isCorrect) {
-        // Just increment the question counter, don't change the game state
-        await this.prisma.game.update({
-          where: { id: gameId },
-          data: {
-            current_question: { increment: 1 },
-          },
-        });
-        return {
-          success: true,
-          message: 'Correct answer! Question stolen successfully!',
-          data: {
-            is_correct: true,
-            points_earned: pointsEarned,
-            player_id: stealingPlayer.id,
-            player_name:
-              stealingPlayer.player_name ||
-              stealingPlayer.user?.name ||
-              'Unknown',
-            next_question: true,
-          },
-        };
-      }
-
-      // Find the next player who hasn't answered this question yet
-      const answeredPlayerIds = await this.prisma.playerAnswer.findMany({
-        where: {
-          question_id: questionId,
-        },
-        select: {
-          game_player_id: true,
-        },
-      });
-
-      const answeredIds = answeredPlayerIds.map((a) => a.game_player_id);
-
-      // Find next player who hasn't answered
-      const nextPlayer = game.game_players.find(
-        (p) => !answeredIds.includes(p.id),
-      );
-
-      if (!nextPlayer) {
-        // All players have answered this question
-        return {
-          success: true,
-          message: 'All players have answered this question',
-          data: {
-            all_players_answered: true,
-            question_id: questionId,
-          },
-        };
-      }
-
-      // Set the next player as current
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          current_player_id: nextPlayer.id,
-          current_turn: nextPlayer.player_order,
-        },
-      });
-
       return {
         success: true,
-        message: 'Question forwarded to next player',
+        message: 'Player IDs retrieved successfully',
         data: {
-          question: {
-            id: question.id,
-            text: question.text,
-            points: question.points,
-            time_limit: question.time,
-            file_url: question.file_url,
-            answers: question.answers,
-          },
-          current_player: {
-            id: nextPlayer.id,
-            name: nextPlayer.player_name || nextPlayer.user?.name || 'Unknown',
-            player_order: nextPlayer.player_order,
-          },
-          question_forwarded: true,
+          game_id: gameId,
+          players: game.game_players.map((player) => ({
+            id: player.id,
+            name: player.player_name || player.user?.name || 'Unknown',
+            player_order: player.player_order,
+            is_guest: player.is_guest,
+          })),
         },
       };
     } catch (error) {
       return {
         success: false,
-        message: `Error stealing question: ${error.message}`,
+        message: `Error getting player IDs: ${error.message}`,
         data: null,
       };
     }
   }
 
+  // ===== MODIFIED GAME FLOW METHODS =====
+
+  /**
+   * Add players only (don't start game)
+   */
+  // async addPlayersOnly(gameId: string, playerNames: string[]) {
+  //   try {
+  //     // Use existing addMultipleQuickGamePlayers method but don't start game
+  //     return await this.addMultipleQuickGamePlayers(gameId, playerNames, userId);
+  //   } catch (error) {
+  //     return {
+  //       success: false,
+  //       message: `Error adding players: ${error.message}`,
+  //       data: null,
+  //     };
+  //   }
+  // }
+
   /**
    * Move to next question from the same category and difficulty
    */
@@ -5481,6 +3278,16 @@ export class GamePlayerService {
             id: game.id,
             status: game.status,
             game_phase: game.game_phase,
+            allowed_phases: GamePhaseHelper.flowsForMode(game.mode).reduce(
+              (allowed, flow) => ({
+                ...allowed,
+                [flow]: GamePhaseHelper.allowedTransitions(
+                  flow,
+                  game.game_phase,
+                ),
+              }),
+              {},
+            ),
             current_question: game.current_question,
             total_questions: game.total_questions,
             current_player_id: game.current_player_id,
@@ -5509,195 +3316,4 @@ export class GamePlayerService {
       };
     }
   }
-
-  /**
-   * Get Quick Game status with scores and progress
-   */
-  async getQuickGameStatus(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { score: 'desc' },
-          },
-          game_selections: {
-            orderBy: { created_at: 'desc' },
-            take: 1,
-            include: {
-              category: true,
-              difficulty: true,
-            },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Get total answers for this game
-      const totalAnswers = await this.prisma.playerAnswer.count({
-        where: {
-          game_player: {
-            game_id: gameId,
-          },
-        },
-      });
-
-      // Get correct answers count
-      const correctAnswers = await this.prisma.playerAnswer.count({
-        where: {
-          game_player: {
-            game_id: gameId,
-          },
-          isCorrect: true,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Game status retrieved successfully',
-        data: {
-          game: {
-            id: game.id,
-            status: game.status,
-            game_phase: game.game_phase,
-            current_question: game.current_question,
-            total_questions: game.total_questions,
-            progress_percentage: Math.round(
-              (game.current_question / game.total_questions) * 100,
-            ),
-          },
-          category: game.game_selections[0]?.category || null,
-          difficulty: game.game_selections[0]?.difficulty || null,
-          players: game.game_players.map((player) => ({
-            id: player.id,
-            name: player.player_name || player.user?.name || 'Unknown',
-            score: player.score,
-            correct_answers: player.correct_answers,
-            wrong_answers: player.wrong_answers,
-            skipped_answers: player.skipped_answers,
-            player_order: player.player_order,
-          })),
-          game_stats: {
-            total_answers: totalAnswers,
-            correct_answers: correctAnswers,
-            wrong_answers: totalAnswers - correctAnswers,
-            accuracy_percentage:
-              totalAnswers > 0
-                ? Math.round((correctAnswers / totalAnswers) * 100)
-                : 0,
-          },
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error getting game status: ${error.message}`,
-        data: null,
-      };
-    }
-  }
-
-  /**
-   * End Quick Game and get final results
-   */
-  async endQuickGame(gameId: string) {
-    try {
-      const game = await this.prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          game_players: {
-            include: { user: true },
-            orderBy: { score: 'desc' },
-          },
-          game_selections: {
-            orderBy: { created_at: 'desc' },
-            take: 1,
-            include: {
-              category: true,
-              difficulty: true,
-            },
-          },
-        },
-      });
-
-      if (!game) {
-        throw new NotFoundException('Game not found');
-      }
-
-      // Update game status to completed
-      await this.prisma.game.update({
-        where: { id: gameId },
-        data: {
-          status: 'completed',
-          game_phase: 'completed',
-        },
-      });
-
-      // Calculate final rankings
-      const rankedPlayers = game.game_players.map((player, index) => ({
-        id: player.id,
-        name: player.player_name || player.user?.name || 'Unknown',
-        score: player.score,
-        correct_answers: player.correct_answers,
-        wrong_answers: player.wrong_answers,
-        skipped_answers: player.skipped_answers,
-        final_rank: index + 1,
-        player_order: player.player_order,
-      }));
-
-      // Get game statistics
-      const totalAnswers = await this.prisma.playerAnswer.count({
-        where: {
-          game_player: {
-            game_id: gameId,
-          },
-        },
-      });
-
-      const correctAnswers = await this.prisma.playerAnswer.count({
-        where: {
-          game_player: {
-            game_id: gameId,
-          },
-          isCorrect: true,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Game ended successfully',
-        data: {
-          game: {
-            id: game.id,
-            status: 'completed',
-            total_questions: game.total_questions,
-            current_question: game.current_question,
-          },
-          category: game.game_selections[0]?.category || null,
-          difficulty: game.game_selections[0]?.difficulty || null,
-          final_leaderboard: rankedPlayers,
-          winner: rankedPlayers[0], // Highest score
-          game_stats: {
-            total_answers: totalAnswers,
-            correct_answers: correctAnswers,
-            wrong_answers: totalAnswers - correctAnswers,
-            accuracy_percentage:
-              totalAnswers > 0
-                ? Math.round((correctAnswers / totalAnswers) * 100)
-                : 0,
-          },
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Error ending game: ${error.message}`,
-        data: null,
-      };
-    }
-  }
 }
@@ -0,0 +1,79 @@
+import { AdaptiveDifficultyHelper } from './adaptive-difficulty.helper';
+
+const tiers = [
+  { id: 'hard', name: 'Hard', points: 30 },
+  { id: 'easy', name: 'Easy', points: 10 },
+  { id: 'medium', name: 'Medium', points: 20 },
+];
+
+const answers = (difficultyId: string, outcomes: boolean[]) =>
+  outcomes.map((isCorrect) => ({
+    difficulty_id: difficultyId,
+    is_correct: isCorrect,
+  }));
+
+describe('AdaptiveDifficultyHelper', () => {
+  it('should order tiers by points', () => {
+    expect(AdaptiveDifficultyHelper.orderTiers(tiers).map((t) => t.id)).toEqual(
+      ['easy', 'medium', 'hard'],
+    );
+  });
+
+  it('should put new players on the middle tier at the target rate', () => {
+    const estimate = AdaptiveDifficultyHelper.estimate(tiers, [], 0.7);
+    const expected = AdaptiveDifficultyHelper.expectedSuccess(
+      tiers,
+      estimate.ability,
+    );
+
+    expect(estimate.accuracy).toBeNull();
+    expect(expected[1].expected_success).toBeCloseTo(0.7, 6);
+    expect(AdaptiveDifficultyHelper.rankTiers(tiers, estimate, 0.7)[0]).toBe(
+      'medium',
+    );
+  });
+
+  it('should keep the requested tier until the player has answered', () => {
+    const estimate = AdaptiveDifficultyHelper.estimate(tiers, [], 0.7);
+
+    expect(
+      AdaptiveDifficultyHelper.rankTiers(tiers, estimate, 0.7, 'hard')[0],
+    ).toBe('hard');
+  });
+
+  it('should move strong players to harder questions', () => {
+    const estimate = AdaptiveDifficultyHelper.estimate(
+      tiers,
+      answers('medium', Array(8).fill(true)),
+      0.7,
+    );
+
+    expect(estimate.accuracy).toBe(1);
+    expect(
+      AdaptiveDifficultyHelper.rankTiers(tiers, estimate, 0.7, 'easy')[0],
+    ).toBe('hard');
+  });
+
+  it('should move struggling players to easier questions', () => {
+    const estimate = AdaptiveDifficultyHelper.estimate(
+      tiers,
+      answers('medium', [false, false, true, false, false]),
+      0.7,
+    );
+
+    expect(estimate.accuracy).toBeCloseTo(0.2, 6);
+    expect(AdaptiveDifficultyHelper.rankTiers(tiers, estimate, 0.7)[0]).toBe(
+      'easy',
+    );
+  });
+
+  it('should ignore answers outside the tiers', () => {
+    const estimate = AdaptiveDifficultyHelper.estimate(
+      tiers,
+      answers('other-language', [true, true]),
+      0.7,
+    );
+
+    expect(estimate.answers).toBe(0);
+  });
+});
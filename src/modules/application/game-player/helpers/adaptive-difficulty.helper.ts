@@ -0,0 +1,117 @@
+export type DifficultyTier = {
+  id: string;
+  name: string;
+  points: number | null;
+};
+
+export type PastAnswer = {
+  difficulty_id: string;
+  is_correct: boolean;
+};
+
+export type AccuracyEstimate = {
+  ability: number;
+  accuracy: number | null;
+  answers: number;
+};
+
+// Tiers are spaced this far apart on the ability scale
+const TIER_STEP = 1;
+// How far a single answer moves the ability
+const LEARNING_RATE = 0.4;
+
+export class AdaptiveDifficultyHelper {
+  /**
+   * Tiers from easiest to hardest. Tiers worth more points are harder;
+   * tiers without points go last.
+   */
+  static orderTiers<T extends DifficultyTier>(tiers: T[]): T[] {
+    return [...tiers].sort(
+      (a, b) =>
+        (a.points ?? Infinity) - (b.points ?? Infinity) ||
+        a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * Running ability of a player in a category, replayed from their
+   * answers in order. The ability starts where the middle tier is
+   * answered at the target rate and moves by how surprising each answer
+   * was for the tier of its question.
+   */
+  static estimate(
+    tiers: DifficultyTier[],
+    answers: PastAnswer[],
+    target: number,
+  ): AccuracyEstimate {
+    const ordered = this.orderTiers(tiers);
+    let ability = this.tierLevel((ordered.length - 1) / 2) + this.logit(target);
+    let answered = 0;
+    let correct = 0;
+
+    for (const answer of answers) {
+      const index = ordered.findIndex((t) => t.id === answer.difficulty_id);
+      if (index === -1) {
+        continue;
+      }
+      const expected = this.sigmoid(ability - this.tierLevel(index));
+      ability += LEARNING_RATE * ((answer.is_correct ? 1 : 0) - expected);
+      answered++;
+      correct += answer.is_correct ? 1 : 0;
+    }
+
+    return {
+      ability,
+      accuracy: answered > 0 ? correct / answered : null,
+      answers: answered,
+    };
+  }
+
+  /**
+   * Chance of a correct answer in every tier, easiest first
+   */
+  static expectedSuccess(tiers: DifficultyTier[], ability: number) {
+    return this.orderTiers(tiers).map((tier, index) => ({
+      difficulty_id: tier.id,
+      name: tier.name,
+      expected_success: this.sigmoid(ability - this.tierLevel(index)),
+    }));
+  }
+
+  /**
+   * Tiers from the best fit for the target success rate to the worst.
+   * Without any answers yet the requested tier comes first.
+   */
+  static rankTiers(
+    tiers: DifficultyTier[],
+    estimate: AccuracyEstimate,
+    target: number,
+    requestedId?: string,
+  ): string[] {
+    const ranked = this.expectedSuccess(tiers, estimate.ability)
+      .sort(
+        (a, b) =>
+          Math.abs(a.expected_success - target) -
+          Math.abs(b.expected_success - target),
+      )
+      .map((tier) => tier.difficulty_id);
+
+    if (estimate.answers === 0 && requestedId && ranked.includes(requestedId)) {
+      return [requestedId, ...ranked.filter((id) => id !== requestedId)];
+    }
+    return ranked;
+  }
+
+  private static tierLevel(index: number) {
+    return index * TIER_STEP;
+  }
+
+  private static sigmoid(value: number) {
+    return 1 / (1 + Math.exp(-value));
+  }
+
+  private static logit(probability: number) {
+    const p = Math.min(Math.max(probability, 0.01), 0.99);
+    return Math.log(p / (1 - p));
+  }
+}
@@ -0,0 +1,312 @@
+import { QuestionKind, ToleranceType } from '@prisma/client';
+import { AnswerGradingHelper } from './answer-grading.helper';
+import { AnswerTokenHelper } from './answer-token.helper';
+
+describe('AnswerGradingHelper', () => {
+  const secret = 'test-secret';
+  const answers = [
+    { id: 'a1', text: 'Mount Everest', is_correct: true, aliases: ['Everest'] },
+    { id: 'a2', text: 'K2', is_correct: false, aliases: [] },
+  ];
+  const question = (kind: QuestionKind, extra = {}) => ({
+    answers,
+    question_type: { kind },
+    ...extra,
+  });
+
+  it('should grade a picked option by its token', () => {
+    const token = AnswerTokenHelper.token('game-1', 'a2', secret);
+
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        question(QuestionKind.OPTIONS),
+        { answer_id: token },
+        secret,
+      ),
+    ).toEqual({
+      answer: answers[1],
+      is_correct: false,
+      credit: 0,
+      answer_text: null,
+      similarity: null,
+      submission: { answer_id: 'a2' },
+    });
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        question(QuestionKind.OPTIONS),
+        { answer_id: 'unknown' },
+        secret,
+      ),
+    ).toBeNull();
+  });
+
+  it('should match typed answers against the correct answer and its aliases', () => {
+    const graded = AnswerGradingHelper.grade(
+      'game-1',
+      question(QuestionKind.TEXT),
+      { answer_text: ' everest ' },
+      secret,
+    );
+
+    expect(graded.is_correct).toBe(true);
+    expect(graded.answer).toBe(answers[0]);
+    expect(graded.answer_text).toBe('everest');
+    expect(graded.similarity).toBe(100);
+  });
+
+  it('should report how close a wrong typed answer came', () => {
+    const graded = AnswerGradingHelper.grade(
+      'game-1',
+      question(QuestionKind.TEXT, { match_threshold: 100 }),
+      { answer_text: 'Everst' },
+      secret,
+    );
+
+    expect(graded.is_correct).toBe(false);
+    expect(graded.answer).toBeNull();
+    expect(graded.similarity).toBeGreaterThan(80);
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        question(QuestionKind.TEXT),
+        {},
+        secret,
+      ),
+    ).toBeNull();
+  });
+
+  it('should let typed text name an option', () => {
+    const graded = AnswerGradingHelper.grade(
+      'game-1',
+      question(QuestionKind.OPTIONS),
+      { answer_text: 'k2' },
+      secret,
+    );
+
+    expect(graded.answer).toBe(answers[1]);
+    expect(graded.is_correct).toBe(false);
+  });
+
+  it('should pass the numeric tolerance of the question on', () => {
+    const numeric = {
+      answers: [{ id: 'n1', text: '8849', is_correct: true }],
+      question_type: { kind: QuestionKind.TEXT },
+      numeric_tolerance: 1,
+      tolerance_type: ToleranceType.PERCENT,
+    };
+
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        numeric,
+        { answer_text: '8800' },
+        secret,
+      ).is_correct,
+    ).toBe(true);
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        numeric,
+        { answer_text: '8700' },
+        secret,
+      ).is_correct,
+    ).toBe(false);
+  });
+
+  it('should normalise typed answers in the language of the game', () => {
+    const arabic = {
+      answers: [{ id: 'r1', text: 'مكة المكرمة', is_correct: true }],
+      question_type: { kind: QuestionKind.TEXT },
+      match_threshold: 100,
+    };
+
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        arabic,
+        { answer_text: 'مَكّه المكرمه' },
+        secret,
+        'ar',
+      ).is_correct,
+    ).toBe(true);
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        arabic,
+        { answer_text: 'مَكّه المكرمه' },
+        secret,
+      ).is_correct,
+    ).toBe(false);
+  });
+
+  it('should grade true/false questions without answer rows', () => {
+    const trueFalse = {
+      answers: [],
+      question_type: { kind: QuestionKind.TRUE_FALSE },
+      true_false_answer: false,
+    };
+
+    expect(AnswerGradingHelper.present('game-1', trueFalse, secret)).toEqual([
+      { id: 'true', text: 'True', file_url: null },
+      { id: 'false', text: 'False', file_url: null },
+    ]);
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        trueFalse,
+        { answer_id: 'false' },
+        secret,
+      ),
+    ).toEqual(
+      expect.objectContaining({
+        is_correct: true,
+        credit: 1,
+        submission: { value: false },
+      }),
+    );
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        trueFalse,
+        { answer_text: 'True' },
+        secret,
+      ).is_correct,
+    ).toBe(false);
+    expect(
+      AnswerGradingHelper.grade(
+        'game-1',
+        trueFalse,
+        { answer_id: 'maybe' },
+        secret,
+      ),
+    ).toBeNull();
+  });
+
+  describe('multi-select', () => {
+    const options = [
+      { id: 'm1', text: 'Mercury', is_correct: true },
+      { id: 'm2', text: 'Venus', is_correct: true },
+      { id: 'm3', text: 'Mars', is_correct: false },
+      { id: 'm4', text: 'Jupiter', is_correct: false },
+    ];
+    const multi = {
+      answers: options,
+      question_type: { kind: QuestionKind.MULTI_SELECT },
+    };
+    const tokens = (...ids: string[]) =>
+      ids.map((id) => AnswerTokenHelper.token('game-1', id, secret));
+
+    it('should give full credit for exactly the correct answers', () => {
+      const graded = AnswerGradingHelper.grade(
+        'game-1',
+        multi,
+        { answer_ids: tokens('m2', 'm1') },
+        secret,
+      );
+
+      expect(graded.is_correct).toBe(true);
+      expect(graded.credit).toBe(1);
+      expect(graded.submission).toEqual({ answer_ids: ['m2', 'm1'] });
+    });
+
+    it('should give partial credit, taking one back per wrong pick', () => {
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          multi,
+          { answer_ids: tokens('m1') },
+          secret,
+        ),
+      ).toEqual(expect.objectContaining({ is_correct: false, credit: 0.5 }));
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          multi,
+          { answer_ids: tokens('m1', 'm3') },
+          secret,
+        ).credit,
+      ).toBe(0);
+    });
+
+    it('should refuse unknown or repeated picks', () => {
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          multi,
+          { answer_ids: [...tokens('m1'), 'unknown'] },
+          secret,
+        ),
+      ).toBeNull();
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          multi,
+          { answer_ids: tokens('m1', 'm1') },
+          secret,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('ordering', () => {
+    const steps = [
+      { id: 'o1', text: 'Bronze Age', position: 2 },
+      { id: 'o2', text: 'Stone Age', position: 1 },
+      { id: 'o3', text: 'Iron Age', position: 3 },
+    ];
+    const ordering = {
+      answers: steps,
+      question_type: { kind: QuestionKind.ORDERING },
+    };
+    const tokens = (...ids: string[]) =>
+      ids.map((id) => AnswerTokenHelper.token('game-1', id, secret));
+
+    it('should score each answer in its correct place', () => {
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          ordering,
+          { answer_ids: tokens('o2', 'o1', 'o3') },
+          secret,
+        ),
+      ).toEqual(
+        expect.objectContaining({
+          is_correct: true,
+          credit: 1,
+          submission: { order: ['o2', 'o1', 'o3'] },
+        }),
+      );
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          ordering,
+          { answer_ids: tokens('o1', 'o2', 'o3') },
+          secret,
+        ).credit,
+      ).toBeCloseTo(1 / 3);
+    });
+
+    it('should need every answer once', () => {
+      expect(
+        AnswerGradingHelper.grade(
+          'game-1',
+          ordering,
+          { answer_ids: tokens('o2', 'o1') },
+          secret,
+        ),
+      ).toBeNull();
+    });
+
+    it('should reveal the answers in their correct order', () => {
+      const revealed = AnswerGradingHelper.reveal('game-1', ordering, secret);
+
+      expect((revealed as { text: string }[]).map((a) => a.text)).toEqual([
+        'Stone Age',
+        'Bronze Age',
+        'Iron Age',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,341 @@
+import { QuestionKind, ToleranceType } from '@prisma/client';
+import {
+  matchTextAnswer,
+  TextMatchOptions,
+} from '../../../../common/helper/stringSimilarity.helper';
+import {
+  AnswerOption,
+  AnswerTokenHelper,
+  PresentedAnswer,
+} from './answer-token.helper';
+
+export type GradableAnswer = AnswerOption & {
+  aliases?: string[];
+  position?: number | null;
+};
+
+export type GradableQuestion<A extends GradableAnswer> = {
+  answers: A[];
+  question_type?: { kind: QuestionKind } | null;
+  match_threshold?: number | null;
+  numeric_tolerance?: number | null;
+  tolerance_type?: ToleranceType;
+  case_sensitive?: boolean;
+  article_sensitive?: boolean;
+  true_false_answer?: boolean | null;
+};
+
+export type AnswerAttempt = {
+  answer_id?: string | null; // Answer token, or "true"/"false"
+  answer_ids?: string[] | null; // Answer tokens picked, or put in order
+  answer_text?: string | null;
+};
+
+// What a player sent, as kept on the PlayerAnswer
+export type AnswerSubmission =
+  | { answer_id: string }
+  | { answer_ids: string[] }
+  | { order: string[] }
+  | { value: boolean }
+  | { text: string };
+
+export type GradedAnswer<A> = {
+  answer: A | null; // Option picked, or the correct answer the text matched
+  is_correct: boolean;
+  credit: number; // Share of the question points earned, 0-1
+  answer_text: string | null;
+  similarity: number | null; // How close typed text came to a correct answer, 0-100
+  submission: AnswerSubmission;
+};
+
+// options shown for a true/false question, which has no answer rows
+const TRUE_FALSE_OPTIONS: PresentedAnswer[] = [
+  { id: 'true', text: 'True', file_url: null },
+  { id: 'false', text: 'False', file_url: null },
+];
+
+export class AnswerGradingHelper {
+  static isTyped(question: {
+    question_type?: { kind: QuestionKind } | null;
+  }): boolean {
+    return question.question_type?.kind === QuestionKind.TEXT;
+  }
+
+  // true/false questions keep their answer on the question
+  static isTrueFalse(question: {
+    question_type?: { kind: QuestionKind } | null;
+    true_false_answer?: boolean | null;
+  }): boolean {
+    return (
+      question.question_type?.kind === QuestionKind.TRUE_FALSE &&
+      typeof question.true_false_answer === 'boolean'
+    );
+  }
+
+  /**
+   * Answers as players get them for the format of the question: behind
+   * tokens for options, true and false for a true/false question and none
+   * for a typed one
+   */
+  static present(
+    gameId: string,
+    question: GradableQuestion<GradableAnswer>,
+    secret: string,
+  ): PresentedAnswer[] {
+    if (AnswerGradingHelper.isTyped(question)) {
+      return [];
+    }
+    if (AnswerGradingHelper.isTrueFalse(question)) {
+      return TRUE_FALSE_OPTIONS;
+    }
+    return AnswerTokenHelper.present(gameId, question.answers, secret);
+  }
+
+  /**
+   * Correct answer to tell once the question is over. Multi-select
+   * questions give every correct answer and ordering questions all of
+   * them in order.
+   */
+  static reveal(
+    gameId: string,
+    question: GradableQuestion<GradableAnswer>,
+    secret: string,
+  ): PresentedAnswer | PresentedAnswer[] | null {
+    const kind = question.question_type?.kind;
+    if (AnswerGradingHelper.isTrueFalse(question)) {
+      return TRUE_FALSE_OPTIONS[question.true_false_answer ? 0 : 1];
+    }
+    if (kind === QuestionKind.MULTI_SELECT) {
+      return question.answers
+        .filter((answer) => answer.is_correct)
+        .map((answer) => AnswerTokenHelper.reveal(gameId, answer, secret));
+    }
+    if (kind === QuestionKind.ORDERING) {
+      return AnswerGradingHelper.correctOrder(question.answers).map((answer) =>
+        AnswerTokenHelper.reveal(gameId, answer, secret),
+      );
+    }
+    const correct = question.answers.find((answer) => answer.is_correct);
+    return correct ? AnswerTokenHelper.reveal(gameId, correct, secret) : null;
+  }
+
+  /**
+   * Grades an attempt by the format of the question. A token picks one of
+   * the answers; typed text is matched against the correct answers of a
+   * text question, or names an option of any other question. Multi-select
+   * and ordering questions take a list of tokens and earn partial credit.
+   * Typed text is normalised in the language of the game. Null when
+   * nothing usable was sent.
+   */
+  static grade<A extends GradableAnswer>(
+    gameId: string,
+    question: GradableQuestion<A>,
+    attempt: AnswerAttempt,
+    secret: string,
+    language?: string | null,
+  ): GradedAnswer<A> | null {
+    const kind = question.question_type?.kind;
+    if (AnswerGradingHelper.isTrueFalse(question)) {
+      return AnswerGradingHelper.gradeTrueFalse(question, attempt);
+    }
+    if (kind === QuestionKind.MULTI_SELECT) {
+      return AnswerGradingHelper.gradeSelection(
+        gameId,
+        question,
+        attempt,
+        secret,
+      );
+    }
+    if (kind === QuestionKind.ORDERING) {
+      return AnswerGradingHelper.gradeOrder(gameId, question, attempt, secret);
+    }
+
+    if (attempt.answer_id) {
+      const answer = AnswerTokenHelper.resolve(
+        gameId,
+        question.answers,
+        attempt.answer_id,
+        secret,
+      );
+      return answer
+        ? {
+            answer,
+            is_correct: !!answer.is_correct,
+            credit: answer.is_correct ? 1 : 0,
+            answer_text: null,
+            similarity: null,
+            submission: { answer_id: answer.id },
+          }
+        : null;
+    }
+
+    const text = attempt.answer_text?.trim();
+    if (!text) {
+      return null;
+    }
+
+    const typed = AnswerGradingHelper.isTyped(question);
+    const options = AnswerGradingHelper.matchOptions(question, language);
+    const correct = question.answers.filter((answer) => answer.is_correct);
+    const closeness = matchTextAnswer(
+      text,
+      correct.flatMap(AnswerGradingHelper.spellings),
+      options,
+    );
+    const candidates = typed ? correct : question.answers;
+    const match = typed
+      ? closeness
+      : matchTextAnswer(
+          text,
+          candidates.flatMap(AnswerGradingHelper.spellings),
+          options,
+        );
+    const answer = match.is_match
+      ? (candidates.find((candidate) =>
+          AnswerGradingHelper.spellings(candidate).includes(match.matched),
+        ) ?? null)
+      : null;
+
+    return {
+      answer,
+      is_correct: !!answer?.is_correct,
+      credit: answer?.is_correct ? 1 : 0,
+      answer_text: text,
+      similarity: closeness.similarity,
+      submission: { text },
+    };
+  }
+
+  static matchOptions(
+    question: GradableQuestion<GradableAnswer>,
+    language?: string | null,
+  ): TextMatchOptions {
+    return {
+      threshold: question.match_threshold,
+      numeric_tolerance: question.numeric_tolerance,
+      tolerance_type: question.tolerance_type,
+      case_sensitive: question.case_sensitive,
+      article_sensitive: question.article_sensitive,
+      language,
+    };
+  }
+
+  // "true" or "false", sent as the answer id or typed
+  private static gradeTrueFalse<A extends GradableAnswer>(
+    question: GradableQuestion<A>,
+    attempt: AnswerAttempt,
+  ): GradedAnswer<A> | null {
+    const sent = (attempt.answer_id ?? attempt.answer_text)
+      ?.trim()
+      .toLowerCase();
+    if (sent !== 'true' && sent !== 'false') {
+      return null;
+    }
+    const value = sent === 'true';
+    const isCorrect = value === question.true_false_answer;
+
+    return {
+      answer: null,
+      is_correct: isCorrect,
+      credit: isCorrect ? 1 : 0,
+      answer_text: null,
+      similarity: null,
+      submission: { value },
+    };
+  }
+
+  // every correct pick earns its share, every wrong pick takes one back
+  private static gradeSelection<A extends GradableAnswer>(
+    gameId: string,
+    question: GradableQuestion<A>,
+    attempt: AnswerAttempt,
+    secret: string,
+  ): GradedAnswer<A> | null {
+    const picked = AnswerGradingHelper.resolveAll(
+      gameId,
+      question.answers,
+      attempt.answer_ids ?? (attempt.answer_id ? [attempt.answer_id] : []),
+      secret,
+    );
+    if (!picked || picked.length === 0) {
+      return null;
+    }
+
+    const correct = question.answers.filter((answer) => answer.is_correct);
+    const hits = picked.filter((answer) => answer.is_correct).length;
+    const misses = picked.length - hits;
+    const credit = correct.length
+      ? Math.max(hits - misses, 0) / correct.length
+      : 0;
+
+    return {
+      answer: null,
+      is_correct: credit === 1,
+      credit,
+      answer_text: null,
+      similarity: null,
+      submission: { answer_ids: picked.map((answer) => answer.id) },
+    };
+  }
+
+  // every answer in its correct place earns its share
+  private static gradeOrder<A extends GradableAnswer>(
+    gameId: string,
+    question: GradableQuestion<A>,
+    attempt: AnswerAttempt,
+    secret: string,
+  ): GradedAnswer<A> | null {
+    const order = AnswerGradingHelper.resolveAll(
+      gameId,
+      question.answers,
+      attempt.answer_ids ?? [],
+      secret,
+    );
+    if (!order || order.length !== question.answers.length) {
+      return null;
+    }
+
+    const correctOrder = AnswerGradingHelper.correctOrder(question.answers);
+    const placed = order.filter(
+      (answer, index) => answer.id === correctOrder[index].id,
+    ).length;
+    const credit = placed / correctOrder.length;
+
+    return {
+      answer: null,
+      is_correct: credit === 1,
+      credit,
+      answer_text: null,
+      similarity: null,
+      submission: { order: order.map((answer) => answer.id) },
+    };
+  }
+
+  // answers the tokens stand for, null when one is unknown or repeated
+  private static resolveAll<A extends GradableAnswer>(
+    gameId: string,
+    answers: A[],
+    submitted: string[],
+    secret: string,
+  ): A[] | null {
+    const resolved = submitted.map((token) =>
+      AnswerTokenHelper.resolve(gameId, answers, token, secret),
+    );
+    if (resolved.some((answer) => !answer)) {
+      return null;
+    }
+    const ids = new Set(resolved.map((answer) => answer.id));
+    return ids.size === resolved.length ? resolved : null;
+  }
+
+  private static correctOrder<A extends GradableAnswer>(answers: A[]): A[] {
+    return [...answers].sort(
+      (a, b) => (a.position ?? Infinity) - (b.position ?? Infinity),
+    );
+  }
+
+  // the answer text and every alias accepted for it
+  private static spellings(answer: GradableAnswer): string[] {
+    return [answer.text, ...(answer.aliases ?? [])].filter(Boolean);
+  }
+}
@@ -0,0 +1,66 @@
+import { AnswerTokenHelper } from './answer-token.helper';
+
+describe('AnswerTokenHelper', () => {
+  const secret = 'test-secret';
+  const answers = [
+    { id: 'a1', text: 'Paris', file_url: null, is_correct: true },
+    { id: 'a2', text: 'Rome', file_url: null, is_correct: false },
+    { id: 'a3', text: 'Madrid', file_url: null, is_correct: false },
+    { id: 'a4', text: 'Berlin', file_url: null, is_correct: false },
+  ];
+
+  it('should give every game its own tokens', () => {
+    const token = AnswerTokenHelper.token('game-1', 'a1', secret);
+
+    expect(token).toHaveLength(16);
+    expect(token).not.toContain('a1');
+    expect(AnswerTokenHelper.token('game-1', 'a1', secret)).toBe(token);
+    expect(AnswerTokenHelper.token('game-2', 'a1', secret)).not.toBe(token);
+    expect(AnswerTokenHelper.token('game-1', 'a1', 'other')).not.toBe(token);
+  });
+
+  it('should present answers shuffled and without correctness', () => {
+    const presented = AnswerTokenHelper.present(
+      'game-1',
+      answers,
+      secret,
+      () => 0,
+    );
+
+    expect(presented.map((answer) => answer.text)).toEqual([
+      'Rome',
+      'Madrid',
+      'Berlin',
+      'Paris',
+    ]);
+    presented.forEach((answer) => {
+      expect(answer).not.toHaveProperty('is_correct');
+      expect(answers.map((a) => a.id)).not.toContain(answer.id);
+    });
+  });
+
+  it('should resolve tokens back to answers', () => {
+    const token = AnswerTokenHelper.token('game-1', 'a3', secret);
+
+    expect(AnswerTokenHelper.resolve('game-1', answers, token, secret).id).toBe(
+      'a3',
+    );
+    expect(AnswerTokenHelper.resolve('game-2', answers, token, secret)).toBe(
+      null,
+    );
+    expect(AnswerTokenHelper.resolve('game-1', answers, 'a2', secret)).toBe(
+      null,
+    );
+    expect(AnswerTokenHelper.resolve('game-1', answers, 'nope', secret)).toBe(
+      null,
+    );
+    expect(AnswerTokenHelper.resolve('game-1', answers, '', secret)).toBe(null);
+  });
+
+  it('should only store answers behind their token', () => {
+    expect(AnswerTokenHelper.tokenOf('game-1', 'a1', secret)).toBe(
+      AnswerTokenHelper.token('game-1', 'a1', secret),
+    );
+    expect(AnswerTokenHelper.tokenOf('game-1', null, secret)).toBe(null);
+  });
+});
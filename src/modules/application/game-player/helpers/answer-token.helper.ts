@@ -0,0 +1,105 @@
+import { createHmac } from 'crypto';
+
+export type AnswerOption = {
+  id: string;
+  text?: string | null;
+  file_url?: string | null;
+  is_correct?: boolean;
+};
+
+export type PresentedAnswer = {
+  id: string; // Answer token, not the Answer id
+  text?: string | null;
+  file_url?: string | null;
+};
+
+// characters of the HMAC kept in a token
+const TOKEN_LENGTH = 16;
+
+export class AnswerTokenHelper {
+  /**
+   * Opaque token of an answer in a game. The same answer gets another
+   * token in every game, so tokens cannot be collected across games.
+   */
+  static token(gameId: string, answerId: string, secret: string): string {
+    return createHmac('sha256', secret)
+      .update(`${gameId}:${answerId}`)
+      .digest('base64url')
+      .slice(0, TOKEN_LENGTH);
+  }
+
+  /**
+   * Token of an answer that may be missing, as stored in game events and
+   * shown in results
+   */
+  static tokenOf(
+    gameId: string,
+    answerId: string | null | undefined,
+    secret: string,
+  ): string | null {
+    return answerId ? AnswerTokenHelper.token(gameId, answerId, secret) : null;
+  }
+
+  /**
+   * Answers as players get them: shuffled, behind their tokens and without
+   * their correctness
+   */
+  static present(
+    gameId: string,
+    answers: AnswerOption[],
+    secret: string,
+    random: () => number = Math.random,
+  ): PresentedAnswer[] {
+    return AnswerTokenHelper.shuffle(answers, random).map((answer) =>
+      AnswerTokenHelper.reveal(gameId, answer, secret),
+    );
+  }
+
+  /**
+   * A single answer behind its token, used to show the correct answer once
+   * it can be told
+   */
+  static reveal(
+    gameId: string,
+    answer: AnswerOption,
+    secret: string,
+  ): PresentedAnswer {
+    return {
+      id: AnswerTokenHelper.token(gameId, answer.id, secret),
+      text: answer.text,
+      file_url: answer.file_url,
+    };
+  }
+
+  /**
+   * Answer of the question a submitted token stands for. Plain Answer ids
+   * are refused, they would let a client answer without being shown the
+   * options.
+   */
+  static resolve<A extends AnswerOption>(
+    gameId: string,
+    answers: A[],
+    submitted: string,
+    secret: string,
+  ): A | null {
+    if (!submitted) {
+      return null;
+    }
+    return (
+      answers.find(
+        (answer) =>
+          AnswerTokenHelper.token(gameId, answer.id, secret) === submitted,
+      ) ?? null
+    );
+  }
+
+  // Fisher-Yates on a copy
+  static shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
@@ -0,0 +1,211 @@
+import { HttpStatus } from '@nestjs/common';
+import { GameMode, GamePhase, PlayerStatus } from '@prisma/client';
+import { GameFlow, GamePhaseHelper } from './game-phase.helper';
+
+describe('GamePhaseHelper', () => {
+  it('should allow the online round cycle', () => {
+    const cycle = [
+      GamePhase.WAITING,
+      GamePhase.QUESTION_SELECTED,
+      GamePhase.STEAL_MODE_ACTIVE,
+      GamePhase.ROUND_COMPLETED,
+      GamePhase.QUESTION_SELECTED,
+      GamePhase.COMPLETED,
+    ];
+
+    for (let i = 1; i < cycle.length; i++) {
+      expect(
+        GamePhaseHelper.canTransition(GameFlow.ONLINE, cycle[i - 1], cycle[i]),
+      ).toBe(true);
+    }
+  });
+
+  it('should allow the competitive cycle on one category', () => {
+    const cycle = [
+      GamePhase.WAITING,
+      GamePhase.CATEGORY_SELECTION,
+      GamePhase.QUESTION,
+      GamePhase.QUESTION_SELECTED,
+      GamePhase.STEAL_MODE_ON_TIMEOUT,
+      GamePhase.ROUND_COMPLETED,
+      GamePhase.QUESTION_SELECTED,
+      GamePhase.STEAL_MODE_ACTIVE,
+      GamePhase.ROUND_COMPLETED,
+      GamePhase.COMPLETED,
+    ];
+
+    for (let i = 1; i < cycle.length; i++) {
+      expect(
+        GamePhaseHelper.canTransition(
+          GameFlow.COMPETITIVE,
+          cycle[i - 1],
+          cycle[i],
+        ),
+      ).toBe(true);
+    }
+    expect(
+      GamePhaseHelper.canTransition(
+        GameFlow.COMPETITIVE,
+        GamePhase.ROUND_COMPLETED,
+        GamePhase.QUESTION,
+      ),
+    ).toBe(false);
+  });
+
+  it('should pick a category every round of a quick game', () => {
+    const cycle = [
+      GamePhase.CATEGORY_SELECTION,
+      GamePhase.QUESTION,
+      GamePhase.QUESTION_SELECTED,
+      GamePhase.STEAL_MODE_ACTIVE,
+      GamePhase.ROUND_COMPLETED,
+      GamePhase.QUESTION,
+    ];
+
+    for (let i = 1; i < cycle.length; i++) {
+      expect(
+        GamePhaseHelper.canTransition(GameFlow.QUICK, cycle[i - 1], cycle[i]),
+      ).toBe(true);
+    }
+    expect(
+      GamePhaseHelper.canTransition(
+        GameFlow.QUICK,
+        GamePhase.ROUND_COMPLETED,
+        GamePhase.QUESTION_SELECTED,
+      ),
+    ).toBe(false);
+  });
+
+  it('should give host games no steal window', () => {
+    expect(
+      GamePhaseHelper.allowedTransitions(
+        GameFlow.HOST,
+        GamePhase.QUESTION_SELECTED,
+      ),
+    ).toEqual([GamePhase.ROUND_COMPLETED, GamePhase.COMPLETED]);
+  });
+
+  it('should not leave a completed game', () => {
+    for (const flow of Object.values(GameFlow)) {
+      expect(
+        GamePhaseHelper.allowedTransitions(flow, GamePhase.COMPLETED),
+      ).toEqual([]);
+    }
+  });
+
+  it('should return a 409 for an illegal transition', () => {
+    const conflict = GamePhaseHelper.checkTransition(
+      GameFlow.QUICK,
+      GamePhase.WAITING,
+      GamePhase.QUESTION,
+    );
+
+    expect(conflict.statusCode).toBe(HttpStatus.CONFLICT);
+    expect(conflict.data.allowed_phases).toEqual([
+      GamePhase.CATEGORY_SELECTION,
+    ]);
+  });
+
+  it('should not complete a game that has not started', () => {
+    for (const flow of Object.values(GameFlow)) {
+      expect(
+        GamePhaseHelper.canTransition(
+          flow,
+          GamePhase.WAITING,
+          GamePhase.COMPLETED,
+        ),
+      ).toBe(false);
+    }
+  });
+
+  it('should only decide a game played through or forfeited', () => {
+    const seated = [
+      { status: PlayerStatus.ACTIVE },
+      { status: PlayerStatus.ACTIVE },
+    ];
+
+    expect(
+      GamePhaseHelper.isDecided({
+        current_question: 3,
+        total_questions: 10,
+        game_players: seated,
+      }),
+    ).toBe(false);
+    expect(
+      GamePhaseHelper.isDecided({
+        current_question: 10,
+        total_questions: 10,
+        game_players: seated,
+      }),
+    ).toBe(true);
+    expect(
+      GamePhaseHelper.isDecided({
+        current_question: 3,
+        total_questions: 10,
+        game_players: [seated[0], { status: PlayerStatus.QUIT }],
+      }),
+    ).toBe(true);
+    expect(
+      GamePhaseHelper.isDecided({
+        current_question: 3,
+        total_questions: 10,
+        game_players: [seated[0], { status: PlayerStatus.INACTIVE }],
+      }),
+    ).toBe(false);
+  });
+
+  it('should reject a steal after the round has closed', () => {
+    expect(
+      GamePhaseHelper.checkPhase(
+        GamePhase.ROUND_COMPLETED,
+        [GamePhase.STEAL_MODE_ACTIVE, GamePhase.STEAL_MODE_ON_TIMEOUT],
+        'steal',
+      )?.statusCode,
+    ).toBe(HttpStatus.CONFLICT);
+    expect(
+      GamePhaseHelper.checkPhase(
+        GamePhase.STEAL_MODE_ACTIVE,
+        [GamePhase.STEAL_MODE_ACTIVE],
+        'steal',
+      ),
+    ).toBeNull();
+  });
+
+  it('should accept a transition legal in any flow of the mode', () => {
+    const flows = GamePhaseHelper.flowsForMode(GameMode.QUICK_GAME);
+
+    expect(
+      GamePhaseHelper.canTransition(
+        flows,
+        GamePhase.ROUND_COMPLETED,
+        GamePhase.QUESTION_SELECTED,
+      ),
+    ).toBe(true);
+    expect(
+      GamePhaseHelper.canTransition(
+        GamePhaseHelper.flowsForMode(GameMode.GRID_STYLE),
+        GamePhase.WAITING,
+        GamePhase.CATEGORY_SELECTION,
+      ),
+    ).toBe(false);
+  });
+
+  it('should keep daily challenges out of the category flows', () => {
+    const flows = GamePhaseHelper.flowsForMode(GameMode.DAILY_CHALLENGE);
+
+    expect(
+      GamePhaseHelper.canTransition(
+        flows,
+        GamePhase.WAITING,
+        GamePhase.QUESTION,
+      ),
+    ).toBe(true);
+    expect(
+      GamePhaseHelper.canTransition(
+        flows,
+        GamePhase.WAITING,
+        GamePhase.CATEGORY_SELECTION,
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,239 @@
+import { HttpStatus } from '@nestjs/common';
+import { GameMode, GamePhase, PlayerStatus } from '@prisma/client';
+
+/**
+ * The different ways a game is driven. QUICK_GAME games can be played
+ * through the quick, competitive, host or online (round based) endpoints.
+ */
+export enum GameFlow {
+  QUICK = 'QUICK',
+  COMPETITIVE = 'COMPETITIVE',
+  HOST = 'HOST',
+  GRID = 'GRID',
+  ONLINE = 'ONLINE',
+  DAILY = 'DAILY',
+}
+
+type TransitionTable = Partial<Record<GamePhase, GamePhase[]>>;
+
+// a dealt question is answered, stolen after a miss or timed out, and the
+// round closes
+const QUESTION_ROUND: TransitionTable = {
+  [GamePhase.QUESTION_SELECTED]: [
+    GamePhase.STEAL_MODE_ACTIVE,
+    GamePhase.STEAL_MODE_ON_TIMEOUT,
+    GamePhase.ROUND_COMPLETED,
+    GamePhase.COMPLETED,
+  ],
+  [GamePhase.STEAL_MODE_ACTIVE]: [
+    GamePhase.ROUND_COMPLETED,
+    GamePhase.COMPLETED,
+  ],
+  [GamePhase.STEAL_MODE_ON_TIMEOUT]: [
+    GamePhase.ROUND_COMPLETED,
+    GamePhase.COMPLETED,
+  ],
+};
+
+// select category -> question -> answer or steal -> next category
+const QUICK_TRANSITIONS: TransitionTable = {
+  [GamePhase.WAITING]: [GamePhase.CATEGORY_SELECTION],
+  [GamePhase.CATEGORY_SELECTION]: [GamePhase.QUESTION, GamePhase.COMPLETED],
+  [GamePhase.QUESTION]: [GamePhase.QUESTION_SELECTED, GamePhase.COMPLETED],
+  ...QUESTION_ROUND,
+  [GamePhase.ROUND_COMPLETED]: [GamePhase.QUESTION, GamePhase.COMPLETED],
+};
+
+// one category for the whole game, then a question per turn which the
+// others may steal when it is missed
+const COMPETITIVE_TRANSITIONS: TransitionTable = {
+  [GamePhase.WAITING]: [GamePhase.CATEGORY_SELECTION],
+  [GamePhase.CATEGORY_SELECTION]: [GamePhase.QUESTION, GamePhase.COMPLETED],
+  [GamePhase.QUESTION]: [GamePhase.QUESTION_SELECTED, GamePhase.COMPLETED],
+  ...QUESTION_ROUND,
+  [GamePhase.ROUND_COMPLETED]: [
+    GamePhase.QUESTION_SELECTED,
+    GamePhase.COMPLETED,
+  ],
+};
+
+// one category for the whole game, the host deals every question and
+// enters the answers, there are no steals
+const HOST_TRANSITIONS: TransitionTable = {
+  [GamePhase.WAITING]: [GamePhase.CATEGORY_SELECTION],
+  [GamePhase.CATEGORY_SELECTION]: [GamePhase.QUESTION, GamePhase.COMPLETED],
+  [GamePhase.QUESTION]: [GamePhase.QUESTION_SELECTED, GamePhase.COMPLETED],
+  [GamePhase.QUESTION_SELECTED]: [
+    GamePhase.ROUND_COMPLETED,
+    GamePhase.COMPLETED,
+  ],
+  [GamePhase.ROUND_COMPLETED]: [
+    GamePhase.QUESTION_SELECTED,
+    GamePhase.COMPLETED,
+  ],
+};
+
+// question per turn with a steal window after a wrong answer or a timeout
+const ROUND_TRANSITIONS: TransitionTable = {
+  [GamePhase.WAITING]: [GamePhase.QUESTION_SELECTED],
+  [GamePhase.CATEGORY_SELECTION]: [
+    GamePhase.QUESTION_SELECTED,
+    GamePhase.COMPLETED,
+  ],
+  ...QUESTION_ROUND,
+  [GamePhase.ROUND_COMPLETED]: [
+    GamePhase.QUESTION_SELECTED,
+    GamePhase.COMPLETED,
+  ],
+};
+
+// fixed question set answered in order, no categories or steals
+const DAILY_TRANSITIONS: TransitionTable = {
+  [GamePhase.WAITING]: [GamePhase.QUESTION],
+  [GamePhase.QUESTION]: [GamePhase.COMPLETED],
+};
+
+const TRANSITIONS: Record<GameFlow, TransitionTable> = {
+  [GameFlow.QUICK]: QUICK_TRANSITIONS,
+  [GameFlow.COMPETITIVE]: COMPETITIVE_TRANSITIONS,
+  [GameFlow.HOST]: HOST_TRANSITIONS,
+  [GameFlow.GRID]: ROUND_TRANSITIONS,
+  [GameFlow.ONLINE]: ROUND_TRANSITIONS,
+  [GameFlow.DAILY]: DAILY_TRANSITIONS,
+};
+
+export type GamePhaseConflict = {
+  success: false;
+  message: string;
+  statusCode: HttpStatus.CONFLICT;
+  data: {
+    current_phase: GamePhase;
+    allowed_phases: GamePhase[];
+  };
+};
+
+export class GamePhaseHelper {
+  /**
+   * Flows a game of the given mode can be played with
+   */
+  static flowsForMode(mode: GameMode): GameFlow[] {
+    switch (mode) {
+      case GameMode.GRID_STYLE:
+        return [GameFlow.GRID];
+      case GameMode.ONLINE_QUICK_GAME:
+        return [GameFlow.ONLINE];
+      case GameMode.DAILY_CHALLENGE:
+        return [GameFlow.DAILY];
+      default:
+        return [
+          GameFlow.QUICK,
+          GameFlow.COMPETITIVE,
+          GameFlow.HOST,
+          GameFlow.ONLINE,
+        ];
+    }
+  }
+
+  /**
+   * Round based flow used by the select-category-and-start endpoints
+   */
+  static roundFlowForMode(mode: GameMode): GameFlow {
+    return mode === GameMode.GRID_STYLE ? GameFlow.GRID : GameFlow.ONLINE;
+  }
+
+  /**
+   * A game is decided once its questions have been played through or a
+   * player has forfeited by leaving it. Players the host kicked or banned
+   * do not decide it. Tournament results and ratings are only recorded for
+   * decided games, not for games ended early.
+   */
+  static isDecided(game: {
+    current_question: number;
+    total_questions: number;
+    game_players: { status: PlayerStatus }[];
+  }): boolean {
+    return (
+      (game.total_questions > 0 &&
+        game.current_question >= game.total_questions) ||
+      game.game_players.some((player) => player.status === PlayerStatus.QUIT)
+    );
+  }
+
+  static phasesOf(flow: GameFlow): GamePhase[] {
+    const table = TRANSITIONS[flow];
+    const phases = new Set<GamePhase>(Object.keys(table) as GamePhase[]);
+    Object.values(table).forEach((next) => next.forEach((p) => phases.add(p)));
+    return [...phases];
+  }
+
+  static allowedTransitions(flow: GameFlow, from: GamePhase): GamePhase[] {
+    return TRANSITIONS[flow][from] ?? [];
+  }
+
+  static canTransition(
+    flow: GameFlow | GameFlow[],
+    from: GamePhase,
+    to: GamePhase,
+  ): boolean {
+    const flows = Array.isArray(flow) ? flow : [flow];
+    return flows.some((f) => this.allowedTransitions(f, from).includes(to));
+  }
+
+  /**
+   * Returns a 409 response when the transition is not legal, null otherwise
+   */
+  static checkTransition(
+    flow: GameFlow | GameFlow[],
+    from: GamePhase,
+    to: GamePhase,
+  ): GamePhaseConflict | null {
+    if (this.canTransition(flow, from, to)) {
+      return null;
+    }
+
+    const flows = Array.isArray(flow) ? flow : [flow];
+    const allowed = [
+      ...new Set(flows.flatMap((f) => this.allowedTransitions(f, from))),
+    ];
+    return this.conflict(
+      `Cannot move the game from ${from} to ${to}.`,
+      from,
+      allowed,
+    );
+  }
+
+  /**
+   * Returns a 409 response when an action is attempted outside its phases
+   */
+  static checkPhase(
+    current: GamePhase,
+    allowed: GamePhase[],
+    action: string,
+  ): GamePhaseConflict | null {
+    if (allowed.includes(current)) {
+      return null;
+    }
+
+    return this.conflict(
+      `Cannot ${action} while the game is in ${current} phase.`,
+      current,
+      allowed,
+    );
+  }
+
+  private static conflict(
+    message: string,
+    current: GamePhase,
+    allowed: GamePhase[],
+  ): GamePhaseConflict {
+    return {
+      success: false,
+      message,
+      statusCode: HttpStatus.CONFLICT,
+      data: {
+        current_phase: current,
+        allowed_phases: allowed,
+      },
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { LifelineType } from '@prisma/client';
+import { FREE_LIFELINES, LifelineHelper } from './lifeline.helper';
+
+describe('LifelineHelper', () => {
+  const answers = [
+    { id: 'a', is_correct: true },
+    { id: 'b', is_correct: false },
+    { id: 'c', is_correct: false },
+    { id: 'd', is_correct: false },
+  ];
+
+  it('should fall back to the free lifelines without a subscription', () => {
+    expect(LifelineHelper.allowance(null)).toEqual(FREE_LIFELINES);
+  });
+
+  it('should take the allowance from the subscription type', () => {
+    expect(
+      LifelineHelper.allowance({
+        fifty_fifty_lifelines: 3,
+        extra_time_lifelines: 2,
+        double_points_lifelines: 1,
+        free_skip_lifelines: 0,
+      }),
+    ).toEqual({
+      [LifelineType.FIFTY_FIFTY]: 3,
+      [LifelineType.EXTRA_TIME]: 2,
+      [LifelineType.DOUBLE_POINTS]: 1,
+      [LifelineType.FREE_SKIP]: 0,
+    });
+  });
+
+  it('should count the remaining lifelines per type', () => {
+    const inventory = LifelineHelper.inventory(FREE_LIFELINES, [
+      { type: LifelineType.FIFTY_FIFTY },
+    ]);
+
+    expect(inventory[LifelineType.FIFTY_FIFTY]).toEqual({
+      total: 1,
+      used: 1,
+      remaining: 0,
+    });
+    expect(inventory[LifelineType.FREE_SKIP].remaining).toBe(1);
+  });
+
+  it('should remove two wrong answers and keep the correct one', () => {
+    const result = LifelineHelper.fiftyFifty(answers, () => 0);
+
+    expect(result.removed.map((a) => a.id)).toEqual(['b', 'c']);
+    expect(result.kept.map((a) => a.id)).toEqual(['a', 'd']);
+  });
+
+  it('should not apply a 50/50 with fewer than two wrong answers', () => {
+    expect(LifelineHelper.fiftyFifty(answers.slice(0, 2))).toBeNull();
+  });
+});
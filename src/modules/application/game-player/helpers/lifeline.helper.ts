@@ -0,0 +1,96 @@
+import { LifelineType } from '@prisma/client';
+
+// Lifelines each player gets in a game played without a subscription
+export const FREE_LIFELINES: Record<LifelineType, number> = {
+  [LifelineType.FIFTY_FIFTY]: 1,
+  [LifelineType.EXTRA_TIME]: 1,
+  [LifelineType.DOUBLE_POINTS]: 1,
+  [LifelineType.FREE_SKIP]: 1,
+};
+
+// Seconds added to the open question by the extra time lifeline
+export const EXTRA_TIME_SECONDS = 15;
+
+// Number of wrong answers removed by the 50/50 lifeline
+const FIFTY_FIFTY_REMOVED = 2;
+
+export type LifelineAllowance = {
+  fifty_fifty_lifelines: number;
+  extra_time_lifelines: number;
+  double_points_lifelines: number;
+  free_skip_lifelines: number;
+};
+
+export type LifelineInventory = Record<
+  LifelineType,
+  { total: number; used: number; remaining: number }
+>;
+
+export class LifelineHelper {
+  /**
+   * Lifelines per player granted by the game's subscription type
+   */
+  static allowance(
+    subscriptionType?: LifelineAllowance | null,
+  ): Record<LifelineType, number> {
+    if (!subscriptionType) {
+      return { ...FREE_LIFELINES };
+    }
+
+    return {
+      [LifelineType.FIFTY_FIFTY]: subscriptionType.fifty_fifty_lifelines,
+      [LifelineType.EXTRA_TIME]: subscriptionType.extra_time_lifelines,
+      [LifelineType.DOUBLE_POINTS]: subscriptionType.double_points_lifelines,
+      [LifelineType.FREE_SKIP]: subscriptionType.free_skip_lifelines,
+    };
+  }
+
+  /**
+   * Remaining lifelines of a player from the allowance and the uses so far
+   */
+  static inventory(
+    allowance: Record<LifelineType, number>,
+    uses: { type: LifelineType }[],
+  ): LifelineInventory {
+    const inventory = {} as LifelineInventory;
+
+    for (const type of Object.values(LifelineType)) {
+      const total = allowance[type] ?? 0;
+      const used = uses.filter((use) => use.type === type).length;
+      inventory[type] = {
+        total,
+        used,
+        remaining: Math.max(total - used, 0),
+      };
+    }
+
+    return inventory;
+  }
+
+  /**
+   * Split the answers of a question into the ones kept and the two wrong
+   * ones removed by a 50/50. Returns null when there are not enough wrong
+   * answers to remove.
+   */
+  static fiftyFifty<T extends { is_correct: boolean }>(
+    answers: T[],
+    random: () => number = Math.random,
+  ): { kept: T[]; removed: T[] } | null {
+    const wrongAnswers = answers.filter((answer) => !answer.is_correct);
+    if (wrongAnswers.length < FIFTY_FIFTY_REMOVED) {
+      return null;
+    }
+
+    const removed: T[] = [];
+    const candidates = [...wrongAnswers];
+    while (removed.length < FIFTY_FIFTY_REMOVED) {
+      const index = Math.floor(random() * candidates.length);
+      removed.push(...candidates.splice(index, 1));
+    }
+
+    return {
+      kept: answers.filter((answer) => !removed.includes(answer)),
+      removed,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { ScoringHelper, ScoringPolicy } from './scoring.helper';
+
+describe('ScoringHelper', () => {
+  const base = { points: 100, is_correct: true, time_limit_seconds: 20 };
+
+  it('should give no points for a wrong answer', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, is_correct: false, response_time_ms: 1000 },
+        ScoringPolicy.TIERED,
+      ),
+    ).toBe(0);
+  });
+
+  it('should ignore the response time with the flat policy', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, response_time_ms: 19000 },
+        ScoringPolicy.FLAT,
+      ),
+    ).toBe(100);
+  });
+
+  it('should decay linearly down to the minimum ratio', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, response_time_ms: 0 },
+        ScoringPolicy.LINEAR_DECAY,
+      ),
+    ).toBe(100);
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, response_time_ms: 10000 },
+        ScoringPolicy.LINEAR_DECAY,
+      ),
+    ).toBe(75);
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, response_time_ms: 60000 },
+        ScoringPolicy.LINEAR_DECAY,
+      ),
+    ).toBe(50);
+  });
+
+  it('should add a speed bonus per tier', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, response_time_ms: 4000 },
+        ScoringPolicy.TIERED,
+      ),
+    ).toBe(150);
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, response_time_ms: 18000 },
+        ScoringPolicy.TIERED,
+      ),
+    ).toBe(100);
+  });
+
+  it('should reduce steals by the steal multiplier', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, is_steal: true, response_time_ms: 1000 },
+        ScoringPolicy.TIERED,
+      ),
+    ).toBe(50);
+  });
+
+  it('should take a steal multiplier of 0 from the environment', () => {
+    process.env.GAME_STEAL_MULTIPLIER = '0';
+    try {
+      expect(
+        ScoringHelper.calculatePoints(
+          { ...base, is_steal: true },
+          ScoringPolicy.FLAT,
+        ),
+      ).toBe(0);
+    } finally {
+      delete process.env.GAME_STEAL_MULTIPLIER;
+    }
+  });
+
+  it('should apply the points multiplier of the game', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, points_multiplier: 1.5 },
+        ScoringPolicy.FLAT,
+      ),
+    ).toBe(150);
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, is_steal: true, points_multiplier: 2 },
+        ScoringPolicy.FLAT,
+      ),
+    ).toBe(100);
+  });
+
+  it('should give the credit share of the points to a partly correct answer', () => {
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, is_correct: false, credit: 0.5 },
+        ScoringPolicy.FLAT,
+      ),
+    ).toBe(50);
+    expect(
+      ScoringHelper.calculatePoints(
+        { ...base, credit: 0.5 },
+        ScoringPolicy.FLAT,
+      ),
+    ).toBe(100);
+  });
+
+  it('should measure the response time from the asked time', () => {
+    const askedAt = new Date('2026-01-01T00:00:00.000Z');
+    expect(
+      ScoringHelper.responseTimeMs(
+        askedAt,
+        new Date('2026-01-01T00:00:02.500Z'),
+      ),
+    ).toBe(2500);
+    expect(ScoringHelper.responseTimeMs(null)).toBeNull();
+  });
+});
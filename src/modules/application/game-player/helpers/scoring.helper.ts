@@ -0,0 +1,98 @@
+import appConfig from '../../../../config/app.config';
+
+export enum ScoringPolicy {
+  FLAT = 'flat',
+  LINEAR_DECAY = 'linear_decay',
+  TIERED = 'tiered',
+}
+
+// share of the time limit used -> bonus on top of the question points
+const SPEED_TIERS = [
+  { max_time_ratio: 0.25, bonus_ratio: 0.5 },
+  { max_time_ratio: 0.5, bonus_ratio: 0.25 },
+  { max_time_ratio: 0.75, bonus_ratio: 0.1 },
+];
+
+export type ScoreInput = {
+  points: number;
+  is_correct: boolean;
+  credit?: number; // Share of the points earned by a partly correct answer, 0-1
+  is_steal?: boolean;
+  response_time_ms?: number | null;
+  time_limit_seconds?: number | null;
+  points_multiplier?: number; // From the game's settings
+};
+
+export class ScoringHelper {
+  /**
+   * Milliseconds between the question being asked and the answer
+   */
+  static responseTimeMs(
+    questionAskedAt: Date | null,
+    answeredAt: Date = new Date(),
+  ): number | null {
+    if (!questionAskedAt) {
+      return null;
+    }
+    return Math.max(answeredAt.getTime() - questionAskedAt.getTime(), 0);
+  }
+
+  static policy(): ScoringPolicy {
+    const policy = appConfig().game.scoring.policy as ScoringPolicy;
+    return Object.values(ScoringPolicy).includes(policy)
+      ? policy
+      : ScoringPolicy.FLAT;
+  }
+
+  /**
+   * Points earned for an answer under the configured scoring policy.
+   * Steals and answers without a measured response time get no speed
+   * adjustment; steals are reduced by the steal multiplier instead.
+   */
+  static calculatePoints(
+    input: ScoreInput,
+    policy: ScoringPolicy = this.policy(),
+  ): number {
+    const credit = input.is_correct ? 1 : (input.credit ?? 0);
+    if (!credit) {
+      return 0;
+    }
+
+    const { steal_multiplier, min_points_ratio } = appConfig().game.scoring;
+    let points = input.points * (input.points_multiplier ?? 1) * credit;
+
+    const timeRatio = this.timeRatio(
+      input.response_time_ms,
+      input.time_limit_seconds,
+    );
+
+    if (timeRatio !== null && !input.is_steal) {
+      if (policy === ScoringPolicy.LINEAR_DECAY) {
+        points = points * (1 - (1 - min_points_ratio) * timeRatio);
+      } else if (policy === ScoringPolicy.TIERED) {
+        const tier = SPEED_TIERS.find((t) => timeRatio <= t.max_time_ratio);
+        points = points * (1 + (tier?.bonus_ratio ?? 0));
+      }
+    }
+
+    if (input.is_steal) {
+      points = points * steal_multiplier;
+    }
+
+    return Math.round(points);
+  }
+
+  private static timeRatio(
+    responseTimeMs?: number | null,
+    timeLimitSeconds?: number | null,
+  ): number | null {
+    if (
+      responseTimeMs === null ||
+      responseTimeMs === undefined ||
+      !timeLimitSeconds
+    ) {
+      return null;
+    }
+    return Math.min(responseTimeMs / (timeLimitSeconds * 1000), 1);
+  }
+}
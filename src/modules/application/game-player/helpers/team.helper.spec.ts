@@ -0,0 +1,122 @@
+import { HttpStatus } from '@nestjs/common';
+import { PlayerStatus } from '@prisma/client';
+import { TeamHelper } from './team.helper';
+
+describe('TeamHelper', () => {
+  const players = [
+    { id: 'p1', team_id: 'red', player_order: 1 },
+    { id: 'p2', team_id: 'blue', player_order: 2 },
+    { id: 'p3', team_id: 'red', player_order: 3 },
+    { id: 'p4', team_id: 'blue', player_order: 4 },
+  ];
+  const teams = [
+    { id: 'blue', team_order: 2, turns_taken: 1 },
+    { id: 'red', team_order: 1, turns_taken: 1 },
+  ];
+
+  it('should rotate through the players of an individual game', () => {
+    const solo = players.map((p) => ({ ...p, team_id: null }));
+
+    expect(TeamHelper.nextPlayer(solo, [], null).player?.id).toBe('p1');
+    expect(TeamHelper.nextPlayer(solo, [], 'p2').player?.id).toBe('p3');
+    expect(TeamHelper.nextPlayer(solo, [], 'p4').player?.id).toBe('p1');
+  });
+
+  it('should rotate by team and then through the team members', () => {
+    const fromRed = TeamHelper.nextPlayer(players, teams, 'p1');
+    expect(fromRed.team?.id).toBe('blue');
+    expect(fromRed.player?.id).toBe('p4');
+
+    const fromBlue = TeamHelper.nextPlayer(players, teams, 'p4');
+    expect(fromBlue.team?.id).toBe('red');
+    expect(fromBlue.player?.id).toBe('p3');
+
+    expect(TeamHelper.nextPlayer(players, teams, null).team?.id).toBe('red');
+  });
+
+  it('should skip teams without members', () => {
+    const withEmpty = [
+      ...teams,
+      { id: 'green', team_order: 3, turns_taken: 0 },
+    ];
+
+    expect(TeamHelper.nextPlayer(players, withEmpty, 'p2').team?.id).toBe(
+      'red',
+    );
+  });
+
+  it('should skip kicked and banned players', () => {
+    const removed = players.map((p) =>
+      p.id === 'p2'
+        ? { ...p, status: PlayerStatus.BANNED }
+        : p.id === 'p3'
+          ? { ...p, status: PlayerStatus.INACTIVE }
+          : { ...p, status: PlayerStatus.ACTIVE },
+    );
+    const solo = removed.map((p) => ({ ...p, team_id: null }));
+
+    expect(TeamHelper.nextPlayer(solo, [], 'p1').player?.id).toBe('p4');
+    // the removed player on turn still hands over to the next one
+    expect(TeamHelper.nextPlayer(solo, [], 'p2').player?.id).toBe('p4');
+    expect(TeamHelper.nextPlayer(removed, teams, 'p4').player?.id).toBe('p1');
+    expect(
+      TeamHelper.nextPlayer(
+        solo.map((p) => ({ ...p, status: PlayerStatus.BANNED })),
+        [],
+        'p1',
+      ).player,
+    ).toBeNull();
+  });
+
+  it('should pass the turn over bots', () => {
+    const withBot = players.map((p) => ({
+      ...p,
+      team_id: null,
+      status: PlayerStatus.ACTIVE,
+      is_bot: p.id === 'p2',
+    }));
+
+    expect(TeamHelper.nextPlayer(withBot, [], 'p1').player?.id).toBe('p3');
+    expect(TeamHelper.takesTurns(withBot[1])).toBe(false);
+    expect(TeamHelper.isSeated(withBot[1])).toBe(true);
+  });
+
+  it('should only treat members of the same team as teammates', () => {
+    expect(TeamHelper.isTeammate(players[0], players[2])).toBe(true);
+    expect(TeamHelper.isTeammate(players[0], players[1])).toBe(false);
+    expect(
+      TeamHelper.isTeammate(
+        { id: 'a', team_id: null },
+        { id: 'b', team_id: null },
+      ),
+    ).toBe(false);
+  });
+
+  it('should reject category selection by anyone but the captain', () => {
+    const team = { name: 'Red', captain_id: 'p1' };
+
+    expect(TeamHelper.checkCaptain(team, 'p1')).toBeNull();
+    expect(TeamHelper.checkCaptain(team, 'p3')?.statusCode).toBe(
+      HttpStatus.FORBIDDEN,
+    );
+    expect(TeamHelper.checkCaptain(null, undefined)).toBeNull();
+  });
+
+  it('should rank teams by score and report member contributions', () => {
+    const ranked = TeamHelper.rankTeams([
+      { id: 'red', team_order: 1, score: 200, correct_answers: 2 },
+      { id: 'blue', team_order: 2, score: 200, correct_answers: 3 },
+    ]);
+
+    expect(ranked.map((t) => [t.id, t.final_rank])).toEqual([
+      ['blue', 1],
+      ['red', 2],
+    ]);
+    expect(
+      TeamHelper.contributions(200, [
+        { id: 'p1', score: 150 },
+        { id: 'p3', score: 50 },
+      ]).map((m) => m.contribution),
+    ).toEqual([75, 25]);
+  });
+});
@@ -0,0 +1,151 @@
+import { HttpStatus } from '@nestjs/common';
+import { PlayerStatus } from '@prisma/client';
+
+export type TeamMember = {
+  id: string;
+  team_id: string | null;
+  player_order: number;
+  status?: PlayerStatus;
+  is_bot?: boolean;
+};
+
+// Kicked, banned and quit players keep their row but lose their turns
+const REMOVED_STATUSES: PlayerStatus[] = [
+  PlayerStatus.INACTIVE,
+  PlayerStatus.BANNED,
+  PlayerStatus.QUIT,
+];
+
+export type TeamRotation = {
+  id: string;
+  team_order: number;
+  turns_taken: number;
+};
+
+export type TeamStanding = {
+  id: string;
+  team_order: number;
+  score: number;
+  correct_answers: number;
+};
+
+export type CaptainConflict = {
+  success: false;
+  message: string;
+  statusCode: HttpStatus;
+};
+
+export class TeamHelper {
+  /**
+   * Player who takes the turn after the current one. Individual games go
+   * round the players; team games go round the teams and, within the team
+   * on turn, round its members using the team's turn counter. Players
+   * without a team, players the host removed and bots are left out.
+   */
+  static nextPlayer<P extends TeamMember, T extends TeamRotation>(
+    players: P[],
+    teams: T[],
+    currentPlayerId: string | null,
+  ): { player: P | null; team: T | null } {
+    const ordered = [...players].sort(
+      (a, b) => a.player_order - b.player_order,
+    );
+    const seated = ordered.filter((p) => this.takesTurns(p));
+
+    const rotation = [...teams]
+      .sort((a, b) => a.team_order - b.team_order)
+      .filter((team) => seated.some((p) => p.team_id === team.id));
+
+    if (rotation.length === 0) {
+      // the current player may have been removed, so count from everyone
+      const index = ordered.findIndex((p) => p.id === currentPlayerId);
+      for (let step = 1; step <= ordered.length; step++) {
+        const player = ordered[(index + step) % ordered.length];
+        if (this.takesTurns(player)) {
+          return { player, team: null };
+        }
+      }
+      return { player: null, team: null };
+    }
+
+    const currentTeamId = ordered.find(
+      (p) => p.id === currentPlayerId,
+    )?.team_id;
+    const teamIndex = rotation.findIndex((t) => t.id === currentTeamId);
+    const team = rotation[(teamIndex + 1) % rotation.length];
+    const members = seated.filter((p) => p.team_id === team.id);
+
+    return {
+      player: members[team.turns_taken % members.length],
+      team,
+    };
+  }
+
+  static isSeated(player: Pick<TeamMember, 'status'>): boolean {
+    return !REMOVED_STATUSES.includes(player.status);
+  }
+
+  // bots fill a matchmaking lobby but nobody answers for them
+  static takesTurns(player: Pick<TeamMember, 'status' | 'is_bot'>): boolean {
+    return this.isSeated(player) && !player.is_bot;
+  }
+
+  static isTeammate(
+    player: Pick<TeamMember, 'id' | 'team_id'> | null | undefined,
+    other: Pick<TeamMember, 'id' | 'team_id'> | null | undefined,
+  ): boolean {
+    return (
+      !!player?.team_id &&
+      player.id !== other?.id &&
+      player.team_id === other?.team_id
+    );
+  }
+
+  /**
+   * Only the captain of the team on turn selects categories in a team game
+   */
+  static checkCaptain(
+    team: { name: string; captain_id: string | null } | null,
+    selectingPlayerId?: string | null,
+  ): CaptainConflict | null {
+    if (!team || !team.captain_id || team.captain_id === selectingPlayerId) {
+      return null;
+    }
+
+    return {
+      success: false,
+      message: `Only the captain of ${team.name} can select the category.`,
+      statusCode: HttpStatus.FORBIDDEN,
+    };
+  }
+
+  /**
+   * Teams ordered by score, then correct answers, then rotation order
+   */
+  static rankTeams<T extends TeamStanding>(
+    teams: T[],
+  ): (T & { final_rank: number })[] {
+    return [...teams]
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.correct_answers - a.correct_answers ||
+          a.team_order - b.team_order,
+      )
+      .map((team, index) => ({ ...team, final_rank: index + 1 }));
+  }
+
+  /**
+   * Share of the team score earned by each member, as a percentage
+   */
+  static contributions<P extends { id: string; score: number }>(
+    teamScore: number,
+    members: P[],
+  ): (P & { contribution: number })[] {
+    return members.map((member) => ({
+      ...member,
+      contribution:
+        teamScore > 0 ? Math.round((member.score / teamScore) * 100) : 0,
+    }));
+  }
+}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bullmq';
+import {
+  QUESTION_DEADLINE_GRACE_MS,
+  QUESTION_TIMER_QUEUE,
+  QuestionTimerService,
+} from './question-timer.service';
+
+describe('QuestionTimerService', () => {
+  let service: QuestionTimerService;
+  const queue = { add: jest.fn(), remove: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionTimerService,
+        { provide: getQueueToken(QUESTION_TIMER_QUEUE), useValue: queue },
+      ],
+    }).compile();
+
+    service = module.get<QuestionTimerService>(QuestionTimerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should prefer the room question time over the question time', () => {
+    expect(
+      QuestionTimerService.resolveTimeLimit({ time: 30 }, [
+        { question_time: 15 },
+      ]),
+    ).toBe(15);
+    expect(
+      QuestionTimerService.resolveTimeLimit({ time: 30 }, [
+        { question_time: null },
+      ]),
+    ).toBe(30);
+    expect(QuestionTimerService.resolveTimeLimit({ time: 30 }, [])).toBe(30);
+  });
+
+  it('should prefer the game settings question time', () => {
+    expect(
+      QuestionTimerService.resolveTimeLimit(
+        { time: 30 },
+        [{ question_time: 15 }],
+        { question_time: 20 },
+      ),
+    ).toBe(20);
+    expect(
+      QuestionTimerService.resolveTimeLimit({ time: 30 }, [], {
+        question_time: null,
+      }),
+    ).toBe(30);
+  });
+
+  it('should only expire after the grace period', () => {
+    const deadline = new Date('2026-01-01T00:00:00.000Z');
+    const justLate = new Date(deadline.getTime() + QUESTION_DEADLINE_GRACE_MS);
+    const late = new Date(justLate.getTime() + 1);
+
+    expect(QuestionTimerService.isExpired(null)).toBe(false);
+    expect(QuestionTimerService.isExpired(deadline, justLate)).toBe(false);
+    expect(QuestionTimerService.isExpired(deadline, late)).toBe(true);
+  });
+});
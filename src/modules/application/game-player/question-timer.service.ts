@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+
+export const QUESTION_TIMER_QUEUE = 'question-timer-queue';
+
+// Answers that arrive this long after the deadline are still accepted to
+// absorb network latency between the client timer and the server.
+export const QUESTION_DEADLINE_GRACE_MS = 1500;
+
+export type QuestionTimerKind = 'turn' | 'steal';
+
+export interface QuestionTimerJobData {
+  game_id: string;
+  question_id: string;
+  player_id?: string;
+  kind: QuestionTimerKind;
+  deadline: string;
+}
+
+@Injectable()
+export class QuestionTimerService {
+  private readonly logger = new Logger(QuestionTimerService.name);
+
+  constructor(@InjectQueue(QUESTION_TIMER_QUEUE) private queue: Queue) {}
+
+  /**
+   * Resolve the answer time (in seconds) for a question. The game's
+   * settings, then a room level question_time, override the question's
+   * own time limit.
+   */
+  static resolveTimeLimit(
+    question: { time: number },
+    rooms?: { question_time: number | null }[],
+    settings?: { question_time: number | null } | null,
+  ): number {
+    if (settings?.question_time) {
+      return settings.question_time;
+    }
+    if (rooms && rooms.length > 0 && rooms[0].question_time) {
+      return rooms[0].question_time;
+    }
+    return question.time;
+  }
+
+  static deadlineFrom(startedAt: Date, timeLimitSeconds: number): Date {
+    return new Date(startedAt.getTime() + timeLimitSeconds * 1000);
+  }
+
+  static isExpired(deadline: Date | null, now: Date = new Date()): boolean {
+    if (!deadline) {
+      return false;
+    }
+    return now.getTime() > deadline.getTime() + QUESTION_DEADLINE_GRACE_MS;
+  }
+
+  // schedule the timeout for the player whose turn it is, or of a question
+  // the host dealt to nobody in particular
+  async scheduleTurnTimeout(
+    gameId: string,
+    questionId: string,
+    playerId: string | null,
+    deadline: Date,
+  ) {
+    await this.schedule({
+      game_id: gameId,
+      question_id: questionId,
+      player_id: playerId ?? undefined,
+      kind: 'turn',
+      deadline: deadline.toISOString(),
+    });
+  }
+
+  // schedule the end of the steal window for a question
+  async scheduleStealTimeout(
+    gameId: string,
+    questionId: string,
+    deadline: Date,
+  ) {
+    await this.schedule({
+      game_id: gameId,
+      question_id: questionId,
+      kind: 'steal',
+      deadline: deadline.toISOString(),
+    });
+  }
+
+  // cancel every pending timer of a question
+  async cancel(gameId: string, questionId: string) {
+    try {
+      await Promise.all([
+        this.queue.remove(this.jobId(gameId, questionId, 'turn')),
+        this.queue.remove(this.jobId(gameId, questionId, 'steal')),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Error cancelling timers for question ${questionId} in game ${gameId}`,
+        error,
+      );
+    }
+  }
+
+  private async schedule(data: QuestionTimerJobData) {
+    try {
+      const delay = Math.max(new Date(data.deadline).getTime() - Date.now(), 0);
+
+      await this.queue.add('questionTimeout', data, {
+        jobId: this.jobId(data.game_id, data.question_id, data.kind),
+        delay: delay + QUESTION_DEADLINE_GRACE_MS,
+        removeOnComplete: true,
+        removeOnFail: true,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error scheduling ${data.kind} timer for question ${data.question_id} in game ${data.game_id}`,
+        error,
+      );
+    }
+  }
+
+  // bullmq does not allow ':' in custom job ids
+  private jobId(gameId: string, questionId: string, kind: QuestionTimerKind) {
+    return `${kind}-${gameId}-${questionId}`;
+  }
+}
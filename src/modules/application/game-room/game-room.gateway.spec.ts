@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GameRoomEvent, GameRoomGateway } from './game-room.gateway';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('GameRoomGateway', () => {
+  let gateway: GameRoomGateway;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [GameRoomGateway, { provide: PrismaService, useValue: {} }],
+    }).compile();
+
+    gateway = module.get<GameRoomGateway>(GameRoomGateway);
+  });
+
+  it('should be defined', () => {
+    expect(gateway).toBeDefined();
+  });
+
+  it('should not relay answer results to spectators', () => {
+    expect(
+      GameRoomGateway.toSpectatorPayload(GameRoomEvent.ANSWER_RESULT, {
+        is_correct: true,
+      }),
+    ).toBeNull();
+  });
+
+  it('should hide the correct answer of a revealed question', () => {
+    const payload = GameRoomGateway.toSpectatorPayload(
+      GameRoomEvent.QUESTION_REVEALED,
+      {
+        correct_answer: { id: 'a1' },
+        question: {
+          id: 'q1',
+          answers: [
+            { id: 'a1', text: 'Paris', is_correct: true },
+            { id: 'a2', text: 'Rome', is_correct: false },
+          ],
+        },
+      },
+    );
+
+    expect(payload.correct_answer).toBeUndefined();
+    expect(payload.question.answers).toEqual([
+      { id: 'a1', text: 'Paris', file_url: undefined },
+      { id: 'a2', text: 'Rome', file_url: undefined },
+    ]);
+  });
+
+  it('should only share the steal window with spectators', () => {
+    expect(
+      GameRoomGateway.toSpectatorPayload(GameRoomEvent.STEAL_OPENED, {
+        game_id: 'g1',
+        correct_answer: { id: 'a1' },
+        current_question: { id: 'q1' },
+        steal_deadline_at: '2026-01-01T00:00:20.000Z',
+      }),
+    ).toEqual({
+      game_id: 'g1',
+      question_id: 'q1',
+      steal_deadline_at: '2026-01-01T00:00:20.000Z',
+    });
+  });
+});
@@ -0,0 +1,414 @@
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Logger } from '@nestjs/common';
+import { PlayerStatus } from '@prisma/client';
+import { Server, Socket } from 'socket.io';
+import * as jwt from 'jsonwebtoken';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { RoomHelper } from '../multiplayer-game/helpers/room.helper';
+
+// Events pushed to every socket in a room channel (channel name = Room.code)
+export enum GameRoomEvent {
+  PLAYER_JOINED = 'playerJoined',
+  PLAYER_LEFT = 'playerLeft',
+  PLAYER_REMOVED = 'playerRemoved',
+  GAME_STARTED = 'gameStarted',
+  CATEGORY_SELECTED = 'categorySelected',
+  QUESTION_REVEALED = 'questionRevealed',
+  ANSWER_RESULT = 'answerResult',
+  STEAL_OPENED = 'stealOpened',
+  QUESTION_TIMED_OUT = 'questionTimedOut',
+  TURN_ADVANCED = 'turnAdvanced',
+  LIFELINE_USED = 'lifelineUsed',
+  TEAMS_UPDATED = 'teamsUpdated',
+  ROUND_CLOSED = 'roundClosed',
+  GAME_COMPLETED = 'gameCompleted',
+  GAME_PAUSED = 'gamePaused',
+  GAME_RESUMED = 'gameResumed',
+  GAME_ABANDONED = 'gameAbandoned',
+  HOST_CHANGED = 'hostChanged',
+  SPECTATORS_CHANGED = 'spectatorsChanged',
+  SPECTATING_DISABLED = 'spectatingDisabled',
+}
+
+// Events relayed to spectators. Answers and results stay hidden until the
+// round closes; the correct answer is never forwarded before that.
+const SPECTATOR_EVENTS: Partial<Record<GameRoomEvent, (payload: any) => any>> =
+  {
+    [GameRoomEvent.PLAYER_JOINED]: (payload) => payload,
+    [GameRoomEvent.PLAYER_LEFT]: (payload) => payload,
+    [GameRoomEvent.PLAYER_REMOVED]: (payload) => payload,
+    [GameRoomEvent.GAME_STARTED]: (payload) => payload,
+    [GameRoomEvent.CATEGORY_SELECTED]: (payload) => payload,
+    [GameRoomEvent.TURN_ADVANCED]: (payload) => payload,
+    [GameRoomEvent.TEAMS_UPDATED]: (payload) => payload,
+    [GameRoomEvent.QUESTION_REVEALED]: (payload) => ({
+      ...payload,
+      correct_answer: undefined,
+      question: payload.question && {
+        ...payload.question,
+        answers: (payload.question.answers || []).map((answer) => ({
+          id: answer.id,
+          text: answer.text,
+          file_url: answer.file_url,
+        })),
+      },
+    }),
+    [GameRoomEvent.STEAL_OPENED]: (payload) => ({
+      game_id: payload.game_id,
+      question_id: payload.question_id ?? payload.current_question?.id,
+      steal_deadline_at: payload.steal_deadline_at,
+    }),
+    [GameRoomEvent.QUESTION_TIMED_OUT]: (payload) => ({
+      game_id: payload.game_id,
+      next_action: payload.next_action,
+    }),
+    [GameRoomEvent.ROUND_CLOSED]: (payload) => payload,
+    [GameRoomEvent.GAME_COMPLETED]: (payload) => payload,
+    [GameRoomEvent.GAME_PAUSED]: (payload) => payload,
+    [GameRoomEvent.GAME_RESUMED]: (payload) => payload,
+    [GameRoomEvent.GAME_ABANDONED]: (payload) => payload,
+    [GameRoomEvent.HOST_CHANGED]: (payload) => payload,
+  };
+
+// Called when the host of a game is gone, `left` is true when they left
+// the game on purpose rather than losing their connection
+export type HostLeftHandler = (
+  gameId: string,
+  hostId: string,
+  left: boolean,
+) => Promise<void>;
+
+@WebSocketGateway({
+  namespace: 'game',
+  cors: {
+    origin: '*',
+  },
+})
+export class GameRoomGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(GameRoomGateway.name);
+  private hostLeftHandler: HostLeftHandler | null = null;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // only authenticated users can connect to the game namespace
+  handleConnection(client: Socket) {
+    try {
+      const token =
+        client.handshake.auth?.token ||
+        client.handshake.headers.authorization?.split(' ')[1];
+      if (!token) {
+        client.disconnect();
+        return;
+      }
+
+      const decoded: any = jwt.verify(token, appConfig().jwt.secret);
+      if (!decoded?.sub) {
+        client.disconnect();
+        return;
+      }
+
+      client.data.userId = decoded.sub;
+    } catch (error) {
+      this.logger.warn(`Rejected socket ${client.id}: ${error.message}`);
+      client.disconnect();
+    }
+  }
+
+  async handleDisconnect(client: Socket) {
+    if (client.data.userId) {
+      this.logger.log(`User ${client.data.userId} left the game namespace`);
+    }
+    if (client.data.spectating) {
+      await this.notifySpectatorCount(client.data.spectating);
+    }
+    if (client.data.roomCode) {
+      await this.checkHostPresence(client.data.roomCode, client.data.userId);
+    }
+  }
+
+  /**
+   * Subscribe to a room channel. Only the room host and the players of the
+   * room's game are allowed in.
+   */
+  @SubscribeMessage('joinGameRoom')
+  async handleJoinGameRoom(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { room_code: string },
+  ) {
+    const userId = client.data.userId;
+    const roomCode = body?.room_code?.toUpperCase();
+    if (!userId || !roomCode) {
+      return { success: false, message: 'Room code is required' };
+    }
+
+    const room = await this.prisma.room.findUnique({
+      where: { code: roomCode },
+      select: { code: true, game_id: true, host_id: true },
+    });
+    if (!room) {
+      return { success: false, message: 'Room not found' };
+    }
+
+    if (room.host_id !== userId) {
+      const player = await this.prisma.gamePlayer.findFirst({
+        where: { game_id: room.game_id, user_id: userId },
+        select: { id: true, status: true },
+      });
+      if (!player) {
+        return {
+          success: false,
+          message: 'You are not a participant of this room',
+        };
+      }
+      if (player.status === PlayerStatus.BANNED) {
+        return {
+          success: false,
+          message: 'You have been banned from this room',
+        };
+      }
+    }
+
+    await client.join(room.code);
+    client.data.roomCode = room.code;
+    return {
+      success: true,
+      message: 'Joined game room',
+      data: { room_code: room.code, game_id: room.game_id },
+    };
+  }
+
+  /**
+   * Follow a room as a read-only spectator. Spectators are not game players
+   * and do not count toward the room's player limit.
+   */
+  @SubscribeMessage('spectateGameRoom')
+  async handleSpectateGameRoom(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { room_code: string; password?: string },
+  ) {
+    const roomCode = body?.room_code?.toUpperCase();
+    if (!client.data.userId || !roomCode) {
+      return { success: false, message: 'Room code is required' };
+    }
+
+    const room = await this.prisma.room.findUnique({
+      where: { code: roomCode },
+      select: {
+        code: true,
+        game_id: true,
+        host_id: true,
+        allow_spectators: true,
+        visibility: true,
+        password: true,
+        game_players: { select: { user_id: true, status: true } },
+      },
+    });
+    if (!room) {
+      return { success: false, message: 'Room not found' };
+    }
+    const spectateBlock = RoomHelper.spectateBlock(
+      room,
+      client.data.userId,
+      await RoomHelper.passwordMatches(room, body.password),
+    );
+    if (spectateBlock) {
+      return { success: false, message: spectateBlock };
+    }
+
+    await client.join(GameRoomGateway.spectatorChannel(room.code));
+    client.data.spectating = room.code;
+    const spectatorCount = await this.notifySpectatorCount(room.code);
+
+    return {
+      success: true,
+      message: 'Spectating game room',
+      data: {
+        room_code: room.code,
+        game_id: room.game_id,
+        spectator_count: spectatorCount,
+      },
+    };
+  }
+
+  @SubscribeMessage('leaveGameRoom')
+  async handleLeaveGameRoom(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { room_code: string },
+  ) {
+    const roomCode = body?.room_code?.toUpperCase();
+    if (roomCode) {
+      await client.leave(roomCode);
+      if (client.data.spectating === roomCode) {
+        await client.leave(GameRoomGateway.spectatorChannel(roomCode));
+        client.data.spectating = null;
+        await this.notifySpectatorCount(roomCode);
+      }
+    }
+    return { success: true, message: 'Left game room' };
+  }
+
+  static spectatorChannel(roomCode: string) {
+    return `${roomCode}:spectators`;
+  }
+
+  /**
+   * Payload a spectator receives for an event, or null when the event is
+   * not shown to spectators
+   */
+  static toSpectatorPayload(event: GameRoomEvent, payload: any) {
+    const toPayload = SPECTATOR_EVENTS[event];
+    return toPayload ? toPayload(payload ?? {}) : null;
+  }
+
+  async spectatorCount(roomCode: string): Promise<number> {
+    const sockets = await this.server
+      .in(GameRoomGateway.spectatorChannel(roomCode))
+      .fetchSockets();
+    return sockets.length;
+  }
+
+  /**
+   * Remove every spectator of a room, used when the host turns spectating off
+   */
+  async closeSpectating(roomCode: string) {
+    const channel = GameRoomGateway.spectatorChannel(roomCode);
+    this.server.to(channel).emit(GameRoomEvent.SPECTATING_DISABLED, {
+      room_code: roomCode,
+    });
+    this.server.in(channel).socketsLeave(channel);
+    this.server.to(roomCode).emit(GameRoomEvent.SPECTATORS_CHANGED, {
+      room_code: roomCode,
+      spectator_count: 0,
+    });
+  }
+
+  onHostLeft(handler: HostLeftHandler) {
+    this.hostLeftHandler = handler;
+  }
+
+  async hostLeft(gameId: string, hostId: string, left: boolean) {
+    try {
+      await this.hostLeftHandler?.(gameId, hostId, left);
+    } catch (error) {
+      this.logger.error(`Error handing over the host of ${gameId}`, error);
+    }
+  }
+
+  /**
+   * When each user in a room channel connected, by user id. A user with
+   * several sockets counts from their oldest one.
+   */
+  async connectedSince(roomCode: string): Promise<Map<string, number>> {
+    const sockets = await this.server.in(roomCode).fetchSockets();
+    const since = new Map<string, number>();
+    for (const socket of sockets) {
+      const userId = socket.data.userId;
+      const issued = socket.handshake.issued;
+      if (userId && (!since.has(userId) || issued < since.get(userId))) {
+        since.set(userId, issued);
+      }
+    }
+    return since;
+  }
+
+  /**
+   * Take a removed player's sockets out of the room channel
+   */
+  async removeFromRoom(roomCode: string, userId: string) {
+    const sockets = await this.server.in(roomCode).fetchSockets();
+    sockets
+      .filter((socket) => socket.data.userId === userId)
+      .forEach((socket) => socket.leave(roomCode));
+  }
+
+  emitToRoom(roomCode: string, event: GameRoomEvent, payload: any) {
+    this.server.to(roomCode).emit(event, payload);
+    this.emitToSpectators([roomCode], event, payload);
+  }
+
+  /**
+   * Push an event to every room of a game. Games without a room
+   * (single device games) have no channel and are skipped.
+   */
+  async emitToGame(gameId: string, event: GameRoomEvent, payload: any) {
+    try {
+      const rooms = await this.prisma.room.findMany({
+        where: { game_id: gameId },
+        select: { code: true },
+      });
+      if (rooms.length === 0) {
+        return;
+      }
+
+      const roomCodes = rooms.map((room) => room.code);
+      this.server.to(roomCodes).emit(event, { game_id: gameId, ...payload });
+      this.emitToSpectators(roomCodes, event, { game_id: gameId, ...payload });
+    } catch (error) {
+      this.logger.error(`Error emitting ${event} for game ${gameId}`, error);
+    }
+  }
+
+  private emitToSpectators(
+    roomCodes: string[],
+    event: GameRoomEvent,
+    payload: any,
+  ) {
+    const spectatorPayload = GameRoomGateway.toSpectatorPayload(event, payload);
+    if (!spectatorPayload) {
+      return;
+    }
+
+    this.server
+      .to(roomCodes.map((code) => GameRoomGateway.spectatorChannel(code)))
+      .emit(event, spectatorPayload);
+  }
+
+  // a host whose last socket in the room is gone starts the handover
+  private async checkHostPresence(roomCode: string, userId: string) {
+    try {
+      const room = await this.prisma.room.findUnique({
+        where: { code: roomCode },
+        select: { game_id: true, host_id: true },
+      });
+      if (!room || room.host_id !== userId) {
+        return;
+      }
+
+      const connected = await this.connectedSince(roomCode);
+      if (!connected.has(userId)) {
+        await this.hostLeft(room.game_id, userId, false);
+      }
+    } catch (error) {
+      this.logger.error(`Error checking the host of room ${roomCode}`, error);
+    }
+  }
+
+  // push the live spectator count to the players of the room
+  private async notifySpectatorCount(roomCode: string) {
+    try {
+      const spectatorCount = await this.spectatorCount(roomCode);
+      this.server.to(roomCode).emit(GameRoomEvent.SPECTATORS_CHANGED, {
+        room_code: roomCode,
+        spectator_count: spectatorCount,
+      });
+      return spectatorCount;
+    } catch (error) {
+      this.logger.error(`Error counting spectators of ${roomCode}`, error);
+      return 0;
+    }
+  }
+}
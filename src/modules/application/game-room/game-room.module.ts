@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { GameRoomGateway } from './game-room.gateway';
+
+@Global()
+@Module({
+  providers: [GameRoomGateway],
+  exports: [GameRoomGateway],
+})
+export class GameRoomModule {}
@@ -0,0 +1,48 @@
+import { Controller, Post, Param, UseGuards, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { GameSessionService } from './game-session.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+@ApiTags('Game Session')
+@ApiBearerAuth()
+@Controller('game-session')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class GameSessionController {
+  constructor(private readonly gameSessionService: GameSessionService) {}
+
+  @ApiOperation({ summary: 'Pause a game and freeze its question timer' })
+  @Post(':gameId/pause')
+  async pause(@Param('gameId') gameId: string, @Req() req: any) {
+    return this.gameSessionService.pause(req.user.userId, gameId);
+  }
+
+  @ApiOperation({ summary: 'Resume a paused game' })
+  @Post(':gameId/resume')
+  async resume(@Param('gameId') gameId: string, @Req() req: any) {
+    return this.gameSessionService.resume(req.user.userId, gameId);
+  }
+
+  @ApiOperation({ summary: 'Hand the host role over to another player' })
+  @Post(':gameId/host/:playerId')
+  async transferHost(
+    @Param('gameId') gameId: string,
+    @Param('playerId') playerId: string,
+    @Req() req: any,
+  ) {
+    return this.gameSessionService.transferHost(
+      req.user.userId,
+      gameId,
+      playerId,
+    );
+  }
+
+  @ApiOperation({ summary: 'End a game early with its partial results' })
+  @Post(':gameId/abandon')
+  async abandon(@Param('gameId') gameId: string, @Req() req: any) {
+    return this.gameSessionService.abandonByHost(req.user.userId, gameId);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { GAME_SESSION_QUEUE, GameSessionService } from './game-session.service';
+import { GameSessionController } from './game-session.controller';
+import { GameSessionProcessor } from './processors/game-session.processor';
+import { GamePlayerModule } from '../game-player/game-player.module';
+
+@Module({
+  imports: [
+    GamePlayerModule,
+    BullModule.registerQueue({ name: GAME_SESSION_QUEUE }),
+  ],
+  controllers: [GameSessionController],
+  providers: [GameSessionService, GameSessionProcessor],
+})
+export class GameSessionModule {}
@@ -0,0 +1,608 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  AbandonReason,
+  GameEventType,
+  GameMode,
+  GamePhase,
+  RoomStatus,
+} from '@prisma/client';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { GameEventService } from '../game-event/game-event.service';
+import { GameRoomEvent, GameRoomGateway } from '../game-room/game-room.gateway';
+import { QuestionTimerService } from '../game-player/question-timer.service';
+import { TeamHelper } from '../game-player/helpers/team.helper';
+import {
+  FINISHED_STATUSES,
+  GameSessionHelper,
+} from './helpers/game-session.helper';
+
+export type HostChangeReason = 'HANDOVER' | 'HOST_LEFT' | 'HOST_DISCONNECTED';
+
+export const GAME_SESSION_QUEUE = 'game-session-queue';
+
+// Games abandoned by one sweep at most, the next sweep takes the rest
+const SWEEP_BATCH = 100;
+
+@Injectable()
+export class GameSessionService implements OnModuleInit {
+  private readonly logger = new Logger(GameSessionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameEvents: GameEventService,
+    private readonly gameRoomGateway: GameRoomGateway,
+    private readonly questionTimer: QuestionTimerService,
+    @InjectQueue(GAME_SESSION_QUEUE) private readonly queue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    this.gameRoomGateway.onHostLeft((gameId, hostId, left) =>
+      this.scheduleHostMigration(gameId, hostId, left),
+    );
+
+    try {
+      await this.queue.add(
+        'inactivitySweep',
+        {},
+        {
+          jobId: 'inactivity-sweep',
+          repeat: { every: appConfig().game.abandon.sweep_minutes * 60000 },
+          removeOnComplete: true,
+          removeOnFail: true,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Error scheduling the inactivity sweep', error);
+    }
+  }
+
+  /**
+   * Freeze the game. The open question's deadline is cleared and the time
+   * that was left on it is kept for the resume.
+   */
+  async pause(userId: string, gameId: string) {
+    try {
+      const game = await this.hostGame(userId, gameId);
+      if (!GameSessionHelper.canPause(game.game_phase)) {
+        throw new BadRequestException(
+          `Cannot pause the game while it is in ${game.game_phase} phase`,
+        );
+      }
+
+      const now = new Date();
+      const remainingMs = GameSessionHelper.remainingMs(
+        game.question_deadline_at,
+        now,
+      );
+      const questionId = await this.latestQuestionId(gameId);
+      if (questionId) {
+        await this.questionTimer.cancel(gameId, questionId);
+      }
+
+      const payload = {
+        paused_at: now,
+        paused_phase: game.game_phase,
+        remaining_ms: remainingMs,
+      };
+      await this.prisma.$transaction(async (tx) => {
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            game_phase: GamePhase.PAUSED,
+            paused_at: now,
+            paused_phase: game.game_phase,
+            paused_remaining_ms: remainingMs,
+            question_deadline_at: null,
+          },
+        });
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.GAME_PAUSED,
+          { payload },
+          tx,
+        );
+      });
+      await this.gameRoomGateway.emitToGame(
+        gameId,
+        GameRoomEvent.GAME_PAUSED,
+        payload,
+      );
+
+      return {
+        success: true,
+        message: 'Game paused',
+        data: payload,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Put the game back in the phase it was paused in. The open question
+   * gets the time it had left and its timer is scheduled again.
+   */
+  async resume(userId: string, gameId: string) {
+    try {
+      const game = await this.hostGame(userId, gameId);
+      if (game.game_phase !== GamePhase.PAUSED) {
+        throw new BadRequestException('The game is not paused');
+      }
+
+      const now = new Date();
+      const deadline = GameSessionHelper.resumedDeadline(
+        game.paused_remaining_ms,
+        now,
+      );
+      const pausedFor = now.getTime() - game.paused_at.getTime();
+
+      const payload = {
+        game_phase: game.paused_phase,
+        question_deadline_at: deadline,
+        paused_for_ms: pausedFor,
+      };
+      await this.prisma.$transaction(async (tx) => {
+        await tx.game.update({
+          where: { id: gameId },
+          data: {
+            game_phase: game.paused_phase,
+            question_deadline_at: deadline,
+            // response times should not count the pause
+            question_asked_at: game.question_asked_at
+              ? new Date(game.question_asked_at.getTime() + pausedFor)
+              : null,
+            paused_at: null,
+            paused_phase: null,
+            paused_remaining_ms: null,
+          },
+        });
+        await this.gameEvents.record(
+          gameId,
+          GameEventType.GAME_RESUMED,
+          { payload },
+          tx,
+        );
+      });
+
+      const questionId = await this.latestQuestionId(gameId);
+      if (deadline && questionId) {
+        if (game.paused_phase === GamePhase.QUESTION_SELECTED) {
+          await this.questionTimer.scheduleTurnTimeout(
+            gameId,
+            questionId,
+            game.current_player_id,
+            deadline,
+          );
+        } else if (
+          game.paused_phase === GamePhase.STEAL_MODE_ACTIVE ||
+          game.paused_phase === GamePhase.STEAL_MODE_ON_TIMEOUT
+        ) {
+          await this.questionTimer.scheduleStealTimeout(
+            gameId,
+            questionId,
+            deadline,
+          );
+        }
+      }
+
+      await this.gameRoomGateway.emitToGame(
+        gameId,
+        GameRoomEvent.GAME_RESUMED,
+        payload,
+      );
+
+      return {
+        success: true,
+        message: 'Game resumed',
+        data: payload,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async abandonByHost(userId: string, gameId: string) {
+    try {
+      const game = await this.hostGame(userId, gameId);
+      if (GameSessionHelper.isOver(game)) {
+        throw new BadRequestException('The game is already over');
+      }
+
+      return {
+        success: true,
+        message: 'Game abandoned',
+        data: await this.abandon(gameId, AbandonReason.HOST_ABANDONED),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Hand the game over to another player of the host's choice
+   */
+  async transferHost(userId: string, gameId: string, playerId: string) {
+    try {
+      const game = await this.hostGame(userId, gameId);
+      if (GameSessionHelper.isOver(game)) {
+        throw new BadRequestException('The game is already over');
+      }
+
+      const player = await this.prisma.gamePlayer.findFirst({
+        where: { id: playerId, game_id: gameId },
+      });
+      if (!player) {
+        throw new NotFoundException('Player not found in this game');
+      }
+      if (!TeamHelper.isSeated(player) || player.is_bot || player.is_guest) {
+        throw new BadRequestException('This player cannot host the game');
+      }
+      if (player.user_id === userId) {
+        throw new BadRequestException('You are already the host');
+      }
+
+      return {
+        success: true,
+        message: 'Host handed over',
+        data: await this.handOver(game, player, 'HANDOVER'),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Queue the handover of a game whose host is gone. A host who lost their
+   * connection has the grace period to come back, one who left does not.
+   */
+  async scheduleHostMigration(gameId: string, hostId: string, left: boolean) {
+    const graceMs = appConfig().game.host_migration.grace_seconds * 1000;
+    await this.queue.add(
+      'hostMigration',
+      { gameId, hostId, left },
+      {
+        jobId: `host-migration-${gameId}-${left ? 'left' : 'lost'}`,
+        delay: left ? 0 : graceMs,
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    );
+  }
+
+  /**
+   * Promote the longest connected active player of a game whose host is
+   * gone. Nothing changes when the host came back or was already replaced;
+   * with nobody left to promote the game is left to the inactivity sweep.
+   */
+  async migrateHost(gameId: string, hostId: string, left: boolean) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      include: {
+        rooms: { select: { code: true } },
+        game_players: { orderBy: { player_order: 'asc' } },
+      },
+    });
+    if (!game || game.host_id !== hostId || GameSessionHelper.isOver(game)) {
+      return null;
+    }
+
+    const connected = new Map<string, number>();
+    for (const room of game.rooms) {
+      const since = await this.gameRoomGateway.connectedSince(room.code);
+      since.forEach((issued, userId) => {
+        if (!connected.has(userId) || issued < connected.get(userId)) {
+          connected.set(userId, issued);
+        }
+      });
+    }
+    if (!left && connected.has(hostId)) {
+      return null;
+    }
+
+    const player = GameSessionHelper.pickHost(
+      game.game_players,
+      connected,
+      hostId,
+    );
+    if (!player) {
+      this.logger.log(`No player of game ${gameId} can take over as host`);
+      return null;
+    }
+
+    return this.handOver(
+      game,
+      player,
+      left ? 'HOST_LEFT' : 'HOST_DISCONNECTED',
+    );
+  }
+
+  /**
+   * Abandon every game nobody has touched for the configured period.
+   * Tournament matches, challenges and daily games run on their own
+   * deadlines and are left alone.
+   */
+  async abandonInactiveGames(now: Date = new Date()) {
+    const policy = appConfig().game.abandon;
+    const idlePhases = [GamePhase.PAUSED, GamePhase.WAITING];
+
+    const stale = await this.prisma.game.findMany({
+      where: {
+        game_phase: { not: GamePhase.COMPLETED },
+        mode: { not: GameMode.DAILY_CHALLENGE },
+        tournament_match: { is: null },
+        async_challenge: { is: null },
+        AND: [
+          {
+            OR: [{ status: null }, { status: { notIn: FINISHED_STATUSES } }],
+          },
+          {
+            OR: [
+              {
+                game_phase: { in: idlePhases },
+                updated_at: {
+                  lt: GameSessionHelper.activeCutoff(true, now, policy),
+                },
+              },
+              {
+                game_phase: { notIn: idlePhases },
+                updated_at: {
+                  lt: GameSessionHelper.activeCutoff(false, now, policy),
+                },
+              },
+            ],
+          },
+        ],
+      },
+      select: { id: true },
+      orderBy: { updated_at: 'asc' },
+      take: SWEEP_BATCH,
+    });
+
+    let abandoned = 0;
+    for (const game of stale) {
+      try {
+        if (await this.abandon(game.id, AbandonReason.INACTIVITY)) {
+          abandoned++;
+        }
+      } catch (error) {
+        this.logger.error(`Error abandoning game ${game.id}`, error);
+      }
+    }
+    return { abandoned };
+  }
+
+  /**
+   * Close rooms whose game never started in time. Their games end the way
+   * abandoned ones do, so a charged game is refunded. Tournament match
+   * rooms wait for their players, the bracket decides when they are due.
+   */
+  async expireWaitingRooms(now: Date = new Date()) {
+    const waitingMinutes = appConfig().game.room_expiry.waiting_minutes;
+    const rooms = await this.prisma.room.findMany({
+      where: {
+        status: RoomStatus.WAITING,
+        created_at: { lt: new Date(now.getTime() - waitingMinutes * 60000) },
+        // room status is not moved along, the game phase tells a started game
+        game: {
+          game_phase: GamePhase.WAITING,
+          tournament_match: { is: null },
+        },
+      },
+      select: { game_id: true },
+      orderBy: { created_at: 'asc' },
+      take: SWEEP_BATCH,
+    });
+
+    let expired = 0;
+    for (const room of rooms) {
+      try {
+        if (await this.abandon(room.game_id, AbandonReason.ROOM_EXPIRED)) {
+          expired++;
+        }
+      } catch (error) {
+        this.logger.error(`Error expiring the room of ${room.game_id}`, error);
+      }
+    }
+    return { expired };
+  }
+
+  /**
+   * End the game where it stands. Players are ranked on the scores they
+   * have so far and a charged game nobody got to play is refunded.
+   */
+  private async abandon(gameId: string, reason: AbandonReason) {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId } });
+    if (!game || GameSessionHelper.isOver(game)) {
+      return null;
+    }
+
+    const questionId = await this.latestQuestionId(gameId);
+    if (questionId) {
+      await this.questionTimer.cancel(gameId, questionId);
+    }
+
+    const answers = await this.prisma.playerAnswer.count({
+      where: { game_player: { game_id: gameId } },
+    });
+    const refunded = GameSessionHelper.refundsGame(game, answers);
+
+    const payload = await this.prisma.$transaction(async (tx) => {
+      const players = await tx.gamePlayer.findMany({
+        where: { game_id: gameId },
+        orderBy: [
+          { score: 'desc' },
+          { correct_answers: 'desc' },
+          { player_order: 'asc' },
+        ],
+      });
+      for (const [index, player] of players.entries()) {
+        await tx.gamePlayer.update({
+          where: { id: player.id },
+          data: { final_rank: index + 1 },
+        });
+      }
+
+      // Team games share one rank per team
+      if (game.is_team_game) {
+        const teams = await tx.gameTeam.findMany({
+          where: { game_id: gameId },
+        });
+        for (const team of TeamHelper.rankTeams(teams)) {
+          await tx.gameTeam.update({
+            where: { id: team.id },
+            data: { final_rank: team.final_rank },
+          });
+          await tx.gamePlayer.updateMany({
+            where: { team_id: team.id },
+            data: { final_rank: team.final_rank },
+          });
+        }
+      }
+
+      await tx.game.update({
+        where: { id: gameId },
+        data: {
+          status: 'abandoned',
+          game_phase: GamePhase.COMPLETED,
+          abandon_reason: reason,
+          abandoned_at: new Date(),
+          question_deadline_at: null,
+          paused_at: null,
+          paused_phase: null,
+          paused_remaining_ms: null,
+        },
+      });
+      await tx.room.updateMany({
+        where: { game_id: gameId },
+        data: {
+          status:
+            reason === AbandonReason.ROOM_EXPIRED
+              ? RoomStatus.EXPIRED
+              : RoomStatus.COMPLETED,
+        },
+      });
+
+      if (refunded) {
+        await tx.subscription.updateMany({
+          where: { id: game.subscription_id, games_played_count: { gt: 0 } },
+          data: { games_played_count: { decrement: 1 } },
+        });
+      }
+
+      const standings = await tx.gamePlayer.findMany({
+        where: { game_id: gameId },
+        select: {
+          id: true,
+          player_name: true,
+          score: true,
+          correct_answers: true,
+          wrong_answers: true,
+          final_rank: true,
+          team_id: true,
+        },
+        orderBy: [{ final_rank: 'asc' }, { player_order: 'asc' }],
+      });
+
+      const payload = { reason, refunded, answers, standings };
+      await this.gameEvents.record(
+        gameId,
+        GameEventType.GAME_ABANDONED,
+        { payload },
+        tx,
+      );
+      return payload;
+    });
+    await this.gameRoomGateway.emitToGame(
+      gameId,
+      GameRoomEvent.GAME_ABANDONED,
+      payload,
+    );
+    this.logger.log(`Game ${gameId} abandoned (${reason})`);
+
+    return payload;
+  }
+
+  /**
+   * Make the player the host of the game and of its rooms. The game keeps
+   * its subscription, so the game the old host paid for stays paid.
+   */
+  private async handOver(
+    game: { id: string; host_id: string | null },
+    player: { id: string; user_id: string | null; player_name: string | null },
+    reason: HostChangeReason,
+  ) {
+    const payload = {
+      previous_host_id: game.host_id,
+      host_id: player.user_id,
+      player_id: player.id,
+      player_name: player.player_name,
+      reason,
+    };
+    await this.prisma.$transaction(async (tx) => {
+      await tx.room.updateMany({
+        where: { game_id: game.id },
+        data: { host_id: player.user_id },
+      });
+      await tx.game.update({
+        where: { id: game.id },
+        data: { host_id: player.user_id },
+      });
+      await this.gameEvents.record(
+        game.id,
+        GameEventType.HOST_CHANGED,
+        { game_player_id: player.id, payload },
+        tx,
+      );
+    });
+    await this.gameRoomGateway.emitToGame(
+      game.id,
+      GameRoomEvent.HOST_CHANGED,
+      payload,
+    );
+    this.logger.log(`Game ${game.id} handed over to ${player.user_id}`);
+
+    return payload;
+  }
+
+  private async hostGame(userId: string, gameId: string) {
+    const game = await this.prisma.game.findUnique({ where: { id: gameId } });
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+    if (game.host_id !== userId) {
+      throw new ForbiddenException('Only the game host can do this');
+    }
+    return game;
+  }
+
+  private async latestQuestionId(gameId: string) {
+    const latest = await this.prisma.gameQuestion.findFirst({
+      where: { game_id: gameId },
+      orderBy: { created_at: 'desc' },
+      select: { question_id: true },
+    });
+    return latest?.question_id ?? null;
+  }
+}
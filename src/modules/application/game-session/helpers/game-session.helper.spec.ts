@@ -0,0 +1,110 @@
+import { GamePhase, PlayerStatus } from '@prisma/client';
+import { GameSessionHelper } from './game-session.helper';
+
+describe('GameSessionHelper', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should only pause games that are in play', () => {
+    expect(GameSessionHelper.canPause(GamePhase.QUESTION_SELECTED)).toBe(true);
+    expect(GameSessionHelper.canPause(GamePhase.STEAL_MODE_ACTIVE)).toBe(true);
+    expect(GameSessionHelper.canPause(GamePhase.WAITING)).toBe(false);
+    expect(GameSessionHelper.canPause(GamePhase.PAUSED)).toBe(false);
+    expect(GameSessionHelper.canPause(GamePhase.COMPLETED)).toBe(false);
+  });
+
+  it('should keep the time left on the deadline across a pause', () => {
+    const deadline = new Date(now.getTime() + 12000);
+    const remaining = GameSessionHelper.remainingMs(deadline, now);
+    const resumedAt = new Date(now.getTime() + 60 * 60 * 1000);
+
+    expect(remaining).toBe(12000);
+    expect(GameSessionHelper.resumedDeadline(remaining, resumedAt)).toEqual(
+      new Date(resumedAt.getTime() + 12000),
+    );
+    expect(
+      GameSessionHelper.remainingMs(new Date(now.getTime() - 500), now),
+    ).toBe(0);
+    expect(GameSessionHelper.remainingMs(null, now)).toBeNull();
+    expect(GameSessionHelper.resumedDeadline(null, now)).toBeNull();
+  });
+
+  it('should tell finished games apart', () => {
+    expect(
+      GameSessionHelper.isOver({
+        status: 'active',
+        game_phase: GamePhase.COMPLETED,
+      }),
+    ).toBe(true);
+    expect(
+      GameSessionHelper.isOver({
+        status: 'abandoned',
+        game_phase: GamePhase.PAUSED,
+      }),
+    ).toBe(true);
+    expect(
+      GameSessionHelper.isOver({ status: null, game_phase: GamePhase.WAITING }),
+    ).toBe(false);
+  });
+
+  it('should give idle games longer before they are abandoned', () => {
+    const policy = { inactive_minutes: 30, idle_minutes: 720 };
+
+    expect(GameSessionHelper.activeCutoff(false, now, policy)).toEqual(
+      new Date('2026-10-19T11:30:00Z'),
+    );
+    expect(GameSessionHelper.activeCutoff(true, now, policy)).toEqual(
+      new Date('2026-10-19T00:00:00Z'),
+    );
+  });
+
+  it('should refund charged games abandoned before the first answer', () => {
+    expect(GameSessionHelper.refundsGame({ subscription_id: 'sub' }, 0)).toBe(
+      true,
+    );
+    expect(GameSessionHelper.refundsGame({ subscription_id: 'sub' }, 3)).toBe(
+      false,
+    );
+    expect(GameSessionHelper.refundsGame({ subscription_id: null }, 0)).toBe(
+      false,
+    );
+  });
+
+  it('should hand the game to the longest connected active player', () => {
+    const player = (id: string, player_order: number, extra = {}) => ({
+      id,
+      user_id: `user-${id}`,
+      status: PlayerStatus.ACTIVE,
+      player_order,
+      is_bot: false,
+      is_guest: false,
+      ...extra,
+    });
+    const players = [
+      player('host', 1),
+      player('late', 2),
+      player('early', 3),
+      player('kicked', 4, { status: PlayerStatus.INACTIVE }),
+      player('bot', 5, { is_bot: true }),
+      player('away', 6),
+    ];
+    const connected = new Map([
+      ['user-host', 100],
+      ['user-late', 900],
+      ['user-early', 300],
+      ['user-kicked', 50],
+      ['user-bot', 10],
+    ]);
+
+    expect(GameSessionHelper.pickHost(players, connected, 'user-host').id).toBe(
+      'early',
+    );
+    connected.delete('user-early');
+    expect(GameSessionHelper.pickHost(players, connected, 'user-host').id).toBe(
+      'late',
+    );
+    connected.delete('user-late');
+    expect(
+      GameSessionHelper.pickHost(players, connected, 'user-host'),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { GamePhase, PlayerStatus } from '@prisma/client';
+
+export type AbandonPolicy = {
+  inactive_minutes: number;
+  idle_minutes: number;
+};
+
+export type HostCandidate = {
+  id: string;
+  user_id: string | null;
+  status: PlayerStatus;
+  player_order: number;
+  is_bot: boolean;
+  is_guest: boolean;
+};
+
+// statuses of games that are over, one way or another
+export const FINISHED_STATUSES = ['completed', 'COMPLETED', 'abandoned'];
+
+// phases with nothing in play, a game in them cannot be paused
+const IDLE_PHASES: GamePhase[] = [
+  GamePhase.WAITING,
+  GamePhase.COMPLETED,
+  GamePhase.PAUSED,
+];
+
+export class GameSessionHelper {
+  static canPause(phase: GamePhase): boolean {
+    return !IDLE_PHASES.includes(phase);
+  }
+
+  /**
+   * Milliseconds left on a deadline, null when nothing is timed
+   */
+  static remainingMs(deadline: Date | null, now: Date): number | null {
+    if (!deadline) {
+      return null;
+    }
+    return Math.max(deadline.getTime() - now.getTime(), 0);
+  }
+
+  static resumedDeadline(remainingMs: number | null, now: Date): Date | null {
+    if (remainingMs === null) {
+      return null;
+    }
+    return new Date(now.getTime() + remainingMs);
+  }
+
+  static isOver(game: { status: string | null; game_phase: GamePhase }) {
+    return (
+      game.game_phase === GamePhase.COMPLETED ||
+      FINISHED_STATUSES.includes(game.status)
+    );
+  }
+
+  /**
+   * Last moment of activity that still keeps a game alive. Games that are
+   * paused or were never started are given the longer idle period.
+   */
+  static activeCutoff(idle: boolean, now: Date, policy: AbandonPolicy): Date {
+    const minutes = idle ? policy.idle_minutes : policy.inactive_minutes;
+    return new Date(now.getTime() - minutes * 60 * 1000);
+  }
+
+  /**
+   * A charged game is refunded when it is abandoned before any question
+   * was answered
+   */
+  static refundsGame(
+    game: { subscription_id: string | null },
+    answers: number,
+  ): boolean {
+    return !!game.subscription_id && answers === 0;
+  }
+
+  /**
+   * Player who takes over from a host that is gone: the active player who
+   * has been connected to the room the longest. Bots and guests cannot host
+   * and nobody is picked when no other player is connected.
+   */
+  static pickHost<P extends HostCandidate>(
+    players: P[],
+    connectedSince: Map<string, number>,
+    hostId: string,
+  ): P | null {
+    const candidates = players.filter(
+      (player) =>
+        player.status === PlayerStatus.ACTIVE &&
+        !player.is_bot &&
+        !player.is_guest &&
+        player.user_id &&
+        player.user_id !== hostId &&
+        connectedSince.has(player.user_id),
+    );
+
+    candidates.sort(
+      (a, b) =>
+        connectedSince.get(a.user_id) - connectedSince.get(b.user_id) ||
+        a.player_order - b.player_order,
+    );
+    return candidates[0] ?? null;
+  }
+}
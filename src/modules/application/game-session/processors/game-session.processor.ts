@@ -0,0 +1,48 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import {
+  GAME_SESSION_QUEUE,
+  GameSessionService,
+} from '../game-session.service';
+
+@Processor(GAME_SESSION_QUEUE)
+export class GameSessionProcessor extends WorkerHost {
+  private readonly logger = new Logger(GameSessionProcessor.name);
+  constructor(private gameSessionService: GameSessionService) {
+    super();
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.log(`Job ${job.id} with name ${job.name} completed`);
+  }
+
+  async process(job: Job): Promise<any> {
+    this.logger.log(`Processing job ${job.id} with name ${job.name}`);
+    try {
+      switch (job.name) {
+        case 'inactivitySweep':
+          return {
+            ...(await this.gameSessionService.abandonInactiveGames()),
+            ...(await this.gameSessionService.expireWaitingRooms()),
+          };
+        case 'hostMigration':
+          return await this.gameSessionService.migrateHost(
+            job.data.gameId,
+            job.data.hostId,
+            job.data.left,
+          );
+        default:
+          this.logger.log('Unknown job name');
+          return;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing job ${job.id} with name ${job.name}`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
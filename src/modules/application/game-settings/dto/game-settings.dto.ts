@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class GameSettingsDto {
+  @ApiProperty({
+    description: 'Questions in a grid style game (default: the whole board)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  total_questions?: number;
+
+  @ApiProperty({
+    description:
+      'Questions per player in other modes (default: the subscription questions)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  questions_per_player?: number;
+
+  @ApiProperty({
+    description: "Seconds per question (default: each question's own time)",
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(300)
+  question_time?: number;
+
+  @ApiProperty({
+    description: 'Whether a missed question can be stolen (default: true)',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  steal_enabled?: boolean;
+
+  @ApiProperty({
+    description: 'Seconds of the steal window (default: the question time)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(300)
+  steal_time?: number;
+
+  @ApiProperty({
+    description: 'Multiplier on the points of every answer (default: 1)',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(5)
+  points_multiplier?: number;
+
+  @ApiProperty({
+    description:
+      "Questions a player may take from one category (default: the category's own limit)",
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  category_repeat_limit?: number;
+
+  @ApiProperty({
+    description: 'Points taken off for skipping a question (default: 0)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  skip_penalty?: number;
+}
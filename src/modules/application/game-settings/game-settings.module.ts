@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { GameSettingsService } from './game-settings.service';
+
+// Global so every mode's service can read the rules of its games
+@Global()
+@Module({
+  providers: [GameSettingsService],
+  exports: [GameSettingsService],
+})
+export class GameSettingsModule {}
@@ -0,0 +1,80 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GameMode, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  GameRuleOverrides,
+  GameRules,
+  GameSettingsHelper,
+  RuleLimits,
+} from './helpers/game-settings.helper';
+
+@Injectable()
+export class GameSettingsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Check host overrides against the mode and the subscription limits
+   * before the game is created
+   */
+  validate(mode: GameMode, overrides: GameRuleOverrides, limits: RuleLimits) {
+    const conflict = GameSettingsHelper.validate(mode, overrides ?? {}, limits);
+    if (conflict) {
+      throw new BadRequestException(conflict);
+    }
+  }
+
+  /**
+   * Store the rules of a new game: the mode defaults with the host's
+   * overrides. Runs inside the transaction creating the game.
+   */
+  async createForGame(
+    tx: Prisma.TransactionClient,
+    game: { id: string; mode: GameMode },
+    limits: RuleLimits,
+    overrides: GameRuleOverrides = {},
+  ) {
+    this.validate(game.mode, overrides, limits);
+
+    return tx.gameSettings.create({
+      data: {
+        game_id: game.id,
+        ...GameSettingsHelper.resolve(game.mode, overrides),
+      },
+    });
+  }
+
+  /**
+   * Rules of a game. Games created before settings existed get the
+   * defaults of their mode.
+   */
+  async forGame(gameId: string): Promise<GameRules> {
+    const settings = await this.prisma.gameSettings.findUnique({
+      where: { game_id: gameId },
+    });
+    if (settings) {
+      return settings;
+    }
+
+    const game = await this.prisma.game.findUnique({
+      where: { id: gameId },
+      select: { mode: true },
+    });
+    if (!game) {
+      return GameSettingsHelper.defaults(GameMode.QUICK_GAME);
+    }
+
+    return this.prisma.gameSettings.upsert({
+      where: { game_id: gameId },
+      create: { game_id: gameId, ...GameSettingsHelper.defaults(game.mode) },
+      update: {},
+    });
+  }
+
+  async update(gameId: string, data: GameRuleOverrides) {
+    await this.forGame(gameId);
+    return this.prisma.gameSettings.update({
+      where: { game_id: gameId },
+      data,
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { GameMode } from '@prisma/client';
+import {
+  DEFAULT_CATEGORY_REPEAT_LIMIT,
+  FREE_COMPETITIVE_QUESTIONS,
+  GameSettingsHelper,
+  GRID_BOARD_QUESTIONS,
+} from './game-settings.helper';
+
+describe('GameSettingsHelper', () => {
+  it('should play the whole board in grid style games', () => {
+    const rules = GameSettingsHelper.defaults(GameMode.GRID_STYLE);
+
+    expect(rules.total_questions).toBe(GRID_BOARD_QUESTIONS);
+    expect(GameSettingsHelper.totalQuestions(rules, 4, { questions: 10 })).toBe(
+      GRID_BOARD_QUESTIONS,
+    );
+  });
+
+  it('should give every player the subscription questions', () => {
+    const rules = GameSettingsHelper.defaults(GameMode.QUICK_GAME);
+
+    expect(GameSettingsHelper.totalQuestions(rules, 3, { questions: 5 })).toBe(
+      15,
+    );
+    expect(GameSettingsHelper.totalQuestions(rules, 3, null)).toBe(3);
+    expect(
+      GameSettingsHelper.totalQuestions(
+        { ...rules, questions_per_player: 2 },
+        3,
+        { questions: 5 },
+      ),
+    ).toBe(6);
+  });
+
+  it('should cap competitive games by what is available', () => {
+    const rules = GameSettingsHelper.defaults(GameMode.QUICK_GAME);
+
+    expect(GameSettingsHelper.competitiveQuestions(rules, 50, null)).toBe(
+      FREE_COMPETITIVE_QUESTIONS,
+    );
+    expect(
+      GameSettingsHelper.competitiveQuestions(rules, 50, { questions: -1 }),
+    ).toBe(50);
+    expect(
+      GameSettingsHelper.competitiveQuestions(
+        { ...rules, questions_per_player: 8 },
+        5,
+        { questions: 20 },
+      ),
+    ).toBe(5);
+  });
+
+  it('should keep overrides within the subscription', () => {
+    expect(
+      GameSettingsHelper.validate(
+        GameMode.QUICK_GAME,
+        { questions_per_player: 6 },
+        { questions: 5 },
+      ),
+    ).toContain('at most 5');
+    expect(
+      GameSettingsHelper.validate(
+        GameMode.QUICK_GAME,
+        { questions_per_player: 50 },
+        { questions: -1 },
+      ),
+    ).toBeNull();
+    expect(
+      GameSettingsHelper.validate(
+        GameMode.QUICK_GAME,
+        { questions_per_player: 2 },
+        null,
+      ),
+    ).toContain('Free games');
+  });
+
+  it('should only let grid style games fix the question count', () => {
+    expect(
+      GameSettingsHelper.validate(
+        GameMode.QUICK_GAME,
+        { total_questions: 10 },
+        { questions: 5 },
+      ),
+    ).not.toBeNull();
+    expect(
+      GameSettingsHelper.validate(
+        GameMode.GRID_STYLE,
+        { total_questions: GRID_BOARD_QUESTIONS + 1 },
+        null,
+      ),
+    ).not.toBeNull();
+    expect(
+      GameSettingsHelper.validate(
+        GameMode.GRID_STYLE,
+        { total_questions: 16 },
+        null,
+      ),
+    ).toBeNull();
+  });
+
+  it('should fall back to the question and category values', () => {
+    const rules = GameSettingsHelper.resolve(GameMode.QUICK_GAME, {
+      steal_time: 10,
+      steal_enabled: undefined,
+    });
+
+    expect(rules.steal_enabled).toBe(true);
+    expect(GameSettingsHelper.questionTime(rules, { time: 30 })).toBe(30);
+    expect(rules.steal_time).toBe(10);
+    expect(
+      GameSettingsHelper.categoryLimit(rules, { same_category_selection: 4 }),
+    ).toBe(4);
+    expect(
+      GameSettingsHelper.categoryLimit(rules, {
+        same_category_selection: null,
+      }),
+    ).toBe(DEFAULT_CATEGORY_REPEAT_LIMIT);
+    expect(
+      GameSettingsHelper.categoryLimit(
+        { ...rules, category_repeat_limit: 1 },
+        { same_category_selection: 4 },
+      ),
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { GameMode, GameSettings } from '@prisma/client';
+
+// Questions on a grid style board
+export const GRID_BOARD_QUESTIONS = 36;
+// Questions in a free competitive game
+export const FREE_COMPETITIVE_QUESTIONS = 10;
+// Used when neither the game nor the category sets a repeat limit
+export const DEFAULT_CATEGORY_REPEAT_LIMIT = 3;
+
+export type GameRules = Omit<
+  GameSettings,
+  'id' | 'created_at' | 'updated_at' | 'game_id'
+>;
+
+export type GameRuleOverrides = Partial<GameRules>;
+
+// Limits of the subscription the game is played on, none for a free game
+export type RuleLimits = { questions: number } | null;
+
+export class GameSettingsHelper {
+  /**
+   * Rules a game of the mode starts with. Grid games play the whole
+   * board; other games leave the question count to the subscription.
+   */
+  static defaults(mode: GameMode): GameRules {
+    return {
+      total_questions:
+        mode === GameMode.GRID_STYLE ? GRID_BOARD_QUESTIONS : null,
+      questions_per_player: null,
+      question_time: null,
+      steal_enabled: true,
+      steal_time: null,
+      points_multiplier: 1,
+      category_repeat_limit: null,
+      skip_penalty: 0,
+    };
+  }
+
+  /**
+   * Why the overrides cannot be used for the mode and subscription, or
+   * null when they can
+   */
+  static validate(
+    mode: GameMode,
+    overrides: GameRuleOverrides,
+    limits: RuleLimits,
+  ): string | null {
+    const isGrid = mode === GameMode.GRID_STYLE;
+
+    if (isGrid && overrides.questions_per_player != null) {
+      return 'Grid style games set total_questions instead of questions_per_player';
+    }
+    if (!isGrid && overrides.total_questions != null) {
+      return 'Only grid style games have a fixed total_questions';
+    }
+    if (
+      overrides.total_questions != null &&
+      overrides.total_questions > GRID_BOARD_QUESTIONS
+    ) {
+      return `A grid style board has at most ${GRID_BOARD_QUESTIONS} questions`;
+    }
+
+    const maxPerPlayer = limits ? limits.questions : 1;
+    if (
+      overrides.questions_per_player != null &&
+      maxPerPlayer !== -1 &&
+      overrides.questions_per_player > maxPerPlayer
+    ) {
+      return limits
+        ? `Your subscription allows at most ${maxPerPlayer} questions per player`
+        : 'Free games have one question per player';
+    }
+
+    return null;
+  }
+
+  static resolve(mode: GameMode, overrides: GameRuleOverrides): GameRules {
+    const rules = this.defaults(mode);
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined && key in rules) {
+        rules[key] = value;
+      }
+    }
+    return rules;
+  }
+
+  /**
+   * Questions in a game where players take turns. Without a count of
+   * their own, players get the questions of the subscription each, or
+   * one each in a free game.
+   */
+  static totalQuestions(
+    rules: GameRules,
+    players: number,
+    limits: RuleLimits,
+  ): number {
+    if (rules.total_questions != null) {
+      return rules.total_questions;
+    }
+    const perPlayer =
+      rules.questions_per_player ??
+      (limits && limits.questions > 0 ? limits.questions : 1);
+    return perPlayer * players;
+  }
+
+  /**
+   * Questions in a competitive game, where every player answers every
+   * question. Without a count of their own, games play the questions of
+   * the subscription, or ten in a free game.
+   */
+  static competitiveQuestions(
+    rules: GameRules,
+    available: number,
+    limits: RuleLimits,
+  ): number {
+    const questions =
+      rules.questions_per_player ??
+      (!limits
+        ? FREE_COMPETITIVE_QUESTIONS
+        : limits.questions === -1
+          ? available
+          : limits.questions);
+    return Math.min(available, questions);
+  }
+
+  static questionTime(rules: GameRules, question: { time: number }): number {
+    return rules.question_time ?? question.time;
+  }
+
+  static categoryLimit(
+    rules: GameRules,
+    category: { same_category_selection: number | null },
+  ): number {
+    return (
+      rules.category_repeat_limit ??
+      category.same_category_selection ??
+      DEFAULT_CATEGORY_REPEAT_LIMIT
+    );
+  }
+}
@@ -1,6 +1,7 @@
-import { IsString, IsNotEmpty, IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsEnum, IsInt, Min, Max, IsBoolean, ValidateNested } from 'class-validator';
 import { GameMode } from '@prisma/client';
-import { Transform } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
+import { GameSettingsDto } from '../../game-settings/dto/game-settings.dto';
 
 export class CreateGameDto {
     @IsEnum(GameMode)
@@ -26,6 +27,16 @@ export class CreateGameDto {
     @IsOptional()
     user_id: string;  // Foreign key to User model (required)
 
+    @IsOptional()
+    @IsBoolean()
+    @Transform(({ value }) => value === true || value === 'true')
+    adaptive_difficulty?: boolean;  // Steer questions toward the player's level (solo and practice games)
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => GameSettingsDto)
+    settings?: GameSettingsDto;  // Host overrides of the mode's rules
+
     @IsOptional()
     created_at?: Date;  // Optional, automatically set by Prisma if not provided
 
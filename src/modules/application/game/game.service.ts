@@ -1,16 +1,28 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { GameMode, GamePhase, QuestionKind } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { CreateGameDto } from './dto/create-game.dto';
 import { UpdateGameDto } from './dto/update-game.dto';
 import { SojebStorage } from 'src/common/lib/Disk/SojebStorage';
 import appConfig from 'src/config/app.config';
 import { GamePlayerService } from '../game-player/game-player.service';
+import { GameSettingsService } from '../game-settings/game-settings.service';
+import {
+  GameSettingsHelper,
+  RuleLimits,
+} from '../game-settings/helpers/game-settings.helper';
+import { GameSettingsDto } from '../game-settings/dto/game-settings.dto';
 
 @Injectable()
 export class GameService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly gamePlayerService: GamePlayerService,
+    private readonly gameSettings: GameSettingsService,
   ) { }
 
   // Create a new game with subscription validation
@@ -27,6 +39,7 @@ export class GameService {
 
       let activeSubscriptionId: string | null = null;
       let requiresSubscription = false;
+      let ruleLimits: RuleLimits = null;
 
       // If user has already created any game (free one used), check for specific subscription
       if (totalGamesCount > 0) {
@@ -88,8 +101,16 @@ export class GameService {
           };
         }
         activeSubscriptionId = activeSubscription.id;
+        ruleLimits = activeSubscription.subscription_type;
       }
 
+      const { settings: settingsOverrides, ...gameData } = createGameDto;
+      this.gameSettings.validate(
+        createGameDto.mode ?? GameMode.QUICK_GAME,
+        settingsOverrides,
+        ruleLimits,
+      );
+
       // Check games of this specific type (for informational purposes)
       const gamesOfThisType = await this.prisma.game.count({
         where: {
@@ -101,7 +122,7 @@ export class GameService {
       // Create the game
       const game = await this.prisma.game.create({
         data: {
-          ...createGameDto,
+          ...gameData,
           host_id: user_id,
           subscription_id: activeSubscriptionId,
         },
@@ -110,6 +131,7 @@ export class GameService {
           mode: true,
           status: true,
           language_id: true,
+          adaptive_difficulty: true,
           created_at: true,
           host: {
             select: {
@@ -121,6 +143,13 @@ export class GameService {
         },
       });
 
+      const settings = await this.gameSettings.createForGame(
+        this.prisma,
+        game,
+        ruleLimits,
+        settingsOverrides,
+      );
+
       // If user has used their free game and has a subscription, increment the games played count
       if (requiresSubscription && activeSubscriptionId) {
         await this.prisma.subscription.update({
@@ -139,6 +168,7 @@ export class GameService {
           : `${createGameDto.mode.replace('_', ' ')} game created successfully using your subscription.`,
         data: {
           ...game,
+          settings,
           is_first_game_overall: isFirstGameOverall,
           games_of_this_type: gamesOfThisType + 1,
           total_games_created: totalGamesCount + 1,
@@ -528,10 +558,15 @@ export class GameService {
   // Update an existing game
   async update(id: string, updateGameDto: UpdateGameDto) {
     try {
+      const { settings: settingsOverrides, ...gameData } = updateGameDto;
+      if (settingsOverrides) {
+        await this.updateSettings(id, gameData.mode, settingsOverrides);
+      }
+
       const updatedGame = await this.prisma.game.update({
         where: { id },
         data: {
-          ...updateGameDto,
+          ...gameData,
         },
         select: {
           id: true,
@@ -563,6 +598,33 @@ export class GameService {
     }
   }
 
+  // Rules can only change before the game has started
+  private async updateSettings(
+    id: string,
+    mode: GameMode | undefined,
+    overrides: GameSettingsDto,
+  ) {
+    const game = await this.prisma.game.findUnique({
+      where: { id },
+      include: { subscription: { include: { subscription_type: true } } },
+    });
+    if (!game) {
+      throw new NotFoundException('Game not found');
+    }
+    if (game.game_phase !== GamePhase.WAITING) {
+      throw new BadRequestException(
+        'Game rules can only be changed before the game starts',
+      );
+    }
+
+    this.gameSettings.validate(
+      mode ?? game.mode,
+      overrides,
+      game.subscription?.subscription_type ?? null,
+    );
+    await this.gameSettings.update(id, overrides);
+  }
+
   // Delete a game by ID
   async remove(id: string) {
     try {
@@ -730,7 +792,7 @@ export class GameService {
       // --- 2. GRID_STYLE Mode Logic (Filter by 'Text' Question Type) ---
       let textQuestionTypeId: string | null = null;
       if (mode === 'GRID_STYLE') {
-        let questionTypeWhere: any = { name: 'Text' };
+        let questionTypeWhere: any = { kind: QuestionKind.TEXT };
         if (languageId) {
           questionTypeWhere.language_id = languageId;
         }
@@ -833,6 +895,7 @@ export class GameService {
               );
 
               // Map counts to the categories
+              const rules = await this.gameSettings.forGame(gameId);
               finalCategories = finalCategories
                 .map((category) => ({
                   ...category,
@@ -840,7 +903,8 @@ export class GameService {
                 }))
                 .filter(
                   (category) =>
-                    category.selected_count < category.same_category_selection,
+                    category.selected_count <
+                    GameSettingsHelper.categoryLimit(rules, category),
                 );
             }
           }
@@ -1,6 +1,9 @@
 import {
     IsString,
     IsNotEmpty,
+    IsOptional,
+    IsArray,
+    IsBoolean,
 } from 'class-validator';
 
 export class AnswerQuestionDto {
@@ -15,4 +18,25 @@ export class AnswerQuestionDto {
     @IsString()
     @IsNotEmpty()
     team_id: string
+
+    // answer token
+    @IsOptional()
+    @IsString()
+    answer_id?: string
+
+    // typed answer, graded against the accepted answers
+    @IsOptional()
+    @IsString()
+    answer_text?: string
+
+    // answer tokens picked, or put in order
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    answer_ids?: string[]
+
+    // the host's verdict on an answer given aloud, only the host may judge
+    @IsOptional()
+    @IsBoolean()
+    is_correct?: boolean
 }
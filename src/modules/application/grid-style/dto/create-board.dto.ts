@@ -0,0 +1,21 @@
+import {
+  IsString,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsNotEmpty,
+} from 'class-validator';
+
+export class CreateBoardDto {
+  @IsString()
+  @IsNotEmpty()
+  game_id: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(6)
+  @IsString({ each: true })
+  categories: string[]; // Board columns
+}
@@ -1,6 +1,7 @@
 import {
     IsString,
     IsNotEmpty,
+    IsOptional,
 } from 'class-validator';
 
 export class GetCategoryDto {
@@ -15,4 +16,12 @@ export class GetCategoryDto {
     @IsString()
     @IsNotEmpty()
     difficulty_id: string
+
+    @IsString()
+    @IsOptional()
+    player_id?: string // GamePlayer whose accuracy steers adaptive games, the host when left out
+
+    @IsString()
+    @IsOptional()
+    cell_id?: string // Board cell the question is asked on, the first free one of the category and difficulty when left out
 }
@@ -17,6 +17,7 @@ import { AnswerQuestionDto } from './dto/answer-question.dto';
 import { AddMultipleQuickGamePlayersDto } from '../game-player/dto/quick-game.dto';
 import { GamePlayerService } from '../game-player/game-player.service';
 import { CategoryDifficultyDto } from './dto/category-dificulty.dto';
+import { CreateBoardDto } from './dto/create-board.dto';
 
 @Controller('grid-style')
 export class GridStyleController {
@@ -35,6 +36,20 @@ export class GridStyleController {
     );
   }
 
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Lay out the board from the chosen categories.' })
+  @Post('board')
+  async createBoard(@Body() boardDto: CreateBoardDto, @Req() req: any) {
+    return this.service.createBoard(req.user.userId, boardDto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get the board with cell owners and scores.' })
+  @Get('board/:gameId')
+  async getBoard(@Param('gameId') gameId: string) {
+    return this.service.getBoard(gameId);
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Get Question by category.' })
   @Get('get-question')
@@ -45,8 +60,8 @@ export class GridStyleController {
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Get Question by category.' })
   @Post('answer-question')
-  async answerQuestion(@Body() body: AnswerQuestionDto) {
-    return this.service.answerQuestion(body);
+  async answerQuestion(@Body() body: AnswerQuestionDto, @Req() req: any) {
+    return this.service.answerQuestion(req.user.userId, body);
   }
 
   // Grid style game
@@ -7,5 +7,6 @@ import { GamePlayerModule } from '../game-player/game-player.module';
   controllers: [GridStyleController],
   providers: [GridStyleService],
   imports: [GamePlayerModule],
+  exports: [GridStyleService],
 })
 export class GridStyleModule {}
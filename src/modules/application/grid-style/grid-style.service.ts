@@ -1,17 +1,40 @@
 import {
   BadRequestException,
+  ForbiddenException,
   HttpException,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
 } from '@nestjs/common';
+import { GameEventType, GameMode } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
+import appConfig from 'src/config/app.config';
+import { GameEventService } from '../game-event/game-event.service';
+import { DailyChallengeService } from '../daily-challenge/daily-challenge.service';
+import { AdaptiveDifficultyService } from '../game-player/adaptive-difficulty.service';
+import { GameSettingsService } from '../game-settings/game-settings.service';
+import { GRID_BOARD_QUESTIONS } from '../game-settings/helpers/game-settings.helper';
 import { GetCategoryDto } from './dto/get-question.dto';
 import { AnswerQuestionDto } from './dto/answer-question.dto';
+import { CreateBoardDto } from './dto/create-board.dto';
+import { GridBoardHelper } from './helpers/grid-board.helper';
+import { AnswerTokenHelper } from '../game-player/helpers/answer-token.helper';
+import { AnswerGradingHelper } from '../game-player/helpers/answer-grading.helper';
+import {
+  QuestionTimerJobData,
+  QuestionTimerService,
+} from '../game-player/question-timer.service';
 
 @Injectable()
 export class GridStyleService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameEvents: GameEventService,
+    private readonly dailyChallenges: DailyChallengeService,
+    private readonly adaptiveDifficulty: AdaptiveDifficultyService,
+    private readonly gameSettings: GameSettingsService,
+    private readonly questionTimer: QuestionTimerService,
+  ) {}
 
   async listDifficultyLevel(game_id: string, categoryIds: string[]) {
     try {
@@ -80,12 +103,184 @@ export class GridStyleService {
     }
   }
 
+  /**
+   * Lay out the board of a grid game from the chosen categories. Each
+   * cell is a GameSelection row, so the board survives reloads and can be
+   * resumed from any device. A board can be laid out again until its
+   * first cell is claimed.
+   */
+  async createBoard(userId: string, boardDto: CreateBoardDto) {
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: boardDto.game_id },
+      });
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+      if (game.mode !== GameMode.GRID_STYLE) {
+        throw new BadRequestException('Only grid style games have a board');
+      }
+      if (game.host_id !== userId) {
+        throw new ForbiddenException('Only the game host can set up the board');
+      }
+
+      const claimed = await this.prisma.gameSelection.count({
+        where: { game_id: game.id, is_used: true },
+      });
+      if (claimed > 0) {
+        throw new BadRequestException('The board is already in play');
+      }
+
+      const categories = await this.prisma.category.findMany({
+        where: { id: { in: boardDto.categories } },
+        select: {
+          id: true,
+          name: true,
+          questions: {
+            distinct: ['difficulty_id'],
+            select: { difficulty: { select: { id: true, points: true } } },
+          },
+        },
+      });
+
+      const foundIds = new Set(categories.map((c) => c.id));
+      const missingIds = boardDto.categories.filter((id) => !foundIds.has(id));
+      if (missingIds.length) {
+        throw new NotFoundException(
+          `The following category IDs were not found: ${missingIds.join(', ')}`,
+        );
+      }
+      const empty = categories.find((c) => c.questions.length === 0);
+      if (empty) {
+        throw new BadRequestException(
+          `Category ${empty.name} has no questions`,
+        );
+      }
+
+      const rules = await this.gameSettings.forGame(game.id);
+      const cells = GridBoardHelper.buildCells(
+        categories.map((cat) => ({
+          id: cat.id,
+          tiers: cat.questions.map((q) => ({
+            id: q.difficulty.id,
+            points: q.difficulty.points ?? 10,
+          })),
+        })),
+        rules.total_questions ?? GRID_BOARD_QUESTIONS,
+        rules.points_multiplier,
+      );
+
+      await this.prisma.$transaction([
+        this.prisma.gameSelection.deleteMany({ where: { game_id: game.id } }),
+        this.prisma.gameSelection.createMany({
+          data: cells.map((cell) => ({ ...cell, game_id: game.id })),
+        }),
+        this.prisma.game.update({
+          where: { id: game.id },
+          data: { total_questions: cells.length },
+        }),
+      ]);
+
+      return this.getBoard(game.id);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        `Error creating board: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * The whole board with the owner of every claimed cell and the scores
+   */
+  async getBoard(gameId: string) {
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        include: { game_players: { orderBy: { player_order: 'asc' } } },
+      });
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+
+      const cells = await this.prisma.gameSelection.findMany({
+        where: { game_id: gameId },
+        orderBy: [
+          { category: { name: 'asc' } },
+          { points: 'asc' },
+          { id: 'asc' },
+        ],
+        include: {
+          category: { select: { id: true, name: true } },
+          difficulty: { select: { id: true, name: true } },
+          player: { select: { id: true, player_name: true } },
+        },
+      });
+
+      const columns = new Map<
+        string,
+        { id: string; name: string; cells: any[] }
+      >();
+      for (const cell of cells) {
+        if (!columns.has(cell.category_id)) {
+          columns.set(cell.category_id, { ...cell.category, cells: [] });
+        }
+        columns.get(cell.category_id).cells.push({
+          id: cell.id,
+          difficulty: cell.difficulty,
+          points: cell.points,
+          is_used: cell.is_used,
+          question_id: cell.question_id,
+          owner: cell.player,
+        });
+      }
+      const remaining = cells.filter((cell) => !cell.is_used).length;
+
+      return {
+        success: true,
+        message: 'Board fetched successfully.',
+        data: {
+          game_id: game.id,
+          status: game.status,
+          game_phase: game.game_phase,
+          categories: [...columns.values()],
+          players: game.game_players.map((player) => ({
+            id: player.id,
+            player_name: player.player_name,
+            score: player.score,
+            cells_claimed: cells.filter((c) => c.player_id === player.id)
+              .length,
+          })),
+          remaining,
+          board_complete: cells.length > 0 && remaining === 0,
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        `Error getting board: ${error.message}`,
+      );
+    }
+  }
+
   async getQuestionByCategory(query: GetCategoryDto) {
     try {
+      const cell = await this.boardCellFor(query);
+
+      // adaptive games pick the tier that suits the player
+      const adaptive = await this.adaptiveDifficultyFor(query);
+      const difficultyId = adaptive?.difficulty_id ?? query.difficulty_id;
+
       const questions = await this.prisma.question.findMany({
         where: {
           category_id: query.category_id,
-          difficulty_id: query.difficulty_id,
+          difficulty_id: difficultyId,
+          // today's daily challenge questions stay out of normal play
+          id: { notIn: await this.dailyChallenges.excludedQuestionIds() },
           player_answers: {
             none: {
               game_player: {
@@ -93,19 +288,90 @@ export class GridStyleService {
               },
             },
           },
+          // nor a question already put on a cell of the board
+          game_selections: { none: { game_id: query.game_id } },
         },
         include: {
           answers: true,
+          question_type: true,
         },
       });
 
       if (!questions.length) return null;
       const randomIndex = Math.floor(Math.random() * questions.length);
       const question = questions[randomIndex];
+
+      // the question's clock starts when it is dealt
+      const timeLimit = QuestionTimerService.resolveTimeLimit(
+        question,
+        await this.prisma.room.findMany({
+          where: { game_id: query.game_id },
+          select: { question_time: true },
+        }),
+        await this.gameSettings.forGame(query.game_id),
+      );
+      const questionAskedAt = new Date();
+      const questionDeadlineAt = QuestionTimerService.deadlineFrom(
+        questionAskedAt,
+        timeLimit,
+      );
+      await this.prisma.$transaction(async (tx) => {
+        if (cell) {
+          await tx.gameSelection.update({
+            where: { id: cell.id },
+            data: { question_id: question.id },
+          });
+        }
+        await tx.game.update({
+          where: { id: query.game_id },
+          data: {
+            question_asked_at: questionAskedAt,
+            question_deadline_at: questionDeadlineAt,
+          },
+        });
+        await this.gameEvents.record(
+          query.game_id,
+          GameEventType.QUESTION_REVEALED,
+          {
+            question_id: question.id,
+            payload: {
+              category_id: query.category_id,
+              difficulty_id: difficultyId,
+              cell_id: cell?.id ?? null,
+            },
+          },
+          tx,
+        );
+      });
+      await this.questionTimer.scheduleTurnTimeout(
+        query.game_id,
+        question.id,
+        query.player_id ?? null,
+        questionDeadlineAt,
+      );
+
       return {
         success: true,
         message: 'Data fetched successfully.',
-        data: question,
+        data: {
+          id: question.id,
+          text: question.text,
+          points: question.points,
+          file_url: question.file_url,
+          category_id: question.category_id,
+          difficulty_id: question.difficulty_id,
+          question_type: question.question_type,
+          // the correct answer is only told with the answer result
+          answers: AnswerGradingHelper.present(
+            query.game_id,
+            question,
+            appConfig().game.answer_tokens.secret,
+          ),
+          cell_id: cell?.id ?? null,
+          time_limit: timeLimit,
+          deadline_at: questionDeadlineAt,
+          ...(adaptive ? { adaptive_difficulty: adaptive } : {}),
+        },
       };
     } catch (error) {
       if (error instanceof HttpException) {
@@ -117,17 +383,257 @@ export class GridStyleService {
     }
   }
 
-  async answerQuestion(payload: AnswerQuestionDto) {
+  // free board cell the question is asked on, none for games without a board
+  private async boardCellFor(query: GetCategoryDto) {
+    const cells = await this.prisma.gameSelection.findMany({
+      where: { game_id: query.game_id },
+    });
+    if (cells.length === 0) {
+      return null;
+    }
+
+    if (query.cell_id) {
+      const cell = cells.find((c) => c.id === query.cell_id);
+      if (!cell) {
+        throw new NotFoundException('Cell not found on this board');
+      }
+      if (cell.is_used) {
+        throw new BadRequestException('This cell has already been claimed');
+      }
+      return cell;
+    }
+
+    const cell = cells.find(
+      (c) =>
+        !c.is_used &&
+        !c.question_id &&
+        c.category_id === query.category_id &&
+        c.difficulty_id === query.difficulty_id,
+    );
+    if (!cell) {
+      throw new BadRequestException(
+        'No free cell is left for this category and difficulty',
+      );
+    }
+    return cell;
+  }
+
+  // estimate for the player asked, or the host, in adaptive games
+  private async adaptiveDifficultyFor(query: GetCategoryDto) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: query.game_id },
+      include: { game_players: { orderBy: { player_order: 'asc' } } },
+    });
+    if (!game?.adaptive_difficulty) {
+      return null;
+    }
+
+    const player =
+      game.game_players.find((p) => p.id === query.player_id) ??
+      game.game_players.find((p) => p.user_id === game.host_id) ??
+      game.game_players[0];
+    if (!player) {
+      return null;
+    }
+
+    const usedQuestionIds = (
+      await this.prisma.playerAnswer.findMany({
+        where: { game_player: { game_id: game.id } },
+        select: { question_id: true },
+      })
+    ).map((answer) => answer.question_id);
+
+    const chosen = await this.adaptiveDifficulty.chooseDifficulty(
+      player,
+      query.category_id,
+      game.language_id,
+      query.difficulty_id,
+      async (difficultyId) =>
+        (await this.prisma.question.count({
+          where: {
+            category_id: query.category_id,
+            difficulty_id: difficultyId,
+            id: { notIn: usedQuestionIds },
+          },
+        })) > 0,
+    );
+    return { difficulty_id: chosen.difficulty_id, ...chosen.estimate };
+  }
+
+  /**
+   * The answering player claims the question's cell and its points.
+   * Games without a board only record the answer. The host answers for
+   * any player, others only for the player they play as; an answer given
+   * aloud needs the host's verdict.
+   */
+  async answerQuestion(userId: string, payload: AnswerQuestionDto) {
     try {
-      const players = await this.prisma.gamePlayer.findMany({
+      const secret = appConfig().game.answer_tokens.secret;
+      const question = await this.prisma.question.findUnique({
+        where: { id: payload.question_id },
+        include: { answers: true, question_type: true },
+      });
+      if (!question) {
+        throw new NotFoundException('Question not found');
+      }
+
+      const game = await this.prisma.game.findUnique({
+        where: { id: payload.game_id },
+        select: {
+          host_id: true,
+          question_deadline_at: true,
+          language: { select: { code: true } },
+        },
+      });
+      if (!game) {
+        throw new NotFoundException('Game not found');
+      }
+      const player = await this.prisma.gamePlayer.findFirst({
+        where: { id: payload.team_id, game_id: payload.game_id },
+      });
+      const isHost = game.host_id === userId;
+      if (!isHost && (!player || player.user_id !== userId)) {
+        throw new ForbiddenException(
+          'Only the game host or the answering player can answer',
+        );
+      }
+      if (QuestionTimerService.isExpired(game.question_deadline_at)) {
+        throw new BadRequestException('Time is up for this question.');
+      }
+
+      let graded = null;
+      if (payload.answer_id || payload.answer_text || payload.answer_ids) {
+        // typed answers are normalised in the language of the game
+        graded = AnswerGradingHelper.grade(
+          payload.game_id,
+          question,
+          {
+            answer_id: payload.answer_id,
+            answer_text: payload.answer_text,
+            answer_ids: payload.answer_ids,
+          },
+          secret,
+          game.language?.code,
+        );
+        if (!graded) {
+          throw new BadRequestException('Invalid answer selected');
+        }
+      } else if (typeof payload.is_correct !== 'boolean') {
+        throw new BadRequestException(
+          'Send an answer or the verdict of the host',
+        );
+      } else if (!isHost) {
+        throw new ForbiddenException('Only the game host can judge an answer');
+      }
+      const selectedAnswer = graded?.answer ?? null;
+      const isCorrect = graded ? graded.is_correct : payload.is_correct;
+
+      const cells = await this.prisma.gameSelection.findMany({
         where: { game_id: payload.game_id },
       });
 
+      let cell = null;
+      if (cells.length > 0) {
+        if (!player) {
+          throw new NotFoundException('Player not found in this game');
+        }
+
+        // only the question dealt on a cell can claim it
+        cell = GridBoardHelper.findCell(cells, question);
+        if (!cell) {
+          throw new BadRequestException(
+            'This question was not dealt on a free cell',
+          );
+        }
+      }
+
+      const ownerId = isCorrect && player ? player.id : null;
+      const pointsEarned = isCorrect && cell ? cell.points : 0;
+      const claimed = cell
+        ? { ...cell, is_used: true, player_id: ownerId }
+        : null;
+      await this.prisma.$transaction(async (tx) => {
+        if (cell) {
+          // the is_used check makes sure only one answer claims the cell,
+          // a wrong answer uses it up without anyone owning it
+          const { count } = await tx.gameSelection.updateMany({
+            where: { id: cell.id, is_used: false },
+            data: {
+              is_used: true,
+              player_id: ownerId,
+              question_id: question.id,
+            },
+          });
+          if (count === 0) {
+            throw new BadRequestException('This cell has already been claimed');
+          }
+
+          const tally = isCorrect
+            ? { correct_answers: { increment: 1 } }
+            : { wrong_answers: { increment: 1 } };
+          await tx.gamePlayer.update({
+            where: { id: player.id },
+            data: { score: { increment: pointsEarned }, ...tally },
+          });
+          await tx.gameTeam.updateMany({
+            where: { players: { some: { id: player.id } } },
+            data: { score: { increment: pointsEarned }, ...tally },
+          });
+          await tx.game.update({
+            where: { id: payload.game_id },
+            data: { current_question: { increment: 1 } },
+          });
+        }
+
+        // the question is answered, its clock stops
+        await tx.game.update({
+          where: { id: payload.game_id },
+          data: { question_asked_at: null, question_deadline_at: null },
+        });
+
+        await this.gameEvents.record(
+          payload.game_id,
+          GameEventType.ANSWER_SUBMITTED,
+          {
+            game_player_id: claimed ? payload.team_id : undefined,
+            question_id: payload.question_id,
+            points: pointsEarned,
+            payload: {
+              team_id: payload.team_id,
+              cell_id: claimed?.id ?? null,
+              answer_id: AnswerTokenHelper.tokenOf(
+                payload.game_id,
+                selectedAnswer?.id,
+                secret,
+              ),
+              answer_text: graded?.answer_text ?? null,
+              is_correct: isCorrect,
+            },
+          },
+          tx,
+        );
+      });
+      await this.questionTimer.cancel(payload.game_id, payload.question_id);
+
+      const players = await this.prisma.gamePlayer.findMany({
+        where: { game_id: payload.game_id },
+      });
       return {
         success: true,
         message: 'Answer a question successfully.',
         data: {
           players,
+          is_correct: isCorrect,
+          similarity: graded?.similarity ?? null,
+          points_earned: pointsEarned,
+          correct_answer: AnswerGradingHelper.reveal(
+            payload.game_id,
+            question,
+            secret,
+          ),
+          cell: claimed,
+          board_complete:
+            !!claimed && cells.filter((c) => !c.is_used).length === 1,
         },
       };
     } catch (error) {
@@ -140,6 +646,60 @@ export class GridStyleService {
     }
   }
 
+  /**
+   * Called by the question timer worker once the deadline of a dealt cell
+   * has passed: the cell is used up without an owner, like a wrong answer.
+   * Stale jobs (question answered or another one dealt) are ignored.
+   */
+  async expireQuestion(job: QuestionTimerJobData) {
+    const game = await this.prisma.game.findUnique({
+      where: { id: job.game_id },
+      select: { question_deadline_at: true },
+    });
+    if (
+      !game?.question_deadline_at ||
+      game.question_deadline_at.getTime() !== new Date(job.deadline).getTime()
+    ) {
+      return { success: false, message: 'Question is no longer active' };
+    }
+
+    const count = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.gameSelection.updateMany({
+        where: {
+          game_id: job.game_id,
+          question_id: job.question_id,
+          is_used: false,
+        },
+        data: { is_used: true, player_id: null },
+      });
+      await tx.game.update({
+        where: { id: job.game_id },
+        data: {
+          question_asked_at: null,
+          question_deadline_at: null,
+          ...(count > 0 ? { current_question: { increment: 1 } } : {}),
+        },
+      });
+      await this.gameEvents.record(
+        job.game_id,
+        GameEventType.QUESTION_TIMED_OUT,
+        {
+          game_player_id: job.player_id,
+          question_id: job.question_id,
+          payload: { cell_used: count > 0 },
+        },
+        tx,
+      );
+      return count;
+    });
+
+    return {
+      success: true,
+      message: 'Time is up! The cell is used up.',
+      data: { question_id: job.question_id, cell_used: count > 0 },
+    };
+  }
+
   /**
    * Select category/difficulty and start game in one step
    */
@@ -0,0 +1,71 @@
+import { GridBoardHelper, PlacedCell } from './grid-board.helper';
+
+describe('GridBoardHelper', () => {
+  const categories = [
+    {
+      id: 'history',
+      tiers: [
+        { id: 'hard', points: 600 },
+        { id: 'easy', points: 200 },
+        { id: 'medium', points: 400 },
+      ],
+    },
+    {
+      id: 'science',
+      tiers: [
+        { id: 'easy', points: 200 },
+        { id: 'hard', points: 600 },
+      ],
+    },
+  ];
+
+  it('should share the board between the categories, cheapest first', () => {
+    const cells = GridBoardHelper.buildCells(categories, 12);
+
+    expect(cells).toHaveLength(12);
+    expect(
+      cells.filter((c) => c.category_id === 'history').map((c) => c.points),
+    ).toEqual([200, 200, 400, 400, 600, 600]);
+    expect(
+      cells.filter((c) => c.category_id === 'science').map((c) => c.points),
+    ).toEqual([200, 200, 200, 600, 600, 600]);
+  });
+
+  it('should scale the points by the multiplier', () => {
+    const cells = GridBoardHelper.buildCells([categories[1]], 2, 1.5);
+
+    expect(cells.map((c) => c.points)).toEqual([300, 900]);
+  });
+
+  it('should only find the cell the question was dealt on', () => {
+    const cells: PlacedCell[] = [
+      {
+        id: 'a',
+        category_id: 'history',
+        difficulty_id: 'easy',
+        points: 200,
+        is_used: false,
+        question_id: null,
+      },
+      {
+        id: 'b',
+        category_id: 'history',
+        difficulty_id: 'easy',
+        points: 200,
+        is_used: false,
+        question_id: 'q1',
+      },
+      {
+        id: 'c',
+        category_id: 'history',
+        difficulty_id: 'hard',
+        points: 600,
+        is_used: true,
+        question_id: 'q2',
+      },
+    ];
+    expect(GridBoardHelper.findCell(cells, { id: 'q1' }).id).toBe('b');
+    expect(GridBoardHelper.findCell(cells, { id: 'q2' })).toBeNull();
+    expect(GridBoardHelper.findCell(cells, { id: 'q3' })).toBeNull();
+  });
+});
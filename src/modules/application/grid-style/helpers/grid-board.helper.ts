@@ -0,0 +1,62 @@
+export type BoardTier = {
+  id: string; // Difficulty ID
+  points: number;
+};
+
+export type BoardCategory = {
+  id: string;
+  tiers: BoardTier[];
+};
+
+export type BoardCell = {
+  category_id: string;
+  difficulty_id: string;
+  points: number;
+};
+
+export type PlacedCell = BoardCell & {
+  id: string;
+  is_used: boolean;
+  question_id: string | null;
+};
+
+export class GridBoardHelper {
+  /**
+   * Cells of a board with `size` cells shared evenly by the categories.
+   * Every category runs from its cheapest tier to its dearest, each tier
+   * getting an equal block of cells.
+   */
+  static buildCells(
+    categories: BoardCategory[],
+    size: number,
+    multiplier = 1,
+  ): BoardCell[] {
+    const perCategory = Math.floor(size / categories.length);
+
+    return categories.flatMap((category) => {
+      const tiers = [...category.tiers].sort((a, b) => a.points - b.points);
+      return Array.from({ length: perCategory }, (_, slot) => {
+        const tier = tiers[Math.floor((slot * tiers.length) / perCategory)];
+        return {
+          category_id: category.id,
+          difficulty_id: tier.id,
+          points: Math.round(tier.points * multiplier),
+        };
+      });
+    });
+  }
+
+  /**
+   * Cell a question belongs to: the free cell it was dealt on. An answer
+   * to any other question claims nothing.
+   */
+  static findCell<T extends PlacedCell>(
+    cells: T[],
+    question: { id: string },
+  ): T | null {
+    return (
+      cells.find((cell) => !cell.is_used && cell.question_id === question.id) ??
+      null
+    );
+  }
+}
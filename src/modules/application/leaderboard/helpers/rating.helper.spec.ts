@@ -0,0 +1,94 @@
+import {
+  DEFAULT_DEVIATION,
+  MIN_DEVIATION,
+  RatingHelper,
+} from './rating.helper';
+
+describe('RatingHelper', () => {
+  it('should match the Glicko example', () => {
+    // Glickman's example: one player against three opponents
+    const player = { id: 'p', rank: 0, rating: 1500, deviation: 200 };
+    const results = [
+      { id: 'a', rank: -1, rating: 1400, deviation: 30 },
+      { id: 'b', rank: 1, rating: 1550, deviation: 100 },
+      { id: 'c', rank: 1, rating: 1700, deviation: 300 },
+    ];
+    // the example's player wins against a and loses to b and c
+    results[0].rank = 1;
+    results[1].rank = -1;
+    results[2].rank = -1;
+
+    const rated = RatingHelper.rateGame([player, ...results]).get('p');
+
+    expect(rated.rating).toBeCloseTo(1464, 0);
+    expect(rated.deviation).toBeCloseTo(151.4, 0);
+  });
+
+  it('should move winners up and losers down by the same amount', () => {
+    const rated = RatingHelper.rateGame([
+      { id: 'winner', rank: 1, rating: 1500, deviation: 350 },
+      { id: 'loser', rank: 2, rating: 1500, deviation: 350 },
+    ]);
+
+    const gain = rated.get('winner').rating - 1500;
+    expect(gain).toBeGreaterThan(100);
+    expect(rated.get('loser').rating).toBeCloseTo(1500 - gain, 6);
+    expect(rated.get('winner').deviation).toBeLessThan(DEFAULT_DEVIATION);
+  });
+
+  it('should leave a draw between equals unchanged', () => {
+    const rated = RatingHelper.rateGame([
+      { id: 'a', rank: 1, rating: 1600, deviation: 80 },
+      { id: 'b', rank: 1, rating: 1600, deviation: 80 },
+    ]);
+
+    expect(rated.get('a').rating).toBeCloseTo(1600, 6);
+  });
+
+  it('should rank the same results as a draw', () => {
+    expect(
+      RatingHelper.ranksOf([
+        { score: 30, correct_answers: 3 },
+        { score: 20, correct_answers: 2 },
+        { score: 20, correct_answers: 2 },
+        { score: 20, correct_answers: 1 },
+      ]),
+    ).toEqual([1, 2, 2, 4]);
+    expect(
+      RatingHelper.ranksOf([
+        { score: 0, correct_answers: 0 },
+        { score: 0, correct_answers: 0 },
+      ]),
+    ).toEqual([1, 1]);
+    expect(
+      RatingHelper.ranksOf([
+        { score: 50, correct_answers: 5, forfeited: true },
+        { score: 10, correct_answers: 1 },
+      ]),
+    ).toEqual([2, 1]);
+  });
+
+  it('should settle new players faster than established ones', () => {
+    const rated = RatingHelper.rateGame([
+      { id: 'new', rank: 1, rating: 1500, deviation: 350 },
+      { id: 'settled', rank: 2, rating: 1500, deviation: 50 },
+    ]);
+
+    expect(rated.get('new').rating - 1500).toBeGreaterThan(
+      1500 - rated.get('settled').rating,
+    );
+  });
+
+  it('should grow the deviation while idle, up to the default', () => {
+    const last = new Date('2026-01-01T00:00:00Z');
+
+    expect(RatingHelper.idleDeviation(50, null)).toBe(50);
+    expect(
+      RatingHelper.idleDeviation(50, last, new Date('2026-01-11T00:00:00Z')),
+    ).toBeCloseTo(Math.sqrt(50 ** 2 + 34.6 ** 2 * 10), 6);
+    expect(
+      RatingHelper.idleDeviation(50, last, new Date('2027-01-01T00:00:00Z')),
+    ).toBe(DEFAULT_DEVIATION);
+    expect(MIN_DEVIATION).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,129 @@
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+// Deviation never drops below this, so ratings can always still move
+export const MIN_DEVIATION = 30;
+// Ratings are provisional until the deviation drops below this
+export const PROVISIONAL_DEVIATION = 110;
+// Deviation regained per idle day (about 100 days from settled to new)
+const IDLE_DEVIATION_PER_DAY = 34.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Q = Math.log(10) / 400;
+
+export type Rating = {
+  rating: number;
+  deviation: number;
+};
+
+export type RankedPlayer = Rating & {
+  id: string;
+  rank: number;
+};
+
+export type GameResult = {
+  score: number;
+  correct_answers: number;
+  // left the game before it was over
+  forfeited?: boolean;
+};
+
+/**
+ * Glicko-1 ratings. A multiplayer game counts as one rating period in
+ * which every player has played every other: a better rank is a win, the
+ * same rank a draw.
+ */
+export class RatingHelper {
+  /**
+   * Deviation after being idle since the last rated game
+   */
+  static idleDeviation(
+    deviation: number,
+    lastPlayedAt: Date | null,
+    now: Date = new Date(),
+  ): number {
+    if (!lastPlayedAt) {
+      return deviation;
+    }
+    const days = Math.max(now.getTime() - lastPlayedAt.getTime(), 0) / DAY_MS;
+    return Math.min(
+      Math.sqrt(deviation ** 2 + IDLE_DEVIATION_PER_DAY ** 2 * days),
+      DEFAULT_DEVIATION,
+    );
+  }
+
+  /**
+   * Rank of every result in a game. A player who forfeited ranks behind
+   * everyone who stayed; the same score and correct answers share a rank,
+   * so the players draw.
+   */
+  static ranksOf(results: GameResult[]): number[] {
+    const ahead = (other: GameResult, result: GameResult) =>
+      !!other.forfeited !== !!result.forfeited
+        ? !other.forfeited
+        : other.score > result.score ||
+          (other.score === result.score &&
+            other.correct_answers > result.correct_answers);
+
+    return results.map(
+      (result) => 1 + results.filter((other) => ahead(other, result)).length,
+    );
+  }
+
+  static expectedScore(player: Rating, opponent: Rating): number {
+    return (
+      1 /
+      (1 +
+        10 **
+          ((-this.g(opponent.deviation) * (player.rating - opponent.rating)) /
+            400))
+    );
+  }
+
+  /**
+   * New rating of every player, all computed from the ratings before the
+   * game
+   */
+  static rateGame(players: RankedPlayer[]): Map<string, Rating> {
+    const rated = new Map<string, Rating>();
+
+    for (const player of players) {
+      const opponents = players.filter((p) => p.id !== player.id);
+      if (opponents.length === 0) {
+        rated.set(player.id, {
+          rating: player.rating,
+          deviation: player.deviation,
+        });
+        continue;
+      }
+
+      let variance = 0;
+      let improvement = 0;
+      for (const opponent of opponents) {
+        const g = this.g(opponent.deviation);
+        const expected = this.expectedScore(player, opponent);
+        const score =
+          player.rank < opponent.rank
+            ? 1
+            : player.rank === opponent.rank
+              ? 0.5
+              : 0;
+
+        variance += g ** 2 * expected * (1 - expected);
+        improvement += g * (score - expected);
+      }
+
+      const precision = 1 / player.deviation ** 2 + Q ** 2 * variance;
+      rated.set(player.id, {
+        rating: player.rating + (Q / precision) * improvement,
+        deviation: Math.max(Math.sqrt(1 / precision), MIN_DEVIATION),
+      });
+    }
+
+    return rated;
+  }
+
+  // weight of a result against an opponent, lower the less certain they are
+  private static g(deviation: number): number {
+    return 1 / Math.sqrt(1 + (3 * Q ** 2 * deviation ** 2) / Math.PI ** 2);
+  }
+}
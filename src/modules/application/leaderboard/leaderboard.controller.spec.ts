@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { LeaderboardController } from './leaderboard.controller';
 import { LeaderboardService } from './leaderboard.service';
+import { RatingService } from './rating.service';
+import { PrismaService } from '../../../prisma/prisma.service';
 
 describe('LeaderboardController', () => {
   let controller: LeaderboardController;
@@ -8,7 +10,11 @@ describe('LeaderboardController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [LeaderboardController],
-      providers: [LeaderboardService],
+      providers: [
+        LeaderboardService,
+        RatingService,
+        { provide: PrismaService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<LeaderboardController>(LeaderboardController);
@@ -17,4 +23,4 @@ describe('LeaderboardController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
-});
\ No newline at end of file
+});
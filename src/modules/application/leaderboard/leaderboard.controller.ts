@@ -11,6 +11,7 @@ import {
   Req,
 } from '@nestjs/common';
 import { LeaderboardService } from './leaderboard.service';
+import { RatingService } from './rating.service';
 import { CreateLeaderboardDto } from './dto/create-leaderboard.dto';
 import { UpdateLeaderboardDto } from './dto/update-leaderboard.dto';
 import { ApiTags, ApiOperation } from '@nestjs/swagger';
@@ -20,7 +21,10 @@ import { GameMode } from '@prisma/client';
 @ApiTags('Leaderboard')
 @Controller('leaderboard')
 export class LeaderboardController {
-  constructor(private readonly leaderboardService: LeaderboardService) { }
+  constructor(
+    private readonly leaderboardService: LeaderboardService,
+    private readonly ratingService: RatingService,
+  ) { }
 
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Create a new leaderboard entry' })
@@ -103,6 +107,26 @@ export class LeaderboardController {
     }
   }
 
+  @ApiOperation({ summary: 'Get top teams' })
+  @Get('top-teams')
+  async getTopTeams(@Query() query: {
+    mode?: GameMode;
+    limit?: string;
+  }) {
+    try {
+      const mode = query.mode;
+      const limit = parseInt(query.limit) || 10;
+
+      const topTeams = await this.leaderboardService.getTopTeams(mode, limit);
+      return topTeams;
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Get user ranking' })
   @Get('user-ranking/:user_id')
@@ -127,6 +151,70 @@ export class LeaderboardController {
     }
   }
 
+  @ApiOperation({ summary: 'Get players ranked by skill rating' })
+  @Get('ratings')
+  async getRatings(
+    @Query()
+    query: {
+      mode?: GameMode;
+      category_id?: string;
+      page?: string;
+      limit?: string;
+    },
+  ) {
+    try {
+      const mode = query.mode || GameMode.ONLINE_QUICK_GAME;
+      const category_id = query.category_id || null;
+      const page = parseInt(query.page) || 1;
+      const limit = parseInt(query.limit) || 10;
+
+      const ratings = await this.ratingService.getRatings(
+        mode,
+        category_id,
+        page,
+        limit,
+      );
+      return ratings;
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get rating history of a user' })
+  @Get('ratings/history/:user_id')
+  async getRatingHistory(
+    @Param('user_id') user_id: string,
+    @Query()
+    query: {
+      mode?: GameMode;
+      category_id?: string;
+      limit?: string;
+    },
+  ) {
+    try {
+      const mode = query.mode || GameMode.ONLINE_QUICK_GAME;
+      const category_id = query.category_id || null;
+      const limit = parseInt(query.limit) || 20;
+
+      const history = await this.ratingService.getHistory(
+        user_id,
+        mode,
+        category_id,
+        limit,
+      );
+      return history;
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
   @ApiOperation({ summary: 'Get one leaderboard entry' })
   @Get(':id')
   async findOne(@Param('id') id: string) {
@@ -1,12 +1,15 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { LeaderboardService } from './leaderboard.service';
 import { LeaderboardController } from './leaderboard.controller';
 import { PrismaModule } from '../../../prisma/prisma.module';
+import { RatingService } from './rating.service';
 
+// Global so game services can rate finished games
+@Global()
 @Module({
   imports: [PrismaModule],
   controllers: [LeaderboardController],
-  providers: [LeaderboardService],
-  exports: [LeaderboardService],
+  providers: [LeaderboardService, RatingService],
+  exports: [LeaderboardService, RatingService],
 })
 export class LeaderboardModule { }
@@ -3,6 +3,7 @@ import { CreateLeaderboardDto } from './dto/create-leaderboard.dto';
 import { UpdateLeaderboardDto } from './dto/update-leaderboard.dto';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { GameMode } from '@prisma/client';
+import { TeamHelper } from '../game-player/helpers/team.helper';
 
 @Injectable()
 export class LeaderboardService {
@@ -376,6 +377,79 @@ export class LeaderboardService {
         }
     }
 
+    // Get top teams of finished team games with each member's contribution
+    async getTopTeams(mode?: GameMode, limit: number = 10) {
+        try {
+            const whereClause = { final_rank: { not: null } };
+
+            if (mode) {
+                whereClause['game'] = { mode };
+            }
+
+            const topTeams = await this.prisma.gameTeam.findMany({
+                where: whereClause,
+                orderBy: [
+                    { score: 'desc' },
+                    { correct_answers: 'desc' },
+                    { created_at: 'asc' }
+                ],
+                take: limit,
+                select: {
+                    id: true,
+                    name: true,
+                    color: true,
+                    score: true,
+                    correct_answers: true,
+                    wrong_answers: true,
+                    steals: true,
+                    final_rank: true,
+                    created_at: true,
+                    game: {
+                        select: {
+                            id: true,
+                            mode: true,
+                        },
+                    },
+                    players: {
+                        orderBy: { score: 'desc' },
+                        select: {
+                            id: true,
+                            player_name: true,
+                            score: true,
+                            correct_answers: true,
+                            wrong_answers: true,
+                            user: {
+                                select: {
+                                    id: true,
+                                    name: true,
+                                    avatar: true,
+                                },
+                            },
+                        },
+                    },
+                },
+            });
+
+            // Add ranking and individual contributions
+            const rankedTeams = topTeams.map(({ players, ...team }, index) => ({
+                ...team,
+                rank: index + 1,
+                members: TeamHelper.contributions(team.score, players),
+            }));
+
+            return {
+                success: true,
+                message: 'Top teams retrieved successfully',
+                data: rankedTeams,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: `Error fetching top teams: ${error.message}`,
+            };
+        }
+    }
+
     // Get user's ranking and stats
     async getUserRanking(user_id: string, mode?: GameMode, category_id?: string) {
         try {
@@ -0,0 +1,341 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GameMode, PlayerRating, PlayerStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  DEFAULT_DEVIATION,
+  DEFAULT_RATING,
+  PROVISIONAL_DEVIATION,
+  RankedPlayer,
+  RatingHelper,
+} from './helpers/rating.helper';
+
+type RatedGroup = {
+  category_id: string | null;
+  // user id -> rank within the group
+  ranks: Map<string, number>;
+};
+
+const userSelect = { id: true, name: true, avatar: true };
+
+@Injectable()
+export class RatingService {
+  private readonly logger = new Logger(RatingService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Rate a completed multiplayer game. The mode rating follows the final
+   * ranking of the game; each category played gets its own rating, ranked
+   * by correct answers in that category. Guests and bots are not rated
+   * and games are only rated once.
+   */
+  async recordGameResult(gameId: string) {
+    try {
+      const game = await this.prisma.game.findUnique({
+        where: { id: gameId },
+        include: {
+          game_players: {
+            orderBy: [
+              { final_rank: 'asc' },
+              { score: 'desc' },
+              { correct_answers: 'desc' },
+              { player_order: 'asc' },
+            ],
+          },
+        },
+      });
+      if (!game || game.status !== 'completed') {
+        return null;
+      }
+
+      const alreadyRated = await this.prisma.ratingHistory.count({
+        where: { game_id: gameId },
+      });
+      if (alreadyRated > 0) {
+        return null;
+      }
+
+      // team games rate the rank of the team, other games draw on the
+      // same score and correct answers and a player who left loses
+      const ranks = RatingHelper.ranksOf(
+        game.game_players.map((player) => ({
+          score: player.score,
+          correct_answers: player.correct_answers,
+          forfeited: player.status === PlayerStatus.QUIT,
+        })),
+      );
+      const ranked = game.game_players
+        .map((player, index) => ({
+          user_id: player.user_id,
+          game_player_id: player.id,
+          rank:
+            game.is_team_game && player.final_rank
+              ? player.final_rank
+              : ranks[index],
+          is_bot: player.is_bot,
+        }))
+        .filter((player) => player.user_id && !player.is_bot);
+      if (ranked.length < 2) {
+        return null;
+      }
+
+      const groups: RatedGroup[] = [
+        {
+          category_id: null,
+          ranks: new Map(ranked.map((p) => [p.user_id, p.rank])),
+        },
+        ...(await this.categoryGroups(ranked)),
+      ];
+
+      const changes = [];
+      await this.prisma.$transaction(async (tx) => {
+        for (const group of groups) {
+          changes.push(
+            ...(await this.rateGroup(tx, game.id, game.mode, group)),
+          );
+        }
+      });
+
+      return changes;
+    } catch (error) {
+      this.logger.error(`Error rating game ${gameId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Current ratings of the given users, players without one get the
+   * starting rating
+   */
+  async ratingsFor(
+    userIds: string[],
+    mode: GameMode,
+    categoryId: string | null = null,
+  ) {
+    const ratings = await this.prisma.playerRating.findMany({
+      where: { user_id: { in: userIds }, mode, category_id: categoryId },
+    });
+
+    return new Map(
+      userIds.map((userId) => [
+        userId,
+        ratings.find((r) => r.user_id === userId)?.rating ?? DEFAULT_RATING,
+      ]),
+    );
+  }
+
+  async getRatings(
+    mode: GameMode,
+    categoryId: string | null,
+    page: number,
+    limit: number,
+  ) {
+    try {
+      const where: Prisma.PlayerRatingWhereInput = {
+        mode,
+        category_id: categoryId,
+      };
+
+      const [ratings, total] = await Promise.all([
+        this.prisma.playerRating.findMany({
+          where,
+          include: { user: { select: userSelect } },
+          orderBy: [{ rating: 'desc' }, { deviation: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.prisma.playerRating.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        message: 'Ratings retrieved successfully',
+        data: {
+          ratings: ratings.map((rating, index) => ({
+            position: (page - 1) * limit + index + 1,
+            ...this.summary(rating),
+            user: rating.user,
+          })),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+            hasNextPage: page * limit < total,
+            hasPreviousPage: page > 1,
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async getHistory(
+    userId: string,
+    mode: GameMode,
+    categoryId: string | null,
+    limit: number,
+  ) {
+    try {
+      const rating = await this.prisma.playerRating.findFirst({
+        where: { user_id: userId, mode, category_id: categoryId },
+        include: {
+          history: { orderBy: { created_at: 'desc' }, take: limit },
+        },
+      });
+
+      return {
+        success: true,
+        message: 'Rating history retrieved successfully',
+        data: {
+          rating: rating
+            ? this.summary(rating)
+            : {
+                mode,
+                category_id: categoryId,
+                rating: DEFAULT_RATING,
+                deviation: DEFAULT_DEVIATION,
+                games_played: 0,
+              },
+          history: (rating?.history ?? []).map((entry) => ({
+            game_id: entry.game_id,
+            rating: Math.round(entry.rating),
+            deviation: Math.round(entry.deviation),
+            change: Math.round(entry.change),
+            rank: entry.rank,
+            created_at: entry.created_at,
+          })),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  // rank the players of every category by their correct answers in it
+  private async categoryGroups(
+    players: { user_id: string; game_player_id: string }[],
+  ): Promise<RatedGroup[]> {
+    const answers = await this.prisma.playerAnswer.findMany({
+      where: { game_player_id: { in: players.map((p) => p.game_player_id) } },
+      select: {
+        game_player_id: true,
+        isCorrect: true,
+        question: { select: { category_id: true } },
+      },
+    });
+
+    const correct = new Map<string, Map<string, number>>();
+    for (const answer of answers) {
+      const categoryId = answer.question.category_id;
+      const userId = players.find(
+        (p) => p.game_player_id === answer.game_player_id,
+      ).user_id;
+      const counts = correct.get(categoryId) ?? new Map<string, number>();
+      counts.set(
+        userId,
+        (counts.get(userId) ?? 0) + (answer.isCorrect ? 1 : 0),
+      );
+      correct.set(categoryId, counts);
+    }
+
+    return [...correct.entries()]
+      .filter(([, counts]) => counts.size >= 2)
+      .map(([categoryId, counts]) => ({
+        category_id: categoryId,
+        ranks: new Map(
+          [...counts.entries()].map(([userId, count]) => [
+            userId,
+            // players with the same count share a rank
+            1 + [...counts.values()].filter((other) => other > count).length,
+          ]),
+        ),
+      }));
+  }
+
+  private async rateGroup(
+    tx: Prisma.TransactionClient,
+    gameId: string,
+    mode: GameMode,
+    group: RatedGroup,
+  ) {
+    const now = new Date();
+    const current = new Map<string, PlayerRating>();
+    for (const userId of group.ranks.keys()) {
+      const existing = await tx.playerRating.findFirst({
+        where: { user_id: userId, mode, category_id: group.category_id },
+      });
+      current.set(
+        userId,
+        existing ??
+          (await tx.playerRating.create({
+            data: { user_id: userId, mode, category_id: group.category_id },
+          })),
+      );
+    }
+
+    const players: RankedPlayer[] = [...current.entries()].map(
+      ([userId, rating]) => ({
+        id: userId,
+        rank: group.ranks.get(userId),
+        rating: rating.rating,
+        deviation: RatingHelper.idleDeviation(
+          rating.deviation,
+          rating.last_played_at,
+          now,
+        ),
+      }),
+    );
+    const rated = RatingHelper.rateGame(players);
+
+    const changes = [];
+    for (const [userId, before] of current) {
+      const after = rated.get(userId);
+      await tx.playerRating.update({
+        where: { id: before.id },
+        data: {
+          rating: after.rating,
+          deviation: after.deviation,
+          games_played: { increment: 1 },
+          last_played_at: now,
+        },
+      });
+      await tx.ratingHistory.create({
+        data: {
+          rating_id: before.id,
+          game_id: gameId,
+          rating: after.rating,
+          deviation: after.deviation,
+          change: after.rating - before.rating,
+          rank: group.ranks.get(userId),
+        },
+      });
+      changes.push({
+        user_id: userId,
+        category_id: group.category_id,
+        rating: Math.round(after.rating),
+        change: Math.round(after.rating - before.rating),
+      });
+    }
+    return changes;
+  }
+
+  private summary(rating: PlayerRating) {
+    return {
+      mode: rating.mode,
+      category_id: rating.category_id,
+      rating: Math.round(rating.rating),
+      deviation: Math.round(rating.deviation),
+      provisional: rating.deviation > PROVISIONAL_DEVIATION,
+      games_played: rating.games_played,
+      last_played_at: rating.last_played_at,
+    };
+  }
+}
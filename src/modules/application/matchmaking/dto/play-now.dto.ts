@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class PlayNowDto {
+  @ApiProperty({
+    description: 'Language to play in',
+    example: 'clxkfzium000008l4f14m2b1q',
+  })
+  @IsString()
+  @IsNotEmpty()
+  language_id: string;
+
+  @ApiProperty({
+    description: 'Only match with players who want this category',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  category_id?: string;
+
+  @ApiProperty({
+    description: 'Number of players in the lobby. Defaults to 2',
+    example: 2,
+    required: false,
+  })
+  @IsInt()
+  @Min(2)
+  @Max(4)
+  @IsOptional()
+  players?: number;
+}
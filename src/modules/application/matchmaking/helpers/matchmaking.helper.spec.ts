@@ -0,0 +1,100 @@
+import {
+  MatchmakingHelper,
+  MatchmakingRules,
+  MatchTicket,
+} from './matchmaking.helper';
+
+const rules: MatchmakingRules = {
+  skill_window: 50,
+  skill_window_growth: 5,
+  smaller_lobby_after: 30,
+  bot_fill_after: 60,
+};
+
+const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+const ticket = (
+  userId: string,
+  overrides: Partial<MatchTicket> = {},
+): MatchTicket => ({
+  user_id: userId,
+  language_id: 'en',
+  category_id: null,
+  players: 2,
+  skill: 100,
+  queued_at: now,
+  ...overrides,
+});
+
+const ids = (tickets: MatchTicket[]) => tickets.map((t) => t.user_id);
+
+describe('MatchmakingHelper', () => {
+  it('should pair players of similar skill', () => {
+    const match = MatchmakingHelper.findMatch(
+      [ticket('a'), ticket('far', { skill: 400 }), ticket('b', { skill: 140 })],
+      now,
+      rules,
+    );
+
+    expect(ids(match.tickets)).toEqual(['a', 'b']);
+    expect(match.bots).toBe(0);
+  });
+
+  it('should widen the skill window while waiting', () => {
+    const tickets = [
+      ticket('a', { queued_at: now - 20_000 }),
+      ticket('b', { skill: 220 }),
+    ];
+
+    expect(MatchmakingHelper.findMatch(tickets, now - 10_000, rules)).toBe(
+      null,
+    );
+    expect(
+      ids(MatchmakingHelper.findMatch(tickets, now, rules).tickets),
+    ).toEqual(['a', 'b']);
+  });
+
+  it('should keep categories and lobby sizes apart', () => {
+    expect(
+      MatchmakingHelper.findMatch(
+        [
+          ticket('a', { category_id: 'history' }),
+          ticket('b', { category_id: 'sport' }),
+          ticket('c', { players: 3 }),
+        ],
+        now,
+        rules,
+      ),
+    ).toBe(null);
+
+    const match = MatchmakingHelper.findMatch(
+      [ticket('a', { category_id: 'history' }), ticket('b')],
+      now,
+      rules,
+    );
+    expect(match.category_id).toBe('history');
+  });
+
+  it('should wait for a full lobby, then settle for a smaller one', () => {
+    const tickets = [
+      ticket('a', { players: 4, queued_at: now - 10_000 }),
+      ticket('b', { players: 4 }),
+    ];
+
+    expect(MatchmakingHelper.findMatch(tickets, now, rules)).toBe(null);
+    expect(
+      ids(MatchmakingHelper.findMatch(tickets, now + 20_000, rules).tickets),
+    ).toEqual(['a', 'b']);
+  });
+
+  it('should fill the empty seats with bots after waiting alone', () => {
+    const alone = [ticket('a', { players: 3 })];
+
+    expect(MatchmakingHelper.findMatch(alone, now + 59_000, rules)).toBe(null);
+    expect(MatchmakingHelper.findMatch(alone, now + 60_000, rules)).toEqual({
+      tickets: alone,
+      bots: 2,
+      category_id: null,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+export type MatchTicket = {
+  user_id: string;
+  language_id: string;
+  category_id: string | null;
+  players: number; // Lobby size the player asked for
+  skill: number;
+  queued_at: number; // Epoch milliseconds
+};
+
+export type MatchmakingRules = {
+  skill_window: number;
+  skill_window_growth: number; // Added to the window per second of waiting
+  smaller_lobby_after: number; // Seconds
+  bot_fill_after: number; // Seconds
+};
+
+export type MatchProposal = {
+  tickets: MatchTicket[];
+  bots: number;
+  category_id: string | null;
+};
+
+export class MatchmakingHelper {
+  static waitedSeconds(ticket: MatchTicket, now: number): number {
+    return Math.max(now - ticket.queued_at, 0) / 1000;
+  }
+
+  // skill gap the ticket accepts, wider the longer it has waited
+  static skillWindow(
+    ticket: MatchTicket,
+    now: number,
+    rules: MatchmakingRules,
+  ): number {
+    return (
+      rules.skill_window +
+      rules.skill_window_growth * this.waitedSeconds(ticket, now)
+    );
+  }
+
+  static isCompatible(
+    a: MatchTicket,
+    b: MatchTicket,
+    now: number,
+    rules: MatchmakingRules,
+  ): boolean {
+    if (a.category_id && b.category_id && a.category_id !== b.category_id) {
+      return false;
+    }
+    const window = Math.max(
+      this.skillWindow(a, now, rules),
+      this.skillWindow(b, now, rules),
+    );
+    return Math.abs(a.skill - b.skill) <= window;
+  }
+
+  /**
+   * Next group that can start, oldest ticket first. A group normally
+   * needs the lobby size its players asked for. Once the oldest has
+   * waited `smaller_lobby_after` seconds any lobby of two or more will
+   * do, and after `bot_fill_after` seconds alone bots take the empty seats.
+   */
+  static findMatch(
+    tickets: MatchTicket[],
+    now: number,
+    rules: MatchmakingRules,
+  ): MatchProposal | null {
+    const queue = [...tickets].sort((a, b) => a.queued_at - b.queued_at);
+
+    for (const anchor of queue) {
+      const waited = this.waitedSeconds(anchor, now);
+      const relaxed = waited >= rules.smaller_lobby_after;
+
+      const group = [anchor];
+      let size = anchor.players;
+      for (const ticket of queue) {
+        if (group.length >= size) {
+          break;
+        }
+        if (group.includes(ticket)) {
+          continue;
+        }
+        if (!relaxed && ticket.players !== anchor.players) {
+          continue;
+        }
+        if (!group.every((m) => this.isCompatible(m, ticket, now, rules))) {
+          continue;
+        }
+
+        const nextSize = Math.min(size, ticket.players);
+        if (group.length + 1 > nextSize) {
+          continue;
+        }
+        group.push(ticket);
+        size = nextSize;
+      }
+
+      if (group.length === size || (relaxed && group.length >= 2)) {
+        return {
+          tickets: group,
+          bots: 0,
+          category_id: group.find((t) => t.category_id)?.category_id ?? null,
+        };
+      }
+
+      if (waited >= rules.bot_fill_after) {
+        return {
+          tickets: [anchor],
+          bots: anchor.players - 1,
+          category_id: anchor.category_id,
+        };
+      }
+    }
+
+    return null;
+  }
+}
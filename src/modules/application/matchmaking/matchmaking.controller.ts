@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { MatchmakingService } from './matchmaking.service';
+import { PlayNowDto } from './dto/play-now.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+@ApiTags('Matchmaking')
+@ApiBearerAuth()
+@Controller('matchmaking')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class MatchmakingController {
+  constructor(private readonly matchmakingService: MatchmakingService) {}
+
+  @ApiOperation({
+    summary: 'Search for an online quick game',
+    description:
+      'Joins the matchmaking queue of the language. The matchFound socket event carries the room code once a game is made.',
+  })
+  @Post('play-now')
+  async playNow(@Body() playDto: PlayNowDto, @Req() req: any) {
+    try {
+      return await this.matchmakingService.playNow(req.user.userId, playDto);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the state of your search' })
+  @Get('status')
+  async getStatus(@Req() req: any) {
+    try {
+      return await this.matchmakingService.getStatus(req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Cancel your search' })
+  @Delete()
+  async cancel(@Req() req: any) {
+    try {
+      return await this.matchmakingService.cancel(req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+}
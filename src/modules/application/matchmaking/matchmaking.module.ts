@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { MatchmakingService, MATCHMAKING_QUEUE } from './matchmaking.service';
+import { MatchmakingController } from './matchmaking.controller';
+import { MatchmakingProcessor } from './processors/matchmaking.processor';
+import { MessageGateway } from '../../chat/message/message.gateway';
+import { MultiplayerGameModule } from '../multiplayer-game/multiplayer-game.module';
+
+@Module({
+  imports: [
+    MessageGateway,
+    MultiplayerGameModule,
+    BullModule.registerQueue({ name: MATCHMAKING_QUEUE }),
+  ],
+  controllers: [MatchmakingController],
+  providers: [MatchmakingService, MatchmakingProcessor],
+})
+export class MatchmakingModule {}
@@ -0,0 +1,399 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { randomBytes } from 'crypto';
+import { GameMode } from '@prisma/client';
+import appConfig from '../../../config/app.config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MessageGateway } from '../../chat/message/message.gateway';
+import { MultiplayerGameService } from '../multiplayer-game/multiplayer-game.service';
+import { RatingService } from '../leaderboard/rating.service';
+import { PlayNowDto } from './dto/play-now.dto';
+import {
+  MatchmakingHelper,
+  MatchProposal,
+  MatchTicket,
+} from './helpers/matchmaking.helper';
+
+export const MATCHMAKING_QUEUE = 'matchmaking-queue';
+
+export interface MatchmakingJobData {
+  user_id: string;
+  language_id: string;
+}
+
+// Longest a single matching pass may hold the language lock
+const LOCK_TTL_MS = 10000;
+
+// Tickets outlive the bot fill deadline by this long in case a retry is late
+const TICKET_GRACE_SECONDS = 60;
+
+@Injectable()
+export class MatchmakingService {
+  private readonly logger = new Logger(MatchmakingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameGateway: MessageGateway,
+    private readonly multiplayerGames: MultiplayerGameService,
+    private readonly ratings: RatingService,
+    @InjectRedis() private readonly redis: Redis,
+    @InjectQueue(MATCHMAKING_QUEUE) private readonly queue: Queue,
+  ) {}
+
+  /**
+   * Put the player in the queue of the language and try to match them
+   * right away. Matched players hear about their game through the
+   * matchFound event.
+   */
+  async playNow(userId: string, playDto: PlayNowDto) {
+    try {
+      const existing = await this.getTicket(userId);
+      if (existing) {
+        return {
+          success: true,
+          message: 'You are already searching for a game',
+          data: await this.ticketStatus(existing),
+        };
+      }
+
+      const language = await this.prisma.language.findUnique({
+        where: { id: playDto.language_id },
+      });
+      if (!language) {
+        throw new NotFoundException('Language not found');
+      }
+      if (playDto.category_id) {
+        const category = await this.prisma.category.findUnique({
+          where: { id: playDto.category_id },
+        });
+        if (!category) {
+          throw new NotFoundException('Category not found');
+        }
+      }
+
+      const ticket: MatchTicket = {
+        user_id: userId,
+        language_id: playDto.language_id,
+        category_id: playDto.category_id ?? null,
+        players: playDto.players ?? 2,
+        skill: await this.skillOf(userId),
+        queued_at: Date.now(),
+      };
+      const rules = this.rules();
+
+      await this.redis
+        .multi()
+        .set(
+          this.ticketKey(userId),
+          JSON.stringify(ticket),
+          'EX',
+          rules.bot_fill_after + TICKET_GRACE_SECONDS,
+        )
+        .zadd(this.queueKey(ticket.language_id), ticket.queued_at, userId)
+        .exec();
+      await this.scheduleRetries(ticket);
+
+      const matched = await this.match(ticket.language_id);
+
+      return {
+        success: true,
+        message: matched.players.includes(userId)
+          ? 'Match found'
+          : 'Searching for players',
+        data: matched.players.includes(userId)
+          ? { searching: false }
+          : await this.ticketStatus(ticket),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async cancel(userId: string) {
+    try {
+      const ticket = await this.getTicket(userId);
+      if (!ticket) {
+        throw new NotFoundException('You are not searching for a game');
+      }
+
+      await this.removeTickets([ticket]);
+      await this.cancelRetries(ticket);
+
+      return {
+        success: true,
+        message: 'Search cancelled',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async getStatus(userId: string) {
+    try {
+      const ticket = await this.getTicket(userId);
+
+      return {
+        success: true,
+        message: ticket
+          ? 'Searching for players'
+          : 'You are not searching for a game',
+        data: ticket ? await this.ticketStatus(ticket) : { searching: false },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Form every group the queue of a language allows and start their
+   * games. Only one pass per language runs at a time; a pass that finds
+   * the lock taken leaves the work to the running one and to the retries.
+   */
+  async match(languageId: string) {
+    const lockKey = `matchmaking:lock:${languageId}`;
+    const token = randomBytes(8).toString('hex');
+    const locked = await this.redis.set(
+      lockKey,
+      token,
+      'PX',
+      LOCK_TTL_MS,
+      'NX',
+    );
+    if (!locked) {
+      return { matches: 0, players: [] as string[] };
+    }
+
+    const proposals: MatchProposal[] = [];
+    try {
+      let remaining = await this.queuedTickets(languageId);
+      const now = Date.now();
+      const rules = this.rules();
+      let proposal = MatchmakingHelper.findMatch(remaining, now, rules);
+      while (proposal) {
+        proposals.push(proposal);
+        remaining = remaining.filter((t) => !proposal.tickets.includes(t));
+        proposal = MatchmakingHelper.findMatch(remaining, now, rules);
+      }
+
+      for (const matched of proposals) {
+        await this.removeTickets(matched.tickets);
+      }
+    } finally {
+      // release the lock only if it is still ours
+      if ((await this.redis.get(lockKey)) === token) {
+        await this.redis.del(lockKey);
+      }
+    }
+
+    for (const matched of proposals) {
+      await this.cancelRetries(...matched.tickets);
+      await this.startMatch(matched);
+    }
+
+    return {
+      matches: proposals.length,
+      players: proposals.flatMap((p) => p.tickets.map((t) => t.user_id)),
+    };
+  }
+
+  /**
+   * Create the game through the regular online game flow. The first
+   * player who is able to host (has an online subscription) becomes the
+   * host, the others join the room and bots take any seats left.
+   */
+  private async startMatch(proposal: MatchProposal) {
+    const userIds = proposal.tickets.map((t) => t.user_id);
+    const languageId = proposal.tickets[0].language_id;
+    const lobbySize = proposal.tickets.length + proposal.bots;
+
+    let created: { hostId: string; game: { id: string }; room: any } = null;
+    let failure = 'No player in the group is able to host an online game';
+    for (const userId of userIds) {
+      const result = await this.multiplayerGames.createGame(
+        { mode: GameMode.ONLINE_QUICK_GAME, language_id: languageId },
+        userId,
+      );
+      if (result.success && 'data' in result && 'room' in result.data) {
+        created = { hostId: userId, ...result.data };
+        break;
+      }
+      failure = result.message;
+    }
+
+    if (!created) {
+      this.notify(userIds, 'matchmakingFailed', { message: failure });
+      return null;
+    }
+
+    const { game, room } = created;
+    const players = [created.hostId];
+    for (const userId of userIds.filter((id) => id !== created.hostId)) {
+      try {
+        await this.multiplayerGames.joinGame(room.code, userId, lobbySize);
+        players.push(userId);
+      } catch (error) {
+        this.logger.error(`Could not add ${userId} to game ${game.id}`, error);
+        this.notify([userId], 'matchmakingFailed', { message: error.message });
+      }
+    }
+
+    for (let seat = 1; seat <= proposal.bots; seat++) {
+      await this.prisma.gamePlayer.create({
+        data: {
+          game_id: game.id,
+          room_id: room.id,
+          player_order: players.length + seat,
+          status: 'ACTIVE',
+          player_name: `Bot ${seat}`,
+          is_guest: true,
+          is_bot: true,
+        },
+      });
+    }
+
+    this.notify(players, 'matchFound', {
+      game_id: game.id,
+      room_code: room.code,
+      host_id: created.hostId,
+      category_id: proposal.category_id,
+      players,
+      bots: proposal.bots,
+    });
+    return game;
+  }
+
+  private async queuedTickets(languageId: string) {
+    const queueKey = this.queueKey(languageId);
+    const userIds = await this.redis.zrange(queueKey, 0, -1);
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const values = await this.redis.mget(
+      userIds.map((id) => this.ticketKey(id)),
+    );
+    const expired = userIds.filter((_, index) => !values[index]);
+    if (expired.length > 0) {
+      await this.redis.zrem(queueKey, ...expired);
+    }
+
+    return values
+      .filter((value) => !!value)
+      .map((value) => JSON.parse(value) as MatchTicket);
+  }
+
+  private async removeTickets(tickets: MatchTicket[]) {
+    const pipeline = this.redis.multi();
+    for (const ticket of tickets) {
+      pipeline
+        .del(this.ticketKey(ticket.user_id))
+        .zrem(this.queueKey(ticket.language_id), ticket.user_id);
+    }
+    await pipeline.exec();
+  }
+
+  private async getTicket(userId: string): Promise<MatchTicket | null> {
+    const value = await this.redis.get(this.ticketKey(userId));
+    return value ? JSON.parse(value) : null;
+  }
+
+  private async ticketStatus(ticket: MatchTicket) {
+    return {
+      searching: true,
+      language_id: ticket.language_id,
+      category_id: ticket.category_id,
+      players: ticket.players,
+      waited_seconds: Math.floor(
+        MatchmakingHelper.waitedSeconds(ticket, Date.now()),
+      ),
+      queue_size: await this.redis.zcard(this.queueKey(ticket.language_id)),
+    };
+  }
+
+  // the player's online quick game rating
+  private async skillOf(userId: string) {
+    const ratings = await this.ratings.ratingsFor(
+      [userId],
+      GameMode.ONLINE_QUICK_GAME,
+    );
+    return Math.round(ratings.get(userId));
+  }
+
+  // run the queue again when the ticket may settle for less
+  private async scheduleRetries(ticket: MatchTicket) {
+    const rules = this.rules();
+    const stages = {
+      smaller: rules.smaller_lobby_after,
+      bots: rules.bot_fill_after,
+    };
+
+    try {
+      for (const [stage, seconds] of Object.entries(stages)) {
+        await this.queue.add(
+          'matchmakingRetry',
+          { user_id: ticket.user_id, language_id: ticket.language_id },
+          {
+            jobId: this.jobId(ticket, stage),
+            delay: seconds * 1000,
+            removeOnComplete: true,
+            removeOnFail: true,
+          },
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error scheduling matchmaking retries for ${ticket.user_id}`,
+        error,
+      );
+    }
+  }
+
+  private async cancelRetries(...tickets: MatchTicket[]) {
+    try {
+      await Promise.all(
+        tickets.flatMap((ticket) =>
+          ['smaller', 'bots'].map((stage) =>
+            this.queue.remove(this.jobId(ticket, stage)),
+          ),
+        ),
+      );
+    } catch (error) {
+      this.logger.error('Error cancelling matchmaking retries', error);
+    }
+  }
+
+  private rules() {
+    return appConfig().game.matchmaking;
+  }
+
+  private ticketKey(userId: string) {
+    return `matchmaking:ticket:${userId}`;
+  }
+
+  private queueKey(languageId: string) {
+    return `matchmaking:queue:${languageId}`;
+  }
+
+  // bullmq does not allow ':' in custom job ids
+  private jobId(ticket: MatchTicket, stage: string) {
+    return `${stage}-${ticket.user_id}-${ticket.queued_at}`;
+  }
+
+  private notify(userIds: string[], event: string, payload: any) {
+    if (userIds.length > 0) {
+      this.gameGateway.server.to(userIds).emit(event, payload);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import {
+  MATCHMAKING_QUEUE,
+  MatchmakingJobData,
+  MatchmakingService,
+} from '../matchmaking.service';
+
+@Processor(MATCHMAKING_QUEUE)
+export class MatchmakingProcessor extends WorkerHost {
+  private readonly logger = new Logger(MatchmakingProcessor.name);
+  constructor(private matchmakingService: MatchmakingService) {
+    super();
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.log(`Job ${job.id} with name ${job.name} completed`);
+  }
+
+  async process(job: Job<MatchmakingJobData>): Promise<any> {
+    this.logger.log(`Processing job ${job.id} with name ${job.name}`);
+    try {
+      switch (job.name) {
+        case 'matchmakingRetry':
+          return await this.matchmakingService.match(job.data.language_id);
+        default:
+          this.logger.log('Unknown job name');
+          return;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing job ${job.id} with name ${job.name}`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,16 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty } from 'class-validator';
-import { GameMode } from '@prisma/client';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  ValidateNested,
+  IsEnum,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { GameMode, RoomVisibility } from '@prisma/client';
+import { GameSettingsDto } from '../../game-settings/dto/game-settings.dto';
 
 export class CreateMultiplayerGameDto {
   @ApiProperty({
@@ -18,4 +28,33 @@ export class CreateMultiplayerGameDto {
   @IsString()
   @IsNotEmpty()
   language_id: string;
+
+  @ApiProperty({
+    description: "Host overrides of the mode's rules",
+    type: GameSettingsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GameSettingsDto)
+  settings?: GameSettingsDto;
+
+  @ApiProperty({
+    description: 'Who can find and join the room (default: PRIVATE)',
+    enum: RoomVisibility,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(RoomVisibility)
+  visibility?: RoomVisibility;
+
+  @ApiProperty({
+    description: 'Password of a PASSWORD room',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(32)
+  password?: string;
 }
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class JoinRoomDto {
+  @ApiProperty({
+    description: 'Password of a password protected room',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  password?: string;
+}
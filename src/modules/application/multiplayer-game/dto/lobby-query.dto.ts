@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { GameMode } from '@prisma/client';
+
+export class LobbyQueryDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  language_id?: string;
+
+  @ApiProperty({ enum: GameMode, required: false })
+  @IsOptional()
+  @IsEnum(GameMode)
+  mode?: GameMode;
+
+  @ApiProperty({
+    description: 'Only rooms with at least this many free seats (default: 1)',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  free_slots?: number;
+}
@@ -1,5 +1,14 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, IsDateString, MaxLength, IsNumber } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  MaxLength,
+  IsNumber,
+  IsBoolean,
+  IsEnum,
+  MinLength,
+} from 'class-validator';
+import { RoomVisibility } from '@prisma/client';
 
 export class UpdateRoomDto {
   @ApiProperty({
@@ -15,4 +24,41 @@ export class UpdateRoomDto {
   @IsOptional()
   @IsNumber()
   question_time?: number;
+
+  @ApiProperty({
+    description: 'Whether spectators can follow the room (default: true)',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  allow_spectators?: boolean;
+
+  @ApiProperty({
+    description: 'Who can find and join the room',
+    enum: RoomVisibility,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(RoomVisibility)
+  visibility?: RoomVisibility;
+
+  @ApiProperty({
+    description: 'New password of a PASSWORD room',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(32)
+  password?: string;
+
+  @ApiProperty({
+    description: 'Close the room to new players',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  is_locked?: boolean;
 }
@@ -0,0 +1,92 @@
+import { PlayerStatus, RoomStatus, RoomVisibility } from '@prisma/client';
+import { RoomHelper } from './room.helper';
+
+describe('RoomHelper', () => {
+  it('should size the room from the subscription, then the mode', () => {
+    const subscribed = { subscription: { subscription_type: { players: 8 } } };
+
+    expect(RoomHelper.maxPlayers(subscribed, 2)).toBe(8);
+    expect(RoomHelper.maxPlayers({ subscription: null }, 2)).toBe(2);
+    expect(RoomHelper.maxPlayers(null)).toBe(4);
+    expect(RoomHelper.freeSlots(4, 3)).toBe(1);
+    expect(RoomHelper.freeSlots(4, 6)).toBe(0);
+  });
+
+  it('should never hand out the password hash', () => {
+    const room = RoomHelper.withoutSecrets({ id: 'room', password: 'hash' });
+
+    expect(room).toEqual({ id: 'room', has_password: true });
+    expect(RoomHelper.withoutSecrets({ id: 'room', password: null })).toEqual({
+      id: 'room',
+      has_password: false,
+    });
+  });
+
+  it('should keep newcomers out of locked and expired rooms', () => {
+    expect(
+      RoomHelper.joinBlock({ status: RoomStatus.WAITING, is_locked: false }),
+    ).toBeNull();
+    expect(
+      RoomHelper.joinBlock({ status: RoomStatus.WAITING, is_locked: true }),
+    ).toBe('This room is locked by the host.');
+    expect(
+      RoomHelper.joinBlock({ status: RoomStatus.EXPIRED, is_locked: false }),
+    ).toBe('This room has expired.');
+  });
+
+  it('should apply the visibility and password to spectators', () => {
+    const room = (visibility: RoomVisibility, allow_spectators = true) => ({
+      allow_spectators,
+      visibility,
+      host_id: 'host',
+      game_players: [
+        { user_id: 'player', status: PlayerStatus.ACTIVE },
+        { user_id: 'banned', status: PlayerStatus.BANNED },
+      ],
+    });
+
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PUBLIC), 'anyone', false),
+    ).toBeNull();
+    expect(
+      RoomHelper.spectateBlock(
+        room(RoomVisibility.PUBLIC, false),
+        'host',
+        true,
+      ),
+    ).toBe('Spectating is turned off for this room.');
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PRIVATE), 'anyone', true),
+    ).not.toBeNull();
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PRIVATE), 'banned', true),
+    ).not.toBeNull();
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PRIVATE), 'player', false),
+    ).toBeNull();
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PASSWORD), 'anyone', false),
+    ).toBe('Incorrect room password.');
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PASSWORD), 'anyone', true),
+    ).toBeNull();
+    expect(
+      RoomHelper.spectateBlock(room(RoomVisibility.PASSWORD), 'host', false),
+    ).toBeNull();
+  });
+
+  it('should require a password for password protected rooms', () => {
+    expect(
+      RoomHelper.visibilityConflict(RoomVisibility.PASSWORD, undefined),
+    ).not.toBeNull();
+    expect(
+      RoomHelper.visibilityConflict(RoomVisibility.PASSWORD, 'secret'),
+    ).toBeNull();
+    expect(
+      RoomHelper.visibilityConflict(RoomVisibility.PASSWORD, undefined, true),
+    ).toBeNull();
+    expect(
+      RoomHelper.visibilityConflict(RoomVisibility.PUBLIC, undefined),
+    ).toBeNull();
+  });
+});
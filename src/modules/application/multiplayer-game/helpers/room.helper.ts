@@ -0,0 +1,118 @@
+import { PlayerStatus, RoomStatus, RoomVisibility } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+
+// room size when neither the subscription nor the mode sets one
+const DEFAULT_MAX_PLAYERS = 4;
+
+type SubscribedGame = {
+  subscription?: {
+    subscription_type?: { players?: number | null } | null;
+  } | null;
+} | null;
+
+export class RoomHelper {
+  /**
+   * Seats in a room: what the game's subscription pays for, otherwise the
+   * limit of the mode
+   */
+  static maxPlayers(game: SubscribedGame, modeLimit?: number): number {
+    return (
+      game?.subscription?.subscription_type?.players ||
+      modeLimit ||
+      DEFAULT_MAX_PLAYERS
+    );
+  }
+
+  static freeSlots(maxPlayers: number, seated: number): number {
+    return Math.max(maxPlayers - seated, 0);
+  }
+
+  /**
+   * Room as players get to see it, the password hash never leaves the server
+   */
+  static withoutSecrets<R extends { password?: string | null }>(room: R) {
+    const { password, ...rest } = room;
+    return { ...rest, has_password: !!password };
+  }
+
+  /**
+   * Why a new player cannot join the room, null when they can. The
+   * password of a PASSWORD room is checked on its own.
+   */
+  static joinBlock(room: {
+    status: RoomStatus;
+    is_locked: boolean;
+  }): string | null {
+    if (room.status === RoomStatus.EXPIRED) {
+      return 'This room has expired.';
+    }
+    if (room.is_locked) {
+      return 'This room is locked by the host.';
+    }
+    return null;
+  }
+
+  /**
+   * Whether the password opens the room, always true for rooms without one
+   */
+  static async passwordMatches(
+    room: { visibility: RoomVisibility; password?: string | null },
+    password?: string,
+  ): Promise<boolean> {
+    if (room.visibility !== RoomVisibility.PASSWORD) {
+      return true;
+    }
+    return !!(password && (await bcrypt.compare(password, room.password)));
+  }
+
+  /**
+   * Why a user cannot watch the room, null when they can. The host and the
+   * room's players may always watch; anyone else cannot watch a PRIVATE
+   * room and needs the password of a PASSWORD room.
+   */
+  static spectateBlock(
+    room: {
+      allow_spectators: boolean;
+      visibility: RoomVisibility;
+      host_id: string;
+      game_players: { user_id?: string | null; status?: PlayerStatus }[];
+    },
+    userId: string,
+    passwordMatches: boolean,
+  ): string | null {
+    if (!room.allow_spectators) {
+      return 'Spectating is turned off for this room.';
+    }
+    const isMember =
+      room.host_id === userId ||
+      room.game_players.some(
+        (player) =>
+          player.user_id === userId && player.status !== PlayerStatus.BANNED,
+      );
+    if (isMember) {
+      return null;
+    }
+    if (room.visibility === RoomVisibility.PRIVATE) {
+      return 'Only the players of a private room can watch it.';
+    }
+    if (room.visibility === RoomVisibility.PASSWORD && !passwordMatches) {
+      return 'Incorrect room password.';
+    }
+    return null;
+  }
+
+  /**
+   * A PASSWORD room needs a password, either the one being set now or the
+   * one it already has
+   */
+  static visibilityConflict(
+    visibility: RoomVisibility | undefined,
+    password: string | undefined,
+    hasPassword = false,
+  ): string | null {
+    if (visibility === RoomVisibility.PASSWORD && !password && !hasPassword) {
+      return 'A password is required for a password protected room.';
+    }
+    return null;
+  }
+}
@@ -7,12 +7,18 @@ import {
   Param,
   Patch,
   Get,
+  Query,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
-import { MultiplayerGameService } from './multiplayer-game.service';
+import {
+  GRID_STYLE_PLAYERS,
+  MultiplayerGameService,
+} from './multiplayer-game.service';
 import { CreateMultiplayerGameDto } from './dto/create-multiplayer-game.dto';
 import { JwtAuthGuard } from 'src/modules/auth/guards/jwt-auth.guard';
 import { UpdateRoomDto } from './dto/update-room.dto';
+import { JoinRoomDto } from './dto/join-room.dto';
+import { LobbyQueryDto } from './dto/lobby-query.dto';
 
 @ApiTags('Multiplayer Game')
 @ApiBearerAuth()
@@ -41,7 +47,9 @@ export class MultiplayerGameController {
   }
 
   @Patch('room/:roomId')
-  @ApiOperation({ summary: 'Update room details (name and start time)' })
+  @ApiOperation({
+    summary: 'Update room details (name, question time and spectating)',
+  })
   async updateRoomDetails(
     @Param('roomId') roomId: string,
     @Body() updateRoomDto: UpdateRoomDto,
@@ -55,18 +63,96 @@ export class MultiplayerGameController {
     );
   }
 
+  @Post('room/:roomId/kick/:playerId')
+  @ApiOperation({ summary: 'Kick a player from the room (they may rejoin)' })
+  async kickPlayer(
+    @Param('roomId') roomId: string,
+    @Param('playerId') playerId: string,
+    @Req() req: any,
+  ) {
+    const userId = req.user.userId;
+    return this.multiplayerGameService.removePlayer(
+      roomId,
+      playerId,
+      userId,
+      false,
+    );
+  }
+
+  @Post('room/:roomId/ban/:playerId')
+  @ApiOperation({ summary: 'Ban a player from the room' })
+  async banPlayer(
+    @Param('roomId') roomId: string,
+    @Param('playerId') playerId: string,
+    @Req() req: any,
+  ) {
+    const userId = req.user.userId;
+    return this.multiplayerGameService.removePlayer(
+      roomId,
+      playerId,
+      userId,
+      true,
+    );
+  }
+
+  @Get('lobbies')
+  @ApiOperation({
+    summary: 'List public rooms waiting for players',
+    description:
+      'Filter by language, mode and free seats. Private and locked rooms are not listed.',
+  })
+  async getLobbies(@Query() query: LobbyQueryDto) {
+    return this.multiplayerGameService.getLobbies(query);
+  }
+
   @Post('join/:identifier')
   @ApiOperation({ summary: 'Join a game using either Game ID or Room Code' })
-  async joinGame(@Param('identifier') identifier: string, @Req() req: any) {
+  async joinGame(
+    @Param('identifier') identifier: string,
+    @Body() joinDto: JoinRoomDto,
+    @Req() req: any,
+  ) {
     const userId = req.user.userId;
-    return this.multiplayerGameService.joinGame(identifier, userId);
+    return this.multiplayerGameService.joinGame(
+      identifier,
+      userId,
+      undefined,
+      joinDto?.password,
+    );
   }
 
   @Post('grid-join/:identifier')
   @ApiOperation({ summary: 'Join a game using either Game ID or Room Code' })
-  async gridJoinGame(@Param('identifier') identifier: string, @Req() req: any) {
+  async gridJoinGame(
+    @Param('identifier') identifier: string,
+    @Body() joinDto: JoinRoomDto,
+    @Req() req: any,
+  ) {
     const userId = req.user.userId;
-    return this.multiplayerGameService.joinGame(identifier, userId, 2);
+    return this.multiplayerGameService.joinGame(
+      identifier,
+      userId,
+      GRID_STYLE_PLAYERS,
+      joinDto?.password,
+    );
+  }
+
+  @Get('spectate/:roomCode')
+  @ApiOperation({
+    summary: 'Watch a room as a spectator',
+    description:
+      'Read-only view of the room. Live updates come from the spectateGameRoom socket message; spectators do not count toward the player limit. Private rooms can only be watched by their players, password protected rooms need the password.',
+  })
+  async getSpectatorView(
+    @Param('roomCode') roomCode: string,
+    @Query() query: JoinRoomDto,
+    @Req() req: any,
+  ) {
+    return this.multiplayerGameService.getSpectatorView(
+      roomCode,
+      req.user.userId,
+      query.password,
+    );
   }
 
   @ApiOperation({ summary: 'Find unplayed game' })
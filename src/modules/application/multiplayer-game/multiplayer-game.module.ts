@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common';
 import { MultiplayerGameService } from './multiplayer-game.service';
 import { MultiplayerGameController } from './multiplayer-game.controller';
 import { MessageGateway } from 'src/modules/chat/message/message.gateway';
+import { GameEngineModule } from '../game-engine/game-engine.module';
 
 @Module({
   controllers: [MultiplayerGameController],
   providers: [MultiplayerGameService],
-  imports: [MessageGateway],
+  imports: [MessageGateway, GameEngineModule],
+  exports: [MultiplayerGameService],
 })
 export class MultiplayerGameModule {}
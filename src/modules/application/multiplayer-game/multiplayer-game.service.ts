@@ -8,18 +8,45 @@ import {
 
 import { CreateMultiplayerGameDto } from './dto/create-multiplayer-game.dto';
 
+import {
+  GameEventType,
+  GameMode,
+  GamePhase,
+  PlayerStatus,
+  RoomStatus,
+  RoomVisibility,
+} from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
 import { UpdateRoomDto } from './dto/update-room.dto';
+import { LobbyQueryDto } from './dto/lobby-query.dto';
 import { MessageGateway } from 'src/modules/chat/message/message.gateway';
+import { GameRoomEvent, GameRoomGateway } from '../game-room/game-room.gateway';
 import appConfig from 'src/config/app.config';
 import { SojebStorage } from 'src/common/lib/Disk/SojebStorage';
+import { GameSettingsService } from '../game-settings/game-settings.service';
+import { GameSettingsHelper } from '../game-settings/helpers/game-settings.helper';
+import { GameEventService } from '../game-event/game-event.service';
+import { GameEngineService } from '../game-engine/game-engine.service';
+import { TeamHelper } from '../game-player/helpers/team.helper';
+import { RoomHelper } from './helpers/room.helper';
+
+// grid style games are played head to head
+export const GRID_STYLE_PLAYERS = 2;
+
+// rooms listed by one lobby request at most
+const LOBBY_LIMIT = 50;
 
 @Injectable()
 export class MultiplayerGameService {
   constructor(
     private prisma: PrismaService,
     private readonly gameGateway: MessageGateway,
+    private readonly gameRoomGateway: GameRoomGateway,
+    private readonly gameSettings: GameSettingsService,
+    private readonly gameEvents: GameEventService,
+    private readonly gameEngine: GameEngineService,
   ) {}
 
   /**
@@ -122,6 +149,36 @@ export class MultiplayerGameService {
         }
       }
 
+      const ruleLimits = activeSubscription?.subscription_type ?? null;
+      const settingsConflict = GameSettingsHelper.validate(
+        createDto.mode,
+        createDto.settings ?? {},
+        ruleLimits,
+      );
+      if (settingsConflict) {
+        return {
+          success: false,
+          message: settingsConflict,
+          statusCode: 400,
+        };
+      }
+
+      const visibilityConflict = RoomHelper.visibilityConflict(
+        createDto.visibility,
+        createDto.password,
+      );
+      if (visibilityConflict) {
+        return {
+          success: false,
+          message: visibilityConflict,
+          statusCode: 400,
+        };
+      }
+      const passwordHash =
+        createDto.visibility === RoomVisibility.PASSWORD
+          ? await bcrypt.hash(createDto.password, appConfig().security.salt)
+          : null;
+
       // Check games of this specific type (for informational purposes only)
       const gamesOfThisType = await this.prisma.game.count({
         where: {
@@ -144,7 +201,7 @@ export class MultiplayerGameService {
             mode: createDto.mode,
             language_id: createDto.language_id,
             host_id: hostId,
-            game_phase: 'waiting',
+            game_phase: GamePhase.WAITING,
             // Add subscription_id if using subscription
             subscription_id: requiresSubscription
               ? activeSubscription?.id
@@ -152,6 +209,13 @@ export class MultiplayerGameService {
           },
         });
 
+        const settings = await this.gameSettings.createForGame(
+          tx,
+          game,
+          ruleLimits,
+          createDto.settings,
+        );
+
         const hostUser = await tx.user.findUnique({
           where: { id: hostId },
           select: { name: true },
@@ -165,6 +229,8 @@ export class MultiplayerGameService {
             game_id: game.id,
             host_id: hostId,
             status: 'WAITING',
+            visibility: createDto.visibility,
+            password: passwordHash,
           },
         });
 
@@ -191,7 +257,8 @@ export class MultiplayerGameService {
             : `${createDto.mode.replace('_', ' ')} game created successfully using your subscription.`,
           data: {
             game,
-            room,
+            settings,
+            room: RoomHelper.withoutSecrets(room),
             hostPlayer,
             is_first_game_overall: isFirstGameOverall,
             games_of_this_type: gamesOfThisType + 1,
@@ -238,7 +305,13 @@ export class MultiplayerGameService {
         };
       }
 
-      if (room.status !== 'WAITING') {
+      // spectating and the lock can still be switched once the game has started
+      const updatesRoomSettings =
+        updateDto.name !== undefined ||
+        updateDto.question_time !== undefined ||
+        updateDto.visibility !== undefined ||
+        updateDto.password !== undefined;
+      if (room.status !== 'WAITING' && updatesRoomSettings) {
         return {
           success: false,
           message:
@@ -247,18 +320,60 @@ export class MultiplayerGameService {
         };
       }
 
+      const visibility = updateDto.visibility ?? room.visibility;
+      const visibilityConflict = RoomHelper.visibilityConflict(
+        visibility,
+        updateDto.password,
+        !!room.password,
+      );
+      if (visibilityConflict) {
+        return {
+          success: false,
+          message: visibilityConflict,
+          statusCode: 400,
+        };
+      }
+
+      let password = room.password;
+      if (visibility !== RoomVisibility.PASSWORD) {
+        password = null;
+      } else if (updateDto.password) {
+        password = await bcrypt.hash(
+          updateDto.password,
+          appConfig().security.salt,
+        );
+      }
+
       const updatedRoom = await this.prisma.room.update({
         where: { id: roomId, host_id: room.host_id },
         data: {
           name: updateDto.name,
           question_time: updateDto.question_time,
+          allow_spectators: updateDto.allow_spectators,
+          visibility: updateDto.visibility,
+          password,
+          is_locked: updateDto.is_locked,
         },
       });
 
+      // the room's question time is the game's question time
+      if (updateDto.question_time !== undefined) {
+        await this.gameSettings.update(room.game_id, {
+          question_time: updateDto.question_time,
+        });
+      }
+
+      if (room.allow_spectators && updatedRoom.allow_spectators === false) {
+        await this.gameRoomGateway.closeSpectating(room.code);
+      }
+
       return {
         success: true,
         message: 'Room details updated successfully.',
-        data: updatedRoom,
+        data: {
+          ...RoomHelper.withoutSecrets(updatedRoom),
+          spectator_count: await this.gameRoomGateway.spectatorCount(room.code),
+        },
       };
     } catch (error) {
       return {
@@ -270,10 +385,208 @@ export class MultiplayerGameService {
     }
   }
 
+  /**
+   * Take a player out of the room. A kicked player may join again, a banned
+   * one is kept out of this room for good. Their answers and score stay.
+   */
+  async removePlayer(
+    roomId: string,
+    playerId: string,
+    hostId: string,
+    ban: boolean,
+  ) {
+    try {
+      const room = await this.prisma.room.findUnique({
+        where: { id: roomId },
+        include: { game: true },
+      });
+      if (!room) {
+        return {
+          success: false,
+          message: 'Room not found.',
+          statusCode: 404,
+        };
+      }
+
+      if (room.host_id !== hostId) {
+        return {
+          success: false,
+          message: 'Only the host can remove players.',
+          statusCode: 403,
+        };
+      }
+
+      const player = await this.prisma.gamePlayer.findFirst({
+        where: { id: playerId, game_id: room.game_id },
+      });
+      if (!player) {
+        return {
+          success: false,
+          message: 'Player not found in this room.',
+          statusCode: 404,
+        };
+      }
+
+      if (player.user_id === hostId) {
+        return {
+          success: false,
+          message: 'The host cannot remove themselves.',
+          statusCode: 400,
+        };
+      }
+
+      const status = ban ? PlayerStatus.BANNED : PlayerStatus.INACTIVE;
+      const payload = {
+        player_id: player.id,
+        user_id: player.user_id,
+        name: player.player_name,
+        banned: ban,
+      };
+      await this.prisma.$transaction(async (tx) => {
+        await tx.gamePlayer.update({
+          where: { id: playerId },
+          data: { status },
+        });
+        await this.gameEvents.record(
+          room.game_id,
+          GameEventType.PLAYER_LEFT,
+          {
+            game_player_id: player.id,
+            payload: { ...payload, removed_by_host: true },
+          },
+          tx,
+        );
+      });
+
+      // a player removed on their turn loses it, as if their time ran out
+      if (room.game.current_player_id === playerId) {
+        await this.gameEngine.forfeit(room.game_id, playerId, false);
+      }
+
+      const players = await this.prisma.gamePlayer.findMany({
+        where: { game_id: room.game_id, user_id: { not: null } },
+        select: { user_id: true },
+      });
+      this.gameGateway.server
+        .to(players.map((p) => p.user_id))
+        .emit('playerRemoved', payload);
+      this.gameRoomGateway.emitToRoom(
+        room.code,
+        GameRoomEvent.PLAYER_REMOVED,
+        payload,
+      );
+      if (player.user_id) {
+        await this.gameRoomGateway.removeFromRoom(room.code, player.user_id);
+      }
+
+      return {
+        success: true,
+        message: ban ? 'Player banned from the room.' : 'Player kicked.',
+        data: payload,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'An unexpected error occurred while removing the player.',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Read-only view of a room for spectators: the room, the scoreboard and the
+   * number of people watching. Spectators never become game players and
+   * watch under the visibility and password of the room.
+   */
+  async getSpectatorView(roomCode: string, userId: string, password?: string) {
+    try {
+      const room = await this.prisma.room.findUnique({
+        where: { code: roomCode.toUpperCase() },
+        include: {
+          game: {
+            select: {
+              id: true,
+              mode: true,
+              status: true,
+              game_phase: true,
+              current_player_id: true,
+              current_question: true,
+              total_questions: true,
+            },
+          },
+          game_players: {
+            select: {
+              id: true,
+              user_id: true,
+              player_name: true,
+              player_order: true,
+              score: true,
+              status: true,
+            },
+            orderBy: { player_order: 'asc' },
+          },
+        },
+      });
+
+      if (!room) {
+        return {
+          success: false,
+          message: 'Room not found.',
+          statusCode: 404,
+        };
+      }
+
+      const spectateBlock = RoomHelper.spectateBlock(
+        room,
+        userId,
+        await RoomHelper.passwordMatches(room, password),
+      );
+      if (spectateBlock) {
+        return {
+          success: false,
+          message: spectateBlock,
+          statusCode: 403,
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Spectator view fetched successfully.',
+        data: {
+          room: {
+            code: room.code,
+            name: room.name,
+            status: room.status,
+          },
+          game: room.game,
+          players: room.game_players.map((player) => ({
+            id: player.id,
+            player_name: player.player_name,
+            player_order: player.player_order,
+            score: player.score,
+            status: player.status,
+          })),
+          spectator_count: await this.gameRoomGateway.spectatorCount(room.code),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `An unexpected error occurred while loading the room: ${error.message}`,
+        statusCode: 500,
+      };
+    }
+  }
+
   /**
    * API 2: Allow a user to join an existing multiplayer game using a room code.
    */
-  async joinGame(identifier: string, userId: string, isMaxLimit?: number) {
+  async joinGame(
+    identifier: string,
+    userId: string,
+    isMaxLimit?: number,
+    password?: string,
+  ) {
     let room: any;
     let gameId: string;
 
@@ -325,26 +638,60 @@ export class MultiplayerGameService {
     });
 
     if (existingPlayer) {
-      const answerCount = await this.prisma.playerAnswer.count({
-        where: { game_player_id: existingPlayer.id },
-      });
+      if (existingPlayer.status === PlayerStatus.BANNED) {
+        throw new ForbiddenException('You have been banned from this room.');
+      }
 
-      if (answerCount > 0) {
-        throw new ForbiddenException(
-          'You cannot rejoin because you have already participated in the game.',
-        );
+      // a kicked player may come back, answers given before the kick
+      // included, into a room that is still open and has a free seat
+      const wasKicked = existingPlayer.status === PlayerStatus.INACTIVE;
+      if (wasKicked) {
+        const joinBlock = RoomHelper.joinBlock(room);
+        if (joinBlock) {
+          throw new ForbiddenException(joinBlock);
+        }
+        if (!(await RoomHelper.passwordMatches(room, password))) {
+          throw new ForbiddenException('Incorrect room password.');
+        }
+        const seated = room.game_players.filter((player) =>
+          TeamHelper.isSeated(player),
+        ).length;
+        if (seated >= RoomHelper.maxPlayers(room.game, isMaxLimit)) {
+          throw new BadRequestException('This room is already full.');
+        }
+
+        await this.prisma.gamePlayer.update({
+          where: { id: existingPlayer.id },
+          data: { status: PlayerStatus.ACTIVE },
+        });
+      } else {
+        const answerCount = await this.prisma.playerAnswer.count({
+          where: { game_player_id: existingPlayer.id },
+        });
+
+        if (answerCount > 0) {
+          throw new ForbiddenException(
+            'You cannot rejoin because you have already participated in the game.',
+          );
+        }
       }
 
-      const allPlayersData = room.game_players.map((player) => {
-        const pAvatarUrl = player.user.avatar
+      const seatedPlayers = room.game_players.filter(
+        (player) =>
+          player.id === existingPlayer.id || TeamHelper.isSeated(player),
+      );
+
+      const allPlayersData = seatedPlayers.map((player) => {
+        // matchmaking bots have no user
+        const pAvatarUrl = player.user?.avatar
           ? SojebStorage.url(appConfig().storageUrl.avatar + player.user.avatar)
           : null;
         return {
           player_id: player.id,
           player_order: player.player_order,
           user_id: player.user_id,
-          name: player.user.name,
-          avatar: player.user.avatar,
+          name: player.user?.name ?? player.player_name,
+          avatar: player.user?.avatar ?? null,
           avatar_url: pAvatarUrl,
         };
       });
@@ -353,7 +700,9 @@ export class MultiplayerGameService {
         (p) => p.id === existingPlayer.id,
       );
 
-      const playerIds = room.game_players.map((player) => player.user.id);
+      const playerIds = seatedPlayers
+        .filter((player) => player.user)
+        .map((player) => player.user.id);
 
       const avatarUrl = newPlayer.user.avatar
         ? SojebStorage.url(
@@ -372,6 +721,11 @@ export class MultiplayerGameService {
       this.gameGateway.server
         .to(playerIds)
         .emit('playerJoined', playerJoinedData);
+      this.gameRoomGateway.emitToRoom(
+        room.code,
+        GameRoomEvent.PLAYER_JOINED,
+        playerJoinedData,
+      );
 
       return {
         success: true,
@@ -382,20 +736,23 @@ export class MultiplayerGameService {
       };
     }
 
-    let maxPlayers: number;
+    const joinBlock = RoomHelper.joinBlock(room);
+    if (joinBlock) {
+      throw new ForbiddenException(joinBlock);
+    }
 
-    if (
-      room.game?.subscription &&
-      room.game.subscription.subscription_type.players
-    ) {
-      maxPlayers = room.game.subscription.subscription_type.players;
-    } else if (isMaxLimit) {
-      maxPlayers = isMaxLimit;
-    } else {
-      maxPlayers = 4;
+    if (!(await RoomHelper.passwordMatches(room, password))) {
+      throw new ForbiddenException('Incorrect room password.');
     }
 
-    if (room._count.game_players >= maxPlayers) {
+    const maxPlayers = RoomHelper.maxPlayers(room.game, isMaxLimit);
+
+    // kicked and banned players keep their row but not their seat
+    const seatedPlayers = room.game_players.filter((player) =>
+      TeamHelper.isSeated(player),
+    );
+
+    if (seatedPlayers.length >= maxPlayers) {
       throw new BadRequestException('This room is already full.');
     }
 
@@ -429,21 +786,23 @@ export class MultiplayerGameService {
         },
       });
 
-      const playerIds = room.game_players.map((player) => player.user.id);
+      const playerIds = seatedPlayers
+        .filter((player) => player.user)
+        .map((player) => player.user.id);
       playerIds.push(newPlayer.user.id);
 
-      const allPlayers = [...room.game_players, newPlayer];
+      const allPlayers = [...seatedPlayers, newPlayer];
 
       const allPlayersData = allPlayers.map((player) => {
-        const pAvatarUrl = player.user.avatar
+        const pAvatarUrl = player.user?.avatar
           ? SojebStorage.url(appConfig().storageUrl.avatar + player.user.avatar)
           : null;
         return {
           player_id: player.id,
           player_order: player.player_order,
           user_id: player.user_id,
-          name: player.user.name,
-          avatar: player.user.avatar,
+          name: player.user?.name ?? player.player_name,
+          avatar: player.user?.avatar ?? null,
           avatar_url: pAvatarUrl,
         };
       });
@@ -466,6 +825,11 @@ export class MultiplayerGameService {
       this.gameGateway.server
         .to(playerIds)
         .emit('playerJoined', playerJoinedData);
+      this.gameRoomGateway.emitToRoom(
+        room.code,
+        GameRoomEvent.PLAYER_JOINED,
+        playerJoinedData,
+      );
 
       return {
         success: true,
@@ -481,13 +845,112 @@ export class MultiplayerGameService {
     }
   }
 
+  /**
+   * Public and password protected rooms that are waiting for players.
+   * Locked and full rooms are left out.
+   */
+  async getLobbies(query: LobbyQueryDto) {
+    try {
+      const minFreeSlots = query.free_slots ?? 1;
+      const lobbies = [];
+      // the seats of a room depend on the subscription of its game, so rooms
+      // are read a page at a time until enough have the free seats asked for
+      for (let skip = 0; lobbies.length < LOBBY_LIMIT; skip += LOBBY_LIMIT) {
+        const rooms = await this.prisma.room.findMany({
+          where: {
+            status: RoomStatus.WAITING,
+            is_locked: false,
+            visibility: {
+              in: [RoomVisibility.PUBLIC, RoomVisibility.PASSWORD],
+            },
+            game: {
+              game_phase: GamePhase.WAITING,
+              ...(query.language_id ? { language_id: query.language_id } : {}),
+              ...(query.mode ? { mode: query.mode } : {}),
+            },
+          },
+          include: {
+            host: { select: { id: true, name: true, avatar: true } },
+            game_players: { select: { status: true } },
+            game: {
+              select: {
+                id: true,
+                mode: true,
+                language: { select: { id: true, name: true, code: true } },
+                subscription: { include: { subscription_type: true } },
+              },
+            },
+          },
+          orderBy: [{ created_at: 'desc' }, { id: 'asc' }],
+          skip,
+          take: LOBBY_LIMIT,
+        });
+
+        lobbies.push(
+          ...rooms
+            .map((room) => {
+              const maxPlayers = RoomHelper.maxPlayers(
+                room.game,
+                room.game.mode === GameMode.GRID_STYLE
+                  ? GRID_STYLE_PLAYERS
+                  : undefined,
+              );
+              const players = room.game_players.filter((player) =>
+                TeamHelper.isSeated(player),
+              ).length;
+
+              return {
+                room_id: room.id,
+                code: room.code,
+                name: room.name,
+                game_id: room.game.id,
+                mode: room.game.mode,
+                language: room.game.language,
+                visibility: room.visibility,
+                has_password: !!room.password,
+                allow_spectators: room.allow_spectators,
+                host: {
+                  ...room.host,
+                  avatar_url: room.host.avatar
+                    ? SojebStorage.url(
+                        appConfig().storageUrl.avatar + room.host.avatar,
+                      )
+                    : null,
+                },
+                players,
+                max_players: maxPlayers,
+                free_slots: RoomHelper.freeSlots(maxPlayers, players),
+                created_at: room.created_at,
+              };
+            })
+            .filter((lobby) => lobby.free_slots >= minFreeSlots),
+        );
+        if (rooms.length < LOBBY_LIMIT) {
+          break;
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Lobbies retrieved successfully.',
+        data: lobbies.slice(0, LOBBY_LIMIT),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'An unexpected error occurred while listing the lobbies.',
+        statusCode: 500,
+      };
+    }
+  }
+
   async findUnplayedGame(userId: string) {
     try {
       const unplayedOnlineGamePlayers = await this.prisma.gamePlayer.findMany({
         where: {
           user_id: userId,
           game: {
-            game_phase: 'waiting',
+            game_phase: GamePhase.WAITING,
             rooms: {
               some: {},
             },
@@ -663,7 +1126,7 @@ export class MultiplayerGameService {
         });
 
         // Emit to the rest of the players
-        const otherPlayers = allPlayers.slice(1);
+        const otherPlayers = allPlayers.slice(1).filter((p) => p.user);
         if (otherPlayers.length > 0) {
           const otherPlayerIds = otherPlayers.map((p) => p.user.id);
           this.gameGateway.server.to(otherPlayerIds).emit('gameStarted', {
@@ -671,6 +1134,11 @@ export class MultiplayerGameService {
             start: false,
           });
         }
+
+        this.gameRoomGateway.emitToRoom(room.code, GameRoomEvent.GAME_STARTED, {
+          game_id: gameId,
+          first_player_id: firstPlayer.id,
+        });
       }
 
       return {
@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TournamentFormat } from '@prisma/client';
+import { Transform } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreateTournamentDto {
+  @ApiProperty({
+    description: 'Name of the tournament',
+    example: 'Thursday Trivia Night',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Description shown to players',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'How the matches are drawn',
+    enum: TournamentFormat,
+    example: TournamentFormat.SINGLE_ELIMINATION,
+  })
+  @IsEnum(TournamentFormat)
+  format: TournamentFormat;
+
+  @ApiProperty({
+    description: 'The language ID used for every match',
+    example: 'clx......',
+  })
+  @IsString()
+  @IsNotEmpty()
+  language_id: string;
+
+  @ApiProperty({
+    description: 'Maximum number of registered players',
+    example: 16,
+    required: false,
+  })
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(2)
+  @Max(64)
+  @IsOptional()
+  max_participants?: number;
+
+  @ApiProperty({
+    description: 'When the tournament is planned to start',
+    example: '2026-10-22T19:00:00.000Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  starts_at?: string;
+}
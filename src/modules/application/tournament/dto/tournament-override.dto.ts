@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ParticipantSeedDto {
+  @ApiProperty({ description: 'The ID of the TournamentParticipant' })
+  @IsString()
+  @IsNotEmpty()
+  participant_id: string;
+
+  @ApiProperty({ description: 'Seed to give the participant', example: 1 })
+  @IsInt()
+  @Min(1)
+  seed: number;
+}
+
+export class SetSeedsDto {
+  @ApiProperty({
+    description:
+      'Manual seeds. Participants left out are seeded by rating after them',
+    type: [ParticipantSeedDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ParticipantSeedDto)
+  seeds: ParticipantSeedDto[];
+}
+
+export class OverrideMatchDto {
+  @ApiProperty({
+    description: 'The ID of the TournamentParticipant who wins the match',
+  })
+  @IsString()
+  @IsNotEmpty()
+  winner_id: string;
+}
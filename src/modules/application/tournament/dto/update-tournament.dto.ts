@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTournamentDto } from './create-tournament.dto';
+
+export class UpdateTournamentDto extends PartialType(CreateTournamentDto) {}
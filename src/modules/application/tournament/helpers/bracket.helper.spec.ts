@@ -0,0 +1,173 @@
+import {
+  TournamentBracket,
+  TournamentFormat,
+  TournamentMatchStatus,
+} from '@prisma/client';
+import { BracketHelper, BracketMatchSpec, BracketNode } from './bracket.helper';
+
+// Turn specs into stored nodes the way the service does, placing seed N
+// as participant `sN`
+const toNodes = (specs: BracketMatchSpec[]): BracketNode[] =>
+  specs.map((spec) => ({
+    id: spec.key,
+    bracket: spec.bracket,
+    round: spec.round,
+    position: spec.position,
+    status: TournamentMatchStatus.PENDING,
+    player1_id: spec.seeds[0] ? `s${spec.seeds[0]}` : null,
+    player2_id: spec.seeds[1] ? `s${spec.seeds[1]}` : null,
+    winner_id: null,
+    loser_id: null,
+    next_match_id: spec.next?.key ?? null,
+    next_match_slot: spec.next?.slot ?? null,
+    loser_next_match_id: spec.loser_next?.key ?? null,
+    loser_next_match_slot: spec.loser_next?.slot ?? null,
+  }));
+
+// Play every match, the better seed always winning
+const playOut = (nodes: BracketNode[]) => {
+  let playable = BracketHelper.playable(nodes);
+  while (playable.length > 0) {
+    for (const node of playable) {
+      const [winner, loser] = [node.player1_id, node.player2_id].sort(
+        (a, b) => Number(a.slice(1)) - Number(b.slice(1)),
+      );
+      BracketHelper.complete(nodes, node.id, winner, loser);
+    }
+    playable = BracketHelper.playable(nodes);
+  }
+};
+
+describe('BracketHelper', () => {
+  it('should keep the top seeds apart until the final', () => {
+    expect(BracketHelper.seedPositions(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    expect(BracketHelper.bracketSize(5)).toBe(8);
+  });
+
+  it('should give byes to the top seeds in single elimination', () => {
+    const nodes = toNodes(BracketHelper.singleElimination(6));
+    BracketHelper.settle(nodes);
+
+    const byes = nodes.filter((n) => n.status === TournamentMatchStatus.BYE);
+    expect(byes.map((n) => n.winner_id).sort()).toEqual(['s1', 's2']);
+    expect(nodes.find((n) => n.id === 'WINNERS:2:1').player1_id).toBe('s1');
+    expect(BracketHelper.playable(nodes)).toHaveLength(2);
+  });
+
+  it('should crown the top seed when favourites win', () => {
+    const nodes = toNodes(BracketHelper.singleElimination(6));
+    BracketHelper.settle(nodes);
+    playOut(nodes);
+
+    const final = BracketHelper.finalNode(nodes);
+    expect(final.winner_id).toBe('s1');
+    expect(final.loser_id).toBe('s2');
+  });
+
+  it('should send losers to the losers bracket and meet in a grand final', () => {
+    const specs = BracketHelper.doubleElimination(8);
+    expect(
+      specs.filter((s) => s.bracket === TournamentBracket.WINNERS),
+    ).toHaveLength(7);
+    expect(
+      specs.filter((s) => s.bracket === TournamentBracket.LOSERS),
+    ).toHaveLength(6);
+
+    const nodes = toNodes(specs);
+    BracketHelper.settle(nodes);
+    playOut(nodes);
+
+    const grandFinal = BracketHelper.finalNode(nodes);
+    expect(grandFinal.bracket).toBe(TournamentBracket.GRAND_FINAL);
+    expect(grandFinal.player1_id).toBe('s1');
+    expect(grandFinal.player2_id).toBe('s2');
+    expect(nodes.every((n) => BracketHelper.isFinished(n))).toBe(true);
+    expect(BracketHelper.eliminationStage(nodes, grandFinal)).toBe(5);
+  });
+
+  it('should settle byes through the losers bracket', () => {
+    const nodes = toNodes(BracketHelper.doubleElimination(3));
+    BracketHelper.settle(nodes);
+    playOut(nodes);
+
+    const grandFinal = BracketHelper.finalNode(nodes);
+    expect(grandFinal.winner_id).toBe('s1');
+    expect(grandFinal.loser_id).toBe('s2');
+  });
+
+  it('should pair everyone once in round robin, one round at a time', () => {
+    const specs = BracketHelper.roundRobin(5);
+    const pairs = specs.map((s) => [...s.seeds].sort().join('-'));
+
+    expect(specs).toHaveLength(10);
+    expect(new Set(pairs).size).toBe(10);
+    expect(Math.max(...specs.map((s) => s.round))).toBe(5);
+
+    const nodes = toNodes(specs);
+    expect(BracketHelper.playable(nodes).every((n) => n.round === 1)).toBe(
+      true,
+    );
+  });
+
+  it('should decide a match on score, then correct answers, then seed', () => {
+    const first = {
+      participant_id: 'a',
+      seed: 2,
+      score: 300,
+      correct_answers: 3,
+    };
+    const second = {
+      participant_id: 'b',
+      seed: 1,
+      score: 300,
+      correct_answers: 3,
+    };
+
+    expect(
+      BracketHelper.matchWinner(first, { ...second, score: 200 }, false),
+    ).toBe(first);
+    expect(BracketHelper.matchWinner(first, second, false)).toBe(second);
+    expect(BracketHelper.matchWinner(first, second, true)).toBeNull();
+  });
+
+  it('should give the match to the player who did not forfeit', () => {
+    const ahead = {
+      participant_id: 'a',
+      seed: 1,
+      score: 500,
+      correct_answers: 5,
+      forfeited: true,
+    };
+    const behind = {
+      participant_id: 'b',
+      seed: 2,
+      score: 100,
+      correct_answers: 1,
+    };
+
+    expect(BracketHelper.matchWinner(ahead, behind, true)).toBe(behind);
+    expect(
+      BracketHelper.matchWinner(ahead, { ...behind, forfeited: true }, false),
+    ).toBe(ahead);
+  });
+
+  it('should rank by points in round robin and by progress otherwise', () => {
+    const base = { wins: 0, points: 0, score_for: 0, score_against: 0 };
+    const participants = [
+      { ...base, id: 'a', seed: 1, eliminated_round: 1 },
+      { ...base, id: 'b', seed: 2, eliminated_round: null, wins: 2 },
+      { ...base, id: 'c', seed: 3, eliminated_round: 2, points: 6 },
+    ];
+
+    expect(
+      BracketHelper.standings(
+        participants,
+        TournamentFormat.SINGLE_ELIMINATION,
+        'b',
+      ).map((p) => p.id),
+    ).toEqual(['b', 'c', 'a']);
+    expect(
+      BracketHelper.standings(participants, TournamentFormat.ROUND_ROBIN)[0].id,
+    ).toBe('c');
+  });
+});
@@ -0,0 +1,511 @@
+import {
+  TournamentBracket,
+  TournamentFormat,
+  TournamentMatchStatus,
+} from '@prisma/client';
+
+// Round robin points for a win, a draw and a loss
+export const ROUND_ROBIN_POINTS = { win: 3, draw: 1, loss: 0 };
+
+export type MatchLink = { key: string; slot: number };
+
+/**
+ * A match of a bracket before it is stored. Seeds are only set for the
+ * matches the players start in; everyone else is fed in by `next` (the
+ * winner) and `loser_next` (the loser, double elimination only).
+ */
+export type BracketMatchSpec = {
+  key: string;
+  bracket: TournamentBracket;
+  round: number;
+  position: number;
+  seeds: [number | null, number | null];
+  next?: MatchLink;
+  loser_next?: MatchLink;
+};
+
+export type BracketNode = {
+  id: string;
+  bracket: TournamentBracket;
+  round: number;
+  position: number;
+  status: TournamentMatchStatus;
+  player1_id: string | null;
+  player2_id: string | null;
+  winner_id: string | null;
+  loser_id: string | null;
+  next_match_id: string | null;
+  next_match_slot: number | null;
+  loser_next_match_id: string | null;
+  loser_next_match_slot: number | null;
+};
+
+export type MatchEntry = {
+  participant_id: string;
+  seed: number | null;
+  score: number;
+  correct_answers: number;
+  // left the game before it was over
+  forfeited?: boolean;
+};
+
+export type StandingEntry = {
+  id: string;
+  seed: number | null;
+  wins: number;
+  points: number;
+  score_for: number;
+  score_against: number;
+  eliminated_round: number | null;
+};
+
+const FINISHED: TournamentMatchStatus[] = [
+  TournamentMatchStatus.COMPLETED,
+  TournamentMatchStatus.BYE,
+];
+
+export class BracketHelper {
+  static key(bracket: TournamentBracket, round: number, position: number) {
+    return `${bracket}:${round}:${position}`;
+  }
+
+  static isFinished(node: Pick<BracketNode, 'status'>) {
+    return FINISHED.includes(node.status);
+  }
+
+  /**
+   * Smallest power of two that fits every participant
+   */
+  static bracketSize(participants: number): number {
+    let size = 2;
+    while (size < participants) {
+      size *= 2;
+    }
+    return size;
+  }
+
+  /**
+   * Seeds in bracket order, so that 1 meets 2 only in the final:
+   * 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+   */
+  static seedPositions(size: number): number[] {
+    let order = [1, 2];
+    while (order.length < size) {
+      const length = order.length * 2;
+      order = order.flatMap((seed) => [seed, length + 1 - seed]);
+    }
+    return order;
+  }
+
+  static generate(
+    format: TournamentFormat,
+    participants: number,
+  ): BracketMatchSpec[] {
+    switch (format) {
+      case TournamentFormat.DOUBLE_ELIMINATION:
+        return this.doubleElimination(participants);
+      case TournamentFormat.ROUND_ROBIN:
+        return this.roundRobin(participants);
+      default:
+        return this.singleElimination(participants);
+    }
+  }
+
+  /**
+   * Winners bracket. Seeds past the number of participants are byes.
+   */
+  static singleElimination(participants: number): BracketMatchSpec[] {
+    const size = this.bracketSize(participants);
+    const order = this.seedPositions(size);
+    const rounds = Math.log2(size);
+    const seedOrBye = (seed: number) => (seed <= participants ? seed : null);
+    const specs: BracketMatchSpec[] = [];
+
+    for (let round = 1; round <= rounds; round++) {
+      const count = size / 2 ** round;
+      for (let p = 0; p < count; p++) {
+        specs.push({
+          key: this.key(TournamentBracket.WINNERS, round, p + 1),
+          bracket: TournamentBracket.WINNERS,
+          round,
+          position: p + 1,
+          seeds:
+            round === 1
+              ? [seedOrBye(order[2 * p]), seedOrBye(order[2 * p + 1])]
+              : [null, null],
+          next:
+            round < rounds
+              ? {
+                  key: this.key(
+                    TournamentBracket.WINNERS,
+                    round + 1,
+                    Math.floor(p / 2) + 1,
+                  ),
+                  slot: (p % 2) + 1,
+                }
+              : undefined,
+        });
+      }
+    }
+
+    return specs;
+  }
+
+  /**
+   * Winners bracket, losers bracket and a single grand final between the
+   * two bracket winners. Losers rounds alternate between playing each
+   * other and taking in the losers of the next winners round; those drop
+   * in reversed to put off rematches.
+   */
+  static doubleElimination(participants: number): BracketMatchSpec[] {
+    const winners = this.singleElimination(participants);
+    const size = this.bracketSize(participants);
+    const rounds = Math.log2(size);
+    const losersRounds = 2 * (rounds - 1);
+    const grandFinal = this.key(TournamentBracket.GRAND_FINAL, 1, 1);
+    const losers: BracketMatchSpec[] = [];
+
+    for (let round = 1; round <= losersRounds; round++) {
+      const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+      for (let p = 0; p < count; p++) {
+        let next: MatchLink;
+        if (round === losersRounds) {
+          next = { key: grandFinal, slot: 2 };
+        } else if (round % 2 === 1) {
+          next = {
+            key: this.key(TournamentBracket.LOSERS, round + 1, p + 1),
+            slot: 1,
+          };
+        } else {
+          next = {
+            key: this.key(
+              TournamentBracket.LOSERS,
+              round + 1,
+              Math.floor(p / 2) + 1,
+            ),
+            slot: (p % 2) + 1,
+          };
+        }
+
+        losers.push({
+          key: this.key(TournamentBracket.LOSERS, round, p + 1),
+          bracket: TournamentBracket.LOSERS,
+          round,
+          position: p + 1,
+          seeds: [null, null],
+          next,
+        });
+      }
+    }
+
+    for (const spec of winners) {
+      const p = spec.position - 1;
+      const count = size / 2 ** spec.round;
+
+      if (spec.round === rounds) {
+        spec.next = { key: grandFinal, slot: 1 };
+      }
+
+      if (losersRounds === 0) {
+        spec.loser_next = { key: grandFinal, slot: 2 };
+      } else if (spec.round === 1) {
+        spec.loser_next = {
+          key: this.key(TournamentBracket.LOSERS, 1, Math.floor(p / 2) + 1),
+          slot: (p % 2) + 1,
+        };
+      } else {
+        spec.loser_next = {
+          key: this.key(
+            TournamentBracket.LOSERS,
+            2 * (spec.round - 1),
+            count - p,
+          ),
+          slot: 2,
+        };
+      }
+    }
+
+    return [
+      ...winners,
+      ...losers,
+      {
+        key: grandFinal,
+        bracket: TournamentBracket.GRAND_FINAL,
+        round: 1,
+        position: 1,
+        seeds: [null, null],
+      },
+    ];
+  }
+
+  /**
+   * Everyone plays everyone once (circle method); with an odd number of
+   * participants one of them sits out each round.
+   */
+  static roundRobin(participants: number): BracketMatchSpec[] {
+    const seeds: (number | null)[] = Array.from(
+      { length: participants },
+      (_, i) => i + 1,
+    );
+    if (seeds.length % 2 === 1) {
+      seeds.push(null);
+    }
+
+    const specs: BracketMatchSpec[] = [];
+    for (let round = 1; round < seeds.length; round++) {
+      let position = 0;
+      for (let i = 0; i < seeds.length / 2; i++) {
+        const home = seeds[i];
+        const away = seeds[seeds.length - 1 - i];
+        if (home !== null && away !== null) {
+          position++;
+          specs.push({
+            key: this.key(TournamentBracket.ROUND_ROBIN, round, position),
+            bracket: TournamentBracket.ROUND_ROBIN,
+            round,
+            position,
+            seeds: [home, away],
+          });
+        }
+      }
+      // keep the first seed in place and rotate everyone else
+      seeds.splice(1, 0, seeds.pop());
+    }
+
+    return specs;
+  }
+
+  /**
+   * Finish a match and move its players on. Matches left with a single
+   * player that can no longer get an opponent are decided as byes.
+   * Returns the ids of every node that changed.
+   */
+  static complete(
+    nodes: BracketNode[],
+    matchId: string,
+    winnerId: string | null,
+    loserId: string | null,
+  ): string[] {
+    const changed = new Set<string>();
+    const node = nodes.find((n) => n.id === matchId);
+    this.finish(nodes, node, winnerId, loserId, changed);
+    this.settle(nodes).forEach((id) => changed.add(id));
+    return [...changed];
+  }
+
+  /**
+   * Decide every pending match that has no opponent coming
+   */
+  static settle(nodes: BracketNode[]): string[] {
+    const changed = new Set<string>();
+    let settled = true;
+
+    while (settled) {
+      settled = false;
+      for (const node of nodes) {
+        if (node.status !== TournamentMatchStatus.PENDING) {
+          continue;
+        }
+
+        const slot1 = this.slotState(nodes, node, 1);
+        const slot2 = this.slotState(nodes, node, 2);
+        if (slot1 === 'open' || slot2 === 'open') {
+          continue;
+        }
+        if (slot1 === 'filled' && slot2 === 'filled') {
+          continue;
+        }
+
+        const winner =
+          slot1 === 'filled'
+            ? node.player1_id
+            : slot2 === 'filled'
+              ? node.player2_id
+              : null;
+        this.finish(nodes, node, winner, null, changed);
+        node.status = TournamentMatchStatus.BYE;
+        settled = true;
+      }
+    }
+
+    return [...changed];
+  }
+
+  /**
+   * Matches that can be played now. Round robin rounds are played one at
+   * a time.
+   */
+  static playable<N extends BracketNode>(nodes: N[]): N[] {
+    const ready = nodes.filter(
+      (n) =>
+        n.status === TournamentMatchStatus.PENDING &&
+        n.player1_id &&
+        n.player2_id,
+    );
+
+    const roundRobin = nodes.filter(
+      (n) => n.bracket === TournamentBracket.ROUND_ROBIN,
+    );
+    if (roundRobin.length === 0) {
+      return ready;
+    }
+
+    const openRounds = roundRobin
+      .filter((n) => !this.isFinished(n))
+      .map((n) => n.round);
+    const currentRound = Math.min(...openRounds);
+    return ready.filter((n) => n.round === currentRound);
+  }
+
+  /**
+   * The node whose winner wins the tournament, if the format has one
+   */
+  static finalNode<N extends BracketNode>(nodes: N[]): N | null {
+    const grandFinal = nodes.find(
+      (n) => n.bracket === TournamentBracket.GRAND_FINAL,
+    );
+    if (grandFinal) {
+      return grandFinal;
+    }
+
+    const winners = nodes.filter(
+      (n) => n.bracket === TournamentBracket.WINNERS,
+    );
+    return winners.find((n) => !n.next_match_id) ?? null;
+  }
+
+  /**
+   * Stage a participant is knocked out in. Later stages rank higher;
+   * the grand final comes after the last losers round.
+   */
+  static eliminationStage(nodes: BracketNode[], node: BracketNode): number {
+    if (node.bracket !== TournamentBracket.GRAND_FINAL) {
+      return node.round;
+    }
+
+    const losersRounds = nodes
+      .filter((n) => n.bracket === TournamentBracket.LOSERS)
+      .map((n) => n.round);
+    return Math.max(0, ...losersRounds) + 1;
+  }
+
+  /**
+   * Winner of a played match: a player who forfeited loses it, otherwise
+   * more points, then more correct answers. Ties go to the better seed
+   * unless draws are allowed.
+   */
+  static matchWinner(
+    first: MatchEntry,
+    second: MatchEntry,
+    allowDraw: boolean,
+  ): MatchEntry | null {
+    if (!!first.forfeited !== !!second.forfeited) {
+      return first.forfeited ? second : first;
+    }
+    const diff =
+      first.score - second.score ||
+      first.correct_answers - second.correct_answers;
+    if (diff !== 0) {
+      return diff > 0 ? first : second;
+    }
+    if (allowDraw) {
+      return null;
+    }
+    return (first.seed ?? Infinity) <= (second.seed ?? Infinity)
+      ? first
+      : second;
+  }
+
+  /**
+   * Standings table. Round robin ranks by points and score difference;
+   * elimination formats rank the champion first and everyone else by how
+   * far they got.
+   */
+  static standings<P extends StandingEntry>(
+    participants: P[],
+    format: TournamentFormat,
+    championId?: string | null,
+  ): (P & { rank: number })[] {
+    const bySeed = (a: P, b: P) => (a.seed ?? Infinity) - (b.seed ?? Infinity);
+    const compare =
+      format === TournamentFormat.ROUND_ROBIN
+        ? (a: P, b: P) =>
+            b.points - a.points ||
+            b.score_for - b.score_against - (a.score_for - a.score_against) ||
+            b.score_for - a.score_for ||
+            bySeed(a, b)
+        : (a: P, b: P) =>
+            Number(b.id === championId) - Number(a.id === championId) ||
+            (b.eliminated_round ?? Infinity) -
+              (a.eliminated_round ?? Infinity) ||
+            b.wins - a.wins ||
+            b.score_for - a.score_for ||
+            bySeed(a, b);
+
+    return [...participants]
+      .sort(compare)
+      .map((participant, index) => ({ ...participant, rank: index + 1 }));
+  }
+
+  private static finish(
+    nodes: BracketNode[],
+    node: BracketNode,
+    winnerId: string | null,
+    loserId: string | null,
+    changed: Set<string>,
+  ) {
+    node.status = TournamentMatchStatus.COMPLETED;
+    node.winner_id = winnerId;
+    node.loser_id = loserId;
+    changed.add(node.id);
+
+    this.place(
+      nodes,
+      node.next_match_id,
+      node.next_match_slot,
+      winnerId,
+    )?.forEach((id) => changed.add(id));
+    this.place(
+      nodes,
+      node.loser_next_match_id,
+      node.loser_next_match_slot,
+      loserId,
+    )?.forEach((id) => changed.add(id));
+  }
+
+  private static place(
+    nodes: BracketNode[],
+    matchId: string | null,
+    slot: number | null,
+    participantId: string | null,
+  ): string[] | null {
+    const target = nodes.find((n) => n.id === matchId);
+    if (!target || !participantId) {
+      return null;
+    }
+
+    if (slot === 1) {
+      target.player1_id = participantId;
+    } else {
+      target.player2_id = participantId;
+    }
+    return [target.id];
+  }
+
+  private static slotState(
+    nodes: BracketNode[],
+    node: BracketNode,
+    slot: number,
+  ): 'filled' | 'open' | 'dead' {
+    if (slot === 1 ? node.player1_id : node.player2_id) {
+      return 'filled';
+    }
+
+    const feeders = nodes.filter(
+      (n) =>
+        (n.next_match_id === node.id && n.next_match_slot === slot) ||
+        (n.loser_next_match_id === node.id && n.loser_next_match_slot === slot),
+    );
+    return feeders.every((n) => this.isFinished(n)) ? 'dead' : 'open';
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { TournamentStatus } from '@prisma/client';
+import { TournamentService } from './tournament.service';
+import { CreateTournamentDto } from './dto/create-tournament.dto';
+import { UpdateTournamentDto } from './dto/update-tournament.dto';
+import { OverrideMatchDto, SetSeedsDto } from './dto/tournament-override.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guard/role/roles.guard';
+import { Roles } from '../../../common/guard/role/roles.decorator';
+import { Role } from '../../../common/guard/role/role.enum';
+
+@ApiTags('Tournament')
+@ApiBearerAuth()
+@Controller('tournaments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.USER, Role.ADMIN, Role.HOST)
+export class TournamentController {
+  constructor(private readonly tournamentService: TournamentService) {}
+
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a tournament' })
+  @Post()
+  async create(
+    @Body() createTournamentDto: CreateTournamentDto,
+    @Req() req: any,
+  ) {
+    try {
+      return await this.tournamentService.create(
+        createTournamentDto,
+        req.user.userId,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'List tournaments' })
+  @Get()
+  async findAll(@Query('status') status?: TournamentStatus) {
+    try {
+      return await this.tournamentService.findAll(status);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get a tournament with its participants' })
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    try {
+      return await this.tournamentService.findOne(id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a tournament before it starts' })
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() updateTournamentDto: UpdateTournamentDto,
+  ) {
+    try {
+      return await this.tournamentService.update(id, updateTournamentDto);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Cancel a tournament' })
+  @Post(':id/cancel')
+  async cancel(@Param('id') id: string) {
+    try {
+      return await this.tournamentService.cancel(id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Register for a tournament' })
+  @Post(':id/register')
+  async register(@Param('id') id: string, @Req() req: any) {
+    try {
+      return await this.tournamentService.register(id, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Withdraw from a tournament before it starts' })
+  @Post(':id/withdraw')
+  async withdraw(@Param('id') id: string, @Req() req: any) {
+    try {
+      return await this.tournamentService.withdraw(id, req.user.userId);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Set manual seeds before the tournament starts' })
+  @Patch(':id/seeds')
+  async setSeeds(@Param('id') id: string, @Body() setSeedsDto: SetSeedsDto) {
+    try {
+      return await this.tournamentService.setSeeds(id, setSeedsDto);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Close registration, draw the bracket and start the first matches',
+  })
+  @Post(':id/start')
+  async start(@Param('id') id: string) {
+    try {
+      return await this.tournamentService.start(id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the bracket of a tournament' })
+  @Get(':id/bracket')
+  async getBracket(@Param('id') id: string) {
+    try {
+      return await this.tournamentService.getBracket(id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the standings of a tournament' })
+  @Get(':id/standings')
+  async getStandings(@Param('id') id: string) {
+    try {
+      return await this.tournamentService.getStandings(id);
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Set the winner of a match' })
+  @Post('matches/:matchId/override')
+  async overrideMatch(
+    @Param('matchId') matchId: string,
+    @Body() overrideMatchDto: OverrideMatchDto,
+  ) {
+    try {
+      return await this.tournamentService.overrideMatch(
+        matchId,
+        overrideMatchDto,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+}
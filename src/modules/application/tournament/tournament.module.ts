@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { TournamentService } from './tournament.service';
+import { TournamentController } from './tournament.controller';
+import { MessageGateway } from '../../chat/message/message.gateway';
+
+// Global so game services can report finished match games
+@Global()
+@Module({
+  controllers: [TournamentController],
+  providers: [TournamentService],
+  imports: [MessageGateway],
+  exports: [TournamentService],
+})
+export class TournamentModule {}
@@ -0,0 +1,1000 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  GameMode,
+  GamePhase,
+  PlayerStatus,
+  Tournament,
+  TournamentBracket,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentMatchStatus,
+  TournamentStatus,
+} from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MessageGateway } from '../../chat/message/message.gateway';
+import { RatingService } from '../leaderboard/rating.service';
+import { CreateTournamentDto } from './dto/create-tournament.dto';
+import { UpdateTournamentDto } from './dto/update-tournament.dto';
+import { OverrideMatchDto, SetSeedsDto } from './dto/tournament-override.dto';
+import {
+  BracketHelper,
+  MatchEntry,
+  ROUND_ROBIN_POINTS,
+} from './helpers/bracket.helper';
+
+type MatchResult = {
+  winner_id: string | null;
+  loser_id: string | null;
+  player1_score?: number | null;
+  player2_score?: number | null;
+  is_override?: boolean;
+};
+
+const userSelect = { id: true, name: true, avatar: true };
+
+@Injectable()
+export class TournamentService {
+  private readonly logger = new Logger(TournamentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gameGateway: MessageGateway,
+    private readonly ratings: RatingService,
+  ) {}
+
+  async create(createDto: CreateTournamentDto, hostId: string) {
+    try {
+      const language = await this.prisma.language.findUnique({
+        where: { id: createDto.language_id },
+      });
+      if (!language) {
+        throw new NotFoundException('Language not found');
+      }
+
+      const tournament = await this.prisma.tournament.create({
+        data: {
+          name: createDto.name,
+          description: createDto.description,
+          format: createDto.format,
+          language_id: createDto.language_id,
+          host_id: hostId,
+          max_participants: createDto.max_participants,
+          starts_at: createDto.starts_at
+            ? new Date(createDto.starts_at)
+            : undefined,
+        },
+      });
+
+      return {
+        success: true,
+        message: 'Tournament created successfully',
+        data: tournament,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async findAll(status?: TournamentStatus) {
+    try {
+      const tournaments = await this.prisma.tournament.findMany({
+        where: status ? { status } : undefined,
+        include: {
+          language: { select: { id: true, name: true, code: true } },
+          _count: { select: { participants: true } },
+        },
+        orderBy: { created_at: 'desc' },
+      });
+
+      return {
+        success: true,
+        message: 'Tournaments retrieved successfully',
+        data: tournaments,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async findOne(id: string) {
+    try {
+      const tournament = await this.prisma.tournament.findUnique({
+        where: { id },
+        include: {
+          language: { select: { id: true, name: true, code: true } },
+          host: { select: userSelect },
+          participants: {
+            include: { user: { select: userSelect } },
+            orderBy: [{ seed: 'asc' }, { created_at: 'asc' }],
+          },
+        },
+      });
+      if (!tournament) {
+        throw new NotFoundException('Tournament not found');
+      }
+
+      return {
+        success: true,
+        message: 'Tournament retrieved successfully',
+        data: tournament,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async update(id: string, updateDto: UpdateTournamentDto) {
+    try {
+      const tournament = await this.getInStatus(
+        id,
+        TournamentStatus.REGISTRATION,
+      );
+
+      if (
+        updateDto.max_participants !== undefined &&
+        updateDto.max_participants < (await this.participantCount(id))
+      ) {
+        throw new BadRequestException(
+          'More players are already registered than the new limit allows',
+        );
+      }
+
+      const updated = await this.prisma.tournament.update({
+        where: { id: tournament.id },
+        data: {
+          name: updateDto.name,
+          description: updateDto.description,
+          format: updateDto.format,
+          language_id: updateDto.language_id,
+          max_participants: updateDto.max_participants,
+          starts_at: updateDto.starts_at
+            ? new Date(updateDto.starts_at)
+            : undefined,
+        },
+      });
+
+      return {
+        success: true,
+        message: 'Tournament updated successfully',
+        data: updated,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async cancel(id: string) {
+    try {
+      const tournament = await this.prisma.tournament.findUnique({
+        where: { id },
+        include: { participants: { select: { user_id: true } } },
+      });
+      if (!tournament) {
+        throw new NotFoundException('Tournament not found');
+      }
+      if (
+        tournament.status === TournamentStatus.COMPLETED ||
+        tournament.status === TournamentStatus.CANCELLED
+      ) {
+        throw new BadRequestException('Tournament has already finished');
+      }
+
+      const cancelled = await this.prisma.tournament.update({
+        where: { id },
+        data: { status: TournamentStatus.CANCELLED },
+      });
+
+      this.notify(
+        tournament.participants.map((p) => p.user_id),
+        'tournamentCancelled',
+        { tournament_id: id, name: tournament.name },
+      );
+
+      return {
+        success: true,
+        message: 'Tournament cancelled successfully',
+        data: cancelled,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async register(tournamentId: string, userId: string) {
+    try {
+      const tournament = await this.getInStatus(
+        tournamentId,
+        TournamentStatus.REGISTRATION,
+      );
+
+      const existing = await this.prisma.tournamentParticipant.findUnique({
+        where: {
+          tournament_id_user_id: {
+            tournament_id: tournamentId,
+            user_id: userId,
+          },
+        },
+      });
+      if (existing) {
+        throw new BadRequestException(
+          'You are already registered for this tournament',
+        );
+      }
+
+      if (
+        (await this.participantCount(tournamentId)) >=
+        tournament.max_participants
+      ) {
+        throw new BadRequestException('Tournament is full');
+      }
+
+      const participant = await this.prisma.tournamentParticipant.create({
+        data: { tournament_id: tournamentId, user_id: userId },
+        include: { user: { select: userSelect } },
+      });
+
+      return {
+        success: true,
+        message: 'Registered for the tournament successfully',
+        data: participant,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async withdraw(tournamentId: string, userId: string) {
+    try {
+      await this.getInStatus(tournamentId, TournamentStatus.REGISTRATION);
+
+      const { count } = await this.prisma.tournamentParticipant.deleteMany({
+        where: { tournament_id: tournamentId, user_id: userId },
+      });
+      if (count === 0) {
+        throw new NotFoundException(
+          'You are not registered for this tournament',
+        );
+      }
+
+      return {
+        success: true,
+        message: 'Withdrawn from the tournament successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Set manual seeds before the start. Seeded participants are placed
+   * first, in seed order; the rest follow by rating.
+   */
+  async setSeeds(tournamentId: string, dto: SetSeedsDto) {
+    try {
+      await this.getInStatus(tournamentId, TournamentStatus.REGISTRATION);
+
+      const participants = await this.prisma.tournamentParticipant.findMany({
+        where: { tournament_id: tournamentId },
+        select: { id: true },
+      });
+      const participantIds = new Set(participants.map((p) => p.id));
+
+      for (const entry of dto.seeds) {
+        if (!participantIds.has(entry.participant_id)) {
+          throw new BadRequestException(
+            `Participant ${entry.participant_id} is not registered for this tournament`,
+          );
+        }
+      }
+      const seeds = dto.seeds.map((s) => s.seed);
+      const ids = dto.seeds.map((s) => s.participant_id);
+      if (new Set(seeds).size !== seeds.length) {
+        throw new BadRequestException('Each seed can only be given once');
+      }
+      if (new Set(ids).size !== ids.length) {
+        throw new BadRequestException(
+          'Each participant can only be seeded once',
+        );
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.tournamentParticipant.updateMany({
+          where: { tournament_id: tournamentId },
+          data: { seed: null },
+        }),
+        ...dto.seeds.map((entry) =>
+          this.prisma.tournamentParticipant.update({
+            where: { id: entry.participant_id },
+            data: { seed: entry.seed },
+          }),
+        ),
+      ]);
+
+      return {
+        success: true,
+        message: 'Seeds updated successfully',
+        data: await this.prisma.tournamentParticipant.findMany({
+          where: { tournament_id: tournamentId },
+          include: { user: { select: userSelect } },
+          orderBy: [{ seed: 'asc' }, { created_at: 'asc' }],
+        }),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Close registration, seed the participants, draw the bracket and create
+   * the games of the first matches.
+   */
+  async start(tournamentId: string) {
+    try {
+      const tournament = await this.getInStatus(
+        tournamentId,
+        TournamentStatus.REGISTRATION,
+      );
+
+      const participants = await this.prisma.tournamentParticipant.findMany({
+        where: { tournament_id: tournamentId },
+      });
+      if (participants.length < 2) {
+        throw new BadRequestException(
+          'At least 2 players are needed to start the tournament',
+        );
+      }
+
+      const ratings = await this.seedingRatings(
+        participants.map((p) => p.user_id),
+      );
+      const rating = (userId: string) => ratings.get(userId) ?? 0;
+      const seeded = [...participants]
+        .sort(
+          (a, b) =>
+            (a.seed ?? Infinity) - (b.seed ?? Infinity) ||
+            rating(b.user_id) - rating(a.user_id) ||
+            a.created_at.getTime() - b.created_at.getTime(),
+        )
+        .map((participant, index) => ({ ...participant, seed: index + 1 }));
+      const bySeed = (seed: number | null) =>
+        seed ? seeded[seed - 1].id : null;
+
+      const specs = BracketHelper.generate(tournament.format, seeded.length);
+
+      await this.prisma.$transaction(
+        async (tx) => {
+          for (const participant of seeded) {
+            await tx.tournamentParticipant.update({
+              where: { id: participant.id },
+              data: {
+                seed: participant.seed,
+                rating: rating(participant.user_id),
+              },
+            });
+          }
+
+          const ids = new Map<string, string>();
+          for (const spec of specs) {
+            const match = await tx.tournamentMatch.create({
+              data: {
+                tournament_id: tournamentId,
+                bracket: spec.bracket,
+                round: spec.round,
+                position: spec.position,
+                player1_id: bySeed(spec.seeds[0]),
+                player2_id: bySeed(spec.seeds[1]),
+              },
+            });
+            ids.set(spec.key, match.id);
+          }
+
+          for (const spec of specs) {
+            if (!spec.next && !spec.loser_next) {
+              continue;
+            }
+            await tx.tournamentMatch.update({
+              where: { id: ids.get(spec.key) },
+              data: {
+                next_match_id: spec.next ? ids.get(spec.next.key) : null,
+                next_match_slot: spec.next?.slot ?? null,
+                loser_next_match_id: spec.loser_next
+                  ? ids.get(spec.loser_next.key)
+                  : null,
+                loser_next_match_slot: spec.loser_next?.slot ?? null,
+              },
+            });
+          }
+
+          await tx.tournament.update({
+            where: { id: tournamentId },
+            data: { status: TournamentStatus.IN_PROGRESS },
+          });
+        },
+        { timeout: 30000 },
+      );
+
+      // byes are decided straight away
+      const matches = await this.prisma.tournamentMatch.findMany({
+        where: { tournament_id: tournamentId },
+      });
+      const changed = BracketHelper.settle(matches);
+      await this.saveMatches(matches.filter((m) => changed.includes(m.id)));
+
+      this.notify(
+        seeded.map((p) => p.user_id),
+        'tournamentStarted',
+        { tournament_id: tournamentId, name: tournament.name },
+      );
+
+      const games = await this.scheduleMatches(tournamentId);
+
+      return {
+        success: true,
+        message: 'Tournament started successfully',
+        data: {
+          participants: seeded.length,
+          matches: specs.length,
+          games_created: games,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Matches grouped by bracket and round
+   */
+  async getBracket(tournamentId: string) {
+    try {
+      const tournament = await this.prisma.tournament.findUnique({
+        where: { id: tournamentId },
+        include: {
+          participants: { include: { user: { select: userSelect } } },
+          matches: {
+            include: {
+              game: {
+                select: {
+                  id: true,
+                  game_phase: true,
+                  rooms: { select: { code: true } },
+                },
+              },
+            },
+            orderBy: [{ round: 'asc' }, { position: 'asc' }],
+          },
+        },
+      });
+      if (!tournament) {
+        throw new NotFoundException('Tournament not found');
+      }
+
+      const participants = new Map(
+        tournament.participants.map((p) => [
+          p.id,
+          { participant_id: p.id, seed: p.seed, user: p.user },
+        ]),
+      );
+
+      const brackets: Record<string, { round: number; matches: any[] }[]> = {};
+      for (const match of tournament.matches) {
+        const rounds = (brackets[match.bracket] ??= []);
+        let round = rounds.find((r) => r.round === match.round);
+        if (!round) {
+          round = { round: match.round, matches: [] };
+          rounds.push(round);
+        }
+
+        round.matches.push({
+          id: match.id,
+          position: match.position,
+          status: match.status,
+          player1: participants.get(match.player1_id) ?? null,
+          player2: participants.get(match.player2_id) ?? null,
+          player1_score: match.player1_score,
+          player2_score: match.player2_score,
+          winner_id: match.winner_id,
+          is_override: match.is_override,
+          game_id: match.game_id,
+          room_code: match.game?.rooms[0]?.code ?? null,
+          completed_at: match.completed_at,
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Bracket retrieved successfully',
+        data: {
+          tournament_id: tournament.id,
+          format: tournament.format,
+          status: tournament.status,
+          winner: participants.get(tournament.winner_id) ?? null,
+          brackets,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  async getStandings(tournamentId: string) {
+    try {
+      const tournament = await this.prisma.tournament.findUnique({
+        where: { id: tournamentId },
+        include: {
+          participants: { include: { user: { select: userSelect } } },
+        },
+      });
+      if (!tournament) {
+        throw new NotFoundException('Tournament not found');
+      }
+
+      const standings = BracketHelper.standings(
+        tournament.participants,
+        tournament.format,
+        tournament.winner_id,
+      ).map((p) => ({
+        rank: p.final_rank ?? p.rank,
+        participant_id: p.id,
+        user: p.user,
+        seed: p.seed,
+        rating: p.rating,
+        wins: p.wins,
+        losses: p.losses,
+        draws: p.draws,
+        points: p.points,
+        score_for: p.score_for,
+        score_against: p.score_against,
+        eliminated_round: p.eliminated_round,
+      }));
+
+      return {
+        success: true,
+        message: 'Standings retrieved successfully',
+        data: {
+          tournament_id: tournament.id,
+          format: tournament.format,
+          status: tournament.status,
+          standings,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Admin decision of a match that has both players, e.g. after a no-show.
+   * A match game still running is left alone; its result is ignored.
+   */
+  async overrideMatch(matchId: string, dto: OverrideMatchDto) {
+    try {
+      const match = await this.prisma.tournamentMatch.findUnique({
+        where: { id: matchId },
+        include: { tournament: true },
+      });
+      if (!match) {
+        throw new NotFoundException('Match not found');
+      }
+      if (match.tournament.status !== TournamentStatus.IN_PROGRESS) {
+        throw new BadRequestException('Tournament is not in progress');
+      }
+      if (BracketHelper.isFinished(match)) {
+        throw new BadRequestException('Match has already been decided');
+      }
+      if (!match.player1_id || !match.player2_id) {
+        throw new BadRequestException('Match is still waiting for a player');
+      }
+      if (![match.player1_id, match.player2_id].includes(dto.winner_id)) {
+        throw new BadRequestException('Winner must be a player of the match');
+      }
+
+      const loserId =
+        dto.winner_id === match.player1_id
+          ? match.player2_id
+          : match.player1_id;
+
+      await this.applyResult(match.tournament, match.id, {
+        winner_id: dto.winner_id,
+        loser_id: loserId,
+        is_override: true,
+      });
+
+      return {
+        success: true,
+        message: 'Match result set successfully',
+        data: { match_id: match.id, winner_id: dto.winner_id },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Called when a game ends. If the game is a tournament match, the match
+   * is decided from the final scores, or lost by a player who left, and
+   * the bracket moves on. Failures
+   * are logged and do not fail ending the game.
+   */
+  async recordGameResult(gameId: string) {
+    try {
+      const match = await this.prisma.tournamentMatch.findUnique({
+        where: { game_id: gameId },
+        include: {
+          tournament: true,
+          game: { include: { game_players: true } },
+        },
+      });
+      if (
+        !match ||
+        match.status !== TournamentMatchStatus.READY ||
+        match.tournament.status !== TournamentStatus.IN_PROGRESS
+      ) {
+        return null;
+      }
+
+      const participants = await this.prisma.tournamentParticipant.findMany({
+        where: { id: { in: [match.player1_id, match.player2_id] } },
+      });
+      const entry = (participantId: string): MatchEntry => {
+        const participant = participants.find((p) => p.id === participantId);
+        const player = match.game.game_players.find(
+          (gp) => gp.user_id === participant?.user_id,
+        );
+        return {
+          participant_id: participantId,
+          seed: participant?.seed ?? null,
+          score: player?.score ?? 0,
+          correct_answers: player?.correct_answers ?? 0,
+          forfeited: player?.status === PlayerStatus.QUIT,
+        };
+      };
+
+      const first = entry(match.player1_id);
+      const second = entry(match.player2_id);
+      const winner = BracketHelper.matchWinner(
+        first,
+        second,
+        match.bracket === TournamentBracket.ROUND_ROBIN,
+      );
+      const loser = winner ? (winner === first ? second : first) : null;
+
+      await this.applyResult(match.tournament, match.id, {
+        winner_id: winner?.participant_id ?? null,
+        loser_id: loser?.participant_id ?? null,
+        player1_score: first.score,
+        player2_score: second.score,
+      });
+
+      return { match_id: match.id, winner_id: winner?.participant_id ?? null };
+    } catch (error) {
+      this.logger.error(
+        `Error recording tournament result for game ${gameId}`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  private async getInStatus(id: string, status: TournamentStatus) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id },
+    });
+    if (!tournament) {
+      throw new NotFoundException('Tournament not found');
+    }
+    if (tournament.status !== status) {
+      throw new BadRequestException(
+        `Tournament is ${tournament.status.toLowerCase().replace('_', ' ')}`,
+      );
+    }
+    return tournament;
+  }
+
+  private participantCount(tournamentId: string) {
+    return this.prisma.tournamentParticipant.count({
+      where: { tournament_id: tournamentId },
+    });
+  }
+
+  /**
+   * Rating used to seed players: their online quick game rating, rounded
+   * for the participant record
+   */
+  private async seedingRatings(userIds: string[]) {
+    const ratings = await this.ratings.ratingsFor(
+      userIds,
+      GameMode.ONLINE_QUICK_GAME,
+    );
+
+    return new Map(
+      [...ratings.entries()].map(([userId, rating]) => [
+        userId,
+        Math.round(rating),
+      ]),
+    );
+  }
+
+  /**
+   * Decide a match, move its players on, update the participants' records
+   * and either finish the tournament or start the matches that are now
+   * ready.
+   */
+  private async applyResult(
+    tournament: Tournament,
+    matchId: string,
+    result: MatchResult,
+  ) {
+    const matches = await this.prisma.tournamentMatch.findMany({
+      where: { tournament_id: tournament.id },
+    });
+    const match = matches.find((m) => m.id === matchId);
+    const changed = BracketHelper.complete(
+      matches,
+      matchId,
+      result.winner_id,
+      result.loser_id,
+    );
+
+    match.player1_score = result.player1_score ?? null;
+    match.player2_score = result.player2_score ?? null;
+    match.is_override = result.is_override ?? false;
+
+    const isDraw = !result.winner_id;
+    const isEliminated =
+      !!result.loser_id &&
+      !match.loser_next_match_id &&
+      tournament.format !== TournamentFormat.ROUND_ROBIN;
+    const record = (participantId: string, own: number, other: number) => {
+      const won = participantId === result.winner_id;
+      const lost = participantId === result.loser_id;
+      return this.prisma.tournamentParticipant.update({
+        where: { id: participantId },
+        data: {
+          wins: { increment: won ? 1 : 0 },
+          losses: { increment: lost ? 1 : 0 },
+          draws: { increment: isDraw ? 1 : 0 },
+          points: {
+            increment: won
+              ? ROUND_ROBIN_POINTS.win
+              : isDraw
+                ? ROUND_ROBIN_POINTS.draw
+                : ROUND_ROBIN_POINTS.loss,
+          },
+          score_for: { increment: own },
+          score_against: { increment: other },
+          eliminated_round:
+            lost && isEliminated
+              ? BracketHelper.eliminationStage(matches, match)
+              : undefined,
+        },
+      });
+    };
+
+    const player1Score = match.player1_score ?? 0;
+    const player2Score = match.player2_score ?? 0;
+    await this.prisma.$transaction([
+      ...this.matchUpdates(matches.filter((m) => changed.includes(m.id))),
+      record(match.player1_id, player1Score, player2Score),
+      record(match.player2_id, player2Score, player1Score),
+    ]);
+
+    const finalNode = BracketHelper.finalNode(matches);
+    const isOver = finalNode
+      ? BracketHelper.isFinished(finalNode)
+      : matches.every((m) => BracketHelper.isFinished(m));
+
+    if (isOver) {
+      await this.completeTournament(tournament, finalNode?.winner_id ?? null);
+    } else {
+      await this.scheduleMatches(tournament.id);
+    }
+  }
+
+  private async completeTournament(
+    tournament: Tournament,
+    championId: string | null,
+  ) {
+    const participants = await this.prisma.tournamentParticipant.findMany({
+      where: { tournament_id: tournament.id },
+    });
+    const standings = BracketHelper.standings(
+      participants,
+      tournament.format,
+      championId,
+    );
+    const winnerId = championId ?? standings[0]?.id ?? null;
+
+    await this.prisma.$transaction([
+      ...standings.map((p) =>
+        this.prisma.tournamentParticipant.update({
+          where: { id: p.id },
+          data: { final_rank: p.rank },
+        }),
+      ),
+      this.prisma.tournament.update({
+        where: { id: tournament.id },
+        data: { status: TournamentStatus.COMPLETED, winner_id: winnerId },
+      }),
+    ]);
+
+    const winner = participants.find((p) => p.id === winnerId);
+    this.notify(
+      participants.map((p) => p.user_id),
+      'tournamentCompleted',
+      {
+        tournament_id: tournament.id,
+        name: tournament.name,
+        winner_user_id: winner?.user_id ?? null,
+      },
+    );
+  }
+
+  /**
+   * Create games for every match whose players are known. Returns the
+   * number of games created.
+   */
+  private async scheduleMatches(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        participants: { include: { user: { select: userSelect } } },
+        matches: true,
+      },
+    });
+
+    const playable = BracketHelper.playable(tournament.matches);
+    for (const match of playable) {
+      await this.createMatchGame(tournament, match, tournament.participants);
+    }
+    return playable.length;
+  }
+
+  /**
+   * Online quick game for a match. The first player hosts it and both
+   * players are told the room code.
+   */
+  private async createMatchGame(
+    tournament: Tournament,
+    match: TournamentMatch,
+    participants: {
+      id: string;
+      user_id: string;
+      user: { id: string; name: string };
+    }[],
+  ) {
+    const players = [match.player1_id, match.player2_id].map((id) =>
+      participants.find((p) => p.id === id),
+    );
+    const host = players[0];
+
+    const { game, room } = await this.prisma.$transaction(async (tx) => {
+      const game = await tx.game.create({
+        data: {
+          mode: GameMode.ONLINE_QUICK_GAME,
+          language_id: tournament.language_id,
+          host_id: host.user_id,
+          game_phase: GamePhase.WAITING,
+        },
+      });
+
+      const room = await tx.room.create({
+        data: {
+          code: `RM${randomBytes(3).toString('hex').toUpperCase()}`,
+          game_id: game.id,
+          host_id: host.user_id,
+          name: `${tournament.name} - ${match.bracket.toLowerCase().replace('_', ' ')} round ${match.round}`,
+          status: 'WAITING',
+        },
+      });
+
+      for (const [index, participant] of players.entries()) {
+        await tx.gamePlayer.create({
+          data: {
+            game_id: game.id,
+            room_id: room.id,
+            user_id: participant.user_id,
+            player_order: index + 1,
+            status: 'ACTIVE',
+            player_name: participant.user.name,
+          },
+        });
+      }
+
+      await tx.tournamentMatch.update({
+        where: { id: match.id },
+        data: { status: TournamentMatchStatus.READY, game_id: game.id },
+      });
+
+      return { game, room };
+    });
+
+    this.notify(
+      players.map((p) => p.user_id),
+      'tournamentMatchReady',
+      {
+        tournament_id: tournament.id,
+        match_id: match.id,
+        bracket: match.bracket,
+        round: match.round,
+        game_id: game.id,
+        room_code: room.code,
+        host_id: host.user_id,
+        players: players.map((p) => ({ participant_id: p.id, user: p.user })),
+      },
+    );
+  }
+
+  private async saveMatches(matches: TournamentMatch[]) {
+    await this.prisma.$transaction(this.matchUpdates(matches));
+  }
+
+  private matchUpdates(matches: TournamentMatch[]) {
+    return matches.map((m) =>
+      this.prisma.tournamentMatch.update({
+        where: { id: m.id },
+        data: {
+          status: m.status,
+          player1_id: m.player1_id,
+          player2_id: m.player2_id,
+          winner_id: m.winner_id,
+          loser_id: m.loser_id,
+          player1_score: m.player1_score,
+          player2_score: m.player2_score,
+          is_override: m.is_override,
+          completed_at: BracketHelper.isFinished(m)
+            ? (m.completed_at ?? new Date())
+            : null,
+        },
+      }),
+    );
+  }
+
+  private notify(userIds: string[], event: string, payload: any) {
+    if (userIds.length > 0) {
+      this.gameGateway.server.to(userIds).emit(event, payload);
+    }
+  }
+}